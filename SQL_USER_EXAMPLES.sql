@@ -21,27 +21,28 @@
 -- =====================================================
 
 -- Example 1: Teacher with hashed password for 'pass@123'
--- Hash for 'pass@123': $2a$10$Y9Z1X8C2B3A4D5E6F7G8H9J0K1L2M3N4O5P6Q7R8S9T0U1V2W3
-INSERT INTO users (email, username, password_hash, role, full_name, is_active)
+-- must_change_password makes them pick their own password on first login
+INSERT INTO users (email, username, password_hash, role, full_name, is_active, must_change_password)
 VALUES (
   'teacher1@example.com',
   'teacher1',
-  '$2a$10$Y9Z1X8C2B3A4D5E6F7G8H9J0K1L2M3N4O5P6Q7R8S9T0U1V2W3',
+  '$2a$10$YWAHBH81i2mjCfEuHE9GTuFnh9F9syM3bCQ.QWayifL2KaFHB3Pfi',
   'teacher',
   'Dr. John Smith',
+  TRUE,
   TRUE
 )
 ON CONFLICT (username) DO NOTHING;
 
--- Example 2: Another teacher
--- Hash for 'teacher@123': $2a$10$A1B2C3D4E5F6G7H8I9J0K1L2M3N4O5P6Q7R8S9T0U1V2W3X4
-INSERT INTO users (email, username, password_hash, role, full_name, is_active)
+-- Example 2: Another teacher, password 'teacher@123'
+INSERT INTO users (email, username, password_hash, role, full_name, is_active, must_change_password)
 VALUES (
   'teacher2@example.com',
   'teacher2',
-  '$2a$10$A1B2C3D4E5F6G7H8I9J0K1L2M3N4O5P6Q7R8S9T0U1V2W3X4',
+  '$2a$10$pGbv40SDIvrZdMGLQHRwrOEHDzTrxfspdUiYvMzsouH29hHku.mIa',
   'teacher',
   'Dr. Sarah Johnson',
+  TRUE,
   TRUE
 )
 ON CONFLICT (username) DO NOTHING;
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteAcademicYear, updateAcademicYear } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertAcademicYearInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+
+/**
+ * PATCH /api/academic-years/:id
+ * Updates the start/end year.
+ * Needs department-wide manage_groups.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "manage_groups");
+    await assertAcademicYearInDepartment(user, params.id);
+
+    const { start_year, end_year } = await request.json();
+    const academicYear = await updateAcademicYear(params.id, {
+      ...(start_year !== undefined && { start_year }),
+      ...(end_year !== undefined && { end_year }),
+    });
+    return NextResponse.json({ academicYear });
+  } catch (error) {
+    return apiErrorResponse(error, "update academic year");
+  }
+}
+
+/**
+ * DELETE /api/academic-years/:id
+ * Deletes an academic year and everything in it.
+ * Needs department-wide manage_groups.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "manage_groups");
+    await assertAcademicYearInDepartment(user, params.id);
+
+    await deleteAcademicYear(params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiErrorResponse(error, "delete academic year");
+  }
+}
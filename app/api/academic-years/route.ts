@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAcademicYear } from "@/lib/database";
+import { apiErrorResponse, requirePermission, requireSessionUser } from "@/lib/apiAuth";
+
+/**
+ * POST /api/academic-years
+ * Creates an academic year (and its four presentations) in the caller's
+ * department. Needs department-wide manage_groups.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "manage_groups");
+
+    const { start_year, end_year } = await request.json();
+    if (!Number.isInteger(start_year) || !Number.isInteger(end_year)) {
+      return NextResponse.json(
+        { error: "start_year and end_year must be whole numbers" },
+        { status: 400 }
+      );
+    }
+
+    const academicYear = await createAcademicYear({
+      start_year,
+      end_year,
+      department_id: user.department_id,
+    });
+    return NextResponse.json({ academicYear });
+  } catch (error) {
+    return apiErrorResponse(error, "create academic year");
+  }
+}
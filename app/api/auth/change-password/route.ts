@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { changePassword, validateNewPassword, verifyUserPassword } from "@/lib/auth";
+import { apiErrorResponse, readSessionToken, requireSessionUser } from "@/lib/apiAuth";
+
+/**
+ * POST /api/auth/change-password
+ * Changes the caller's own password (also how a temporary password is
+ * replaced). Other sessions of the user are signed out.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireSessionUser(request, { allowPendingPasswordChange: true });
+
+    const { currentPassword, newPassword } = await request.json();
+    if (!currentPassword || !(await verifyUserPassword(user.id, String(currentPassword)))) {
+      return NextResponse.json({ error: "Current password is incorrect" }, { status: 400 });
+    }
+
+    const problem = validateNewPassword(String(newPassword || ""), String(currentPassword));
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    const updated = await changePassword(
+      user.id,
+      String(newPassword),
+      readSessionToken(request) || undefined
+    );
+    return NextResponse.json({ user: updated });
+  } catch (error) {
+    return apiErrorResponse(error, "change password");
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { setActiveDepartment } from "@/lib/auth";
+import { getDepartments } from "@/lib/database";
+import { apiErrorResponse, requireSessionUser, requireSuperAdmin } from "@/lib/apiAuth";
+
+/**
+ * PUT /api/auth/department
+ * Switches a super-admin to another department; everything they see and
+ * change afterwards belongs to it. Super-admins only.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requireSessionUser(request);
+    requireSuperAdmin(user);
+
+    const { departmentId } = await request.json();
+    const departments = await getDepartments();
+    if (!departments.some((d) => d.id === departmentId)) {
+      return NextResponse.json({ error: "Department not found" }, { status: 404 });
+    }
+
+    const updated = await setActiveDepartment(user.id, departmentId);
+    return NextResponse.json({ user: updated });
+  } catch (error) {
+    return apiErrorResponse(error, "switch department");
+  }
+}
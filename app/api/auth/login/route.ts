@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loginUser, LoginThrottledError } from "@/lib/auth";
+import { setSessionCookie } from "@/lib/apiAuth";
+
+/**
+ * The caller's address: the platform's own (request.ip) where there is one,
+ * otherwise the hop appended to X-Forwarded-For by the proxy in front of the
+ * app. Earlier entries come from the client and could be spoofed to dodge
+ * the per-IP throttle.
+ */
+function getClientIp(request: NextRequest): string | undefined {
+  if (request.ip) return request.ip;
+  const hops = (request.headers.get("x-forwarded-for") || "").split(",");
+  return hops[hops.length - 1].trim() || undefined;
+}
+
+/**
+ * POST /api/auth/login
+ * Checks credentials, creates a session and sets it as an httpOnly cookie.
+ * Repeated failures are throttled per username and per IP address (429).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json();
+
+    const { token, ...user } = await loginUser({ username, password }, getClientIp(request));
+
+    const response = NextResponse.json({ user });
+    setSessionCookie(response, token!);
+    return response;
+  } catch (error) {
+    if (error instanceof LoginThrottledError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { "Retry-After": String(error.retryAfterSeconds) } }
+      );
+    }
+    const message = error instanceof Error ? error.message : "Login failed";
+    return NextResponse.json({ error: message }, { status: 401 });
+  }
+}
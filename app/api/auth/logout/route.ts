@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logoutUser } from "@/lib/auth";
+import { clearSessionCookie, readSessionToken } from "@/lib/apiAuth";
+
+/**
+ * POST /api/auth/logout
+ * Deletes the session row and clears the cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = readSessionToken(request);
+    if (token) {
+      await logoutUser(token);
+    }
+  } catch (error) {
+    console.error("Error in logout endpoint:", error);
+  }
+
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ApiError,
+  apiErrorResponse,
+  clearSessionCookie,
+  readSessionToken,
+  requireSessionUser,
+  setSessionCookie,
+} from "@/lib/apiAuth";
+
+/**
+ * GET /api/auth/session
+ * Returns the signed-in user and refreshes the cookie's sliding expiry.
+ * The cookie is cleared only when the session is invalid or expired (401),
+ * not when the session could not be checked.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireSessionUser(request, { allowPendingPasswordChange: true });
+
+    const response = NextResponse.json({ user });
+    setSessionCookie(response, readSessionToken(request)!);
+    return response;
+  } catch (error) {
+    const response = apiErrorResponse(error, "load session");
+    if (error instanceof ApiError && error.status === 401) {
+      clearSessionCookie(response);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createDepartment } from "@/lib/database";
+import { apiErrorResponse, requireSessionUser, requireSuperAdmin } from "@/lib/apiAuth";
+
+/**
+ * POST /api/departments
+ * Creates a department. Super-admins only.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireSessionUser(request);
+    requireSuperAdmin(user);
+
+    const { name, code } = await request.json();
+    if (!String(name || "").trim() || !String(code || "").trim()) {
+      return NextResponse.json(
+        { error: "Missing required fields: name, code" },
+        { status: 400 }
+      );
+    }
+    if (!/^[A-Za-z0-9-]{1,20}$/.test(String(code).trim())) {
+      return NextResponse.json(
+        { error: "The code must be up to 20 letters, digits or dashes" },
+        { status: 400 }
+      );
+    }
+
+    const department = await createDepartment(
+      { name: String(name), code: String(code) },
+      user.id
+    );
+    return NextResponse.json({ department });
+  } catch (error) {
+    return apiErrorResponse(error, "create department");
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEvaluation, getPresentationForStudent, updateEvaluation } from "@/lib/database";
+import { validateMark } from "@/lib/calculations";
+import { findCriterion, getPresentationRubric } from "@/lib/rubric";
+import {
+  apiErrorResponse,
+  assertCanModifyStudent,
+  assertCanViewStudent,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+import { can } from "@/lib/permissions";
+
+const TICK_VALUES = [0, 10];
+const MAX_TEXT_LENGTH = 500;
+
+const isTick = (value: unknown) => typeof value === "number" && TICK_VALUES.includes(value);
+const isText = (value: unknown) =>
+  value === null || (typeof value === "string" && value.length <= MAX_TEXT_LENGTH);
+
+// Project details recorded on Presentation 1 (the classification sheet) besides
+// its rubric marks, and the values each may take
+const PROJECT_DETAIL_FIELDS: Record<string, (value: unknown) => boolean> = {
+  classification_product: isTick,
+  classification_research: isTick,
+  classification_application: isTick,
+  classification_design: isTick,
+  finance_institute: isTick,
+  finance_self: isTick,
+  finance_industry: isTick,
+  project_title: isText,
+  industry_name: isText,
+  project_type_in_house_sponsored: (value) =>
+    value === null || ["", "In-House", "Sponsored"].includes(value as string),
+};
+
+/**
+ * GET /api/evaluations/:studentId
+ * The student's evaluation (null before any mark is saved), for users who
+ * may view the student's group. Open grids fetch it when the realtime
+ * broadcast reports a change.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { studentId: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    await assertCanViewStudent(user, params.studentId);
+
+    const evaluation = await getEvaluation(params.studentId);
+    return NextResponse.json({ evaluation });
+  } catch (error) {
+    return apiErrorResponse(error, "load evaluation");
+  }
+}
+
+/**
+ * PATCH /api/evaluations/:studentId
+ * Saves one evaluation field for a student. Only the presentation's rubric
+ * criteria (a finite number within the criterion maximum) and, on
+ * Presentation 1, the project details can be written. Responds 409 with the
+ * current evaluation when expectedUpdatedAt is stale.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { studentId: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    await assertCanModifyStudent(user, params.studentId, "enter_marks");
+
+    const { field, value, expectedUpdatedAt } = await request.json();
+    if (!field || typeof field !== "string") {
+      return NextResponse.json({ error: "Invalid evaluation field" }, { status: 400 });
+    }
+
+    const presentation = await getPresentationForStudent(params.studentId);
+    const rubric = getPresentationRubric(presentation);
+
+    if (findCriterion(rubric, field)) {
+      if (typeof value !== "number" || !Number.isFinite(value) || !validateMark(field, value, rubric)) {
+        return NextResponse.json(
+          { error: `Mark for ${field} is out of range` },
+          { status: 400 }
+        );
+      }
+    } else if (rubric.presentationNumber === 1 && PROJECT_DETAIL_FIELDS[field]) {
+      if (!PROJECT_DETAIL_FIELDS[field](value)) {
+        return NextResponse.json({ error: `Invalid value for ${field}` }, { status: 400 });
+      }
+    } else {
+      return NextResponse.json({ error: "Invalid evaluation field" }, { status: 400 });
+    }
+
+    const evaluation = await updateEvaluation(
+      params.studentId,
+      field as any,
+      value,
+      can(user, "enter_marks") ? undefined : user.id,
+      user.id,
+      typeof expectedUpdatedAt === "string" ? expectedUpdatedAt : undefined
+    );
+    return NextResponse.json({ evaluation });
+  } catch (error) {
+    return apiErrorResponse(error, "update evaluation");
+  }
+}
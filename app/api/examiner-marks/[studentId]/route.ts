@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPresentationForStudent, updateExaminerMark } from "@/lib/database";
+import { validateMark } from "@/lib/calculations";
+import { findCriterion, getPresentationRubric } from "@/lib/rubric";
+import {
+  apiErrorResponse,
+  assertPresentationInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+
+/**
+ * PATCH /api/examiner-marks/:studentId
+ * Saves one mark on the caller's own examiner sheet. The caller must be an
+ * external examiner of the student's presentation.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { studentId: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "enter_marks", "any");
+
+    const { field, value } = await request.json();
+    const presentation = await getPresentationForStudent(params.studentId);
+    await assertPresentationInDepartment(user, presentation.id);
+    const rubric = getPresentationRubric(presentation);
+
+    if (typeof field !== "string" || !findCriterion(rubric, field)) {
+      return NextResponse.json({ error: "Invalid marks column" }, { status: 400 });
+    }
+    if (typeof value !== "number" || !validateMark(field, value, rubric)) {
+      return NextResponse.json(
+        { error: `Mark for ${field} is out of range` },
+        { status: 400 }
+      );
+    }
+
+    const sheet = await updateExaminerMark(
+      params.studentId,
+      user.id,
+      field,
+      value,
+      user.role
+    );
+    return NextResponse.json({ sheet });
+  } catch (error) {
+    return apiErrorResponse(error, "update examiner mark");
+  }
+}
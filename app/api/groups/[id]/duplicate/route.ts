@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { duplicateGroup } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertCanModifyGroup,
+  assertPresentationInDepartment,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+
+/**
+ * POST /api/groups/:id/duplicate
+ * Copies a group and its students into another presentation
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    await assertCanModifyGroup(user, params.id);
+
+    const { targetPresentationId } = await request.json();
+    if (!targetPresentationId) {
+      return NextResponse.json(
+        { error: "Missing required field: targetPresentationId" },
+        { status: 400 }
+      );
+    }
+
+    await assertPresentationInDepartment(user, targetPresentationId);
+
+    const group = await duplicateGroup(
+      params.id,
+      targetPresentationId,
+      user.id,
+      user.role
+    );
+    return NextResponse.json({ group });
+  } catch (error) {
+    return apiErrorResponse(error, "duplicate group");
+  }
+}
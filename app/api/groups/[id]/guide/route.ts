@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updateGroupGuide } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertCanModifyGroup,
+  assertUserInDepartment,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+import { can } from "@/lib/permissions";
+
+/**
+ * PATCH /api/groups/:id/guide
+ * Changes the guide of a group. Guides who only manage their own groups can
+ * rename the guide label but cannot hand the group to another teacher.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    await assertCanModifyGroup(user, params.id);
+
+    const { guideName, guideUserId } = await request.json();
+    if (!guideName || !String(guideName).trim()) {
+      return NextResponse.json({ error: "Guide name is required" }, { status: 400 });
+    }
+
+    const ownGroupsOnly = !can(user, "manage_groups");
+    if (!ownGroupsOnly && guideUserId) {
+      await assertUserInDepartment(user, guideUserId);
+    }
+
+    await updateGroupGuide(
+      params.id,
+      guideName,
+      ownGroupsOnly ? user.id : guideUserId || undefined,
+      user.id
+    );
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiErrorResponse(error, "update group guide");
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteGroup } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertCanModifyGroup,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+
+/**
+ * DELETE /api/groups/:id
+ * Deletes a group (cascading to P2–P4 when deleted from P1)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    await assertCanModifyGroup(user, params.id);
+
+    await deleteGroup(params.id, user.id, user.role);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiErrorResponse(error, "delete group");
+  }
+}
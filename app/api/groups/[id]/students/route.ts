@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { addStudentToGroup } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertCanModifyGroup,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+
+/**
+ * POST /api/groups/:id/students
+ * Adds a student to a group (propagated to P2–P4 when added in P1)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    await assertCanModifyGroup(user, params.id);
+
+    const { name } = await request.json();
+    if (!name || !String(name).trim()) {
+      return NextResponse.json({ error: "Student name is required" }, { status: 400 });
+    }
+
+    const student = await addStudentToGroup(params.id, String(name).trim(), user.id, user.role);
+    return NextResponse.json({ student });
+  } catch (error) {
+    return apiErrorResponse(error, "add student");
+  }
+}
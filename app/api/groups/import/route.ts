@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAllTeachers, getGroupsByPresentation, importGroups } from "@/lib/database";
+import { validateGroupImportRows } from "@/lib/groupImport";
+import {
+  apiErrorResponse,
+  assertPresentationInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+import { GroupImportRow } from "@/lib/types";
+
+/**
+ * Why a row of the request body does not have the shape parseGroupImportFile
+ * produces, or null when it does
+ */
+function rowShapeError(row: any): string | null {
+  if (!row || typeof row !== "object") return "must be an object";
+  if (row.group_number !== null && typeof row.group_number !== "number") {
+    return "group_number must be a number or null";
+  }
+  if (typeof row.guide !== "string") return "guide must be a string";
+  if (!Array.isArray(row.students) || row.students.some((s: unknown) => typeof s !== "string")) {
+    return "students must be an array of names";
+  }
+  if (typeof row.project_title !== "string") return "project_title must be a string";
+  return null;
+}
+
+/**
+ * POST /api/groups/import
+ * Creates every row of a parsed import file as a group in one batch.
+ * Rows are re-validated here; nothing is created if any row is invalid, and
+ * a row that is not shaped like a parsed row is refused with its number.
+ * Needs department-wide manage_groups.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "manage_groups");
+
+    const { presentationId, rows } = (await request.json()) as {
+      presentationId?: string;
+      rows?: GroupImportRow[];
+    };
+
+    if (!presentationId || !Array.isArray(rows) || rows.length === 0) {
+      return NextResponse.json(
+        { error: "Missing required fields: presentationId, rows" },
+        { status: 400 }
+      );
+    }
+
+    for (let i = 0; i < rows.length; i++) {
+      const shapeError = rowShapeError(rows[i]);
+      if (shapeError) {
+        const rowNumber = typeof rows[i]?.rowNumber === "number" ? rows[i].rowNumber : i + 1;
+        return NextResponse.json(
+          { error: `Row ${rowNumber}: ${shapeError}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    await assertPresentationInDepartment(user, presentationId);
+
+    const [teachers, existingGroups] = await Promise.all([
+      getAllTeachers(user.department_id),
+      getGroupsByPresentation(presentationId),
+    ]);
+
+    const validated = validateGroupImportRows(
+      rows,
+      teachers,
+      existingGroups.map((g) => g.group_number)
+    );
+
+    if (validated.some((row) => row.errors.length > 0)) {
+      return NextResponse.json(
+        { error: "Some rows are invalid", rows: validated },
+        { status: 400 }
+      );
+    }
+
+    const importedCount = await importGroups(
+      presentationId,
+      validated,
+      user.id,
+      user.role
+    );
+    return NextResponse.json({ importedCount });
+  } catch (error) {
+    return apiErrorResponse(error, "import groups");
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createGroup } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertPresentationInDepartment,
+  assertUserInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+import { can } from "@/lib/permissions";
+import { MAX_GROUP_STUDENTS, MIN_GROUP_STUDENTS } from "@/lib/constants";
+
+/**
+ * POST /api/groups
+ * Creates a group with its students (propagated to P2–P4 when created in P1).
+ * Guides who only manage their own groups always become the guide of the
+ * groups they create.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "manage_groups", "any");
+
+    const { presentation_id, group_number, guide_name, guide_user_id, students } =
+      await request.json();
+
+    if (!presentation_id || !Array.isArray(students)) {
+      return NextResponse.json(
+        { error: "Missing required fields: presentation_id, students" },
+        { status: 400 }
+      );
+    }
+
+    const studentNames = students
+      .filter((name: unknown) => typeof name === "string")
+      .map((name: string) => name.trim())
+      .filter(Boolean);
+
+    if (studentNames.length < MIN_GROUP_STUDENTS || studentNames.length > MAX_GROUP_STUDENTS) {
+      return NextResponse.json(
+        { error: `A group must have between ${MIN_GROUP_STUDENTS} and ${MAX_GROUP_STUDENTS} students` },
+        { status: 400 }
+      );
+    }
+
+    await assertPresentationInDepartment(user, presentation_id);
+
+    const ownGroupsOnly = !can(user, "manage_groups");
+    const guideName = ownGroupsOnly ? user.full_name || user.username : guide_name;
+
+    if (!guideName || !String(guideName).trim()) {
+      return NextResponse.json({ error: "Guide name is required" }, { status: 400 });
+    }
+
+    if (!ownGroupsOnly && guide_user_id) {
+      await assertUserInDepartment(user, guide_user_id);
+    }
+
+    const group = await createGroup(
+      {
+        presentation_id,
+        group_number,
+        guide_name: guideName,
+        guide_user_id: ownGroupsOnly ? user.id : guide_user_id || undefined,
+        students: studentNames,
+      },
+      user.id,
+      user.role
+    );
+    return NextResponse.json({ group });
+  } catch (error) {
+    return apiErrorResponse(error, "create group");
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updatePresentationColumns } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertPresentationInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+
+/**
+ * PUT /api/presentations/:id/columns
+ * Saves the column (rubric) settings for a presentation.
+ * Needs department-wide manage_groups.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "manage_groups");
+    await assertPresentationInDepartment(user, params.id);
+
+    const { customColumns, extraColumns } = await request.json();
+    if (!customColumns || typeof customColumns !== "object") {
+      return NextResponse.json(
+        { error: "Missing required field: customColumns" },
+        { status: 400 }
+      );
+    }
+    if (extraColumns !== undefined && !Array.isArray(extraColumns)) {
+      return NextResponse.json(
+        { error: "extraColumns must be an array" },
+        { status: 400 }
+      );
+    }
+
+    await updatePresentationColumns(params.id, customColumns, extraColumns, user.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiErrorResponse(error, "update presentation columns");
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { copyGroupsFromPresentation } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertPresentationInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+
+/**
+ * POST /api/presentations/:id/copy-groups
+ * Copies groups from another presentation into this one.
+ * Guides who only manage their own groups copy just those.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "manage_groups", "any");
+
+    const { sourcePresentationId } = await request.json();
+    if (!sourcePresentationId) {
+      return NextResponse.json(
+        { error: "Missing required field: sourcePresentationId" },
+        { status: 400 }
+      );
+    }
+
+    await assertPresentationInDepartment(user, params.id);
+    await assertPresentationInDepartment(user, sourcePresentationId);
+
+    const copiedCount = await copyGroupsFromPresentation(
+      sourcePresentationId,
+      params.id,
+      user.id,
+      user.role
+    );
+    return NextResponse.json({ copiedCount });
+  } catch (error) {
+    return apiErrorResponse(error, "copy groups");
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updatePresentationExaminers } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertPresentationInDepartment,
+  assertUserInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+import { MarkCombineRule } from "@/lib/types";
+
+const COMBINE_RULES: MarkCombineRule[] = ["average", "max", "guide_weighted"];
+
+/**
+ * PUT /api/presentations/:id/examiners
+ * Replaces the external examiners and the rule that combines their marks
+ * with the guide's. Needs department-wide manage_groups.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "manage_groups");
+    await assertPresentationInDepartment(user, params.id);
+
+    const { examinerIds, combineRule, guideWeight } = await request.json();
+    if (!Array.isArray(examinerIds) || examinerIds.some((id) => typeof id !== "string")) {
+      return NextResponse.json(
+        { error: "examinerIds must be an array of user ids" },
+        { status: 400 }
+      );
+    }
+    if (!COMBINE_RULES.includes(combineRule)) {
+      return NextResponse.json({ error: "Invalid combine rule" }, { status: 400 });
+    }
+    if (
+      guideWeight !== undefined &&
+      (typeof guideWeight !== "number" || guideWeight < 0 || guideWeight > 1)
+    ) {
+      return NextResponse.json(
+        { error: "guideWeight must be between 0 and 1" },
+        { status: 400 }
+      );
+    }
+
+    for (const examinerId of examinerIds) {
+      await assertUserInDepartment(user, examinerId);
+    }
+
+    const presentation = await updatePresentationExaminers(
+      params.id,
+      { examinerIds: Array.from(new Set(examinerIds)), combineRule, guideWeight },
+      user.id
+    );
+    return NextResponse.json({ presentation });
+  } catch (error) {
+    return apiErrorResponse(error, "update presentation examiners");
+  }
+}
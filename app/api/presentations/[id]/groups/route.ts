@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getGroupsByPresentation,
+  getGroupsByPresentationForTeacher,
+  isPresentationExaminer,
+} from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertPresentationInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+import { can } from "@/lib/permissions";
+
+/**
+ * GET /api/presentations/:id/groups[?own=1]
+ * The presentation's groups with their students and marks. With view on
+ * their own groups only, users get the groups they guide, or every group of
+ * a presentation they examine; ?own=1 asks for the guided groups only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "view", "any");
+    await assertPresentationInDepartment(user, params.id);
+
+    const ownGroupsOnly =
+      request.nextUrl.searchParams.get("own") === "1" ||
+      (!can(user, "view") && !(await isPresentationExaminer(params.id, user.id)));
+
+    const groups = ownGroupsOnly
+      ? await getGroupsByPresentationForTeacher(params.id, user.id)
+      : await getGroupsByPresentation(params.id);
+    return NextResponse.json({ groups });
+  } catch (error) {
+    return apiErrorResponse(error, "load groups");
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPresentation, setPresentationLockStatus } from "@/lib/database";
+import { getLockStatus } from "@/lib/presentationLock";
+import { getServerSupabase } from "@/lib/supabaseServer";
+import {
+  ApiError,
+  apiErrorResponse,
+  assertPresentationInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+import { can } from "@/lib/permissions";
+import { PresentationLockStatus } from "@/lib/types";
+
+const STATUSES: PresentationLockStatus[] = ["open", "submitted", "locked"];
+
+/**
+ * POST /api/presentations/:id/lock
+ * Changes the lock status. With lock on their own groups, guides may submit
+ * an open presentation they have groups in; with department-wide lock, users
+ * may also lock, and unlock (back to open) with a reason.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "lock", "any");
+    await assertPresentationInDepartment(user, params.id);
+
+    const { status, reason } = await request.json();
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid lock status" }, { status: 400 });
+    }
+
+    const presentation = await getPresentation(params.id);
+    const current = getLockStatus(presentation);
+
+    if (!can(user, "lock")) {
+      if (status !== "submitted" || current !== "open") {
+        throw new ApiError(403, "You can only submit an open presentation");
+      }
+
+      const { data: groups, error } = await getServerSupabase()
+        .from("groups")
+        .select("id")
+        .eq("presentation_id", params.id)
+        .eq("guide_user_id", user.id)
+        .limit(1);
+
+      if (error) throw error;
+      if (!groups || groups.length === 0) {
+        throw new ApiError(403, "You have no groups in this presentation");
+      }
+    }
+
+    if (status === "open" && current !== "open" && !String(reason || "").trim()) {
+      return NextResponse.json(
+        { error: "A reason is required to unlock a presentation" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await setPresentationLockStatus(
+      params.id,
+      status,
+      user.id,
+      reason
+    );
+    return NextResponse.json({ presentation: updated });
+  } catch (error) {
+    return apiErrorResponse(error, "change presentation lock");
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getGroupsByPresentation,
+  getPresentation,
+  updateEvaluation,
+} from "@/lib/database";
+import { validateMark } from "@/lib/calculations";
+import { findCriterion, getPresentationRubric } from "@/lib/rubric";
+import {
+  ApiError,
+  apiErrorResponse,
+  assertPresentationInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+import { can } from "@/lib/permissions";
+
+interface MarkUpdate {
+  studentId: string;
+  field: string;
+  value: number;
+}
+
+/**
+ * POST /api/presentations/:id/marks
+ * Applies a batch of mark changes (e.g. from an uploaded marks sheet).
+ * Every change is checked before any is written: the student must be in this
+ * presentation (and, unless the caller enters marks department-wide, in
+ * their own groups), the field must be a rubric criterion and the value
+ * must be in range.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "enter_marks", "any");
+    await assertPresentationInDepartment(user, params.id);
+
+    const { changes } = (await request.json()) as { changes?: MarkUpdate[] };
+    if (!Array.isArray(changes) || changes.length === 0) {
+      return NextResponse.json({ error: "No changes to apply" }, { status: 400 });
+    }
+
+    const presentation = await getPresentation(params.id);
+    const rubric = getPresentationRubric(presentation);
+    const groups = await getGroupsByPresentation(params.id);
+
+    const studentGroups = new Map<string, (typeof groups)[number]>();
+    for (const group of groups) {
+      for (const student of group.students) studentGroups.set(student.id, group);
+    }
+
+    for (const change of changes) {
+      const group = studentGroups.get(change.studentId);
+      if (!group) {
+        throw new ApiError(400, "A change refers to a student outside this presentation");
+      }
+      if (!can(user, "enter_marks", group)) {
+        throw new ApiError(403, "Unauthorized: You can only modify your own groups");
+      }
+      if (!findCriterion(rubric, change.field)) {
+        throw new ApiError(400, `Unknown mark column: ${change.field}`);
+      }
+      if (typeof change.value !== "number" || !validateMark(change.field, change.value, rubric)) {
+        throw new ApiError(400, `Mark for ${change.field} is out of range`);
+      }
+    }
+
+    for (const change of changes) {
+      await updateEvaluation(
+        change.studentId,
+        change.field as any,
+        change.value,
+        can(user, "enter_marks") ? undefined : user.id,
+        user.id
+      );
+    }
+
+    return NextResponse.json({ appliedCount: changes.length });
+  } catch (error) {
+    return apiErrorResponse(error, "apply marks");
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPresentation, normalizeGroupNumbers } from "@/lib/database";
+import { assertPresentationEditable } from "@/lib/presentationLock";
+import {
+  apiErrorResponse,
+  assertPresentationInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+
+/**
+ * POST /api/presentations/:id/normalize-groups
+ * Renumbers every group in the presentation sequentially from 1 to remove
+ * gaps. Needs department-wide manage_groups; refused while locked.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "manage_groups");
+    await assertPresentationInDepartment(user, params.id);
+    assertPresentationEditable(await getPresentation(params.id), user.role);
+
+    await normalizeGroupNumbers(params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiErrorResponse(error, "normalize group numbers");
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { setPresentationResultsPublished } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertPresentationInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+
+/**
+ * POST /api/presentations/:id/publish
+ * Publishes (or withdraws) a presentation's results. Publishing again
+ * replaces the snapshot students and official exports read with the current
+ * marks. Needs department-wide lock, like locking and unlocking.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "lock");
+    await assertPresentationInDepartment(user, params.id);
+
+    const { published } = await request.json();
+    if (typeof published !== "boolean") {
+      return NextResponse.json({ error: "published must be true or false" }, { status: 400 });
+    }
+
+    const presentation = await setPresentationResultsPublished(params.id, published, user.id);
+    return NextResponse.json({ presentation });
+  } catch (error) {
+    return apiErrorResponse(error, "publish results");
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resetPresentationMarks } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertPresentationInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+
+/**
+ * POST /api/presentations/:id/reset-marks
+ * Clears every mark in a presentation. Needs department-wide enter_marks.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "enter_marks");
+    await assertPresentationInDepartment(user, params.id);
+
+    await resetPresentationMarks(params.id, user.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiErrorResponse(error, "reset presentation marks");
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deletePresentation } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertPresentationInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+
+/**
+ * DELETE /api/presentations/:id
+ * With department-wide manage_groups the whole presentation is deleted;
+ * guides only delete their own groups in it. Locked presentations are refused.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "manage_groups", "any");
+    await assertPresentationInDepartment(user, params.id);
+
+    await deletePresentation(params.id, user.id, user.role);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiErrorResponse(error, "delete presentation");
+  }
+}
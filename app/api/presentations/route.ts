@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createPresentation } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertAcademicYearInDepartment,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+
+/**
+ * POST /api/presentations
+ * Creates a presentation in an academic year.
+ * Needs department-wide manage_groups.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "manage_groups");
+
+    const { name, semester, academic_year_id } = await request.json();
+    if (!name || !academic_year_id) {
+      return NextResponse.json(
+        { error: "Missing required fields: name, academic_year_id" },
+        { status: 400 }
+      );
+    }
+
+    await assertAcademicYearInDepartment(user, academic_year_id);
+
+    const presentation = await createPresentation({ name, semester, academic_year_id });
+    return NextResponse.json({ presentation });
+  } catch (error) {
+    return apiErrorResponse(error, "create presentation");
+  }
+}
@@ -1,106 +1,66 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifySession } from "@/lib/auth";
-import { supabase } from "@/lib/supabase";
-import { exportAnnualReportFormattedAndSeparated } from "@/lib/excelExportFormatted";
+import { apiErrorResponse, requireSessionUser } from "@/lib/apiAuth";
+import { getServerSupabase } from "@/lib/supabaseServer";
+import { assertAcademicYearReportAccess } from "@/lib/reportAuthorization";
+import { workbookResponse } from "@/lib/reportResponse";
+import { ReportModel, buildReportModel } from "@/lib/reportModel";
+import {
+  ReportFile,
+  renderAllPresentationsWorkbook,
+  renderAnnualBySemesterWorkbook,
+  renderClassificationWorkbook,
+  renderSemesterWorkbook,
+} from "@/lib/excelExport";
+import { AnnualReportKind } from "@/lib/types";
+
+const RENDERERS: Record<AnnualReportKind, (model: ReportModel) => ReportFile> = {
+  annual_by_semester: renderAnnualBySemesterWorkbook,
+  all_presentations: renderAllPresentationsWorkbook,
+  semester1: (model) => renderSemesterWorkbook(model, 1),
+  semester2: (model) => renderSemesterWorkbook(model, 2),
+  classification: renderClassificationWorkbook,
+};
 
 /**
  * POST /api/reports/export-annual
- * Exports an annual report with authorization check
- * Only allows if user is authenticated and authorized for the academic year
+ * Builds an academic year report on the server and streams the .xlsx back.
+ * Department-wide export gets every group; export on their own groups only
+ * years where the user guides a group, and only those groups. With official
+ * set, the published results are exported instead of the draft marks.
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { academicYearId, userId, token } = body;
+    const user = await requireSessionUser(request);
 
-    // Validate inputs
-    if (!academicYearId || !userId || !token) {
-      return NextResponse.json(
-        { error: "Missing required fields: academicYearId, userId, token" },
-        { status: 400 }
-      );
-    }
+    const { academicYearId, report = "annual_by_semester", guideName, official } =
+      await request.json();
 
-    // Verify session validity
-    const isSessionValid = await verifySession(userId, token);
-    if (!isSessionValid) {
+    if (!academicYearId) {
       return NextResponse.json(
-        { error: "Invalid session" },
-        { status: 401 }
+        { error: "Missing required field: academicYearId" },
+        { status: 400 }
       );
     }
 
-    // Get user role
-    const { data: user, error: userError } = await supabase
-      .from("users")
-      .select("role")
-      .eq("id", userId)
-      .single();
-
-    if (userError || !user) {
+    const render = RENDERERS[report as AnnualReportKind];
+    if (!render) {
       return NextResponse.json(
-        { error: "User not found" },
-        { status: 404 }
+        { error: `Unknown report: ${report}` },
+        { status: 400 }
       );
     }
 
-    // Admins always have access
-    if (user.role === "admin") {
-      console.log(
-        `Annual report export authorized for admin user ${userId} for academic year ${academicYearId}`
-      );
-    } else if (user.role === "teacher") {
-      // Teachers can only export if they have groups in at least one presentation in this academic year
-      const { data: presentations } = await supabase
-        .from("presentations")
-        .select("id")
-        .eq("academic_year_id", academicYearId);
-
-      if (!presentations || presentations.length === 0) {
-        return NextResponse.json(
-          { error: "No presentations found for this academic year" },
-          { status: 404 }
-        );
-      }
-
-      const presentationIds = presentations.map(p => p.id);
-      const { data: groups, error: groupsError } = await supabase
-        .from("groups")
-        .select("id")
-        .in("presentation_id", presentationIds)
-        .eq("guide_user_id", userId)
-        .limit(1);
-
-      if (groupsError || !groups || groups.length === 0) {
-        console.warn(
-          `Unauthorized annual report export attempt by teacher ${userId} for academic year ${academicYearId} - no groups found`
-        );
-        return NextResponse.json(
-          { error: "Unauthorized: You have no groups in this academic year" },
-          { status: 403 }
-        );
-      }
-
-      console.log(
-        `Annual report export authorized for teacher user ${userId} for academic year ${academicYearId}`
-      );
-    } else {
-      return NextResponse.json(
-        { error: "Invalid user role" },
-        { status: 403 }
-      );
-    }
+    const db = getServerSupabase();
+    await assertAcademicYearReportAccess(db, user, academicYearId);
 
-    // Return success - the actual file download happens on the client side
-    return NextResponse.json({
-      success: true,
-      message: "Export initiated successfully",
+    const model = await buildReportModel(db, academicYearId, {
+      userId: user.id,
+      userRole: user.role,
+      guideFilter: guideName,
+      official: official === true,
     });
+    return workbookResponse(render(model));
   } catch (error) {
-    console.error("Error in export-annual endpoint:", error);
-    return NextResponse.json(
-      { error: "Failed to process export request" },
-      { status: 500 }
-    );
+    return apiErrorResponse(error, "export annual report");
   }
 }
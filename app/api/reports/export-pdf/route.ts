@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiErrorResponse, requireSessionUser } from "@/lib/apiAuth";
+import { getServerSupabase } from "@/lib/supabaseServer";
+import {
+  assertAcademicYearReportAccess,
+  assertPresentationReportAccess,
+} from "@/lib/reportAuthorization";
+import { pdfResponse } from "@/lib/reportResponse";
+import { getPresentation } from "@/lib/database";
+import { buildReportModel } from "@/lib/reportModel";
+import {
+  renderAnnualPdf,
+  renderPresentationPdf,
+  renderSemesterPdf,
+} from "@/lib/pdfExport";
+import { getPresentationNumber } from "@/lib/rubric";
+import { PdfReportScope } from "@/lib/types";
+
+/**
+ * POST /api/reports/export-pdf
+ * Renders a TW sheet as PDF for signing: one presentation, one semester
+ * (P1 + P2 or P3 + P4) or the whole year. Access rules and the official
+ * flag match the Excel export routes.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireSessionUser(request);
+
+    const { scope, presentationId, academicYearId, guideName, official } = await request.json();
+    const db = getServerSupabase();
+    const options = {
+      userId: user.id,
+      userRole: user.role,
+      guideFilter: guideName,
+      official: official === true,
+    };
+
+    switch (scope as PdfReportScope) {
+      case "presentation": {
+        if (!presentationId) {
+          return NextResponse.json(
+            { error: "Missing required field: presentationId" },
+            { status: 400 }
+          );
+        }
+        await assertPresentationReportAccess(db, user, presentationId);
+        const presentation = await getPresentation(presentationId, db);
+        const presentationNumber = getPresentationNumber(presentation.name);
+        if (presentationNumber < 1 || presentationNumber > 4) {
+          return NextResponse.json(
+            { error: "TW sheets exist for Presentations 1 to 4 only" },
+            { status: 400 }
+          );
+        }
+        const model = await buildReportModel(db, presentation.academic_year_id, {
+          ...options,
+          presentationNumbers: [presentationNumber],
+        });
+        return pdfResponse(await renderPresentationPdf(model, presentationNumber));
+      }
+      case "semester1":
+      case "semester2":
+      case "annual": {
+        if (!academicYearId) {
+          return NextResponse.json(
+            { error: "Missing required field: academicYearId" },
+            { status: 400 }
+          );
+        }
+        await assertAcademicYearReportAccess(db, user, academicYearId);
+        const model = await buildReportModel(db, academicYearId, options);
+        const file =
+          scope === "annual"
+            ? await renderAnnualPdf(model)
+            : await renderSemesterPdf(model, scope === "semester1" ? 1 : 2);
+        return pdfResponse(file);
+      }
+      default:
+        return NextResponse.json(
+          { error: `Unknown PDF report: ${scope}` },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    return apiErrorResponse(error, "export PDF report");
+  }
+}
@@ -1,73 +1,62 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyPresentationAccess } from "@/lib/reportAuthorization";
+import { apiErrorResponse, requireSessionUser } from "@/lib/apiAuth";
+import { getServerSupabase } from "@/lib/supabaseServer";
+import { getPresentation } from "@/lib/database";
+import { assertPresentationReportAccess } from "@/lib/reportAuthorization";
+import { workbookResponse } from "@/lib/reportResponse";
+import { buildReportModel } from "@/lib/reportModel";
+import { renderPresentationWorkbook } from "@/lib/excelExport";
+import { getPresentationNumber } from "@/lib/rubric";
 
 /**
  * POST /api/reports/export-presentation
- * Exports a presentation report with authorization check
- * Only allows if user is authenticated and authorized for the presentation
+ * Builds a presentation's mark sheet on the server and streams the .xlsx
+ * back. Department-wide export gets every group; export on their own groups
+ * only presentations where the user guides a group, and only those groups.
+ * With official set, the published results are exported instead of the
+ * draft marks.
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { presentationId, presentationNumber, userId, token } = body;
+    const user = await requireSessionUser(request);
 
-    // Validate inputs
-    if (
-      !presentationId ||
-      presentationNumber === undefined ||
-      !userId ||
-      !token
-    ) {
+    const { presentationId, report = "marks", guideName, official } = await request.json();
+
+    if (!presentationId) {
       return NextResponse.json(
-        {
-          error:
-            "Missing required fields: presentationId, presentationNumber, userId, token",
-        },
+        { error: "Missing required field: presentationId" },
         { status: 400 }
       );
     }
 
-    // Validate presentation number
-    if (![1, 2, 3, 4].includes(presentationNumber)) {
+    if (report !== "marks") {
       return NextResponse.json(
-        { error: "Invalid presentation number. Must be 1, 2, 3, or 4." },
+        { error: `Unknown report: ${report}` },
         { status: 400 }
       );
     }
 
-    // Verify authorization
-    const isAuthorized = await verifyPresentationAccess({
-      userId,
-      token,
-      presentationId,
-    });
+    const db = getServerSupabase();
+    await assertPresentationReportAccess(db, user, presentationId);
 
-    if (!isAuthorized) {
-      console.warn(
-        `Unauthorized export attempt by user ${userId} for presentation ${presentationId}`
-      );
+    const presentation = await getPresentation(presentationId, db);
+    const presentationNumber = getPresentationNumber(presentation.name);
+    if (presentationNumber < 1 || presentationNumber > 4) {
       return NextResponse.json(
-        { error: "Unauthorized: You do not have access to this presentation" },
-        { status: 403 }
+        { error: "Mark sheets exist for Presentations 1 to 4 only" },
+        { status: 400 }
       );
     }
 
-    // Log successful authorization
-    console.log(
-      `Authorized presentation ${presentationNumber} export for user ${userId}`
-    );
-
-    // Return success - the actual file download happens on the client side
-    return NextResponse.json({
-      success: true,
-      message: "Export authorized successfully",
-      presentationNumber,
+    const model = await buildReportModel(db, presentation.academic_year_id, {
+      userId: user.id,
+      userRole: user.role,
+      guideFilter: guideName,
+      presentationNumbers: [presentationNumber],
+      official: official === true,
     });
+    return workbookResponse(renderPresentationWorkbook(model, presentationNumber));
   } catch (error) {
-    console.error("Error in export-presentation endpoint:", error);
-    return NextResponse.json(
-      { error: "Failed to process export request" },
-      { status: 500 }
-    );
+    return apiErrorResponse(error, "export presentation report");
   }
 }
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updateInstitutionSettings } from "@/lib/database";
+import { apiErrorResponse, requirePermission, requireSessionUser } from "@/lib/apiAuth";
+import { MAX_LOGO_LENGTH } from "@/lib/branding";
+import { InstitutionSettingsUpdate } from "@/lib/types";
+
+const SETTINGS_FIELDS = [
+  "institution_name",
+  "institution_short_name",
+  "institution_address",
+  "department_name",
+  "logo_url",
+  "sheet_title_template",
+  "classification_title_template",
+  "coordinator_name",
+  "hod_name",
+] as const;
+
+const REQUIRED_FIELDS: Partial<Record<keyof InstitutionSettingsUpdate, string>> = {
+  institution_name: "Institution name",
+  institution_short_name: "Short name",
+  department_name: "Department name",
+  sheet_title_template: "Sheet title",
+  classification_title_template: "Classification sheet title",
+};
+
+/**
+ * PUT /api/settings/branding
+ * Saves the institution names, logo, sheet titles and signatories printed
+ * on the exports of the caller's department.
+ * Needs department-wide manage_users.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "manage_users");
+
+    const body = await request.json();
+    const updates: InstitutionSettingsUpdate = {};
+    for (const field of SETTINGS_FIELDS) {
+      if (field in body) updates[field] = String(body[field] ?? "");
+    }
+
+    for (const [field, label] of Object.entries(REQUIRED_FIELDS)) {
+      const value = updates[field as keyof InstitutionSettingsUpdate];
+      if (field in updates && !value?.trim()) {
+        return NextResponse.json({ error: `${label} is required` }, { status: 400 });
+      }
+    }
+
+    const logo = updates.logo_url?.trim();
+    // Uploaded images only: the PDF renderer does not fetch remote logos
+    if (logo && !/^data:image\/(png|jpeg);base64,/i.test(logo)) {
+      return NextResponse.json(
+        { error: "The logo must be an uploaded PNG or JPEG image" },
+        { status: 400 }
+      );
+    }
+    if (logo && logo.length > MAX_LOGO_LENGTH) {
+      return NextResponse.json({ error: "The logo image is too large" }, { status: 400 });
+    }
+
+    const settings = await updateInstitutionSettings(user.department_id, updates, user.id);
+    return NextResponse.json({ settings });
+  } catch (error) {
+    return apiErrorResponse(error, "update branding");
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, apiErrorResponse, requireSessionUser } from "@/lib/apiAuth";
+import { getServerSupabase } from "@/lib/supabaseServer";
+import { isStudent } from "@/lib/permissions";
+import { buildStudentResults } from "@/lib/studentPortal";
+
+/**
+ * GET /api/student/results
+ * The signed-in student's own results. Marks are only included for
+ * presentations whose results have been published.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireSessionUser(request);
+    if (!isStudent(user) || !user.student_record_id) {
+      throw new ApiError(403, "Only student accounts linked to a student record have results");
+    }
+
+    const results = await buildStudentResults(getServerSupabase(), user.student_record_id);
+    return NextResponse.json({ results });
+  } catch (error) {
+    return apiErrorResponse(error, "load results");
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { moveStudentToGroup } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertCanModifyStudent,
+  requirePermission,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+
+/**
+ * POST /api/students/:id/move
+ * Moves a student, with their marks, to another group in every
+ * presentation of the year. Needs department-wide manage_groups.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "manage_groups");
+    await assertCanModifyStudent(user, params.id);
+
+    const { targetGroupId } = await request.json();
+    if (!targetGroupId) {
+      return NextResponse.json(
+        { error: "Missing required field: targetGroupId" },
+        { status: 400 }
+      );
+    }
+
+    await moveStudentToGroup(params.id, targetGroupId, user.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiErrorResponse(error, "move student");
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getPresentationForStudent,
+  getStudentRecordForStudent,
+  updateStudentRecord,
+} from "@/lib/database";
+import { assertPresentationEditable } from "@/lib/presentationLock";
+import {
+  apiErrorResponse,
+  assertCanModifyStudent,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+import { StudentRecordUpdate } from "@/lib/types";
+
+const RECORD_FIELDS = ["full_name", "roll_number", "prn", "email", "division"] as const;
+
+/**
+ * PATCH /api/students/:id/record
+ * Updates the master record (roll number, PRN, name, email, division) of
+ * the student behind this group membership. Refused while the membership's
+ * presentation is locked; a new name skips other locked presentations.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    await assertCanModifyStudent(user, params.id);
+    assertPresentationEditable(await getPresentationForStudent(params.id), user.role);
+
+    const body = await request.json();
+    const updates: StudentRecordUpdate = {};
+    for (const field of RECORD_FIELDS) {
+      if (field in body) updates[field] = String(body[field] ?? "");
+    }
+
+    if ("full_name" in updates && !updates.full_name?.trim()) {
+      return NextResponse.json({ error: "Student name is required" }, { status: 400 });
+    }
+    if (updates.email?.trim() && !/^[^\s@]+@[^\s@]+$/.test(updates.email.trim())) {
+      return NextResponse.json({ error: "Invalid email address" }, { status: 400 });
+    }
+
+    const record = await getStudentRecordForStudent(params.id);
+    if (!record) {
+      return NextResponse.json(
+        { error: "This student has no master record yet" },
+        { status: 404 }
+      );
+    }
+
+    const updated = await updateStudentRecord(record.id, updates, user.id);
+    return NextResponse.json({ record: updated });
+  } catch (error) {
+    return apiErrorResponse(error, "update student record");
+  }
+}
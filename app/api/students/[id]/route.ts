@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { removeStudentFromGroup, updateStudentName } from "@/lib/database";
+import {
+  apiErrorResponse,
+  assertCanModifyStudent,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+
+/**
+ * PATCH /api/students/:id
+ * Renames a student (propagated to P2–P4 when renamed in P1, except to
+ * locked presentations). Refused while the student's presentation is locked.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    await assertCanModifyStudent(user, params.id);
+
+    const { name } = await request.json();
+    if (!name || !String(name).trim()) {
+      return NextResponse.json({ error: "Student name is required" }, { status: 400 });
+    }
+
+    await updateStudentName(params.id, String(name).trim(), user.id, user.role);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiErrorResponse(error, "update student name");
+  }
+}
+
+/**
+ * DELETE /api/students/:id
+ * Removes a student and their marks from the group (and from P2–P4 when
+ * removed in P1)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    await assertCanModifyStudent(user, params.id);
+
+    await removeStudentFromGroup(params.id, user.id, user.role);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiErrorResponse(error, "remove student");
+  }
+}
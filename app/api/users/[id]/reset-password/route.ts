@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resetUserPassword } from "@/lib/auth";
+import { apiErrorResponse, loadManagedUser, requireSessionUser } from "@/lib/apiAuth";
+
+/**
+ * POST /api/users/:id/reset-password
+ * Issues a one-time temporary password; the user must choose a new one on
+ * next login. The temporary password is only returned in this response.
+ * Needs department-wide manage_users; only super-admins reset a super-admin.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    await loadManagedUser(user, params.id);
+
+    if (params.id === user.id) {
+      return NextResponse.json(
+        { error: "Use Change Password to change your own password" },
+        { status: 400 }
+      );
+    }
+
+    const temporaryPassword = await resetUserPassword(params.id, user.id);
+    const response = NextResponse.json({ temporaryPassword });
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+  } catch (error) {
+    return apiErrorResponse(error, "reset password");
+  }
+}
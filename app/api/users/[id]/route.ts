@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteUser, updateUser, validateUserInput } from "@/lib/auth";
+import { findStudentRecord } from "@/lib/database";
+import { PROTECTED_USERNAMES } from "@/lib/constants";
+import {
+  apiErrorResponse,
+  loadManagedUser,
+  requireSessionUser,
+} from "@/lib/apiAuth";
+import { SaveUserInput } from "@/lib/types";
+
+/**
+ * PATCH /api/users/:id
+ * Updates an account of the caller's department. A blank password keeps the
+ * current one; for student logins a blank PRN keeps the linked record.
+ * Needs department-wide manage_users.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    const target = await loadManagedUser(user, params.id);
+
+    const input: SaveUserInput = await request.json();
+    const invalid = validateUserInput(input, false);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    let studentRecordId: string | null = null;
+    if (input.role === "student") {
+      if (input.student_identifier?.trim()) {
+        const record = await findStudentRecord(input.student_identifier, user.department_id);
+        if (!record) {
+          return NextResponse.json(
+            { error: "No student in this department has that PRN or roll number" },
+            { status: 400 }
+          );
+        }
+        studentRecordId = record.id;
+      } else if (target.student_record_id) {
+        studentRecordId = target.student_record_id;
+      } else {
+        return NextResponse.json(
+          { error: "Enter the student's PRN or roll number" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updated = await updateUser(
+      params.id,
+      {
+        email: input.email.trim(),
+        username: input.username.trim(),
+        full_name: input.full_name?.trim() || "",
+        role: input.role,
+        password: input.password || undefined,
+        student_record_id: studentRecordId,
+      },
+      user.id,
+    );
+    return NextResponse.json({ user: updated });
+  } catch (error) {
+    return apiErrorResponse(error, "update user");
+  }
+}
+
+/**
+ * DELETE /api/users/:id
+ * Permanently deletes an account of the caller's department. Built-in
+ * accounts and the caller's own cannot be deleted.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    const target = await loadManagedUser(user, params.id);
+
+    if (target.id === user.id) {
+      return NextResponse.json({ error: "You cannot delete your own account" }, { status: 400 });
+    }
+    if (PROTECTED_USERNAMES.includes(target.username)) {
+      return NextResponse.json(
+        { error: "Cannot delete this protected user account" },
+        { status: 400 }
+      );
+    }
+
+    await deleteUser(params.id, user.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiErrorResponse(error, "delete user");
+  }
+}
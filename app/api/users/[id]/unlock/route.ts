@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { unlockUser } from "@/lib/auth";
+import { apiErrorResponse, loadManagedUser, requireSessionUser } from "@/lib/apiAuth";
+
+/**
+ * POST /api/users/:id/unlock
+ * Clears a lockout after too many failed logins.
+ * Needs department-wide manage_users; only super-admins unlock a super-admin.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireSessionUser(request);
+    await loadManagedUser(user, params.id);
+
+    await unlockUser(params.id, user.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiErrorResponse(error, "unlock user");
+  }
+}
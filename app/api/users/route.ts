@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { registerUser, validateUserInput } from "@/lib/auth";
+import { findStudentRecord } from "@/lib/database";
+import { apiErrorResponse, requirePermission, requireSessionUser } from "@/lib/apiAuth";
+import { SaveUserInput } from "@/lib/types";
+
+/**
+ * POST /api/users
+ * Creates an account in the caller's department. Student logins are linked
+ * to the department's student record with the given PRN or roll number.
+ * Needs department-wide manage_users.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireSessionUser(request);
+    requirePermission(user, "manage_users");
+
+    const input: SaveUserInput = await request.json();
+    const invalid = validateUserInput(input, true);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    let studentRecordId: string | null = null;
+    if (input.role === "student") {
+      const record = await findStudentRecord(input.student_identifier || "", user.department_id);
+      if (!record) {
+        return NextResponse.json(
+          { error: "No student in this department has that PRN or roll number" },
+          { status: 400 }
+        );
+      }
+      studentRecordId = record.id;
+    }
+
+    const created = await registerUser(
+      input.email.trim(),
+      input.username.trim(),
+      input.password!,
+      input.role,
+      input.full_name?.trim() || "",
+      user.id,
+      user.department_id,
+      studentRecordId,
+    );
+    return NextResponse.json({ user: created }, { status: 201 });
+  } catch (error) {
+    return apiErrorResponse(error, "create user");
+  }
+}
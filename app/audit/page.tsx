@@ -0,0 +1,290 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/providers/AuthProvider";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import Logo from "@/components/Logo";
+import UserProfile from "@/components/UserProfile";
+import {
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
+  AuditLogFilters,
+  User,
+} from "@/lib/types";
+import { getAuditLog, formatAuditValue } from "@/lib/audit";
+import { getAllUsers } from "@/lib/database";
+import toast from "react-hot-toast";
+import { ArrowLeft, RefreshCw } from "lucide-react";
+
+const ACTIONS: AuditAction[] = [
+  "UPDATE_MARK",
+  "RENAME_STUDENT",
+  "ADD_STUDENT",
+  "REMOVE_STUDENT",
+  "MOVE_STUDENT",
+  "UPDATE_STUDENT_RECORD",
+  "UPDATE_GUIDE",
+  "DELETE_GROUP",
+  "DELETE_PRESENTATION",
+  "UPDATE_COLUMNS",
+  "RESET_MARKS",
+  "SUBMIT_PRESENTATION",
+  "LOCK_PRESENTATION",
+  "UNLOCK_PRESENTATION",
+  "PUBLISH_RESULTS",
+  "UNPUBLISH_RESULTS",
+  "UPDATE_EXAMINERS",
+  "UPDATE_EXAMINER_MARK",
+  "LOGIN",
+  "LOGOUT",
+  "LOGIN_FAILED",
+  "LOCKED",
+  "UNLOCK_USER",
+  "CREATE_USER",
+  "UPDATE_USER",
+  "CHANGE_PASSWORD",
+  "RESET_PASSWORD",
+  "DELETE_USER",
+  "UPDATE_BRANDING",
+  "CREATE_DEPARTMENT",
+];
+
+const ENTITY_TYPES: AuditEntityType[] = ["STUDENT", "STUDENT_RECORD", "GROUP", "PRESENTATION", "USER", "SETTINGS", "DEPARTMENT"];
+
+export default function AuditPage() {
+  const { user, can, loading: authLoading } = useAuth();
+  const canManageUsers = can("manage_users");
+  const router = useRouter();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!canManageUsers) {
+      router.push("/dashboard");
+      return;
+    }
+    getAllUsers(user!.department_id).then(setUsers);
+  }, [canManageUsers, authLoading, router]);
+
+  useEffect(() => {
+    if (!canManageUsers) return;
+    loadEntries();
+  }, [canManageUsers, filters]);
+
+  async function loadEntries() {
+    try {
+      setLoading(true);
+      setEntries(await getAuditLog({ ...filters, departmentId: user!.department_id }));
+    } catch (error) {
+      console.error("Error loading audit log:", error);
+      toast.error("Failed to load audit log");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function updateFilter<K extends keyof AuditLogFilters>(
+    key: K,
+    value: AuditLogFilters[K] | "",
+  ) {
+    setFilters((prev) => ({ ...prev, [key]: value || undefined }));
+  }
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        {/* Header */}
+        <header className="bg-white border-b border-gray-200">
+          <div className="max-w-6xl mx-auto px-4 py-6">
+            <div className="flex items-center justify-between gap-4 mb-6 pb-6 border-b border-gray-100">
+              <div className="flex items-center gap-4">
+                <Logo className="h-16 w-16" />
+                <div>
+                  <h2 className="text-sm font-semibold text-gray-900">
+                    Modern Education Society's
+                  </h2>
+                  <h2 className="text-sm font-semibold text-gray-900">
+                    Wadia College of Engineering, Pune.
+                  </h2>
+                </div>
+              </div>
+              <UserProfile />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-4">
+                <button
+                  onClick={() => router.push("/dashboard")}
+                  className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5 text-gray-600" />
+                </button>
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+                  <p className="text-sm text-gray-600">
+                    Admin only: Who changed what, and when
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={loadEntries}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg transition-colors"
+              >
+                <RefreshCw className="w-4 h-4" />
+                Refresh
+              </button>
+            </div>
+          </div>
+        </header>
+
+        {/* Filters */}
+        <div className="max-w-6xl mx-auto px-4 py-6">
+          <div className="bg-white rounded-lg shadow p-4 grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Action</label>
+              <select
+                value={filters.action || ""}
+                onChange={(e) => updateFilter("action", e.target.value as AuditAction)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="">All actions</option>
+                {ACTIONS.map((action) => (
+                  <option key={action} value={action}>
+                    {action}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Entity</label>
+              <select
+                value={filters.entityType || ""}
+                onChange={(e) =>
+                  updateFilter("entityType", e.target.value as AuditEntityType)
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="">All entities</option>
+                {ENTITY_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">User</label>
+              <select
+                value={filters.userId || ""}
+                onChange={(e) => updateFilter("userId", e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="">All users</option>
+                {users.map((u) => (
+                  <option key={u.id} value={u.id}>
+                    {u.full_name || u.username}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">From</label>
+              <input
+                type="date"
+                value={filters.from || ""}
+                onChange={(e) => updateFilter("from", e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">To</label>
+              <input
+                type="date"
+                value={filters.to || ""}
+                onChange={(e) => updateFilter("to", e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Entries */}
+        <div className="max-w-6xl mx-auto px-4 pb-8">
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-600"></div>
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-12">
+                No audit entries match these filters.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-gray-600">
+                    <th className="px-4 py-3">When</th>
+                    <th className="px-4 py-3">User</th>
+                    <th className="px-4 py-3">Action</th>
+                    <th className="px-4 py-3">Entity</th>
+                    <th className="px-4 py-3">Field</th>
+                    <th className="px-4 py-3">Old</th>
+                    <th className="px-4 py-3">New</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="border-t border-gray-100 align-top">
+                      <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3">
+                        {entry.user?.full_name || entry.user?.username || "—"}
+                      </td>
+                      <td className="px-4 py-3 font-medium">{entry.action}</td>
+                      <td className="px-4 py-3">
+                        <button
+                          onClick={() =>
+                            setFilters((prev) => ({
+                              ...prev,
+                              entityType: entry.entity_type,
+                              entityId: entry.entity_id || undefined,
+                            }))
+                          }
+                          className="text-indigo-600 hover:underline"
+                          title="Show only this entity"
+                        >
+                          {entry.entity_type}
+                        </button>
+                      </td>
+                      <td className="px-4 py-3">{entry.changes?.field || "—"}</td>
+                      <td className="px-4 py-3 text-red-700 max-w-xs truncate">
+                        {formatAuditValue(entry.changes?.old_value)}
+                      </td>
+                      <td className="px-4 py-3 text-green-700 max-w-xs truncate">
+                        {formatAuditValue(entry.changes?.new_value)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+          {filters.entityId && (
+            <button
+              onClick={() => updateFilter("entityId", "")}
+              className="mt-3 text-sm text-indigo-600 hover:underline"
+            >
+              Clear entity filter
+            </button>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
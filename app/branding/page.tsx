@@ -0,0 +1,230 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/providers/AuthProvider";
+import { useBranding } from "@/providers/BrandingProvider";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import Logo from "@/components/Logo";
+import UserProfile from "@/components/UserProfile";
+import { updateInstitutionSettings } from "@/lib/api";
+import {
+  MAX_LOGO_LENGTH,
+  TITLE_PLACEHOLDERS,
+  fillTitleTemplate,
+  institutionLine,
+  signatories,
+} from "@/lib/branding";
+import { InstitutionSettings, InstitutionSettingsUpdate } from "@/lib/types";
+import toast from "react-hot-toast";
+import { ArrowLeft, ImageUp, Save, Trash2 } from "lucide-react";
+
+type TextField = Exclude<keyof InstitutionSettingsUpdate, "logo_url">;
+
+const SECTIONS: { title: string; fields: { key: TextField; label: string; hint?: string }[] }[] = [
+  {
+    title: "Institution",
+    fields: [
+      { key: "institution_name", label: "Institution Name" },
+      { key: "institution_address", label: "Address", hint: "Printed after the name, e.g. Pune-01" },
+      { key: "institution_short_name", label: "Short Name", hint: "Shown when the logo cannot be loaded" },
+      { key: "department_name", label: "Department Name" },
+    ],
+  },
+  {
+    title: "Sheet Titles",
+    fields: [
+      { key: "sheet_title_template", label: "TW Evaluation Sheets", hint: "{sheet} is SEM1 or SEM2" },
+      { key: "classification_title_template", label: "Project Classification Sheet" },
+    ],
+  },
+  {
+    title: "Signatories",
+    fields: [
+      { key: "coordinator_name", label: "Project Coordinator" },
+      { key: "hod_name", label: "Head of Department" },
+    ],
+  },
+];
+
+// Sample year for the header preview
+const PREVIEW_YEAR = { start_year: 2025, end_year: 2026 };
+
+export default function BrandingPage() {
+  const { can } = useAuth();
+  const canManageUsers = can("manage_users");
+  const { branding, refreshBranding } = useBranding();
+  const router = useRouter();
+  const [form, setForm] = useState<InstitutionSettings>(branding);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!canManageUsers) {
+      router.push("/dashboard");
+    }
+  }, [canManageUsers, router]);
+
+  useEffect(() => {
+    setForm(branding);
+  }, [branding]);
+
+  function handleLogoFile(file: File | undefined) {
+    if (!file) return;
+    if (!["image/png", "image/jpeg"].includes(file.type)) {
+      toast.error("Choose a PNG or JPEG image");
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result);
+      if (dataUrl.length > MAX_LOGO_LENGTH) {
+        toast.error("The logo image is too large; use one under 350 KB");
+        return;
+      }
+      setForm((current) => ({ ...current, logo_url: dataUrl }));
+    };
+    reader.readAsDataURL(file);
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const { id, updated_at, ...updates } = form;
+      await updateInstitutionSettings(updates);
+      await refreshBranding();
+      toast.success("Branding saved. New exports use it.");
+    } catch (error) {
+      console.error("Error saving branding:", error);
+      toast.error((error as any)?.message || "Failed to save branding");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        <header className="bg-white border-b border-gray-200">
+          <div className="max-w-5xl mx-auto px-4 py-6 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => router.push("/dashboard")}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5 text-gray-600" />
+              </button>
+              <Logo className="h-12 w-12" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Branding</h1>
+                <p className="text-sm text-gray-600">
+                  Admin only: names, logo and signatories printed on every report
+                </p>
+              </div>
+            </div>
+            <UserProfile />
+          </div>
+        </header>
+
+        <form onSubmit={handleSave} className="max-w-5xl mx-auto px-4 py-8 grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {SECTIONS.map((section) => (
+              <div key={section.title} className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+                <h2 className="text-lg font-semibold text-gray-900">{section.title}</h2>
+                {section.fields.map(({ key, label, hint }) => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                    <input
+                      type="text"
+                      value={form[key] || ""}
+                      onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                      className={inputClass}
+                    />
+                    {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+                  </div>
+                ))}
+                {section.title === "Sheet Titles" && (
+                  <p className="text-xs text-gray-500">
+                    Placeholders: {TITLE_PLACEHOLDERS.join(", ")}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-6">
+            <div className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+              <h2 className="text-lg font-semibold text-gray-900">Logo</h2>
+              <div className="flex items-center justify-center h-32 bg-gray-50 rounded-lg border border-dashed border-gray-300">
+                <img
+                  src={form.logo_url || "/logo.png"}
+                  alt="Logo preview"
+                  className="max-h-28 max-w-full object-contain"
+                />
+              </div>
+              <div className="flex gap-2">
+                <label className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 rounded-lg cursor-pointer transition-colors text-sm">
+                  <ImageUp className="w-4 h-4" />
+                  Upload
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    className="hidden"
+                    onChange={(e) => {
+                      handleLogoFile(e.target.files?.[0]);
+                      e.target.value = "";
+                    }}
+                  />
+                </label>
+                {form.logo_url && (
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, logo_url: null })}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Use the default logo"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">PNG or JPEG. Printed on PDF sheets and shown in the app.</p>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-6 space-y-2">
+              <h2 className="text-lg font-semibold text-gray-900">Preview</h2>
+              <div className="text-center border border-gray-200 rounded p-3 space-y-1">
+                <p className="text-sm font-bold text-gray-900">{institutionLine(form)}</p>
+                <p className="text-xs font-semibold text-gray-800">{form.department_name}</p>
+                <p className="text-xs font-semibold text-gray-800">
+                  {fillTitleTemplate(form.sheet_title_template, PREVIEW_YEAR, "SEM1")}
+                </p>
+              </div>
+              <div className="grid grid-cols-3 gap-2 pt-2">
+                {signatories(form, "Guide").map(({ label, name }) => (
+                  <div key={label} className="border-t border-gray-400 pt-1">
+                    <p className="text-[10px] font-semibold text-gray-800">{label}</p>
+                    <p className="text-[10px] text-gray-500">{name || "—"}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Save className="w-5 h-5" />
+              {saving ? "Saving..." : "Save Branding"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </ProtectedRoute>
+  );
+}
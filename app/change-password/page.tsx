@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/providers/AuthProvider";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import Logo from "@/components/Logo";
+import { changePassword } from "@/lib/api";
+import { MIN_PASSWORD_LENGTH } from "@/lib/constants";
+import toast from "react-hot-toast";
+import { ArrowLeft, Eye, EyeOff, KeyRound } from "lucide-react";
+
+export default function ChangePasswordPage() {
+  const { refreshUser, mustChangePassword, logout } = useAuth();
+  const router = useRouter();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast.error("The new passwords do not match");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await changePassword(currentPassword, newPassword);
+      await refreshUser();
+      toast.success("Password changed");
+      router.push("/dashboard");
+    } catch (error) {
+      console.error("Error changing password:", error);
+      toast.error((error as any)?.message || "Failed to change password");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleLogout() {
+    await logout();
+    router.push("/login");
+  }
+
+  const inputType = showPasswords ? "text" : "password";
+  const inputClass =
+    "w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <div className="w-full max-w-md bg-white rounded-2xl shadow-2xl p-6 sm:p-8 border border-gray-100">
+          <div className="flex items-center gap-4 mb-6">
+            {!mustChangePassword && (
+              <button
+                onClick={() => router.push("/dashboard")}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-5 h-5 text-gray-600" />
+              </button>
+            )}
+            <Logo className="h-12 w-12" />
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">Change Password</h1>
+              {mustChangePassword && (
+                <p className="text-sm text-gray-600">
+                  You signed in with a temporary password. Choose your own to continue.
+                </p>
+              )}
+            </div>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {mustChangePassword ? "Temporary password" : "Current password"}
+              </label>
+              <input
+                type={inputType}
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                autoComplete="current-password"
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                New password
+              </label>
+              <input
+                type={inputType}
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                autoComplete="new-password"
+                placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Confirm new password
+              </label>
+              <input
+                type={inputType}
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                autoComplete="new-password"
+                required
+                className={inputClass}
+              />
+            </div>
+
+            <button
+              type="button"
+              onClick={() => setShowPasswords(!showPasswords)}
+              className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900"
+            >
+              {showPasswords ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              {showPasswords ? "Hide passwords" : "Show passwords"}
+            </button>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <KeyRound className="w-5 h-5" />
+              {saving ? "Saving..." : "Change Password"}
+            </button>
+
+            {mustChangePassword && (
+              <button
+                type="button"
+                onClick={handleLogout}
+                className="w-full text-sm text-gray-600 hover:text-gray-900"
+              >
+                Log out instead
+              </button>
+            )}
+          </form>
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -3,23 +3,25 @@
 import { useAuth } from "@/providers/AuthProvider";
 import { useRouter } from "next/navigation";
 import ProtectedRoute from "@/components/ProtectedRoute";
-import { LogOut, User, BookOpen, BarChart3 } from "lucide-react";
+import { LogOut, User, BookOpen, BarChart3, History, Palette } from "lucide-react";
 import toast from "react-hot-toast";
 import { useState, useEffect } from "react";
 import Logo from "@/components/Logo";
 import UserProfile from "@/components/UserProfile";
+import { ROLE_LABELS } from "@/lib/permissions";
 
 export default function DashboardPage() {
-  const { user, logout, isAdmin, isTeacher, loading } = useAuth();
+  const { user, logout, can, loading } = useAuth();
+  const ownGroupsOnly = !can("view");
   const router = useRouter();
   const [showMenu, setShowMenu] = useState(false);
 
-  // Redirect teacher users directly to Academic Years
+  // Users who only see their own groups go directly to Academic Years
   useEffect(() => {
-    if (!loading && isTeacher) {
+    if (!loading && ownGroupsOnly) {
       router.push('/academic-years');
     }
-  }, [isTeacher, loading, router]);
+  }, [ownGroupsOnly, loading, router]);
 
   const handleLogout = async () => {
     try {
@@ -42,13 +44,25 @@ export default function DashboardPage() {
       label: "User Management",
       href: "/users",
       icon: User,
-      visible: isAdmin,
+      visible: can("manage_users"),
     },
     {
       label: "Reports",
       href: "/reports",
       icon: BarChart3,
-      visible: true,
+      visible: can("export", "any"),
+    },
+    {
+      label: "Audit Log",
+      href: "/audit",
+      icon: History,
+      visible: can("manage_users"),
+    },
+    {
+      label: "Branding",
+      href: "/branding",
+      icon: Palette,
+      visible: can("manage_users"),
     },
   ];
 
@@ -93,8 +107,8 @@ export default function DashboardPage() {
               {/* Role Card */}
               <div className="bg-white rounded-lg shadow-sm p-5">
                 <h3 className="text-sm font-semibold text-gray-700 mb-1">Role</h3>
-                <p className="text-xl font-bold text-gray-900 capitalize">{user?.role}</p>
-                <p className="text-sm text-gray-500 mt-2">{user?.role === "admin" ? "Full system access" : "Limited access"}</p>
+                <p className="text-xl font-bold text-gray-900">{user ? ROLE_LABELS[user.role] : ""}</p>
+                <p className="text-sm text-gray-500 mt-2">{can("manage_users") ? "Full system access" : "Limited access"}</p>
               </div>
 
               {/* Quick Actions (prominent) */}
@@ -105,8 +119,8 @@ export default function DashboardPage() {
                 </div>
                 <div className="flex flex-col gap-2">
                   <button onClick={() => router.push('/academic-years')} className="w-full px-4 py-2 bg-indigo-600 text-white rounded-md text-sm font-medium">Academic Years</button>
-                  {isAdmin && <button onClick={() => router.push('/users')} className="w-full px-4 py-2 bg-white border border-gray-200 text-gray-800 rounded-md text-sm font-medium">Manage Users</button>}
-                  <button onClick={() => router.push('/reports')} className="w-full px-4 py-2 bg-white border border-gray-200 text-gray-800 rounded-md text-sm font-medium">Reports</button>
+                  {can("manage_users") && <button onClick={() => router.push('/users')} className="w-full px-4 py-2 bg-white border border-gray-200 text-gray-800 rounded-md text-sm font-medium">Manage Users</button>}
+                  {can("export", "any") && <button onClick={() => router.push('/reports')} className="w-full px-4 py-2 bg-white border border-gray-200 text-gray-800 rounded-md text-sm font-medium">Reports</button>}
                 </div>
                 <p className="text-xs text-gray-400 mt-2">Primary action is highlighted for quick access.</p>
               </div>
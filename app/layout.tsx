@@ -3,6 +3,7 @@ import { Inter } from "next/font/google";
 import "./globals.css";
 import { Toaster } from "react-hot-toast";
 import { AuthProvider } from "@/providers/AuthProvider";
+import { BrandingProvider } from "@/providers/BrandingProvider";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -30,31 +31,33 @@ export default function RootLayout({
             </head>
             <body className={inter.className}>
                 <AuthProvider>
-                    {children}
-                    <Toaster
-                        position="top-right"
-                        toastOptions={{
-                            duration: 3000,
-                            style: {
-                                background: '#363636',
-                                color: '#fff',
-                            },
-                            success: {
+                    <BrandingProvider>
+                        {children}
+                        <Toaster
+                            position="top-right"
+                            toastOptions={{
                                 duration: 3000,
-                                iconTheme: {
-                                    primary: '#10b981',
-                                    secondary: '#fff',
+                                style: {
+                                    background: '#363636',
+                                    color: '#fff',
                                 },
-                            },
-                            error: {
-                                duration: 4000,
-                                iconTheme: {
-                                    primary: '#ef4444',
-                                    secondary: '#fff',
+                                success: {
+                                    duration: 3000,
+                                    iconTheme: {
+                                        primary: '#10b981',
+                                        secondary: '#fff',
+                                    },
                                 },
-                            },
-                        }}
-                    />
+                                error: {
+                                    duration: 4000,
+                                    iconTheme: {
+                                        primary: '#ef4444',
+                                        secondary: '#fff',
+                                    },
+                                },
+                            }}
+                        />
+                    </BrandingProvider>
                 </AuthProvider>
             </body>
         </html>
@@ -151,7 +151,7 @@ export default function LoginPage() {
                     Forgot Password?
                   </h3>
                   <p className="text-sm text-gray-600 mb-6">
-                    Since this is an admin-managed system, please contact your administrator to reset your password.
+                    Since this is an admin-managed system, please contact your administrator. They can issue a temporary password that you change on your next login.
                   </p>
                   {/*
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
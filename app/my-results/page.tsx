@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import ProtectedRoute from "@/components/ProtectedRoute";
+import Logo from "@/components/Logo";
+import UserProfile from "@/components/UserProfile";
+import { getMyResults } from "@/lib/api";
+import { StudentPresentationResult, StudentResults } from "@/lib/types";
+import toast from "react-hot-toast";
+import { Clock, GraduationCap } from "lucide-react";
+
+function PresentationCard({ result }: { result: StudentPresentationResult }) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{result.presentationName}</h3>
+          <p className="text-sm text-gray-600">
+            Group {result.groupNumber} · Guide: {result.guideName || "—"}
+          </p>
+          {result.projectTitle && (
+            <p className="text-sm text-gray-800 mt-1">{result.projectTitle}</p>
+          )}
+        </div>
+        {result.published && result.total !== undefined && (
+          <div className="text-right">
+            <p className="text-2xl font-bold text-indigo-600">
+              {result.total}
+              <span className="text-sm font-normal text-gray-500"> / {result.totalMax}</span>
+            </p>
+            <p className="text-xs text-gray-500">{result.totalLabel}</p>
+          </div>
+        )}
+      </div>
+
+      {result.published && result.criteria ? (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-left text-gray-600">
+              <th className="py-2 font-medium">Criterion</th>
+              <th className="py-2 font-medium text-right">Marks</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.criteria.map((criterion) => (
+              <tr key={criterion.name} className="border-b border-gray-100">
+                <td className="py-2 text-gray-800">{criterion.name}</td>
+                <td className="py-2 text-right text-gray-900">
+                  {criterion.mark} / {criterion.maxMark}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="flex items-center gap-2 text-sm text-gray-500">
+          <Clock className="w-4 h-4" />
+          Results not yet published
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Student logins land here: their own groups and published marks only
+ */
+export default function MyResultsPage() {
+  const [results, setResults] = useState<StudentResults | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    getMyResults()
+      .then(setResults)
+      .catch((error) => {
+        console.error("Error loading results:", error);
+        toast.error((error as any)?.message || "Failed to load results");
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        <header className="bg-white border-b border-gray-200">
+          <div className="max-w-5xl mx-auto px-4 py-6 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Logo className="h-12 w-12" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">My Results</h1>
+                {results && (
+                  <p className="text-sm text-gray-600">
+                    {results.studentName}
+                    {results.rollNumber && ` · Roll No. ${results.rollNumber}`}
+                    {results.prn && ` · PRN ${results.prn}`}
+                  </p>
+                )}
+              </div>
+            </div>
+            <UserProfile />
+          </div>
+        </header>
+
+        <main className="max-w-5xl mx-auto px-4 py-8 space-y-10">
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto"></div>
+            </div>
+          ) : !results || results.years.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-sm p-12 text-center text-gray-600">
+              <GraduationCap className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              You have not been placed in a project group yet.
+            </div>
+          ) : (
+            results.years.map((year) => (
+              <section key={year.academicYearName} className="space-y-4">
+                <h2 className="text-xl font-bold text-gray-900">{year.academicYearName}</h2>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {year.presentations.map((result) => (
+                    <PresentationCard key={result.presentationNumber} result={result} />
+                  ))}
+                </div>
+
+                {year.semesters.length > 0 && (
+                  <div className="bg-white rounded-lg shadow-sm p-6">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-3">Semester Totals</h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      {year.semesters.map((semester) => (
+                        <div key={semester.semester} className="rounded-lg bg-indigo-50 p-4">
+                          <p className="text-sm text-gray-600">Semester {semester.semester}</p>
+                          <p className="text-lg font-bold text-gray-900">
+                            {semester.totalOutOf100} / 100
+                            <span className="text-sm font-normal text-gray-600">
+                              {" "}
+                              ({semester.totalOutOf50} / 50)
+                            </span>
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </section>
+            ))
+          )}
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -3,15 +3,20 @@
 import { redirect } from 'next/navigation';
 import { useAuth } from '@/providers/AuthProvider';
 import { useEffect } from 'react';
+import { isStudent } from '@/lib/permissions';
 
 export default function Home() {
-    const { isAuthenticated, loading, isTeacher } = useAuth();
+    const { user, isAuthenticated, loading, can } = useAuth();
+    // Users who only see their own groups land directly on Academic Years
+    const ownGroupsOnly = !can('view');
+    const student = isStudent(user);
 
     useEffect(() => {
         if (!loading) {
             if (isAuthenticated) {
-                // Teachers should land directly on Academic Years
-                if (isTeacher) {
+                if (student) {
+                    redirect('/my-results');
+                } else if (ownGroupsOnly) {
                     redirect('/academic-years');
                 } else {
                     redirect('/dashboard');
@@ -20,7 +25,7 @@ export default function Home() {
                 redirect('/login');
             }
         }
-    }, [isAuthenticated, loading, isTeacher]);
+    }, [isAuthenticated, loading, ownGroupsOnly, student]);
 
     return (
         <div className="min-h-screen flex items-center justify-center">
@@ -7,17 +7,14 @@ import ProtectedRoute from "@/components/ProtectedRoute";
 import {
   getPresentationsByAcademicYear,
   getAllAcademicYears,
-  getGroupsByPresentation,
-  getGroupsByPresentationForTeacher,
   getPresentationsWithGroupsForTeacher,
 } from "@/lib/database";
-import { exportAnnualReportFormattedAndSeparated, exportAnnualReportBySemester } from "@/lib/excelExportFormatted";
 import {
-  exportPresentation1Report,
-  exportPresentation2Report,
-  exportPresentation3Report,
-  exportPresentation4Report,
-} from "@/lib/excelExportByPresentation";
+  downloadAnnualReport,
+  downloadPresentationReport,
+  downloadPdfReport,
+  getPresentationGroups,
+} from "@/lib/api";
 import toast from "react-hot-toast";
 import {
   ArrowLeft,
@@ -25,13 +22,15 @@ import {
   FileSpreadsheet,
   BarChart3,
   BookOpen,
+  FileText,
 } from "lucide-react";
-import { AcademicYear, Presentation, Group } from "@/lib/types";
+import { AcademicYear, Presentation, Group, PdfReportScope } from "@/lib/types";
 import Logo from "@/components/Logo";
 import UserProfile from "@/components/UserProfile";
 
 export default function ReportsPage() {
-  const { user, isAdmin, isTeacher } = useAuth();
+  const { user, can } = useAuth();
+  const canExportAll = can("export");
   const router = useRouter();
   const [academicYears, setAcademicYears] = useState<AcademicYear[]>([]);
   const [presentations, setPresentations] = useState<Presentation[]>([]);
@@ -42,6 +41,8 @@ export default function ReportsPage() {
   const [groups, setGroups] = useState<Group[]>([]);
   const [guides, setGuides] = useState<string[]>([]);
   const [selectedGuide, setSelectedGuide] = useState<string>("all");
+  // Published results instead of the marks being entered
+  const [official, setOfficial] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
 
@@ -67,7 +68,7 @@ export default function ReportsPage() {
   const loadAcademicYears = async () => {
     try {
       setIsLoading(true);
-      const years = await getAllAcademicYears();
+      const years = await getAllAcademicYears(user!.department_id);
       setAcademicYears(years);
 
       // Auto-select the first academic year if available
@@ -84,7 +85,7 @@ export default function ReportsPage() {
 
   const loadPresentations = async (academicYearId: string) => {
     try {
-      const presen = isTeacher && user
+      const presen = !canExportAll && user
         ? await getPresentationsWithGroupsForTeacher(academicYearId, user.id)
         : await getPresentationsByAcademicYear(academicYearId);
       setPresentations(presen);
@@ -106,13 +107,13 @@ export default function ReportsPage() {
     try {
       let loadedGroups: Group[] = [];
 
-      // Load groups based on user role
-      if (isTeacher && user) {
-        // Teachers see only their groups
-        loadedGroups = await getGroupsByPresentationForTeacher(presentationId, user.id);
+      // Load groups based on the user's export permission
+      if (!canExportAll && user) {
+        // Guides see only their groups
+        loadedGroups = await getPresentationGroups(presentationId, true);
       } else {
-        // Admins see all groups
-        loadedGroups = await getGroupsByPresentation(presentationId);
+        // Department-wide export sees all groups
+        loadedGroups = await getPresentationGroups(presentationId);
       }
 
       setGroups(loadedGroups);
@@ -140,43 +141,21 @@ export default function ReportsPage() {
 
     try {
       setIsExporting(true);
-      toast.loading("Verifying authorization...");
-
-      // Backend authorization verification
-      if (user && user.token) {
-        const authResponse = await fetch("/api/reports/export-annual", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            academicYearId: selectedAcademicYear.id,
-            userId: user.id,
-            token: user.token,
-          }),
-        });
-
-        if (!authResponse.ok) {
-          toast.dismiss();
-          const errorData = await authResponse.json();
-          toast.error(
-            errorData.error || "You are not authorized to export this report",
-          );
-          return;
-        }
-      }
-
       toast.loading("Generating annual report...");
-      await exportAnnualReportBySemester(
+
+      // Authorized and built on the server
+      await downloadAnnualReport(
         selectedAcademicYear.id,
-        user?.id,
-        (user as any)?.role,
+        "annual_by_semester",
         selectedGuide === "all" ? undefined : selectedGuide,
+        official,
       );
       toast.dismiss();
       toast.success("Annual report exported successfully");
     } catch (error) {
       toast.dismiss();
       console.error("Error exporting annual report:", error);
-      toast.error("Failed to export annual report");
+      toast.error((error as any)?.message || "Failed to export annual report");
     } finally {
       setIsExporting(false);
     }
@@ -193,55 +172,25 @@ export default function ReportsPage() {
       return;
     }
 
+    const target = presentations.find((p) =>
+      p.name.trim().endsWith(String(presentationNumber)),
+    );
+    if (!target) {
+      toast.error(`Presentation ${presentationNumber} not found in this academic year`);
+      return;
+    }
+
     try {
       setIsExporting(true);
-      toast.loading(
-        `Verifying authorization for presentation ${presentationNumber}...`,
-      );
-
-      // Backend authorization verification
-      if (user && user.token) {
-        const authResponse = await fetch("/api/reports/export-presentation", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            presentationId: selectedPresentation.id,
-            presentationNumber,
-            userId: user.id,
-            token: user.token,
-          }),
-        });
-
-        if (!authResponse.ok) {
-          toast.dismiss();
-          const errorData = await authResponse.json();
-          toast.error(
-            errorData.error || "You are not authorized to export this report",
-          );
-          return;
-        }
-      }
-
       toast.loading(`Generating presentation ${presentationNumber} report...`);
 
-      const guideParam = selectedGuide === "all" ? undefined : selectedGuide;
-
-      switch (presentationNumber) {
-        case 1:
-          await exportPresentation1Report(selectedAcademicYear.id, user?.id, (user as any)?.role, guideParam);
-          break;
-        case 2:
-          await exportPresentation2Report(selectedAcademicYear.id, user?.id, (user as any)?.role, guideParam);
-          break;
-        case 3:
-          await exportPresentation3Report(selectedAcademicYear.id, user?.id, (user as any)?.role, guideParam);
-          break;
-        case 4:
-          await exportPresentation4Report(selectedAcademicYear.id, user?.id, (user as any)?.role, guideParam);
-          break;
-        default:
-          throw new Error("Invalid presentation number");
-      }
+      // Authorized and built on the server
+      await downloadPresentationReport(
+        target.id,
+        "marks",
+        selectedGuide === "all" ? undefined : selectedGuide,
+        official,
+      );
 
       toast.dismiss();
       toast.success(
@@ -250,14 +199,54 @@ export default function ReportsPage() {
     } catch (error) {
       toast.dismiss();
       console.error("Error exporting presentation report:", error);
-      toast.error("Failed to export presentation report");
+      toast.error((error as any)?.message || "Failed to export presentation report");
     } finally {
       setIsExporting(false);
     }
   };
 
-  // Authorization check: Only allow admins
-  if (!isAdmin) {
+  const handleExportPdf = async (scope: PdfReportScope, presentationNumber?: number) => {
+    if (!selectedAcademicYear) {
+      toast.error("Please select an academic year");
+      return;
+    }
+
+    let id = selectedAcademicYear.id;
+    if (scope === "presentation") {
+      const target = presentations.find((p) =>
+        p.name.trim().endsWith(String(presentationNumber)),
+      );
+      if (!target) {
+        toast.error(`Presentation ${presentationNumber} not found in this academic year`);
+        return;
+      }
+      id = target.id;
+    }
+
+    try {
+      setIsExporting(true);
+      toast.loading("Generating PDF TW sheet...");
+
+      // Authorized and rendered on the server
+      await downloadPdfReport(
+        scope,
+        id,
+        selectedGuide === "all" ? undefined : selectedGuide,
+        official,
+      );
+      toast.dismiss();
+      toast.success("PDF exported successfully");
+    } catch (error) {
+      toast.dismiss();
+      console.error("Error exporting PDF:", error);
+      toast.error((error as any)?.message || "Failed to export PDF");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Authorization check: only roles that export department-wide
+  if (!canExportAll) {
     return (
       <ProtectedRoute>
         <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -266,7 +255,7 @@ export default function ReportsPage() {
               Access Denied
             </h1>
             <p className="text-gray-600 mb-6">
-              Reports are only available for administrators. Please contact your administrator for report access.
+              Reports are only available to roles that export department reports. Please contact your administrator for report access.
             </p>
             <button
               onClick={() => router.push("/dashboard")}
@@ -319,7 +308,7 @@ export default function ReportsPage() {
                 <div>
                   <h1 className="text-2xl font-bold text-gray-900">Reports</h1>
                   <p className="text-sm text-gray-600">
-                    {isAdmin
+                    {canExportAll
                       ? "View and download reports for all academic years"
                       : "View and download your assigned group reports"}
                   </p>
@@ -455,6 +444,22 @@ export default function ReportsPage() {
                     </div>
                   </div>
                 </div>
+
+                <label className="flex items-start gap-3 mt-6 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={official}
+                    onChange={(e) => setOfficial(e.target.checked)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="font-medium text-gray-900">Official results</span>
+                    <span className="block text-xs text-gray-600">
+                      Export the published results. Otherwise the marks being entered are
+                      exported, and sheets not yet published are marked DRAFT.
+                    </span>
+                  </span>
+                </label>
               </div>
 
               {/* Export Options Section */}
@@ -477,9 +482,9 @@ export default function ReportsPage() {
                   </p>
                 </div>
 
-                {isAdmin ? (
+                {canExportAll ? (
                   <p className="text-xs text-green-700 bg-green-50 rounded px-3 py-2 mb-6">
-                    ✓ Admin Access: Full reports with all groups
+                    ✓ Department Access: Full reports with all groups
                   </p>
                 ) : (
                   <p className="text-xs text-blue-700 bg-blue-50 rounded px-3 py-2 mb-6">
@@ -511,6 +516,53 @@ export default function ReportsPage() {
                 </button>
               </div>
 
+              {/* PDF TW Sheets Section */}
+              <div className="bg-white rounded-lg shadow p-6 hover:shadow-lg transition-shadow">
+                <div className="flex items-start justify-between mb-6">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-1">
+                      PDF TW Sheets
+                    </h3>
+                    <p className="text-sm text-gray-600">
+                      Printable sheets with signature blocks for the guide, project coordinator and HOD
+                    </p>
+                  </div>
+                  <FileText className="w-6 h-6 text-rose-600 flex-shrink-0" />
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+                  {[1, 2, 3, 4].map((num) => (
+                    <button
+                      key={num}
+                      onClick={() => handleExportPdf("presentation", num)}
+                      disabled={!selectedAcademicYear || isExporting}
+                      className="px-4 py-3 text-sm font-medium bg-rose-50 hover:bg-rose-100 border border-rose-200 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-rose-700 flex items-center justify-center gap-2"
+                    >
+                      <FileText className="w-4 h-4" />
+                      P{num}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {([
+                    ["semester1", "Semester 1"],
+                    ["semester2", "Semester 2"],
+                    ["annual", "Annual"],
+                  ] as const).map(([scope, label]) => (
+                    <button
+                      key={scope}
+                      onClick={() => handleExportPdf(scope)}
+                      disabled={!selectedAcademicYear || isExporting}
+                      className="px-4 py-3 text-sm font-medium bg-rose-50 hover:bg-rose-100 border border-rose-200 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-rose-700 flex items-center justify-center gap-2"
+                    >
+                      <FileText className="w-4 h-4" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               {/* Info Section */}
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
                 <h3 className="font-semibold text-blue-900 mb-2 flex items-center gap-2">
@@ -518,19 +570,19 @@ export default function ReportsPage() {
                   About Reports
                 </h3>
                 <ul className="text-sm text-blue-800 space-y-1">
-                  {isAdmin && (
+                  {canExportAll && (
                     <>
                       <li>
-                        • As an admin, you have access to all reports across the
-                        system
+                        • Your role has access to all reports of your
+                        department
                       </li>
                       <li>• You can view and download reports for any group</li>
                     </>
                   )}
-                  {isTeacher && (
+                  {!canExportAll && (
                     <>
                       <li>
-                        • As a teacher, you can only view reports for your
+                        • As a guide, you can only view reports for your
                         assigned groups
                       </li>
                       <li>
@@ -5,41 +5,51 @@ import { useAuth } from "@/providers/AuthProvider";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import Logo from "@/components/Logo";
 import UserProfile from "@/components/UserProfile";
-import { User } from "@/lib/types";
-import { getAllUsers, registerUser, updateUser, deleteUser } from "@/lib/auth";
+import { User, UserRole } from "@/lib/types";
+import { ROLES, ROLE_LABELS } from "@/lib/permissions";
+import { getAllUsers } from "@/lib/database";
+import { MIN_PASSWORD_LENGTH, PROTECTED_USERNAMES } from "@/lib/constants";
 import { exportUsersToExcel } from "@/lib/excelExportUsers";
+import { createUser, deleteUser, resetUserPassword, unlockUser, updateUser } from "@/lib/api";
 import { useRouter } from "next/navigation";
 import toast from "react-hot-toast";
-import { Plus, Trash2, Edit2, ArrowLeft, Shield, Eye, EyeOff, Download } from "lucide-react";
+import { Plus, Trash2, Edit2, ArrowLeft, Shield, Eye, EyeOff, Download, KeyRound, Copy, Unlock } from "lucide-react";
+
+function isLocked(u: User): boolean {
+  return !!u.locked_until && new Date(u.locked_until) > new Date();
+}
 
 export default function UsersPage() {
-  const { user, isAdmin } = useAuth();
+  const { user, can } = useAuth();
+  const canManageUsers = can("manage_users");
   const router = useRouter();
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [editingUserId, setEditingUserId] = useState<string | null>(null);
   const [showPassword, setShowPassword] = useState(false);
+  const [temporaryPassword, setTemporaryPassword] = useState<{ username: string; password: string } | null>(null);
   const [formData, setFormData] = useState({
     email: "",
     username: "",
     full_name: "",
     password: "",
-    role: "teacher" as "admin" | "teacher",
+    role: "teacher" as UserRole,
+    student_identifier: "", // PRN or roll number of a student login's record
   });
 
   useEffect(() => {
-    if (!isAdmin) {
+    if (!canManageUsers) {
       router.push("/dashboard");
       return;
     }
     loadUsers();
-  }, [isAdmin, router]);
+  }, [canManageUsers, router]);
 
   async function loadUsers() {
     try {
       setLoading(true);
-      const data = await getAllUsers();
+      const data = await getAllUsers(user!.department_id);
       setUsers(data);
     } catch (error) {
       console.error("Error loading users:", error);
@@ -58,16 +68,25 @@ export default function UsersPage() {
       return;
     }
 
+    if (formData.role === "student" && !editingUserId && !formData.student_identifier.trim()) {
+      toast.error("Enter the student's PRN or roll number");
+      return;
+    }
+
+    // Authorized, validated and linked to the student record on the server
+    const input = {
+      email: formData.email,
+      username: formData.username,
+      full_name: formData.full_name,
+      role: formData.role,
+      password: formData.password || undefined,
+      student_identifier: formData.role === "student" ? formData.student_identifier : undefined,
+    };
+
     try {
       if (editingUserId) {
         // Update existing user (password optional)
-        await updateUser(editingUserId, {
-          email: formData.email,
-          username: formData.username,
-          full_name: formData.full_name,
-          role: formData.role,
-          password: formData.password || undefined,
-        }, user?.id);
+        await updateUser(editingUserId, input);
 
         toast.success("User updated successfully");
       } else {
@@ -77,14 +96,7 @@ export default function UsersPage() {
           return;
         }
 
-        await registerUser(
-          formData.email,
-          formData.username,
-          formData.password,
-          formData.role,
-          formData.full_name,
-          user?.id!,
-        );
+        await createUser(input);
 
         toast.success("User created successfully");
       }
@@ -96,6 +108,7 @@ export default function UsersPage() {
         full_name: "",
         password: "",
         role: "teacher",
+        student_identifier: "",
       });
       setShowPassword(false);
       setShowCreateForm(false);
@@ -125,20 +138,44 @@ export default function UsersPage() {
       username: u.username || "",
       full_name: u.full_name || "",
       password: "",
-      role: u.role as "admin" | "teacher",
+      role: u.role,
+      student_identifier: "",
     });
     setShowCreateForm(true);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }
 
+  async function handleResetPassword(u: User) {
+    if (!confirm(`Reset the password of ${u.username}? They are signed out and must choose a new password with the temporary one.`)) return;
+    try {
+      const password = await resetUserPassword(u.id);
+      setTemporaryPassword({ username: u.username, password });
+      loadUsers();
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      toast.error((error as any)?.message || 'Failed to reset password');
+    }
+  }
+
+  async function handleUnlockUser(u: User) {
+    try {
+      await unlockUser(u.id);
+      toast.success(`${u.username} can sign in again`);
+      loadUsers();
+    } catch (error) {
+      console.error('Error unlocking user:', error);
+      toast.error((error as any)?.message || 'Failed to unlock user');
+    }
+  }
+
   async function handleDeleteUser(u: User) {
-    if (u.username === "meswcoe_admin" || u.username === "STAR_ARTS") {
+    if (PROTECTED_USERNAMES.includes(u.username)) {
       toast.error("Cannot delete this protected user account");
       return;
     }
     if (!confirm(`Permanently delete user ${u.username}? This action cannot be undone.`)) return;
     try {
-      await deleteUser(u.id, user?.id);
+      await deleteUser(u.id);
       toast.success('User permanently deleted from system');
       loadUsers();
     } catch (error) {
@@ -316,15 +353,37 @@ export default function UsersPage() {
                       onChange={(e) =>
                         setFormData({
                           ...formData,
-                          role: e.target.value as "admin" | "teacher",
+                          role: e.target.value as UserRole,
                         })
                       }
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
                     >
-                      <option value="teacher">Teacher</option>
-                      <option value="admin">Admin</option>
+                      {ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {ROLE_LABELS[role]}
+                        </option>
+                      ))}
                     </select>
                   </div>
+                  {formData.role === "student" && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Student PRN or Roll Number {!editingUserId && <span className="text-red-500">*</span>}
+                      </label>
+                      <input
+                        type="text"
+                        value={formData.student_identifier}
+                        onChange={(e) =>
+                          setFormData({ ...formData, student_identifier: e.target.value })
+                        }
+                        placeholder={editingUserId ? "Leave blank to keep the current student" : "72012345L"}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        The student only sees this record&apos;s published results
+                      </p>
+                    </div>
+                  )}
                 </div>
 
                 <div>
@@ -368,7 +427,7 @@ export default function UsersPage() {
                     </button>
                   </div>
                   <p className="text-xs text-gray-500 mt-1">
-                    Min 8 characters recommended
+                    At least {MIN_PASSWORD_LENGTH} characters
                   </p>
                 </div>
 
@@ -391,6 +450,7 @@ export default function UsersPage() {
                         full_name: "",
                         password: "",
                         role: "teacher",
+                        student_identifier: "",
                       });
                     }}
                     className="px-6 py-2 bg-gray-300 hover:bg-gray-400 text-gray-900 rounded-lg transition-colors"
@@ -468,7 +528,7 @@ export default function UsersPage() {
                             {u.role === "admin" && (
                               <Shield className="w-3 h-3" />
                             )}
-                            {u.role}
+                            {ROLE_LABELS[u.role] || u.role}
                           </span>
                         </td>
                         <td className="px-6 py-4">
@@ -477,6 +537,19 @@ export default function UsersPage() {
                           >
                             {u.is_active ? "Active" : "Inactive"}
                           </span>
+                          {u.must_change_password && (
+                            <span className="ml-2 inline-flex px-2 py-1 rounded-full text-xs font-semibold bg-amber-100 text-amber-800">
+                              Temporary password
+                            </span>
+                          )}
+                          {isLocked(u) && (
+                            <span
+                              className="ml-2 inline-flex px-2 py-1 rounded-full text-xs font-semibold bg-red-100 text-red-800"
+                              title={`Locked until ${new Date(u.locked_until!).toLocaleTimeString()} after ${u.failed_login_count} failed logins`}
+                            >
+                              Locked
+                            </span>
+                          )}
                         </td>
                         <td className="px-6 py-4 text-sm text-gray-600">
                           {new Date(u.created_at).toLocaleDateString()}
@@ -486,12 +559,22 @@ export default function UsersPage() {
                             <button onClick={() => handleEditUser(u)} className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors" title="Edit user">
                               <Edit2 className="w-4 h-4" />
                             </button>
-                            {u.username !== "STAR_ARTS" && u.username !== "meswcoe_admin" && (
+                            {u.id !== user?.id && (
+                              <button onClick={() => handleResetPassword(u)} className="p-2 text-amber-600 hover:text-amber-800 hover:bg-amber-50 rounded transition-colors" title="Reset password">
+                                <KeyRound className="w-4 h-4" />
+                              </button>
+                            )}
+                            {(isLocked(u) || !!u.failed_login_count) && (
+                              <button onClick={() => handleUnlockUser(u)} className="p-2 text-green-600 hover:text-green-800 hover:bg-green-50 rounded transition-colors" title={isLocked(u) ? "Unlock account" : `Clear ${u.failed_login_count} failed login(s)`}>
+                                <Unlock className="w-4 h-4" />
+                              </button>
+                            )}
+                            {!PROTECTED_USERNAMES.includes(u.username) && (
                               <button onClick={() => handleDeleteUser(u)} className="p-2 text-red-600 hover:text-red-900 hover:bg-red-50 rounded transition-colors" title="Delete user">
                                 <Trash2 className="w-4 h-4" />
                               </button>
                             )}
-                            {(u.username === "meswcoe_admin" || u.username === "STAR_ARTS") && (
+                            {PROTECTED_USERNAMES.includes(u.username) && (
                               <div className="p-2 text-gray-400 cursor-not-allowed" title="Protected user - cannot be deleted">
                                 <Trash2 className="w-4 h-4" />
                               </div>
@@ -509,6 +592,41 @@ export default function UsersPage() {
 
         </div>
       </div>
+
+      {temporaryPassword && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Temporary password for {temporaryPassword.username}
+            </h3>
+            <p className="text-sm text-gray-600">
+              Share it with the user. It is shown only once; they must choose a
+              new password when they log in with it.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 px-3 py-2 bg-gray-100 rounded-lg font-mono text-lg tracking-wider">
+                {temporaryPassword.password}
+              </code>
+              <button
+                onClick={() => {
+                  navigator.clipboard.writeText(temporaryPassword.password);
+                  toast.success("Copied");
+                }}
+                className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors"
+                title="Copy"
+              >
+                <Copy className="w-5 h-5" />
+              </button>
+            </div>
+            <button
+              onClick={() => setTemporaryPassword(null)}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
     </ProtectedRoute>
   );
 }
@@ -5,13 +5,14 @@ import { useRouter } from "next/navigation";
 import { AcademicYear } from "@/lib/types";
 import {
   getAllAcademicYears,
+  getPresentationsByAcademicYear,
+} from "@/lib/database";
+import {
   createAcademicYear,
   deleteAcademicYear,
-  getPresentationsByAcademicYear,
   updateAcademicYear,
-} from "@/lib/database";
-import { exportAnnualReport } from "@/lib/excelExportAnnual";
-import { generateSlug } from "@/lib/slugs";
+  downloadAnnualReport,
+} from "@/lib/api";
 import { useAuth } from "@/providers/AuthProvider";
 import toast from "react-hot-toast";
 import UserProfile from "./UserProfile";
@@ -28,7 +29,8 @@ import {
 
 export default function AcademicYearDashboard() {
   const router = useRouter();
-  const { isAdmin } = useAuth();
+  const { user, can } = useAuth();
+  const canManageGroups = can("manage_groups");
   const [academicYears, setAcademicYears] = useState<AcademicYear[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -44,7 +46,7 @@ export default function AcademicYearDashboard() {
 
   async function loadAcademicYears() {
     try {
-      const data = await getAllAcademicYears();
+      const data = await getAllAcademicYears(user!.department_id);
       setAcademicYears(data);
 
       // Load presentation counts for each academic year
@@ -65,8 +67,8 @@ export default function AcademicYearDashboard() {
   async function handleCreateAcademicYear(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
     
-    if (!isAdmin) {
-      toast.error("Only admins can create academic years");
+    if (!canManageGroups) {
+      toast.error("Your role cannot create academic years");
       return;
     }
 
@@ -88,8 +90,8 @@ export default function AcademicYearDashboard() {
   }
 
   async function handleDeleteAcademicYear(id: string, name: string) {
-    if (!isAdmin) {
-      toast.error("Only admins can delete academic years");
+    if (!canManageGroups) {
+      toast.error("Your role cannot delete academic years");
       return;
     }
 
@@ -115,8 +117,8 @@ export default function AcademicYearDashboard() {
     e.preventDefault();
     if (!editingYear) return;
 
-    if (!isAdmin) {
-      toast.error("Only admins can edit academic years");
+    if (!canManageGroups) {
+      toast.error("Your role cannot edit academic years");
       return;
     }
 
@@ -146,7 +148,7 @@ export default function AcademicYearDashboard() {
   async function handleExportAnnualReport(yearId: string) {
     try {
       toast.loading("Generating Annual Report...");
-      await exportAnnualReport(yearId);
+      await downloadAnnualReport(yearId, "all_presentations");
       toast.dismiss();
       toast.success("Annual Report downloaded successfully");
     } catch (error) {
@@ -216,8 +218,8 @@ export default function AcademicYearDashboard() {
             <div className="w-full sm:w-auto">
               <button
                 onClick={() => setShowCreateModal(true)}
-                disabled={!isAdmin}
-                title={!isAdmin ? "Only admins can create academic years" : ""}
+                disabled={!canManageGroups}
+                title={!canManageGroups ? "Your role cannot create academic years" : ""}
                 className="btn btn-primary flex items-center gap-2 w-full sm:w-auto justify-center disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <Plus className="w-4 h-5 flex-shrink-0" />
@@ -242,8 +244,8 @@ export default function AcademicYearDashboard() {
             </p>
             <button
               onClick={() => setShowCreateModal(true)}
-              disabled={!isAdmin}
-              title={!isAdmin ? "Only admins can create academic years" : ""}
+              disabled={!canManageGroups}
+              title={!canManageGroups ? "Your role cannot create academic years" : ""}
               className="btn btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Create Academic Year
@@ -266,7 +268,7 @@ export default function AcademicYearDashboard() {
                     </p>
                   </div>
                   <div className="flex gap-2 flex-shrink-0 ml-2">
-                    {isAdmin && (
+                    {canManageGroups && (
                       <>
                         <button
                           onClick={() => openEditModal(year)}
@@ -296,7 +298,7 @@ export default function AcademicYearDashboard() {
 
                 <div className="flex gap-2 mt-auto">
                   <button
-                    onClick={() => router.push(`/academic-years/${generateSlug(year.id)}`)}
+                    onClick={() => router.push(`/academic-years/${year.slug || year.id}`)}
                     className="btn btn-primary flex-1"
                   >
                     View Presentations
@@ -10,13 +10,9 @@ import {
 import {
     getPresentation,
     getPresentationBySlugOrId,
-    getGroupsByPresentation,
-    getGroupsByPresentationForTeacher,
-    updateEvaluation,
 } from "@/lib/database";
+import { downloadAnnualReport, getPresentationGroups, updateEvaluation } from "@/lib/api";
 import { Download, Users, ArrowLeft, LayoutDashboard } from "lucide-react";
-import { generateSlug } from "@/lib/slugs";
-import { exportProjectClassificationReport } from "@/lib/excelExportByPresentation";
 import toast from "react-hot-toast";
 import UserProfile from "./UserProfile";
 import Logo from "./Logo";
@@ -30,7 +26,7 @@ export default function ClassificationView({
     presentationId,
 }: ClassificationViewProps) {
     const router = useRouter();
-    const { user } = useAuth();
+    const { user, can } = useAuth();
     const [presentation, setPresentation] = useState<Presentation | null>(null);
     const [groups, setGroups] = useState<GroupWithStudents[]>([]);
     const [loading, setLoading] = useState(true);
@@ -46,13 +42,15 @@ export default function ClassificationView({
     async function loadData() {
         try {
             setLoading(true);
-            const pData = await getPresentationBySlugOrId(presentationId);
+            const pData = await getPresentationBySlugOrId(presentationId, user!.department_id);
+
+            // Canonical URL uses the stored slug
+            if (pData.slug && presentationId !== pData.slug) {
+                router.replace(`/classification/${pData.slug}`);
+            }
             setPresentation(pData);
 
-            const gData =
-                user?.role === "teacher"
-                    ? await getGroupsByPresentationForTeacher(pData.id, user.id)
-                    : await getGroupsByPresentation(pData.id);
+            const gData = await getPresentationGroups(pData.id, !can("view"));
             setGroups(gData);
 
             // Handled in the UI render section
@@ -99,7 +97,7 @@ export default function ClassificationView({
             // Update database
             try {
                 await Promise.all(
-                    group.students.map((s) => updateEvaluation(s.id, field as any, value ? 10 : 0, user?.id)),
+                    group.students.map((s) => updateEvaluation(s.id, field as any, value ? 10 : 0)),
                 );
             } catch (error) {
                 console.error("Error updating group field:", error);
@@ -139,11 +137,11 @@ export default function ClassificationView({
                             // Reset all other fields
                             financeFields.forEach((f) => {
                                 if (f !== field) {
-                                    promises.push(updateEvaluation(s.id, f as any, 0, user?.id));
+                                    promises.push(updateEvaluation(s.id, f as any, 0));
                                 }
                             });
                             // Set the current field
-                            promises.push(updateEvaluation(s.id, field as any, 10, user?.id));
+                            promises.push(updateEvaluation(s.id, field as any, 10));
                             return Promise.all(promises);
                         }).flat(),
                     );
@@ -182,7 +180,7 @@ export default function ClassificationView({
                 setSavingStates((prev) => ({ ...prev, [field]: true }));
                 try {
                     await Promise.all(
-                        group.students.map((s) => updateEvaluation(s.id, field as any, value, user?.id)),
+                        group.students.map((s) => updateEvaluation(s.id, field as any, value)),
                     );
                 } catch (error) {
                     console.error("Error updating group field:", error);
@@ -213,7 +211,7 @@ export default function ClassificationView({
 
             try {
                 await Promise.all(
-                    group.students.map((s) => updateEvaluation(s.id, field as any, value, user?.id)),
+                    group.students.map((s) => updateEvaluation(s.id, field as any, value)),
                 );
             } catch (error) {
                 console.error("Error updating group field:", error);
@@ -227,11 +225,7 @@ export default function ClassificationView({
         if (!presentation) return;
         try {
             toast.loading("Generating Project Classification Report...");
-            await exportProjectClassificationReport(
-                presentation.academic_year_id,
-                user?.id,
-                user?.role,
-            );
+            await downloadAnnualReport(presentation.academic_year_id, "classification");
             toast.dismiss();
             toast.success("Classification report downloaded successfully");
         } catch (error) {
@@ -302,7 +296,7 @@ export default function ClassificationView({
                         </div>
                         <div className="flex flex-col sm:flex-row items-center gap-2 sm:gap-3 w-full sm:w-auto">
                             <button
-                                onClick={() => router.push(`/presentation/${generateSlug(presentation.id)}`)}
+                                onClick={() => router.push(`/presentation/${presentation.slug || presentation.id}`)}
                                 className="btn btn-secondary flex items-center gap-2 w-full sm:w-auto justify-center"
                             >
                                 <LayoutDashboard className="w-4 h-5 flex-shrink-0" />
@@ -479,7 +473,7 @@ export default function ClassificationView({
                                             </div>
                                             <h3 className="text-lg font-semibold text-gray-900">No groups created yet</h3>
                                             <p className="text-sm max-w-xs mx-auto">
-                                                {user?.role === "teacher" 
+                                                {!can("view")
                                                     ? "You haven't been assigned any groups for this presentation yet."
                                                     : "No groups have been created for this presentation yet."}
                                             </p>
@@ -1,9 +1,10 @@
 import { useState, useEffect } from "react";
 import { Presentation, CustomColumn, BaseColumnConfig } from "@/lib/types";
-import { updatePresentationColumns } from "@/lib/database";
+import { updatePresentationColumns } from "@/lib/api";
 import { DEFAULT_COLUMNS } from "@/lib/constants";
+import { buildRubric } from "@/lib/rubric";
 import toast from "react-hot-toast";
-import { X, Save, Plus, Trash2, Eye, EyeOff } from "lucide-react";
+import { X, Save, Plus, Trash2, Eye, EyeOff, Sigma } from "lucide-react";
 
 interface ColumnSettingsModalProps {
   isOpen: boolean;
@@ -40,7 +41,9 @@ export default function ColumnSettingsModal({
         initialColumns[key] = { 
           name: defaultConfig.name, 
           maxMark: defaultConfig.maxMark, 
-          isHidden: false 
+          isHidden: false,
+          weight: 1,
+          countsTowardTotal: true,
         };
         
         const saved = presentation.custom_columns?.[key];
@@ -63,6 +66,9 @@ export default function ColumnSettingsModal({
 
   if (!isOpen) return null;
 
+  // Preview of the total these settings produce
+  const previewRubric = buildRubric(presentationNumber, columns, extraColumns);
+
   const handleSave = async () => {
     setLoading(true);
     try {
@@ -84,7 +90,9 @@ export default function ColumnSettingsModal({
       resetCols[key] = { 
         name: defaultConfig.name, 
         maxMark: defaultConfig.maxMark, 
-        isHidden: false 
+        isHidden: false,
+        weight: 1,
+        countsTowardTotal: true,
       };
     });
     setColumns(resetCols);
@@ -104,6 +112,8 @@ export default function ColumnSettingsModal({
       id: `extra_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
       name: newColName.trim(),
       maxMark: newColMax,
+      weight: 1,
+      countsTowardTotal: true,
     };
     
     setExtraColumns([...extraColumns, newCol]);
@@ -182,6 +192,36 @@ export default function ColumnSettingsModal({
                           className="w-full text-sm p-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500"
                         />
                       </div>
+                      <div className="w-20">
+                        <label className="block text-[10px] uppercase font-bold text-gray-400 mb-1">Weight</label>
+                        <input
+                          type="number"
+                          step="0.1"
+                          min="0"
+                          value={config.weight ?? 1}
+                          disabled={config.isHidden}
+                          onChange={(e) =>
+                            setColumns((prev) => ({
+                              ...prev,
+                              [key]: { ...prev[key], weight: parseFloat(e.target.value) || 0 },
+                            }))
+                          }
+                          className="w-full text-sm p-2 border border-gray-300 rounded-md focus:ring-1 focus:ring-blue-500"
+                        />
+                      </div>
+                      <button
+                        onClick={() =>
+                          setColumns((prev) => ({
+                            ...prev,
+                            [key]: { ...prev[key], countsTowardTotal: !(prev[key].countsTowardTotal ?? true) },
+                          }))
+                        }
+                        disabled={config.isHidden}
+                        className={`p-2 rounded-md transition-colors border ${(config.countsTowardTotal ?? true) ? "bg-green-50 text-green-600 border-green-100 hover:bg-green-100" : "bg-gray-200 text-gray-400 border-gray-300"}`}
+                        title={(config.countsTowardTotal ?? true) ? "Counts toward total" : "Not counted toward total"}
+                      >
+                        <Sigma className="w-4 h-4" />
+                      </button>
                       <button
                         onClick={() => 
                           setColumns((prev) => ({
@@ -235,6 +275,32 @@ export default function ColumnSettingsModal({
                             placeholder="Max"
                           />
                         </div>
+                        <div className="w-20">
+                          <label className="block text-[10px] uppercase font-bold text-purple-400 mb-1">Weight</label>
+                          <input
+                            type="number"
+                            step="0.1"
+                            min="0"
+                            value={col.weight ?? 1}
+                            onChange={(e) => {
+                              const updated = [...extraColumns];
+                              updated[index] = { ...updated[index], weight: parseFloat(e.target.value) || 0 };
+                              setExtraColumns(updated);
+                            }}
+                            className="w-full text-sm p-2 border border-purple-200 rounded-md bg-white focus:ring-1 focus:ring-purple-500"
+                          />
+                        </div>
+                        <button
+                          onClick={() => {
+                            const updated = [...extraColumns];
+                            updated[index] = { ...updated[index], countsTowardTotal: !(col.countsTowardTotal ?? true) };
+                            setExtraColumns(updated);
+                          }}
+                          className={`p-2 rounded-md transition-colors border ${(col.countsTowardTotal ?? true) ? "bg-green-50 text-green-600 border-green-100 hover:bg-green-100" : "bg-gray-200 text-gray-400 border-gray-300"}`}
+                          title={(col.countsTowardTotal ?? true) ? "Counts toward total" : "Not counted toward total"}
+                        >
+                          <Sigma className="w-4 h-4" />
+                        </button>
                         <button
                           onClick={() => handleRemoveExtraColumn(col.id)}
                           className="p-2 text-red-500 hover:bg-red-50 rounded-md transition-colors border border-transparent hover:border-red-100"
@@ -288,6 +354,10 @@ export default function ColumnSettingsModal({
           >
             Reset to Defaults
           </button>
+          <span className="text-sm text-gray-600">
+            {previewRubric.totalLabel} out of{" "}
+            <span className="font-semibold text-gray-900">{previewRubric.totalMax}</span>
+          </span>
           <div className="flex gap-3">
             <button
               onClick={onClose}
@@ -10,13 +10,9 @@ import {
   getAcademicYearBySlugOrId,
   getPresentationsWithGroupsForTeacher,
 } from "@/lib/database";
-import { exportAnnualReport } from "@/lib/excelExport";
-import {
-  exportSemester1Report,
-  exportSemester2Report,
-} from "@/lib/excelExportByPresentation";
-import { generateSlug } from "@/lib/slugs";
+import { downloadAnnualReport } from "@/lib/api";
 import { setEditMode } from "@/lib/editMode";
+import LockBadge from "./LockBadge";
 import toast from "react-hot-toast";
 import {
   FileSpreadsheet,
@@ -38,7 +34,9 @@ interface DashboardProps {
 
 export default function Dashboard({ academicYearId }: DashboardProps) {
   const router = useRouter();
-  const { user, isAdmin, isTeacher } = useAuth();
+  const { user, can } = useAuth();
+  // Guides and external examiners only see their own groups
+  const ownGroupsOnly = !can("view");
   const [presentations, setPresentations] = useState<Presentation[]>([]);
   const [academicYear, setAcademicYear] = useState<AcademicYear | null>(null);
   const [loading, setLoading] = useState(true);
@@ -51,16 +49,21 @@ export default function Dashboard({ academicYearId }: DashboardProps) {
     if (academicYearId) {
       loadData();
     }
-  }, [academicYearId, user, isAdmin, isTeacher]);
+  }, [academicYearId, user, ownGroupsOnly]);
 
   async function loadData() {
     if (!academicYearId) return;
 
     try {
       // Use slug-aware lookup function
-      const yearData = await getAcademicYearBySlugOrId(academicYearId);
+      const yearData = await getAcademicYearBySlugOrId(academicYearId, user!.department_id);
+
+      // Legacy 3-character links and raw ids land on the stored slug
+      if (yearData.slug && academicYearId !== yearData.slug) {
+        router.replace(`/academic-years/${yearData.slug}`);
+      }
       
-      const presentationsData = isTeacher && user
+      const presentationsData = ownGroupsOnly && user
         ? await getPresentationsWithGroupsForTeacher(yearData.id, user.id)
         : await getPresentationsByAcademicYear(yearData.id);
 
@@ -102,7 +105,7 @@ export default function Dashboard({ academicYearId }: DashboardProps) {
     if (!academicYear) return;
     try {
       toast.loading("Generating Annual Report...");
-      await exportAnnualReport(academicYear.id, user?.id, user?.role);
+      await downloadAnnualReport(academicYear.id, "annual_by_semester");
       toast.dismiss();
       toast.success("Annual Report downloaded successfully");
     } catch (error: any) {
@@ -116,7 +119,7 @@ export default function Dashboard({ academicYearId }: DashboardProps) {
     if (!academicYear) return;
     try {
       toast.loading("Generating Semester 1 Report...");
-      await exportSemester1Report(academicYear.id, user?.id, user?.role);
+      await downloadAnnualReport(academicYear.id, "semester1");
       toast.dismiss();
       toast.success("Semester 1 Report downloaded successfully");
       setShowSemesterDropdown(false);
@@ -131,7 +134,7 @@ export default function Dashboard({ academicYearId }: DashboardProps) {
     if (!academicYear) return;
     try {
       toast.loading("Generating Semester 2 Report...");
-      await exportSemester2Report(academicYear.id, user?.id, user?.role);
+      await downloadAnnualReport(academicYear.id, "semester2");
       toast.dismiss();
       toast.success("Semester 2 Report downloaded successfully");
       setShowSemesterDropdown(false);
@@ -252,7 +255,7 @@ export default function Dashboard({ academicYearId }: DashboardProps) {
                 <Download className="w-4 h-5 flex-shrink-0" />
                 <span className="hidden sm:inline">Annual Report</span>
               </button>
-              {!isAdmin && (
+              {ownGroupsOnly && (
                 <button
                   onClick={() =>
                     router.push(`/marks-entry?academicYearId=${academicYearId}`)
@@ -282,7 +285,7 @@ export default function Dashboard({ academicYearId }: DashboardProps) {
               Create presentations and add groups to start entering evaluation
               marks.
             </p>
-            {!isAdmin && (
+            {ownGroupsOnly && (
               <button
                 onClick={() =>
                   router.push(`/marks-entry?academicYearId=${academicYearId}`)
@@ -333,7 +336,7 @@ export default function Dashboard({ academicYearId }: DashboardProps) {
                     key={presentation.id}
                     className="group cursor-pointer transform transition-all duration-300 hover:scale-105 active:scale-95"
                     onClick={() => {
-                      router.push(`/presentation/${generateSlug(presentation.id)}`);
+                      router.push(`/presentation/${presentation.slug || presentation.id}`);
                     }}
                   >
                     <div className="relative overflow-hidden rounded-lg shadow-md hover:shadow-xl transition-shadow bg-white h-full flex flex-col">
@@ -360,6 +363,7 @@ export default function Dashboard({ academicYearId }: DashboardProps) {
                               {presentation.semester}
                             </span>
                           )}
+                          <LockBadge presentation={presentation} />
                         </div>
 
                         <div className="space-y-2 sm:space-y-3 mb-3 sm:mb-5 flex-grow">
@@ -390,7 +394,7 @@ export default function Dashboard({ academicYearId }: DashboardProps) {
                           onClick={(e) => {
                             e.stopPropagation();
                             router.push(
-                              `/presentation/${generateSlug(presentation.id)}`,
+                              `/presentation/${presentation.slug || presentation.id}`,
                             );
                           }}
                           className="w-full py-2 px-4 bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200 text-blue-600 rounded-lg font-medium text-sm hover:bg-blue-50 transition-colors group-hover:border-blue-400"
@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/providers/AuthProvider";
+import { Department } from "@/lib/types";
+import { getDepartments } from "@/lib/database";
+import { createDepartment, switchDepartment } from "@/lib/api";
+import toast from "react-hot-toast";
+import { Building2, Plus, X } from "lucide-react";
+
+const NEW_DEPARTMENT = "__new__";
+
+/**
+ * Department picker for super-admins. Switching reloads the app so every
+ * page starts over with the new department's data.
+ */
+export default function DepartmentSwitcher() {
+  const { user } = useAuth();
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [showCreate, setShowCreate] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newCode, setNewCode] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user?.is_super_admin) return;
+    getDepartments()
+      .then(setDepartments)
+      .catch((error) => console.error("Error loading departments:", error));
+  }, [user?.is_super_admin]);
+
+  if (!user?.is_super_admin) return null;
+
+  async function handleSwitch(departmentId: string) {
+    if (departmentId === NEW_DEPARTMENT) {
+      setShowCreate(true);
+      return;
+    }
+    try {
+      await switchDepartment(departmentId);
+      window.location.assign("/dashboard");
+    } catch (error) {
+      console.error("Error switching department:", error);
+      toast.error((error as any)?.message || "Failed to switch department");
+    }
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      const department = await createDepartment(newName, newCode);
+      toast.success(`${department.name} created`);
+      await handleSwitch(department.id);
+    } catch (error) {
+      console.error("Error creating department:", error);
+      toast.error((error as any)?.message || "Failed to create department");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <Building2 className="w-4 h-4 text-gray-500" />
+        <select
+          value={user.department_id}
+          onChange={(e) => handleSwitch(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-md bg-white text-sm"
+          title="Switch department"
+        >
+          {departments.map((d) => (
+            <option key={d.id} value={d.id}>
+              {d.code} · {d.name}
+            </option>
+          ))}
+          <option value={NEW_DEPARTMENT}>+ New department…</option>
+        </select>
+      </label>
+
+      {showCreate && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <form
+            onSubmit={handleCreate}
+            className="bg-white rounded-lg shadow-xl w-full max-w-sm overflow-hidden"
+          >
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between bg-gray-50">
+              <h3 className="text-lg font-bold text-gray-900">New Department</h3>
+              <button
+                type="button"
+                onClick={() => setShowCreate(false)}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="Information Technology"
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                <input
+                  value={newCode}
+                  onChange={(e) => setNewCode(e.target.value)}
+                  placeholder="IT"
+                  maxLength={20}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg uppercase"
+                />
+              </div>
+            </div>
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2 bg-gray-50">
+              <button
+                type="button"
+                onClick={() => setShowCreate(false)}
+                className="px-4 py-2 border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Plus className="w-5 h-5" />
+                {saving ? "Creating..." : "Create & Switch"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </>
+  );
+}
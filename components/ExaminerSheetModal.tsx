@@ -0,0 +1,184 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { GroupWithStudents, Presentation } from "@/lib/types";
+import { getPresentationGroups, updateExaminerMark } from "@/lib/api";
+import { validateMark, getMaxValue } from "@/lib/calculations";
+import { canEditPresentation } from "@/lib/presentationLock";
+import { getPresentationRubric, formatCriterionHeader } from "@/lib/rubric";
+import { useAuth } from "@/providers/AuthProvider";
+import toast from "react-hot-toast";
+import { X } from "lucide-react";
+
+interface ExaminerSheetModalProps {
+  presentation: Presentation;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function markKey(studentId: string, field: string): string {
+  return `${studentId}:${field}`;
+}
+
+/**
+ * An external examiner's own mark sheet for every group they do not guide
+ */
+export default function ExaminerSheetModal({
+  presentation,
+  onClose,
+  onSaved,
+}: ExaminerSheetModalProps) {
+  const { user } = useAuth();
+  const [groups, setGroups] = useState<GroupWithStudents[]>([]);
+  const [marks, setMarks] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  const rubric = getPresentationRubric(presentation);
+  const isReadOnly = !canEditPresentation(presentation, user?.role);
+
+  useEffect(() => {
+    if (!user) return;
+
+    async function loadSheet() {
+      try {
+        const allGroups = await getPresentationGroups(presentation.id);
+        const examinedGroups = allGroups.filter((g) => g.guide_user_id !== user!.id);
+
+        const initial: Record<string, string> = {};
+        for (const group of examinedGroups) {
+          for (const student of group.students) {
+            const sheet = student.evaluation?.examiner_marks?.find(
+              (s) => s.examiner_id === user!.id,
+            );
+            for (const [field, value] of Object.entries(sheet?.marks || {})) {
+              initial[markKey(student.id, field)] = String(value);
+            }
+          }
+        }
+
+        setGroups(examinedGroups);
+        setMarks(initial);
+      } catch (error) {
+        console.error("Error loading examiner sheet:", error);
+        toast.error("Failed to load your mark sheet");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadSheet();
+  }, [presentation.id, user]);
+
+  async function handleBlur(studentId: string, field: string) {
+    const raw = marks[markKey(studentId, field)];
+    if (raw === undefined || raw === "") return;
+
+    const value = parseFloat(raw);
+    if (Number.isNaN(value) || !validateMark(field, value, rubric)) {
+      toast.error(`Mark must be between 0 and ${getMaxValue(field, rubric)}`);
+      return;
+    }
+
+    try {
+      await updateExaminerMark(studentId, field, value);
+      setHasChanges(true);
+    } catch (error) {
+      console.error("Error saving examiner mark:", error);
+      toast.error((error as any)?.message || "Failed to save mark");
+    }
+  }
+
+  function handleClose() {
+    if (hasChanges) onSaved();
+    onClose();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between bg-gray-50">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">My Examiner Sheet</h3>
+            <p className="text-sm text-gray-500">
+              {presentation.name}: your marks are combined with the guide&apos;s
+            </p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-auto">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : groups.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-8">
+              There are no groups for you to examine yet.
+            </p>
+          ) : (
+            <table className="eval-table">
+              <thead>
+                <tr>
+                  <th className="w-20">Group No</th>
+                  <th className="w-48">Student Name</th>
+                  <th className="w-48">Guide Name</th>
+                  {rubric.criteria.map((col) => (
+                    <th key={col.key} className="w-32">
+                      {formatCriterionHeader(col)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map((group) =>
+                  group.students.map((student, studentIndex) => (
+                    <tr key={student.id}>
+                      {studentIndex === 0 && (
+                        <td
+                          rowSpan={group.students.length}
+                          className="text-center font-semibold bg-gray-50"
+                        >
+                          {group.group_number}
+                        </td>
+                      )}
+                      <td className="font-medium">{student.student_name}</td>
+                      {studentIndex === 0 && (
+                        <td rowSpan={group.students.length} className="bg-gray-50">
+                          {group.guide_name}
+                        </td>
+                      )}
+                      {rubric.criteria.map((col) => {
+                        const key = markKey(student.id, col.key);
+                        return (
+                          <td key={col.key}>
+                            <input
+                              type="number"
+                              disabled={isReadOnly}
+                              value={marks[key] ?? ""}
+                              placeholder="—"
+                              onChange={(e) =>
+                                setMarks((prev) => ({ ...prev, [key]: e.target.value }))
+                              }
+                              onBlur={() => handleBlur(student.id, col.key)}
+                              className="marks-input text-center"
+                            />
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  )),
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { MarkCombineRule, Presentation, User } from "@/lib/types";
+import { getAllUsers, getPresentationExaminers } from "@/lib/database";
+import { updatePresentationExaminers } from "@/lib/api";
+import { permissionScope } from "@/lib/permissions";
+import { useAuth } from "@/providers/AuthProvider";
+import { COMBINE_RULE_LABELS } from "@/lib/constants";
+import toast from "react-hot-toast";
+import { X } from "lucide-react";
+
+interface ExaminersModalProps {
+  presentation: Presentation;
+  onClose: () => void;
+  onSaved: (presentation: Presentation) => void;
+}
+
+export default function ExaminersModal({
+  presentation,
+  onClose,
+  onSaved,
+}: ExaminersModalProps) {
+  const { user } = useAuth();
+  const [teachers, setTeachers] = useState<User[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [combineRule, setCombineRule] = useState<MarkCombineRule>(
+    presentation.combine_rule || "average",
+  );
+  const [guideWeight, setGuideWeight] = useState(presentation.guide_weight ?? 0.5);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    async function loadExaminers() {
+      try {
+        const [usersData, examiners] = await Promise.all([
+          getAllUsers(user!.department_id),
+          getPresentationExaminers(presentation.id),
+        ]);
+        // Teachers and external examiners: users who only mark where assigned
+        setTeachers(
+          usersData.filter((u) => permissionScope(u.role, "enter_marks") === "own"),
+        );
+        setSelectedIds(new Set(examiners.map((e) => e.user_id)));
+      } catch (error) {
+        console.error("Error loading examiners:", error);
+        toast.error("Failed to load examiners");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadExaminers();
+  }, [presentation.id]);
+
+  function toggle(id: string) {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  async function handleSave() {
+    try {
+      setIsSaving(true);
+      const updated = await updatePresentationExaminers(presentation.id, {
+        examinerIds: Array.from(selectedIds),
+        combineRule,
+        guideWeight,
+      });
+      toast.success("Examiners updated");
+      onSaved(updated);
+      onClose();
+    } catch (error) {
+      console.error("Error saving examiners:", error);
+      toast.error((error as any)?.message || "Failed to save examiners");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between bg-gray-50">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Examiners</h3>
+            <p className="text-sm text-gray-500">
+              External examiners for {presentation.name}, marking alongside each guide
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              External examiners
+            </label>
+            {loading ? (
+              <div className="flex justify-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+              </div>
+            ) : teachers.length === 0 ? (
+              <p className="text-sm text-gray-500">No active teachers or external examiners found.</p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-60 overflow-y-auto">
+                {teachers.map((teacher) => (
+                  <label
+                    key={teacher.id}
+                    className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(teacher.id)}
+                      onChange={() => toggle(teacher.id)}
+                    />
+                    <span>{teacher.full_name || teacher.username}</span>
+                    <span className="text-gray-400">@{teacher.username}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Combine marks by
+            </label>
+            <select
+              value={combineRule}
+              onChange={(e) => setCombineRule(e.target.value as MarkCombineRule)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              {(Object.keys(COMBINE_RULE_LABELS) as MarkCombineRule[]).map((rule) => (
+                <option key={rule} value={rule}>
+                  {COMBINE_RULE_LABELS[rule]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {combineRule === "guide_weighted" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Guide&apos;s share: {Math.round(guideWeight * 100)}%
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={guideWeight}
+                onChange={(e) => setGuideWeight(parseFloat(e.target.value))}
+                className="w-full"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                External examiners share the remaining{" "}
+                {Math.round((1 - guideWeight) * 100)}% equally.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2 bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-300 hover:bg-gray-400 text-gray-900 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={loading || isSaving}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
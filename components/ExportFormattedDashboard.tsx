@@ -3,16 +3,15 @@
 import { useState, useEffect } from "react";
 import toast from "react-hot-toast";
 import { Download, FileSpreadsheet } from "lucide-react";
+import { downloadAnnualReport, downloadPresentationReport } from "@/lib/api";
 import {
-  exportPresentationSeparatelyFormatted,
-  exportAllPresentationsSeparatelyFormatted,
-  exportSemester1CombinedFormatted,
-  exportSemester2CombinedFormatted,
-  exportAnnualReportFormattedAndSeparated,
-} from "@/lib/excelExportFormatted";
-import { getAcademicYearBySlugOrId } from "@/lib/database";
-import Logo from "./Logo";
+  getAcademicYearBySlugOrId,
+  getPresentationsByAcademicYear,
+} from "@/lib/database";
+import { getPresentationNumber } from "@/lib/rubric";
 import { useAuth } from "@/providers/AuthProvider";
+import { Presentation } from "@/lib/types";
+import Logo from "./Logo";
 import UserProfile from "./UserProfile";
 
 interface ExportFormattedDashboardProps {
@@ -27,13 +26,15 @@ export default function ExportFormattedDashboard({
   const { user } = useAuth();
   const [isExporting, setIsExporting] = useState(false);
   const [actualAcademicYearId, setActualAcademicYearId] = useState<string>(academicYearId);
+  const [presentations, setPresentations] = useState<Presentation[]>([]);
 
   // Resolve slug to actual UUID on mount
   useEffect(() => {
     const resolveYearId = async () => {
       try {
-        const yearData = await getAcademicYearBySlugOrId(academicYearId);
+        const yearData = await getAcademicYearBySlugOrId(academicYearId, user!.department_id);
         setActualAcademicYearId(yearData.id);
+        setPresentations(await getPresentationsByAcademicYear(yearData.id));
       } catch (error) {
         console.error("Failed to resolve academic year:", error);
         // Fallback to the provided ID if resolution fails
@@ -46,35 +47,24 @@ export default function ExportFormattedDashboard({
 
   // Single Presentation Export
   const handleExportPresentation = async (
-    presentationId: string,
+    presentationNumber: number,
     presentationName: string,
   ) => {
-    setIsExporting(true);
-    try {
-      await exportPresentationSeparatelyFormatted(
-        actualAcademicYearId,
-        presentationId,
-        presentationName,
-        user?.id,
-        (user as any)?.role,
-      );
-      toast.success(`${presentationName} exported successfully!`);
-    } catch (error) {
-      console.error("Export error:", error);
-      toast.error(`Failed to export ${presentationName}`);
-    } finally {
-      setIsExporting(false);
+    const presentation = presentations.find(
+      (p) => getPresentationNumber(p.name) === presentationNumber,
+    );
+    if (!presentation) {
+      toast.error(`${presentationName} not found in this academic year`);
+      return;
     }
-  };
 
-  // All Presentations Separated (4 sheets)
-  const handleExportAllSeparated = async () => {
     setIsExporting(true);
     try {
-      await exportAllPresentationsSeparatelyFormatted(actualAcademicYearId, user?.id, (user as any)?.role);
+      await downloadPresentationReport(presentation.id, "marks");
+      toast.success(`${presentationName} exported successfully!`);
     } catch (error) {
       console.error("Export error:", error);
-      toast.error("Failed to export presentations");
+      toast.error(`Failed to export ${presentationName}`);
     } finally {
       setIsExporting(false);
     }
@@ -84,7 +74,7 @@ export default function ExportFormattedDashboard({
   const handleExportSemester1 = async () => {
     setIsExporting(true);
     try {
-      await exportSemester1CombinedFormatted(actualAcademicYearId, user?.id, (user as any)?.role);
+      await downloadAnnualReport(actualAcademicYearId, "semester1");
     } catch (error) {
       console.error("Export error:", error);
       toast.error("Failed to export Semester 1");
@@ -97,7 +87,7 @@ export default function ExportFormattedDashboard({
   const handleExportSemester2 = async () => {
     setIsExporting(true);
     try {
-      await exportSemester2CombinedFormatted(actualAcademicYearId, user?.id, (user as any)?.role);
+      await downloadAnnualReport(actualAcademicYearId, "semester2");
     } catch (error) {
       console.error("Export error:", error);
       toast.error("Failed to export Semester 2");
@@ -106,11 +96,11 @@ export default function ExportFormattedDashboard({
     }
   };
 
-  // Annual Report (All Presentations Separated & Formatted)
+  // Annual Report: one sheet per presentation (P1-P4)
   const handleExportAnnualReport = async () => {
     setIsExporting(true);
     try {
-      await exportAnnualReportFormattedAndSeparated(actualAcademicYearId, user?.id, (user as any)?.role);
+      await downloadAnnualReport(actualAcademicYearId, "all_presentations");
     } catch (error) {
       console.error("Export error:", error);
       toast.error("Failed to export annual report");
@@ -241,7 +231,7 @@ export default function ExportFormattedDashboard({
               <button
                 onClick={() =>
                   handleExportPresentation(
-                    "presentation-1-id",
+                    1,
                     "Presentation 1",
                   )
                 }
@@ -254,7 +244,7 @@ export default function ExportFormattedDashboard({
               <button
                 onClick={() =>
                   handleExportPresentation(
-                    "presentation-2-id",
+                    2,
                     "Presentation 2",
                   )
                 }
@@ -267,7 +257,7 @@ export default function ExportFormattedDashboard({
               <button
                 onClick={() =>
                   handleExportPresentation(
-                    "presentation-3-id",
+                    3,
                     "Presentation 3",
                   )
                 }
@@ -280,7 +270,7 @@ export default function ExportFormattedDashboard({
               <button
                 onClick={() =>
                   handleExportPresentation(
-                    "presentation-4-id",
+                    4,
                     "Presentation 4",
                   )
                 }
@@ -293,25 +283,6 @@ export default function ExportFormattedDashboard({
             </div>
           </div>
 
-          {/* All Presentations Separated */}
-          <div className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-lg transition-shadow">
-            <h3 className="text-lg font-semibold text-gray-900 mb-3">
-              All Presentations (4 Sheets)
-            </h3>
-            <p className="text-gray-600 text-sm mb-4">
-              Export all presentations into one workbook with each presentation
-              in a separate sheet. Ideal for comprehensive review.
-            </p>
-            <button
-              onClick={handleExportAllSeparated}
-              disabled={isExporting}
-              className="btn btn-primary w-full flex items-center gap-2 justify-center"
-            >
-              <Download className="w-4 h-4" />
-              {isExporting ? "Exporting..." : "Export All Presentations"}
-            </button>
-          </div>
-
           {/* Semester Exports */}
           <div className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-lg transition-shadow">
             <h3 className="text-lg font-semibold text-gray-900 mb-3">
@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { GroupImportRow, Presentation, User } from "@/lib/types";
+import {
+  getPresentation,
+  getPresentationsByAcademicYear,
+  getAllTeachers,
+} from "@/lib/database";
+import { getPresentationGroups, importGroups } from "@/lib/api";
+import { useAuth } from "@/providers/AuthProvider";
+import {
+  parseGroupImportFile,
+  validateGroupImportRows,
+  downloadGroupImportTemplate,
+} from "@/lib/groupImport";
+import toast from "react-hot-toast";
+import { X, Upload, Download, AlertCircle, CheckCircle } from "lucide-react";
+
+interface GroupImportModalProps {
+  presentationId: string;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export default function GroupImportModal({
+  presentationId,
+  onClose,
+  onImported,
+}: GroupImportModalProps) {
+  const { user } = useAuth();
+  const [presentations, setPresentations] = useState<Presentation[]>([]);
+  const [targetPresentationId, setTargetPresentationId] = useState(presentationId);
+  const [teachers, setTeachers] = useState<User[]>([]);
+  const [existingGroupNumbers, setExistingGroupNumbers] = useState<number[]>([]);
+  const [parsedRows, setParsedRows] = useState<GroupImportRow[]>([]);
+  const [fileName, setFileName] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    async function loadOptions() {
+      try {
+        const current = await getPresentation(presentationId);
+        const [yearPresentations, teachersData] = await Promise.all([
+          getPresentationsByAcademicYear(current.academic_year_id),
+          getAllTeachers(user!.department_id),
+        ]);
+        setPresentations(yearPresentations);
+        setTeachers(teachersData);
+      } catch (error) {
+        console.error("Error loading import options:", error);
+        toast.error("Failed to load presentations");
+      }
+    }
+
+    loadOptions();
+  }, [presentationId]);
+
+  useEffect(() => {
+    getPresentationGroups(targetPresentationId)
+      .then((groups) => setExistingGroupNumbers(groups.map((g) => g.group_number)))
+      .catch((error) => console.error("Error loading existing groups:", error));
+  }, [targetPresentationId]);
+
+  const rows = validateGroupImportRows(parsedRows, teachers, existingGroupNumbers);
+  const invalidCount = rows.filter((row) => row.errors.length > 0).length;
+
+  async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow re-selecting the same file after fixing it
+    if (!file) return;
+
+    try {
+      const parsed = await parseGroupImportFile(file);
+      if (parsed.length === 0) {
+        toast.error("No group rows found in the file");
+        return;
+      }
+      setParsedRows(parsed);
+      setFileName(file.name);
+    } catch (error) {
+      console.error("Error parsing import file:", error);
+      toast.error((error as any)?.message || "Failed to read the file");
+    }
+  }
+
+  async function handleImport() {
+    if (rows.length === 0 || invalidCount > 0) return;
+
+    try {
+      setIsImporting(true);
+      const count = await importGroups(targetPresentationId, rows);
+      toast.success(`Imported ${count} group${count === 1 ? "" : "s"}`);
+      onImported();
+      onClose();
+    } catch (error) {
+      console.error("Error importing groups:", error);
+      toast.error((error as any)?.message || "Failed to import groups");
+    } finally {
+      setIsImporting(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between bg-gray-50">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Import Groups</h3>
+            <p className="text-sm text-gray-500">
+              Upload an .xlsx or .csv with Group No, Guide, Student 1–4 and Project Title
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Import into
+              </label>
+              <select
+                value={targetPresentationId}
+                onChange={(e) => setTargetPresentationId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                {presentations.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors cursor-pointer">
+              <Upload className="w-5 h-5" />
+              Choose File
+              <input
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                onChange={handleFileChange}
+                className="hidden"
+              />
+            </label>
+            <button
+              onClick={downloadGroupImportTemplate}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 rounded-lg transition-colors"
+            >
+              <Download className="w-5 h-5" />
+              Template
+            </button>
+            {fileName && <span className="text-sm text-gray-600">{fileName}</span>}
+          </div>
+
+          {rows.length > 0 && (
+            <>
+              <div
+                className={`flex items-center gap-2 p-3 rounded-lg text-sm ${
+                  invalidCount > 0
+                    ? "bg-red-50 text-red-800 border border-red-200"
+                    : "bg-green-50 text-green-800 border border-green-200"
+                }`}
+              >
+                {invalidCount > 0 ? (
+                  <AlertCircle className="w-4 h-4" />
+                ) : (
+                  <CheckCircle className="w-4 h-4" />
+                )}
+                {invalidCount > 0
+                  ? `${invalidCount} of ${rows.length} rows have errors. Fix the file and upload it again.`
+                  : `${rows.length} groups ready to import.`}
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr className="text-left text-gray-600">
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">Group</th>
+                      <th className="px-3 py-2">Guide</th>
+                      <th className="px-3 py-2">Students</th>
+                      <th className="px-3 py-2">Project Title</th>
+                      <th className="px-3 py-2">Problems</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => (
+                      <tr
+                        key={row.rowNumber}
+                        className={`border-t border-gray-100 align-top ${
+                          row.errors.length > 0 ? "bg-red-50" : ""
+                        }`}
+                      >
+                        <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-3 py-2 font-medium">
+                          {row.group_number ?? "—"}
+                        </td>
+                        <td className="px-3 py-2">{row.guide_name || row.guide || "—"}</td>
+                        <td className="px-3 py-2">{row.students.join(", ")}</td>
+                        <td className="px-3 py-2">{row.project_title || "—"}</td>
+                        <td className="px-3 py-2 text-red-700">
+                          {row.errors.map((err) => (
+                            <div key={err}>{err}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2 bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-300 hover:bg-gray-400 text-gray-900 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={rows.length === 0 || invalidCount > 0 || isImporting}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isImporting ? "Importing..." : `Import ${rows.length || ""} Groups`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
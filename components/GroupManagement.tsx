@@ -2,18 +2,20 @@
 
 import { useState, useEffect } from 'react';
 import { Group, Presentation, User } from '@/lib/types';
+import {
+    getAllPresentations,
+    getAllTeachers
+} from '@/lib/database';
 import {
     createGroup,
     deleteGroup,
     updateGroupGuide,
     updateStudentName,
     duplicateGroup,
-    getGroupsByPresentation,
-    getAllPresentations,
     copyGroupsFromPresentation,
-    normalizeGroupNumbers
-} from '@/lib/database';
-import { getAllTeachers } from '@/lib/auth';
+    normalizeGroupNumbers,
+    getPresentationGroups
+} from '@/lib/api';
 import { useAuth } from '@/providers/AuthProvider';
 import toast from 'react-hot-toast';
 import { X, Plus, Trash2, Edit2, Copy } from 'lucide-react';
@@ -24,7 +26,9 @@ interface GroupManagementProps {
 }
 
 export default function GroupManagement({ presentationId, onClose }: GroupManagementProps) {
-    const { user, isAdmin, isTeacher } = useAuth();
+    const { user, can } = useAuth();
+    // Department-wide group managers assign guides; guides manage their own groups
+    const canManageAll = can('manage_groups');
     const [groups, setGroups] = useState<any[]>([]);
     const [presentations, setPresentations] = useState<Presentation[]>([]);
     const [teachers, setTeachers] = useState<User[]>([]);
@@ -32,7 +36,7 @@ export default function GroupManagement({ presentationId, onClose }: GroupManage
     const [editingGroup, setEditingGroup] = useState<string | null>(null);
     const [editingStudent, setEditingStudent] = useState<string | null>(null);
 
-    // For admin creating group
+    // For department-wide group managers creating a group
     const [selectedTeacherId, setSelectedTeacherId] = useState<string>('');
 
     const [showCopyModal, setShowCopyModal] = useState(false);
@@ -41,14 +45,14 @@ export default function GroupManagement({ presentationId, onClose }: GroupManage
 
     useEffect(() => {
         loadData();
-    }, [user, isAdmin, isTeacher]);
+    }, [user, canManageAll]);
 
     async function loadData() {
         try {
             let [groupsData, presentationsData, teachersData] = await Promise.all([
-                getGroupsByPresentation(presentationId),
-                getAllPresentations(),
-                isAdmin ? getAllTeachers() : Promise.resolve([]),
+                getPresentationGroups(presentationId),
+                getAllPresentations(user!.department_id),
+                canManageAll ? getAllTeachers(user!.department_id) : Promise.resolve([]),
             ]);
 
             // Normalize automatically if numbers are out-of-order
@@ -57,7 +61,7 @@ export default function GroupManagement({ presentationId, onClose }: GroupManage
                 if (needsNormalize) {
                     await normalizeGroupNumbers(presentationId);
                     toast.success('Normalized group numbers');
-                    groupsData = await getGroupsByPresentation(presentationId);
+                    groupsData = await getPresentationGroups(presentationId);
                 }
             }
 
@@ -65,8 +69,8 @@ export default function GroupManagement({ presentationId, onClose }: GroupManage
             setPresentations(presentationsData);
             setTeachers(teachersData);
 
-            // Set default selected teacher if admin
-            if (isAdmin && teachersData.length > 0 && !selectedTeacherId) {
+            // Set default selected teacher for department-wide group managers
+            if (canManageAll && teachersData.length > 0 && !selectedTeacherId) {
                 setSelectedTeacherId(teachersData[0].id);
             }
         } catch (error) {
@@ -78,8 +82,8 @@ export default function GroupManagement({ presentationId, onClose }: GroupManage
     async function handleCreateGroup(e: React.FormEvent<HTMLFormElement>) {
         e.preventDefault();
 
-        if (isAdmin) {
-            toast.error('Admins cannot create groups directly');
+        if (canManageAll) {
+            toast.error('Groups are created by their guides');
             return;
         }
 
@@ -106,7 +110,7 @@ export default function GroupManagement({ presentationId, onClose }: GroupManage
             let guideName = formData.get('guide_name') as string;
             let guideUserId = undefined;
 
-            if (isAdmin && selectedTeacherId) {
+            if (canManageAll && selectedTeacherId) {
                 const teacher = teachers.find(t => t.id === selectedTeacherId);
                 if (teacher) {
                     guideName = teacher.full_name || teacher.username;
@@ -120,7 +124,7 @@ export default function GroupManagement({ presentationId, onClose }: GroupManage
                 guide_name: guideName,
                 guide_user_id: guideUserId,
                 students,
-            }, user?.id, user?.role);
+            });
 
             toast.success('Group created successfully');
             setShowCreateForm(false);
@@ -225,7 +229,7 @@ export default function GroupManagement({ presentationId, onClose }: GroupManage
                     {/* Action Buttons */}
                     {!showCreateForm && !showCopyModal && (
                         <div className="flex gap-4 mb-6">
-                            {!isAdmin && (
+                            {!canManageAll && (
                                 <button
                                     onClick={() => setShowCreateForm(true)}
                                     className="btn btn-primary flex items-center gap-2"
@@ -296,7 +300,7 @@ export default function GroupManagement({ presentationId, onClose }: GroupManage
                                 <div className="space-y-4">
                                     <div>
                                         <label className="form-label">Guide *</label>
-                                        {isAdmin ? (
+                                        {canManageAll ? (
                                             <select
                                                 className="form-select"
                                                 value={selectedTeacherId}
@@ -394,7 +398,7 @@ export default function GroupManagement({ presentationId, onClose }: GroupManage
                                             <div className="mt-2">
                                                 {editingGroup === group.id ? (
                                                     <div className="flex items-center gap-2">
-                                                        {isAdmin ? (
+                                                        {canManageAll ? (
                                                             <select
                                                                 className="form-select"
                                                                 defaultValue={group.guide_user_id || ''}
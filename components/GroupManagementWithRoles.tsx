@@ -2,22 +2,30 @@
 
 import { useState, useEffect } from "react";
 import { Group, Presentation, User } from "@/lib/types";
+import {
+  getAllPresentations,
+  getPresentation,
+  getPresentationsWithGroupsForTeacher,
+  getAllTeachers,
+} from "@/lib/database";
 import {
   createGroup,
   deleteGroup,
   updateGroupGuide,
   updateStudentName,
-  getGroupsByPresentation,
-  getGroupsByPresentationForTeacher,
-  getAllPresentations,
+  addStudentToGroup,
+  removeStudent,
+  moveStudent,
   normalizeGroupNumbers,
-  getPresentation,
-  getPresentationsWithGroupsForTeacher,
-} from "@/lib/database";
-import { getAllTeachers } from "@/lib/auth";
+  getPresentationGroups,
+} from "@/lib/api";
+import { MAX_GROUP_STUDENTS, MIN_GROUP_STUDENTS } from "@/lib/constants";
+import { canEditPresentation } from "@/lib/presentationLock";
 import { useAuth } from "@/providers/AuthProvider";
 import toast from "react-hot-toast";
-import { X, Plus, Trash2, Users } from "lucide-react";
+import { X, Plus, Trash2, Users, Upload, Contact, ArrowRightLeft } from "lucide-react";
+import GroupImportModal from "./GroupImportModal";
+import StudentRecordModal from "./StudentRecordModal";
 
 interface GroupManagementProps {
   presentationId: string;
@@ -28,7 +36,11 @@ export default function GroupManagement({
   presentationId,
   onClose,
 }: GroupManagementProps) {
-  const { user, isAdmin, isTeacher } = useAuth();
+  const { user, can } = useAuth();
+  // Department-wide group managers see every group and pick guides;
+  // everyone else manages only the groups they guide
+  const canManageAll = can("manage_groups");
+  const ownGroupsOnly = !canManageAll;
   const [groups, setGroups] = useState<any[]>([]);
   const [presentations, setPresentations] = useState<Presentation[]>([]);
   const [currentPresentation, setCurrentPresentation] = useState<Presentation | null>(null);
@@ -40,6 +52,14 @@ export default function GroupManagement({
   const [guideSearchInput, setGuideSearchInput] = useState("");
   const [showGuideDropdown, setShowGuideDropdown] = useState(false);
   const [isCreatingGroup, setIsCreatingGroup] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [recordStudentId, setRecordStudentId] = useState<string | null>(null);
+  const [studentSlots, setStudentSlots] = useState(4);
+  const [addingStudentTo, setAddingStudentTo] = useState<string | null>(null);
+  const [movingStudent, setMovingStudent] = useState<{ id: string; name: string; groupId: string } | null>(null);
+  const [moveTargetId, setMoveTargetId] = useState("");
+  const [isMoving, setIsMoving] = useState(false);
 
   useEffect(() => {
     loadData();
@@ -62,38 +82,33 @@ export default function GroupManagement({
 
   async function loadData() {
     try {
-      let groupsData;
-      // Teachers see only their groups
-      if (isTeacher && user) {
-        groupsData = await getGroupsByPresentationForTeacher(
-          presentationId,
-          user.id,
-        );
-      } else {
-        // Admins see all groups
-        groupsData = await getGroupsByPresentation(presentationId);
-      }
+      // Guides see only their groups; department-wide group managers see all
+      let groupsData = await getPresentationGroups(presentationId, ownGroupsOnly);
 
       // First get the current presentation to know the academic year
       const currentPres = await getPresentation(presentationId);
 
       const [presentationsData, teachersData] = await Promise.all([
-        isTeacher && user
+        ownGroupsOnly && user
           ? getPresentationsWithGroupsForTeacher(currentPres.academic_year_id, user.id)
-          : getAllPresentations(),
-        getAllTeachers(),
+          : getAllPresentations(user!.department_id),
+        getAllTeachers(user!.department_id),
       ]);
 
-      // If group numbers are not sequential starting at 1, normalize them and reload
-      if (Array.isArray(groupsData) && groupsData.length > 0) {
+      // If group numbers are not sequential starting at 1, normalize them and
+      // reload. Only from the full list: a guide's own groups are a subset and
+      // always look gappy, and renumbering needs department-wide rights.
+      if (
+        !ownGroupsOnly &&
+        canEditPresentation(currentPres, user?.role) &&
+        Array.isArray(groupsData) &&
+        groupsData.length > 0
+      ) {
         const needsNormalize = groupsData.some((g: any, i: number) => g.group_number !== i + 1);
         if (needsNormalize) {
           await normalizeGroupNumbers(presentationId);
           toast.success('Normalized group numbers');
-          // Re-fetch groups after normalization
-          groupsData = isTeacher && user
-            ? await getGroupsByPresentationForTeacher(presentationId, user.id)
-            : await getGroupsByPresentation(presentationId);
+          groupsData = await getPresentationGroups(presentationId);
         }
       }
 
@@ -110,29 +125,28 @@ export default function GroupManagement({
   async function handleCreateGroup(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
 
-    if (isAdmin) {
-      toast.error('Admins cannot create groups directly');
+    if (canManageAll) {
+      toast.error('Groups are created by their guides or imported');
       return;
     }
 
     const formData = new FormData(e.currentTarget);
 
-    const students = [
-      formData.get("student1") as string,
-      formData.get("student2") as string,
-      formData.get("student3") as string,
-      formData.get("student4") as string,
-    ].filter((name) => name.trim()); // Remove empty names
+    const students = Array.from(
+      { length: studentSlots },
+      (_, i) => (formData.get(`student${i + 1}`) as string) || "",
+    ).filter((name) => name.trim()); // Remove empty names
 
-    // Validate at least 3 students
-    if (students.length < 3) {
-      toast.error("At least 3 student names are required");
+    if (students.length < MIN_GROUP_STUDENTS || students.length > MAX_GROUP_STUDENTS) {
+      toast.error(
+        `A group must have between ${MIN_GROUP_STUDENTS} and ${MAX_GROUP_STUDENTS} students`,
+      );
       return;
     }
 
-    // For teachers, guide_name is auto-filled. For admins, it's required.
+    // For guides, guide_name is auto-filled. Otherwise it's required.
     const guideName =
-      isTeacher && user
+      ownGroupsOnly && user
         ? user.full_name || user.username
         : (formData.get("guide_name") as string);
 
@@ -149,33 +163,35 @@ export default function GroupManagement({
       }
 
       setIsCreatingGroup(true);
+      setCreateError(null);
 
       const nextGroupNumber =
         groups.length > 0
           ? Math.max(...groups.map((g) => g.group_number)) + 1
           : 1;
 
-      await createGroup(
-        {
-          presentation_id: presentationId,
-          group_number: nextGroupNumber,
-          guide_name: guideName,
-          guide_user_id: selectedGuideId || undefined,
-          students,
-        },
-        user?.id,
-        user?.role,
-      );
+      await createGroup({
+        presentation_id: presentationId,
+        group_number: nextGroupNumber,
+        guide_name: guideName,
+        guide_user_id: selectedGuideId || undefined,
+        students,
+      });
 
       toast.success("Group created successfully");
       setShowCreateForm(false);
+      setStudentSlots(4);
       setGuideSearchInput("");
       setSelectedGuideId("");
       setShowGuideDropdown(false);
       await loadData();
     } catch (error) {
       console.error("Error creating group:", error);
-      toast.error((error as any)?.message || String(error) || "Failed to create group");
+      // Nothing was created (the database rolls the whole group back), so
+      // keep the form open with the reason next to it
+      const message = (error as any)?.message || String(error) || "Failed to create group";
+      setCreateError(message);
+      toast.error(message);
     } finally {
       setIsCreatingGroup(false);
     }
@@ -216,6 +232,55 @@ export default function GroupManagement({
     }
   }
 
+  async function handleAddStudent(groupId: string, name: string) {
+    try {
+      await addStudentToGroup(groupId, name);
+      toast.success("Student added");
+      setAddingStudentTo(null);
+      loadData();
+    } catch (error) {
+      console.error("Error adding student:", error);
+      toast.error((error as any)?.message || "Failed to add student");
+    }
+  }
+
+  async function handleRemoveStudent(studentId: string, studentName: string) {
+    const message = currentPresentation?.name.endsWith("1")
+      ? `Remove ${studentName} from this group? They are also removed from Presentations 2, 3 and 4, along with their evaluation marks.`
+      : `Remove ${studentName} from this group? Their evaluation marks are deleted.`;
+
+    if (!confirm(message)) {
+      return;
+    }
+
+    try {
+      await removeStudent(studentId);
+      toast.success("Student removed");
+      loadData();
+    } catch (error) {
+      console.error("Error removing student:", error);
+      toast.error((error as any)?.message || "Failed to remove student");
+    }
+  }
+
+  async function handleMoveStudent() {
+    if (!movingStudent || !moveTargetId) return;
+
+    try {
+      setIsMoving(true);
+      await moveStudent(movingStudent.id, moveTargetId);
+      const target = groups.find((g) => g.id === moveTargetId);
+      toast.success(`${movingStudent.name} moved to Group ${target?.group_number}`);
+      setMovingStudent(null);
+      loadData();
+    } catch (error) {
+      console.error("Error moving student:", error);
+      toast.error((error as any)?.message || "Failed to move student");
+    } finally {
+      setIsMoving(false);
+    }
+  }
+
   async function handleUpdateStudent(studentId: string, newName: string) {
     try {
       await updateStudentName(studentId, newName);
@@ -242,7 +307,7 @@ export default function GroupManagement({
         <div className="sticky top-0 bg-gradient-to-r from-indigo-50 to-blue-50 border-b border-gray-200 px-6 py-4 flex items-center justify-between">
           <div>
             <h2 className="text-2xl font-bold text-gray-900">Manage Groups</h2>
-            {isTeacher && <p className="text-sm text-gray-600">Your Groups</p>}
+            {ownGroupsOnly && <p className="text-sm text-gray-600">Your Groups</p>}
           </div>
           <button
             onClick={onClose}
@@ -257,10 +322,11 @@ export default function GroupManagement({
           {/* Action Buttons */}
           {!showCreateForm && (
             <div className="flex gap-4 mb-6 flex-wrap">
-              {!isAdmin && (
+              {!canManageAll && (
                 <button
                   onClick={() => {
                     setShowCreateForm(true);
+                    setCreateError(null);
                     setGuideSearchInput("");
                     setShowGuideDropdown(false);
                   }}
@@ -270,7 +336,15 @@ export default function GroupManagement({
                   Add New Group
                 </button>
               )}
-
+              {canManageAll && (
+                <button
+                  onClick={() => setShowImportModal(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+                >
+                  <Upload className="w-5 h-5" />
+                  Import from Excel/CSV
+                </button>
+              )}
             </div>
           )}
 
@@ -281,8 +355,8 @@ export default function GroupManagement({
                 Create New Group
               </h3>
               <form onSubmit={handleCreateGroup} className="space-y-4">
-                {/* For Teachers: Show guide name info */}
-                {isTeacher && (
+                {/* For guides: Show guide name info */}
+                {ownGroupsOnly && (
                   <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
                     <p className="text-sm text-blue-800">
                       <span className="font-medium">Guide Name:</span>{" "}
@@ -292,8 +366,8 @@ export default function GroupManagement({
                   </div>
                 )}
 
-                {/* For Admins: Guide Selection */}
-                {isAdmin && (
+                {/* For department-wide group managers: Guide Selection */}
+                {canManageAll && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Guide Name <span className="text-red-500">*</span>
@@ -376,21 +450,37 @@ export default function GroupManagement({
 
                 {/* Student Names */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {[1, 2, 3, 4].map((i) => (
+                  {Array.from({ length: studentSlots }, (_, index) => index + 1).map((i) => (
                     <div key={i}>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Student {i} {i <= 3 && <span className="text-red-500">*</span>} {i === 4 && <span className="text-gray-500 text-xs">(optional)</span>}
+                        Student {i} {i <= MIN_GROUP_STUDENTS ? <span className="text-red-500">*</span> : <span className="text-gray-500 text-xs">(optional)</span>}
                       </label>
                       <input
                         name={`student${i}`}
                         type="text"
                         placeholder={`Student ${i} name`}
-                        required={i <= 3}
+                        required={i <= MIN_GROUP_STUDENTS}
                         className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
                       />
                     </div>
                   ))}
                 </div>
+                {studentSlots < MAX_GROUP_STUDENTS && (
+                  <button
+                    type="button"
+                    onClick={() => setStudentSlots(studentSlots + 1)}
+                    className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add another student (up to {MAX_GROUP_STUDENTS})
+                  </button>
+                )}
+
+                {createError && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                    {createError}
+                  </div>
+                )}
 
                 {/* Form Actions */}
                 <div className="flex gap-2 pt-4">
@@ -405,6 +495,7 @@ export default function GroupManagement({
                     type="button"
                     onClick={() => {
                       setShowCreateForm(false);
+                      setStudentSlots(4);
                       setGuideSearchInput("");
                       setShowGuideDropdown(false);
                     }}
@@ -423,7 +514,7 @@ export default function GroupManagement({
               <div className="text-center py-8 bg-gray-50 rounded-lg">
                 <Users className="w-12 h-12 text-gray-400 mx-auto mb-2" />
                 <p className="text-gray-500">
-                  {isTeacher ? "You have no groups yet" : "No groups found"}
+                  {ownGroupsOnly ? "You have no groups yet" : "No groups found"}
                 </p>
               </div>
             ) : (
@@ -516,8 +607,76 @@ export default function GroupManagement({
                             {student.student_name}
                           </span>
                         )}
+                        <button
+                          onClick={() => setRecordStudentId(student.id)}
+                          className="p-1 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+                          title="Roll number, PRN, email and division"
+                        >
+                          <Contact className="w-4 h-4" />
+                        </button>
+                        {canManageAll && groups.length > 1 && (
+                          <button
+                            onClick={() => {
+                              setMovingStudent({
+                                id: student.id,
+                                name: student.student_name,
+                                groupId: group.id,
+                              });
+                              setMoveTargetId("");
+                            }}
+                            className="p-1 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+                            title="Move to another group"
+                          >
+                            <ArrowRightLeft className="w-4 h-4" />
+                          </button>
+                        )}
+                        {group.students.length > MIN_GROUP_STUDENTS && (
+                          <button
+                            onClick={() => handleRemoveStudent(student.id, student.student_name)}
+                            className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                            title="Remove student from group"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
                       </div>
                     ))}
+                    {group.students.length < MAX_GROUP_STUDENTS &&
+                      (addingStudentTo === group.id ? (
+                        <div className="flex items-center gap-2 ml-4">
+                          <span className="text-gray-500 font-medium w-8">
+                            S{group.students.length + 1}:
+                          </span>
+                          <input
+                            type="text"
+                            placeholder="New student name"
+                            onBlur={(e) => {
+                              if (e.target.value.trim()) {
+                                handleAddStudent(group.id, e.target.value.trim());
+                              } else {
+                                setAddingStudentTo(null);
+                              }
+                            }}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") {
+                                e.currentTarget.blur();
+                              } else if (e.key === "Escape") {
+                                setAddingStudentTo(null);
+                              }
+                            }}
+                            autoFocus
+                            className="flex-1 px-2 py-1 border border-gray-300 rounded"
+                          />
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => setAddingStudentTo(group.id)}
+                          className="ml-4 flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800"
+                        >
+                          <Plus className="w-4 h-4" />
+                          Add student
+                        </button>
+                      ))}
                   </div>
                 </div>
               ))
@@ -525,6 +684,69 @@ export default function GroupManagement({
           </div>
         </div>
       </div>
+
+      {showImportModal && (
+        <GroupImportModal
+          presentationId={presentationId}
+          onClose={() => setShowImportModal(false)}
+          onImported={loadData}
+        />
+      )}
+
+      {movingStudent && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6 space-y-4">
+            <h3 className="text-lg font-bold text-gray-900">
+              Move {movingStudent.name}
+            </h3>
+            <p className="text-sm text-gray-600">
+              The student and their marks move to the chosen group in every
+              presentation of this academic year.
+            </p>
+            <select
+              value={moveTargetId}
+              onChange={(e) => setMoveTargetId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="">Select a group</option>
+              {groups
+                .filter((g) => g.id !== movingStudent.groupId)
+                .map((g) => (
+                  <option
+                    key={g.id}
+                    value={g.id}
+                    disabled={g.students.length >= MAX_GROUP_STUDENTS}
+                  >
+                    Group {g.group_number} ({g.guide_name}, {g.students.length} students)
+                  </option>
+                ))}
+            </select>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setMovingStudent(null)}
+                className="px-4 py-2 bg-gray-300 hover:bg-gray-400 text-gray-900 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleMoveStudent}
+                disabled={!moveTargetId || isMoving}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isMoving ? "Moving..." : "Move"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {recordStudentId && (
+        <StudentRecordModal
+          studentId={recordStudentId}
+          onClose={() => setRecordStudentId(null)}
+          onSaved={loadData}
+        />
+      )}
     </div>
   );
 }
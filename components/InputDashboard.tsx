@@ -9,8 +9,16 @@ import {
   getAcademicYear,
   getAcademicYearBySlugOrId,
   getPresentationsWithGroupsForTeacher,
+  getPresentationExaminers,
 } from "@/lib/database";
-import { generateSlug } from "@/lib/slugs";
+import { getPresentationGroups } from "@/lib/api";
+import {
+  cacheDashboard,
+  cacheGrid,
+  getCachedDashboard,
+  getCachedGrid,
+  isOfflineError,
+} from "@/lib/offline";
 import { setEditMode } from "@/lib/editMode";
 import { useAuth } from "@/providers/AuthProvider";
 import toast from "react-hot-toast";
@@ -22,6 +30,7 @@ import {
 } from "lucide-react";
 import UserProfile from "./UserProfile";
 import Logo from "./Logo";
+import OfflineSyncBar from "./OfflineSyncBar";
 
 export default function InputDashboard({
   academicYearId,
@@ -29,7 +38,9 @@ export default function InputDashboard({
   academicYearId: string;
 }) {
   const router = useRouter();
-  const { user, isTeacher, isAdmin } = useAuth();
+  const { user, can } = useAuth();
+  // Guides and external examiners only see their own groups
+  const ownGroupsOnly = !can("view");
   const [academicYear, setAcademicYear] = useState<AcademicYear | null>(null);
   const [presentations, setPresentations] = useState<Presentation[]>([]);
   const [stats, setStats] = useState<
@@ -37,12 +48,12 @@ export default function InputDashboard({
   >({});
   const [loading, setLoading] = useState(true);
 
-  // Redirect admins away from marks entry page
+  // Marks entry is for guides; roles that see the whole department go to reports
   useEffect(() => {
-    if (isAdmin) {
+    if (!ownGroupsOnly) {
       router.push(`/reports`);
     }
-  }, [isAdmin, router]);
+  }, [ownGroupsOnly, router]);
 
   useEffect(() => {
     if (academicYearId) {
@@ -65,9 +76,9 @@ export default function InputDashboard({
   async function loadData() {
     try {
       // Use slug-aware lookup for academic year
-      const yearData = await getAcademicYearBySlugOrId(academicYearId);
+      const yearData = await getAcademicYearBySlugOrId(academicYearId, user!.department_id);
       
-      const presentationsData = isTeacher && user
+      const presentationsData = ownGroupsOnly && user
         ? await getPresentationsWithGroupsForTeacher(yearData.id, user.id)
         : await getPresentationsByAcademicYear(yearData.id);
 
@@ -88,7 +99,25 @@ export default function InputDashboard({
         statsData[presentation.id] = presentationStats;
       }
       setStats(statsData);
+
+      if (user) {
+        cacheDashboard(user.id, academicYearId, {
+          academicYear: yearData,
+          presentations: presentationsData,
+          stats: statsData,
+        });
+        cachePresentationGrids(presentationsData);
+      }
     } catch (error) {
+      const cached =
+        user && isOfflineError(error) ? getCachedDashboard(user.id, academicYearId) : null;
+      if (cached) {
+        setAcademicYear(cached.academicYear);
+        setPresentations(cached.presentations);
+        setStats(cached.stats);
+        return;
+      }
+
       console.error("Error loading data:", error);
       toast.error("Failed to load data");
     } finally {
@@ -96,6 +125,34 @@ export default function InputDashboard({
     }
   }
 
+  /**
+   * Fetch each presentation's groups in the background so marks entry can be
+   * opened later without a connection. A grid cached by PresentationView
+   * (which also holds the sibling presentation) is only refreshed, never lost.
+   */
+  async function cachePresentationGrids(presentationsData: Presentation[]) {
+    if (!user) return;
+
+    for (const presentation of presentationsData) {
+      try {
+        const [groups, examiners] = await Promise.all([
+          getPresentationGroups(presentation.id, ownGroupsOnly),
+          getPresentationExaminers(presentation.id),
+        ]);
+        const previous = getCachedGrid(user.id, presentation.id);
+        cacheGrid(user.id, {
+          presentation,
+          groups,
+          siblingPresentation: previous?.siblingPresentation ?? null,
+          siblingGroups: previous?.siblingGroups ?? [],
+          examiners,
+        });
+      } catch (error) {
+        console.error(`Error caching ${presentation.name} for offline use:`, error);
+      }
+    }
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -154,7 +211,7 @@ export default function InputDashboard({
                   Marks Entry: {academicYear.name}
                 </h1>
                 <p className="text-xs sm:text-sm text-gray-600 mt-1">
-                  {isTeacher ? "Manage presentations and enter marks" : "View presentations"}
+                  {can("manage_groups", "any") ? "Manage presentations and enter marks" : "View presentations"}
                 </p>
               </div>
             </div>
@@ -162,6 +219,8 @@ export default function InputDashboard({
         </div>
       </header>
 
+      <OfflineSyncBar />
+
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-3 sm:px-6 lg:px-8 py-6 sm:py-8">
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
@@ -202,7 +261,7 @@ export default function InputDashboard({
                   onClick={() => {
                     // Set edit mode flag before navigating
                     setEditMode(true);
-                    const url = `/presentation/${generateSlug(presentation.id)}`;
+                    const url = `/presentation/${presentation.slug || presentation.id}`;
                     router.push(url);
                   }}
                   className="w-full btn btn-secondary mt-auto"
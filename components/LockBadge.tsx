@@ -0,0 +1,42 @@
+"use client";
+
+import { Presentation } from "@/lib/types";
+import { getLockStatus, LOCK_STATUS_LABELS } from "@/lib/presentationLock";
+import { Lock, Send, Unlock } from "lucide-react";
+
+const STYLES = {
+  open: "bg-green-50 text-green-700 border-green-200",
+  submitted: "bg-amber-50 text-amber-700 border-amber-200",
+  locked: "bg-red-50 text-red-700 border-red-200",
+};
+
+const ICONS = {
+  open: Unlock,
+  submitted: Send,
+  locked: Lock,
+};
+
+export default function LockBadge({
+  presentation,
+  className = "",
+}: {
+  presentation: Pick<Presentation, "lock_status" | "lock_reason">;
+  className?: string;
+}) {
+  const status = getLockStatus(presentation);
+  const Icon = ICONS[status];
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs font-semibold px-2 py-1 rounded-full border whitespace-nowrap ${STYLES[status]} ${className}`}
+      title={
+        status === "open" && presentation.lock_reason
+          ? `Last unlocked: ${presentation.lock_reason}`
+          : undefined
+      }
+    >
+      <Icon className="w-3 h-3" />
+      {LOCK_STATUS_LABELS[status]}
+    </span>
+  );
+}
@@ -1,26 +1,32 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useBranding } from "@/providers/BrandingProvider";
 
 export default function Logo({ className = "" }: { className?: string }) {
+  const { branding } = useBranding();
   const [failed, setFailed] = useState(false);
+  const src = branding.logo_url || "/logo.png";
+
+  // A newly uploaded logo gets another chance to load
+  useEffect(() => setFailed(false), [src]);
 
   if (failed) {
     return (
       <div
         className={`flex items-center justify-center bg-gray-100 text-xs text-gray-700 rounded ${className}`}
         role="img"
-        aria-label="College logo placeholder"
+        aria-label={`${branding.institution_name} logo placeholder`}
       >
-        <span className="font-semibold">WCE</span>
+        <span className="font-semibold">{branding.institution_short_name}</span>
       </div>
     );
   }
 
   return (
     <img
-      src="/logo.png"
-      alt="College Logo"
+      src={src}
+      alt={`${branding.institution_name} logo`}
       className={`${className} object-contain`}
       onError={() => setFailed(true)}
     />
@@ -0,0 +1,218 @@
+"use client";
+
+import { useState } from "react";
+import { GroupWithStudents, MarksImportDiff, Presentation } from "@/lib/types";
+import { applyMarkChanges } from "@/lib/api";
+import { diffMarks, readMarksFile } from "@/lib/marksImport";
+import { getPresentationRubric } from "@/lib/rubric";
+import toast from "react-hot-toast";
+import { X, Upload, AlertCircle } from "lucide-react";
+
+interface MarksImportModalProps {
+  presentation: Presentation;
+  groups: GroupWithStudents[];
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+function changeKey(change: { studentId: string; field: string }): string {
+  return `${change.studentId}:${change.field}`;
+}
+
+export default function MarksImportModal({
+  presentation,
+  groups,
+  onClose,
+  onApplied,
+}: MarksImportModalProps) {
+  const [diff, setDiff] = useState<MarksImportDiff | null>(null);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  const [fileName, setFileName] = useState("");
+  const [isApplying, setIsApplying] = useState(false);
+
+  async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const table = await readMarksFile(file);
+      const result = diffMarks(table, groups, getPresentationRubric(presentation));
+      setDiff(result);
+      setAccepted(new Set(result.changes.filter((c) => !c.error).map(changeKey)));
+      setFileName(file.name);
+
+      if (result.changes.length === 0) {
+        toast.success("No differences from the current marks");
+      }
+    } catch (error) {
+      console.error("Error reading marks file:", error);
+      toast.error((error as any)?.message || "Failed to read the file");
+    }
+  }
+
+  function toggle(key: string) {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }
+
+  async function handleApply() {
+    if (!diff) return;
+
+    const changes = diff.changes
+      .filter((c) => !c.error && accepted.has(changeKey(c)))
+      .map((c) => ({ studentId: c.studentId, field: c.field, value: c.newValue }));
+    if (changes.length === 0) return;
+
+    try {
+      setIsApplying(true);
+      const count = await applyMarkChanges(presentation.id, changes);
+      toast.success(`Applied ${count} mark change${count === 1 ? "" : "s"}`);
+      onApplied();
+      onClose();
+    } catch (error) {
+      console.error("Error applying marks:", error);
+      toast.error((error as any)?.message || "Failed to apply marks");
+    } finally {
+      setIsApplying(false);
+    }
+  }
+
+  const validChanges = diff?.changes.filter((c) => !c.error) || [];
+  const allAccepted =
+    validChanges.length > 0 && validChanges.every((c) => accepted.has(changeKey(c)));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between bg-gray-50">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Import Marks</h3>
+            <p className="text-sm text-gray-500">
+              Upload a {presentation.name} sheet exported from this system
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors cursor-pointer">
+              <Upload className="w-5 h-5" />
+              Choose File
+              <input
+                type="file"
+                accept=".xlsx,.xls"
+                onChange={handleFileChange}
+                className="hidden"
+              />
+            </label>
+            {fileName && <span className="text-sm text-gray-600">{fileName}</span>}
+          </div>
+
+          {diff && (diff.unmatchedRows.length > 0 || diff.unmatchedHeaders.length > 0) && (
+            <div className="p-3 rounded-lg text-sm bg-yellow-50 text-yellow-800 border border-yellow-200 space-y-1">
+              <div className="flex items-center gap-2 font-medium">
+                <AlertCircle className="w-4 h-4" />
+                Some of the sheet could not be matched and will be ignored
+              </div>
+              {diff.unmatchedHeaders.length > 0 && (
+                <p>Unknown columns: {diff.unmatchedHeaders.join(", ")}</p>
+              )}
+              {diff.unmatchedRows.map((row) => (
+                <p key={row.rowNumber}>
+                  Row {row.rowNumber}: no student &quot;{row.studentName}&quot; in group{" "}
+                  {row.groupNumber ?? "?"}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {diff && diff.changes.length > 0 && (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-gray-600">
+                    <th className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={allAccepted}
+                        onChange={() =>
+                          setAccepted(
+                            allAccepted ? new Set() : new Set(validChanges.map(changeKey)),
+                          )
+                        }
+                      />
+                    </th>
+                    <th className="px-3 py-2">Group</th>
+                    <th className="px-3 py-2">Student</th>
+                    <th className="px-3 py-2">Column</th>
+                    <th className="px-3 py-2">Current</th>
+                    <th className="px-3 py-2">In Sheet</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.changes.map((change) => {
+                    const key = changeKey(change);
+                    return (
+                      <tr
+                        key={key}
+                        className={`border-t border-gray-100 ${change.error ? "bg-red-50" : ""}`}
+                      >
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            disabled={!!change.error}
+                            checked={!change.error && accepted.has(key)}
+                            onChange={() => toggle(key)}
+                          />
+                        </td>
+                        <td className="px-3 py-2">{change.groupNumber}</td>
+                        <td className="px-3 py-2">{change.studentName}</td>
+                        <td className="px-3 py-2">{change.fieldLabel}</td>
+                        <td className="px-3 py-2 text-gray-600">{change.oldValue}</td>
+                        <td
+                          className={`px-3 py-2 font-medium ${change.error ? "text-red-700" : "text-green-700"}`}
+                        >
+                          {Number.isNaN(change.newValue) ? "—" : change.newValue}
+                          {change.error && (
+                            <span className="block text-xs font-normal">{change.error}</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2 bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-300 hover:bg-gray-400 text-gray-900 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={accepted.size === 0 || isApplying}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isApplying ? "Applying..." : `Apply ${accepted.size} Changes`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
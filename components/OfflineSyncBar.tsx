@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/providers/AuthProvider";
+import {
+  getPendingEdits,
+  replayPendingEdits,
+  PENDING_MARKS_EVENT,
+  ReplayResult,
+} from "@/lib/offline";
+import toast from "react-hot-toast";
+import { WifiOff, RefreshCw, AlertTriangle, X } from "lucide-react";
+
+interface OfflineSyncBarProps {
+  onSynced?: () => void;
+}
+
+/**
+ * Connection status, queued mark count and the outcome of the last sync.
+ * Replays queued marks automatically when the browser comes back online,
+ * and after signing back in if the session had ended.
+ */
+export default function OfflineSyncBar({ onSynced }: OfflineSyncBarProps) {
+  const { user } = useAuth();
+  const [isOnline, setIsOnline] = useState(true);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [report, setReport] = useState<ReplayResult | null>(null);
+
+  async function sync() {
+    if (!user || getPendingEdits(user.id).length === 0) return;
+
+    try {
+      setIsSyncing(true);
+      const result = await replayPendingEdits(user.id);
+
+      if (result.applied > 0) {
+        toast.success(`Synced ${result.applied} offline mark${result.applied === 1 ? "" : "s"}`);
+      }
+      if (result.signedOut) {
+        toast.error("Your session has ended. Sign in again to sync the marks saved on this device.");
+      }
+      if (result.conflicts.length > 0 || result.failed.length > 0) {
+        setReport(result);
+      }
+      if (result.applied > 0 || result.conflicts.length > 0) {
+        onSynced?.();
+      }
+    } finally {
+      setIsSyncing(false);
+    }
+  }
+
+  useEffect(() => {
+    if (!user) return;
+
+    const refreshCount = () => setPendingCount(getPendingEdits(user.id).length);
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    setIsOnline(navigator.onLine);
+    refreshCount();
+    if (navigator.onLine) sync();
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    window.addEventListener(PENDING_MARKS_EVENT, refreshCount);
+    window.addEventListener("storage", refreshCount);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      window.removeEventListener(PENDING_MARKS_EVENT, refreshCount);
+      window.removeEventListener("storage", refreshCount);
+    };
+  }, [user?.id]);
+
+  if (isOnline && pendingCount === 0 && !report) return null;
+
+  return (
+    <div className="px-3 sm:px-6 lg:px-8 pt-3 space-y-2">
+      {(!isOnline || pendingCount > 0) && (
+        <div
+          className={`flex items-center justify-between gap-3 px-4 py-2 rounded-lg text-sm border ${
+            isOnline
+              ? "bg-blue-50 text-blue-800 border-blue-200"
+              : "bg-amber-50 text-amber-800 border-amber-200"
+          }`}
+        >
+          <div className="flex items-center gap-2">
+            {!isOnline && <WifiOff className="w-4 h-4 flex-shrink-0" />}
+            <span>
+              {!isOnline && "You are offline. Marks are saved on this device. "}
+              {pendingCount} mark{pendingCount === 1 ? "" : "s"} waiting to sync
+            </span>
+          </div>
+          {isOnline && (
+            <button
+              onClick={sync}
+              disabled={isSyncing}
+              className="flex items-center gap-1 font-medium hover:underline disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${isSyncing ? "animate-spin" : ""}`} />
+              {isSyncing ? "Syncing..." : "Sync now"}
+            </button>
+          )}
+        </div>
+      )}
+
+      {report && (
+        <div className="px-4 py-3 rounded-lg text-sm bg-red-50 text-red-800 border border-red-200">
+          <div className="flex items-center justify-between gap-3 mb-2">
+            <div className="flex items-center gap-2 font-medium">
+              <AlertTriangle className="w-4 h-4" />
+              Some offline marks were not saved
+            </div>
+            <button
+              onClick={() => setReport(null)}
+              className="text-red-400 hover:text-red-600 transition-colors"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {report.conflicts.map(({ edit, current }) => {
+              const currentValue = edit.field.startsWith("extra_")
+                ? current.extra_marks?.[edit.field]
+                : (current as any)[edit.field];
+              return (
+                <li key={`${edit.studentId}:${edit.field}`}>
+                  Group {edit.groupNumber}, {edit.studentName}, {edit.fieldLabel}: your{" "}
+                  {edit.value} was not saved because someone else changed it to{" "}
+                  {currentValue ?? "—"} while you were offline
+                </li>
+              );
+            })}
+            {report.failed.map(({ edit, error }) => (
+              <li key={`${edit.studentId}:${edit.field}`}>
+                Group {edit.groupNumber}, {edit.studentName}, {edit.fieldLabel}: your{" "}
+                {edit.value} was rejected ({error})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,31 +7,83 @@ import {
   GroupWithStudents,
   Evaluation,
   CalculatedMarks,
-  BaseColumnConfig,
+  PresentationLockStatus,
+  PresentationExaminer,
 } from "@/lib/types";
-import { DEFAULT_COLUMNS, DEFAULT_MARK_LIMITS } from "@/lib/constants";
 import {
   getPresentation,
   getPresentationBySlugOrId,
-  getGroupsByPresentation,
-  getGroupsByPresentationForTeacher,
-  updateEvaluation,
   getPresentationsByAcademicYear,
+  getPresentationExaminers,
 } from "@/lib/database";
-import { calculateAllMarks } from "@/lib/calculations";
+import {
+  getPresentationGroups,
+  getEvaluation,
+  updateEvaluation,
+  setPresentationLockStatus,
+  setPresentationResultsPublished,
+  ApiRequestError,
+  downloadAnnualReport,
+  downloadPresentationReport,
+  downloadPdfReport,
+} from "@/lib/api";
+import {
+  applyPendingEdits,
+  cacheGrid,
+  CachedGrid,
+  getCachedGrid,
+  getPendingEdits,
+  isOfflineError,
+  queueMarkEdit,
+} from "@/lib/offline";
+import {
+  joinPresentationChannel,
+  EvaluationChange,
+  PresenceEditor,
+  PresentationChannel,
+} from "@/lib/realtime";
+import {
+  canEditPresentation,
+  getLockStatus,
+  LOCK_STATUS_LABELS,
+} from "@/lib/presentationLock";
+import { getResultsStatus, RESULTS_STATUS_LABELS } from "@/lib/resultsPublishing";
+import { calculateAllMarks, validateMark, getMaxValue } from "@/lib/calculations";
+import {
+  getPresentationRubric,
+  getRubricSet,
+  calculateRubricTotal,
+  findCriterion,
+  formatCriterionHeader,
+} from "@/lib/rubric";
 import GroupManagement from "./GroupManagementWithRoles";
-import { Download, Users, ArrowLeft, ChevronDown, Settings } from "lucide-react";
-import ColumnSettingsModal from "./ColumnSettingsModal";
-import { exportPresentationToExcel } from "@/lib/excelExport";
 import {
-  exportPresentation1Report,
-  exportPresentation2Report,
-  exportPresentation3Report,
-  exportPresentation4Report,
-  exportSemester1Report,
-  exportSemester2Report,
-  exportProjectClassificationReport,
-} from "@/lib/excelExportByPresentation";
+  Download,
+  Users,
+  ArrowLeft,
+  ChevronDown,
+  Settings,
+  History,
+  Upload,
+  Lock,
+  Unlock,
+  Send,
+  UserCheck,
+  Scale,
+  ClipboardList,
+  FileText,
+  Megaphone,
+  EyeOff,
+} from "lucide-react";
+import ColumnSettingsModal from "./ColumnSettingsModal";
+import StudentHistoryModal from "./StudentHistoryModal";
+import MarksImportModal from "./MarksImportModal";
+import LockBadge from "./LockBadge";
+import OfflineSyncBar from "./OfflineSyncBar";
+import ExaminersModal from "./ExaminersModal";
+import ExaminerSheetModal from "./ExaminerSheetModal";
+import ReconciliationModal from "./ReconciliationModal";
+import { COMBINE_RULE_LABELS } from "@/lib/constants";
 import { isEditModeEnabled } from "@/lib/editMode";
 import toast from "react-hot-toast";
 import UserProfile from "./UserProfile";
@@ -42,19 +94,18 @@ interface PresentationViewProps {
   presentationId: string;
 }
 
-// Validation constants
-const MARK_LIMITS: Record<string, number> = DEFAULT_MARK_LIMITS;
-
 export default function PresentationView({
   presentationId,
 }: PresentationViewProps) {
   const router = useRouter();
-  const { user, isAdmin, isTeacher } = useAuth();
+  const { user, can } = useAuth();
+  // Guides and external examiners only see their own groups
+  const ownGroupsOnly = !can("view");
 
   // Determine readonly status based on edit mode flag
   // If edit mode was set (from marks-entry), and user is admin/teacher, allow editing
   // Otherwise, readonly
-  const [isReadOnly, setIsReadOnly] = useState(true);
+  const [isEditModeReadOnly, setIsReadOnly] = useState(true);
 
   useEffect(() => {
     // Check if this came from marks-entry (edit mode enabled)
@@ -62,12 +113,16 @@ export default function PresentationView({
 
     // Allow editing only if:
     // 1. Edit mode was set (came from marks-entry), AND
-    // 2. User is admin or teacher (role-based check)
-    const canEdit = editModeEnabled && (isAdmin || isTeacher);
+    // 2. User's role may enter marks somewhere
+    const canEdit = editModeEnabled && can("enter_marks", "any");
     setIsReadOnly(!canEdit);
-  }, [isAdmin, isTeacher]);
+  }, [user?.role]);
 
   const [presentation, setPresentation] = useState<Presentation | null>(null);
+  // Submitted/locked presentations are read-only regardless of edit mode
+  const isReadOnly =
+    isEditModeReadOnly ||
+    (presentation ? !canEditPresentation(presentation, user?.role) : false);
   const [groups, setGroups] = useState<GroupWithStudents[]>([]);
 
   // Sibling (Other Phase) Data
@@ -84,49 +139,70 @@ export default function PresentationView({
   const [resolvedPresentationId, setResolvedPresentationId] = useState<string>("");
   const [lastLoadedAsTeacher, setLastLoadedAsTeacher] = useState<boolean | null>(null);
   const [isColumnModalOpen, setIsColumnModalOpen] = useState(false);
+  const [showMarksImport, setShowMarksImport] = useState(false);
+  const [historyStudent, setHistoryStudent] = useState<{ id: string; name: string } | null>(null);
+  const [examiners, setExaminers] = useState<PresentationExaminer[]>([]);
+  const [showExaminers, setShowExaminers] = useState(false);
+  const [showExaminerSheet, setShowExaminerSheet] = useState(false);
+  const [showReconciliation, setShowReconciliation] = useState(false);
+  const [editors, setEditors] = useState<PresenceEditor[]>([]);
 
   const debounceTimers = useRef<Record<string, NodeJS.Timeout>>({});
+  const channelRef = useRef<PresentationChannel | null>(null);
+  const groupsRef = useRef<GroupWithStudents[]>([]);
+  // updated_at of each student's evaluation as last seen, sent with every save
+  // so a write based on a stale row is rejected
+  const versionsRef = useRef<Record<string, string | undefined>>({});
+  // Saves for one student run one after another so each sees the previous version
+  const saveQueues = useRef<Record<string, Promise<void>>>({});
+  const loadDataRef = useRef<typeof loadData>(() => Promise.resolve());
+
+  useEffect(() => {
+    groupsRef.current = groups;
+  }, [groups]);
 
   useEffect(() => {
     // Only load if user is fully loaded (not null and auth is resolved)
     if (user !== undefined) {
       // If we previously loaded as a different authorization level, reload
-      // This prevents showing ALL groups when teacher first loads (before isTeacher resolves)
-      if (lastLoadedAsTeacher !== null && lastLoadedAsTeacher !== isTeacher) {
+      // This prevents showing ALL groups when teacher first loads (before ownGroupsOnly resolves)
+      if (lastLoadedAsTeacher !== null && lastLoadedAsTeacher !== ownGroupsOnly) {
         setGroups([]);
         setSiblingGroups([]);
       }
       loadData();
     }
-  }, [presentationId, user?.id, isTeacher]);
+  }, [presentationId, user?.id, ownGroupsOnly]);
 
-  async function loadData() {
+  async function loadData(options: { silent?: boolean } = {}) {
     try {
-      setLoading(true);
+      if (!options.silent) setLoading(true);
 
       // Load Current - use slug-aware lookup
-      const presData = await getPresentationBySlugOrId(presentationId);
+      const presData = await getPresentationBySlugOrId(presentationId, user!.department_id);
 
-      // Load groups based on user role
-      let groupsData: GroupWithStudents[];
-      if (isTeacher && user) {
-        groupsData = await getGroupsByPresentationForTeacher(
-          presData.id,
-          user.id,
-        );
-      } else {
-        groupsData = await getGroupsByPresentation(presData.id);
+      // Old bookmarks (3-character codes, raw ids) move to the stored slug
+      if (presData.slug && presentationId !== presData.slug) {
+        router.replace(`/presentation/${presData.slug}`);
       }
 
+      // Load groups based on user role
+      const groupsData = await getPresentationGroups(presData.id, ownGroupsOnly);
+
+      const examinersData = await getPresentationExaminers(presData.id);
+      const pendingEdits = user ? getPendingEdits(user.id) : [];
+
       setPresentation(presData);
+      setExaminers(examinersData);
       setAcademicYearId(presData.academic_year_id);
       setResolvedPresentationId(presData.id);
-      setGroups(groupsData);
-      setLastLoadedAsTeacher(isTeacher); // Track authorization level used for this load
+      setGroups(applyPendingEdits(groupsData, pendingEdits));
+      versionsRef.current = {};
+      setLastLoadedAsTeacher(ownGroupsOnly); // Track authorization level used for this load
 
       // Authorization check: If teacher, verify all groups belong to them
       // This prevents showing unauthorized groups even if data somehow got mixed up
-      if (isTeacher && user) {
+      if (ownGroupsOnly && user) {
         const unauthorizedGroups = groupsData.filter(
           (g) => g.guide_user_id !== user.id
         );
@@ -159,21 +235,14 @@ export default function PresentationView({
         siblingName = presData.name.replace("4", "3");
 
       const sibling = allPres.find((p) => p.name === siblingName);
+      let siblingGroupsData: GroupWithStudents[] = [];
       if (sibling) {
         setSiblingPresentation(sibling);
         // Load sibling groups based on user role
-        let sGroups: GroupWithStudents[];
-        if (isTeacher && user) {
-          sGroups = await getGroupsByPresentationForTeacher(
-            sibling.id,
-            user.id,
-          );
-        } else {
-          sGroups = await getGroupsByPresentation(sibling.id);
-        }
+        const sGroups = await getPresentationGroups(sibling.id, ownGroupsOnly);
 
         // Authorization check for sibling groups
-        if (isTeacher && user) {
+        if (ownGroupsOnly && user) {
           const unauthorizedSiblingGroups = sGroups.filter(
             (g) => g.guide_user_id !== user.id
           );
@@ -186,8 +255,27 @@ export default function PresentationView({
         }
 
         setSiblingGroups(sGroups);
+        siblingGroupsData = sGroups;
+      }
+
+      // Keep a copy for marks entry without a connection
+      if (user) {
+        cacheGrid(user.id, {
+          presentation: presData,
+          groups: groupsData,
+          siblingPresentation: sibling || null,
+          siblingGroups: siblingGroupsData,
+          examiners: examinersData,
+        });
       }
     } catch (error) {
+      const cached =
+        user && isOfflineError(error) ? getCachedGrid(user.id, presentationId) : null;
+      if (cached) {
+        showCachedGrid(cached);
+        return;
+      }
+
       console.error("Error loading presentation:", error);
       const errorMessage = error instanceof Error ? error.message : "Presentation not found";
       setError(errorMessage);
@@ -198,39 +286,191 @@ export default function PresentationView({
     }
   }
 
-  const getColumnConfig = (key: string): BaseColumnConfig => {
-    const presNum = parseInt(presentation?.name.match(/\d+/)?.[0] || "0");
-    const defaultConfig = DEFAULT_COLUMNS[presNum]?.[key];
-    
-    // Basic defaults if everything else fails
-    const defaultVal = defaultConfig?.maxMark || MARK_LIMITS[key] || 10;
-    const defaultName = defaultConfig?.name || key.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase());
-
-    if (!presentation) return { name: defaultName, maxMark: defaultVal, isHidden: false };
-
-    const saved = presentation.custom_columns?.[key];
-    if (typeof saved === "string") {
-      return { name: saved, maxMark: defaultVal, isHidden: false };
-    } else if (saved && typeof saved === "object") {
-      return {
-        name: saved.name || defaultName,
-        maxMark: saved.maxMark || defaultVal,
-        isHidden: !!saved.isHidden
-      };
+  loadDataRef.current = loadData;
+
+  function showCachedGrid(cached: CachedGrid) {
+    setPresentation(cached.presentation);
+    setExaminers(cached.examiners);
+    setAcademicYearId(cached.presentation.academic_year_id);
+    setResolvedPresentationId(cached.presentation.id);
+    setGroups(applyPendingEdits(cached.groups, user ? getPendingEdits(user.id) : []));
+    setSiblingPresentation(cached.siblingPresentation);
+    setSiblingGroups(cached.siblingGroups);
+    versionsRef.current = {};
+    setLastLoadedAsTeacher(ownGroupsOnly);
+    setError(null);
+    toast(`Offline: showing marks saved at ${new Date(cached.cachedAt).toLocaleString()}`);
+  }
+
+  function queueOfflineEdit(
+    studentId: string,
+    field: string,
+    value: number,
+    expectedUpdatedAt?: string,
+  ) {
+    if (!user || !presentation) return;
+
+    const group = groupsRef.current.find((g) => g.students.some((s) => s.id === studentId));
+    const student = group?.students.find((s) => s.id === studentId);
+    queueMarkEdit(user.id, {
+      studentId,
+      presentationId: presentation.id,
+      field,
+      value,
+      expectedUpdatedAt,
+      studentName: student?.student_name || "",
+      groupNumber: group?.group_number ?? 0,
+      fieldLabel: (rubric && findCriterion(rubric, field)?.name) || field,
+    });
+  }
+
+  // Live updates and presence for everyone with this presentation open
+  useEffect(() => {
+    if (!resolvedPresentationId || !user) return;
+
+    let refreshTimer: NodeJS.Timeout | undefined;
+    const scheduleRefresh = () => {
+      clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(() => loadDataRef.current({ silent: true }), 1000);
+    };
+
+    const channel = joinPresentationChannel(
+      resolvedPresentationId,
+      { id: user.id, name: user.full_name || user.username },
+      {
+        onEvaluationChange: fetchRemoteEvaluation,
+        onStudentChange: (student) => {
+          const isShown = groupsRef.current.some(
+            (g) =>
+              g.id === student.group_id || g.students.some((s) => s.id === student.id),
+          );
+          if (isShown) scheduleRefresh();
+        },
+        onGroupChange: scheduleRefresh,
+        onPresenceChange: setEditors,
+      },
+    );
+    channelRef.current = channel;
+
+    return () => {
+      clearTimeout(refreshTimer);
+      channel.leave();
+      channelRef.current = null;
+    };
+  }, [resolvedPresentationId, user?.id]);
+
+  function findEvaluation(studentId: string): Partial<Evaluation> | undefined {
+    for (const group of groupsRef.current) {
+      const student = group.students.find((s) => s.id === studentId);
+      if (student) return student.evaluation;
     }
-    return { name: defaultName, maxMark: defaultVal, isHidden: false };
-  };
+    return undefined;
+  }
+
+  function replaceEvaluation(
+    studentId: string,
+    update: (current: Partial<Evaluation>) => Partial<Evaluation>,
+  ) {
+    setGroups((currentGroups) =>
+      currentGroups.map((group) => ({
+        ...group,
+        students: group.students.map((student) =>
+          student.id === studentId
+            ? {
+              ...student,
+              evaluation: update(student.evaluation || {}) as Evaluation,
+            }
+            : student,
+        ),
+      })),
+    );
+  }
 
-  const getVisibleBaseColumns = () => {
-    const presNum = parseInt(presentation?.name.match(/\d+/)?.[0] || "0");
-    const relevantKeys = Object.keys(DEFAULT_COLUMNS[presNum] || {});
+  /**
+   * Merge an evaluation changed elsewhere into the grid. Fields with an
+   * unsaved local edit keep the local value and the old version, so that
+   * save is checked against the newer row instead of silently overwriting it.
+   */
+  // Broadcasts only say which row changed; our own saves are already shown
+  async function fetchRemoteEvaluation(change: EvaluationChange) {
+    const isShown = groupsRef.current.some((g) =>
+      g.students.some((s) => s.id === change.student_id),
+    );
+    if (!isShown || versionsRef.current[change.student_id] === change.updated_at) return;
 
-    return relevantKeys.map(k => ({ key: k, ...getColumnConfig(k) })).filter(c => !c.isHidden);
-  };
+    try {
+      const row = await getEvaluation(change.student_id);
+      if (row) applyRemoteEvaluation(row);
+    } catch (error) {
+      console.error("Error loading changed evaluation:", error);
+    }
+  }
 
-  const visibleBaseCols = getVisibleBaseColumns();
-  const totalMaxPossible = visibleBaseCols.reduce((sum, col) => sum + col.maxMark, 0) +
-    (presentation?.extra_columns?.reduce((sum, col) => sum + col.maxMark, 0) || 0);
+  function applyRemoteEvaluation(row: Evaluation) {
+    const isShown = groupsRef.current.some((g) =>
+      g.students.some((s) => s.id === row.student_id),
+    );
+    if (!isShown) return;
+
+    const prefix = `${row.student_id}-`;
+    const pendingFields = Object.keys(debounceTimers.current)
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => key.slice(prefix.length));
+
+    if (pendingFields.length === 0) {
+      versionsRef.current[row.student_id] = row.updated_at;
+    }
+
+    replaceEvaluation(row.student_id, (local) => {
+      const merged: any = { ...local, ...row, extra_marks: { ...(row.extra_marks || {}) } };
+      for (const field of pendingFields) {
+        if (field.startsWith("extra_")) merged.extra_marks[field] = local.extra_marks?.[field];
+        else merged[field] = (local as any)[field];
+      }
+      if (pendingFields.length > 0) merged.updated_at = local.updated_at;
+      return merged;
+    });
+  }
+
+  function saveMark(studentId: string, field: string, value: number, fieldKey: string) {
+    const previous = saveQueues.current[studentId] || Promise.resolve();
+
+    saveQueues.current[studentId] = previous.then(async () => {
+      setSavingStates((prev) => ({ ...prev, [fieldKey]: true }));
+      const expectedUpdatedAt =
+        versionsRef.current[studentId] ?? findEvaluation(studentId)?.updated_at;
+      try {
+        const saved = await updateEvaluation(studentId, field, value, expectedUpdatedAt);
+        versionsRef.current[studentId] = saved.updated_at;
+        replaceEvaluation(studentId, (local) => ({ ...local, updated_at: saved.updated_at }));
+      } catch (error) {
+        if (isOfflineError(error)) {
+          queueOfflineEdit(studentId, field, value, expectedUpdatedAt);
+          return;
+        }
+        if (error instanceof ApiRequestError && error.status === 409 && error.data?.evaluation) {
+          // Someone else saved first: show their values instead of ours
+          const current: Evaluation = error.data.evaluation;
+          versionsRef.current[studentId] = current.updated_at;
+          replaceEvaluation(studentId, (local) => ({ ...local, ...current }));
+          toast.error(error.message);
+          return;
+        }
+        console.error("Error updating evaluation:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to save mark");
+        loadData();
+      } finally {
+        setSavingStates((prev) => ({ ...prev, [fieldKey]: false }));
+      }
+    });
+  }
+
+  const rubric = presentation ? getPresentationRubric(presentation) : null;
+  const rubricSet = getRubricSet(
+    [presentation, siblingPresentation].filter((p): p is Presentation => !!p),
+  );
+  const baseCriteria = rubric?.criteria.filter((c) => !c.isExtra) || [];
+  const extraCriteria = rubric?.criteria.filter((c) => c.isExtra) || [];
 
   const handleMarkChange = async (
     studentId: string,
@@ -239,19 +479,11 @@ export default function PresentationView({
   ) => {
     const numValue = value === "" ? 0 : parseFloat(value);
 
-    // Validation
+    // Validation against the presentation rubric
     const isExtra = String(field).startsWith("extra_");
-    let maxMark = 10;
-
-    if (isExtra) {
-      const extraCol = presentation?.extra_columns?.find(c => c.id === field);
-      if (extraCol) maxMark = extraCol.maxMark;
-    } else {
-      maxMark = getColumnConfig(field as string).maxMark;
-    }
 
-    if (numValue < 0 || numValue > maxMark) {
-      toast.error(`Mark must be between 0 and ${maxMark}`);
+    if (!validateMark(field as string, numValue, rubric || undefined)) {
+      toast.error(`Mark must be between 0 and ${getMaxValue(field as string, rubric || undefined)}`);
       return;
     }
 
@@ -283,17 +515,9 @@ export default function PresentationView({
       clearTimeout(debounceTimers.current[fieldKey]);
     }
 
-    debounceTimers.current[fieldKey] = setTimeout(async () => {
-      setSavingStates((prev) => ({ ...prev, [fieldKey]: true }));
-      try {
-        await updateEvaluation(studentId, field as any, numValue, isTeacher ? user?.id : undefined);
-      } catch (error) {
-        console.error("Error updating evaluation:", error);
-        toast.error(error instanceof Error ? error.message : "Failed to save mark");
-        loadData();
-      } finally {
-        setSavingStates((prev) => ({ ...prev, [fieldKey]: false }));
-      }
+    debounceTimers.current[fieldKey] = setTimeout(() => {
+      delete debounceTimers.current[fieldKey];
+      saveMark(studentId, field as string, numValue, fieldKey);
     }, 500);
   };
 
@@ -326,7 +550,7 @@ export default function PresentationView({
     // Persist for each student
     try {
       await Promise.all(
-        group.students.map((s) => updateEvaluation(s.id, field as any, value, isTeacher ? user?.id : undefined)),
+        group.students.map((s) => updateEvaluation(s.id, field as any, value)),
       );
     } catch (error) {
       console.error("Error updating group field:", error);
@@ -335,37 +559,68 @@ export default function PresentationView({
     }
   };
 
+  async function handleLockChange(status: PresentationLockStatus) {
+    if (!presentation) return;
+
+    let reason: string | undefined;
+    if (status === "open") {
+      reason = window.prompt(`Reason for unlocking ${presentation.name}:`)?.trim();
+      if (!reason) {
+        toast.error("A reason is required to unlock");
+        return;
+      }
+    } else {
+      const message =
+        status === "submitted"
+          ? `Submit ${presentation.name}? Guides will no longer be able to change marks.`
+          : `Lock ${presentation.name}? Nobody will be able to change marks until it is unlocked.`;
+      if (!confirm(message)) return;
+    }
+
+    try {
+      const updated = await setPresentationLockStatus(presentation.id, status, reason);
+      setPresentation({ ...presentation, ...updated });
+      toast.success(`${presentation.name} is now ${LOCK_STATUS_LABELS[status].toLowerCase()}`);
+    } catch (error) {
+      console.error("Error changing lock status:", error);
+      toast.error((error as any)?.message || "Failed to change lock status");
+    }
+  }
+
+  async function handlePublishChange(published: boolean) {
+    if (!presentation) return;
+
+    const republish = published && !!presentation.results_published_at;
+    const message = !published
+      ? `Unpublish ${presentation.name} results? Students will no longer see their marks.`
+      : republish
+        ? `Republish ${presentation.name} results? Students and official exports will show the current marks.`
+        : `Publish ${presentation.name} results? The current marks become visible to students and in official exports.`;
+    if (!confirm(message)) return;
+
+    try {
+      const updated = await setPresentationResultsPublished(presentation.id, published);
+      setPresentation({ ...presentation, ...updated });
+      toast.success(
+        !published
+          ? "Results unpublished"
+          : republish
+            ? "Results republished"
+            : "Results published to students",
+      );
+    } catch (error) {
+      console.error("Error publishing results:", error);
+      toast.error((error as any)?.message || "Failed to change results publishing");
+    }
+  }
+
   async function handleExportExcel() {
     if (!presentation) return;
     try {
       toast.loading("Generating Excel file...");
 
-      // Route to correct export function based on presentation name
-      if (presentation.name.endsWith("1")) {
-        await exportPresentation1Report(
-          presentation.academic_year_id,
-          user?.id,
-          user?.role,
-        );
-      } else if (presentation.name.endsWith("2")) {
-        await exportPresentation2Report(
-          presentation.academic_year_id,
-          user?.id,
-          user?.role,
-        );
-      } else if (presentation.name.endsWith("3")) {
-        await exportPresentation3Report(
-          presentation.academic_year_id,
-          user?.id,
-          user?.role,
-        );
-      } else if (presentation.name.endsWith("4")) {
-        await exportPresentation4Report(
-          presentation.academic_year_id,
-          user?.id,
-          user?.role,
-        );
-      }
+      // The server picks the mark sheet for this presentation number
+      await downloadPresentationReport(presentation.id, "marks");
 
       toast.dismiss();
       toast.success("Excel file downloaded successfully");
@@ -380,7 +635,7 @@ export default function PresentationView({
     if (!presentation) return;
     try {
       toast.loading("Generating Semester 1 Report...");
-      await exportSemester1Report(presentation.academic_year_id, user?.id, user?.role);
+      await downloadAnnualReport(presentation.academic_year_id, "semester1");
       toast.dismiss();
       toast.success("Semester 1 Report downloaded successfully");
       setShowSemesterDropdown(false);
@@ -395,7 +650,7 @@ export default function PresentationView({
     if (!presentation) return;
     try {
       toast.loading("Generating Semester 2 Report...");
-      await exportSemester2Report(presentation.academic_year_id, user?.id, user?.role);
+      await downloadAnnualReport(presentation.academic_year_id, "semester2");
       toast.dismiss();
       toast.success("Semester 2 Report downloaded successfully");
       setShowSemesterDropdown(false);
@@ -406,15 +661,29 @@ export default function PresentationView({
     }
   }
 
+  async function handleExportPdf(scope: "presentation" | "semester1" | "semester2") {
+    if (!presentation) return;
+    try {
+      toast.loading("Generating PDF TW sheet...");
+      await downloadPdfReport(
+        scope,
+        scope === "presentation" ? presentation.id : presentation.academic_year_id,
+      );
+      toast.dismiss();
+      toast.success("PDF downloaded successfully");
+      setShowSemesterDropdown(false);
+    } catch (error) {
+      toast.dismiss();
+      console.error("Error exporting PDF:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export PDF");
+    }
+  }
+
   async function handleExportClassification() {
     if (!presentation) return;
     try {
       toast.loading("Generating Project Classification Report...");
-      await exportProjectClassificationReport(
-        presentation.academic_year_id,
-        user?.id,
-        user?.role,
-      );
+      await downloadAnnualReport(presentation.academic_year_id, "classification");
       toast.dismiss();
       toast.success("Classification report downloaded successfully");
     } catch (error) {
@@ -457,6 +726,9 @@ export default function PresentationView({
 
   if (!presentation) return null;
 
+  const isExaminer = !!user && examiners.some((e) => e.user_id === user.id);
+  const otherEditors = editors.filter((e) => e.userId !== user?.id);
+
   // Logic for View Mode:
   // If name contains '1' or '2', show Sem 1 fields (P1 + P2).
   // If name contains '3' or '4', show Sem 2 fields (P3 + P4).
@@ -466,16 +738,15 @@ export default function PresentationView({
   // Ability to edit relies on which presentation is currently Loaded (presentationId).
   // If Loaded is P1, we can Edit P1 fields. P2 fields are read-only views of sibling data.
   const isPres1 = presentation.name.endsWith("1");
+  // Marks changed since publishing stay in draft until republished
+  const resultsStatus = getResultsStatus(
+    presentation,
+    groups.flatMap((g) => g.students.map((s) => s.evaluation)),
+  );
   const isPres2 = presentation.name.endsWith("2");
   const isPres3 = presentation.name.endsWith("3");
   const isPres4 = presentation.name.endsWith("4");
 
-  const getColumnName = (key: string, defaultName: string) => {
-    return presentation.custom_columns?.[key] || defaultName;
-  };
-
-  const extraColumnsMaxSum = presentation.extra_columns?.reduce((sum, col) => sum + col.maxMark, 0) || 0;
-
   return (
     <div className="min-h-screen bg-gray-50 prevent-scroll">
       {/* Header */}
@@ -514,14 +785,32 @@ export default function PresentationView({
                 <ArrowLeft className="w-5 h-5" />
               </button>
               <div className="min-w-0">
-                <h1 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900 truncate">
-                  {presentation.name}
-                </h1>
+                <div className="flex items-center gap-2">
+                  <h1 className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900 truncate">
+                    {presentation.name}
+                  </h1>
+                  <LockBadge presentation={presentation} />
+                  {presentation.results_published_at && (
+                    <span
+                      className={`inline-flex items-center gap-1 text-xs font-semibold px-2 py-1 rounded-full border whitespace-nowrap ${resultsStatus === "draft" ? "bg-amber-50 text-amber-700 border-amber-200" : "bg-indigo-50 text-indigo-700 border-indigo-200"}`}
+                      title={`Published ${new Date(presentation.results_published_at).toLocaleString()}`}
+                    >
+                      <Megaphone className="w-3 h-3" />
+                      {RESULTS_STATUS_LABELS[resultsStatus]}
+                    </span>
+                  )}
+                </div>
                 <p className="text-xs sm:text-sm text-gray-600">{presentation.semester}</p>
+                {otherEditors.length > 0 && (
+                  <p className="text-xs text-emerald-700 flex items-center gap-1 mt-1">
+                    <span className="w-2 h-2 rounded-full bg-emerald-500"></span>
+                    Also here: {otherEditors.map((e) => e.name).join(", ")}
+                  </p>
+                )}
               </div>
             </div>
             <div className="flex flex-col sm:flex-row items-center gap-2 sm:gap-3 w-full sm:w-auto">
-              {!isReadOnly && isPres1 && (
+              {!isReadOnly && isPres1 && can("manage_groups", "any") && (
                 <button
                   onClick={() => setShowGroupManagement(true)}
                   className="btn btn-secondary flex items-center gap-2 w-full sm:w-auto justify-center"
@@ -554,11 +843,25 @@ export default function PresentationView({
                     </button>
                     <button
                       onClick={handleExportSemester2}
-                      className="w-full text-left px-4 py-3 hover:bg-blue-50 flex items-center gap-2"
+                      className="w-full text-left px-4 py-3 hover:bg-blue-50 border-b border-gray-100 flex items-center gap-2"
                     >
                       <Download className="w-4 h-4" />
                       Download Semester 2 Report
                     </button>
+                    <button
+                      onClick={() => handleExportPdf("semester1")}
+                      className="w-full text-left px-4 py-3 hover:bg-blue-50 border-b border-gray-100 flex items-center gap-2"
+                    >
+                      <FileText className="w-4 h-4" />
+                      Semester 1 TW Sheet (PDF)
+                    </button>
+                    <button
+                      onClick={() => handleExportPdf("semester2")}
+                      className="w-full text-left px-4 py-3 hover:bg-blue-50 flex items-center gap-2"
+                    >
+                      <FileText className="w-4 h-4" />
+                      Semester 2 TW Sheet (PDF)
+                    </button>
                   </div>
                 )}
               </div>
@@ -572,9 +875,54 @@ export default function PresentationView({
                   <span className="sm:hidden">Classification</span>
                 </button>
               )}
-              {isReadOnly && isAdmin && (
+              {isEditModeReadOnly && !ownGroupsOnly && (
                 <span className="text-sm text-yellow-700 bg-yellow-50 px-3 py-2 rounded">Read-only mode</span>
               )}
+              {!can("lock") && can("lock", "any") && getLockStatus(presentation) === "open" && (
+                <button
+                  onClick={() => handleLockChange("submitted")}
+                  className="btn border border-amber-300 bg-amber-50 hover:bg-amber-100 text-amber-800 flex items-center gap-2 justify-center w-full sm:w-auto"
+                >
+                  <Send className="w-4 h-5 flex-shrink-0" />
+                  Submit
+                </button>
+              )}
+              {can("lock") && getLockStatus(presentation) !== "locked" && (
+                <button
+                  onClick={() => handleLockChange("locked")}
+                  className="btn border border-red-300 bg-red-50 hover:bg-red-100 text-red-700 flex items-center gap-2 justify-center w-full sm:w-auto"
+                >
+                  <Lock className="w-4 h-5 flex-shrink-0" />
+                  Lock
+                </button>
+              )}
+              {can("lock") && getLockStatus(presentation) !== "open" && (
+                <button
+                  onClick={() => handleLockChange("open")}
+                  className="btn border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 flex items-center gap-2 justify-center w-full sm:w-auto"
+                >
+                  <Unlock className="w-4 h-5 flex-shrink-0" />
+                  Unlock
+                </button>
+              )}
+              {can("lock") && resultsStatus !== "published" && (
+                <button
+                  onClick={() => handlePublishChange(true)}
+                  className="btn border border-indigo-300 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 flex items-center gap-2 justify-center w-full sm:w-auto"
+                >
+                  <Megaphone className="w-4 h-5 flex-shrink-0" />
+                  {resultsStatus === "draft" ? "Republish" : "Publish Results"}
+                </button>
+              )}
+              {can("lock") && presentation.results_published_at && (
+                <button
+                  onClick={() => handlePublishChange(false)}
+                  className="btn border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 flex items-center gap-2 justify-center w-full sm:w-auto"
+                >
+                  <EyeOff className="w-4 h-5 flex-shrink-0" />
+                  Unpublish
+                </button>
+              )}
               <button
                 onClick={handleExportExcel}
                 disabled={groups.length === 0}
@@ -584,7 +932,55 @@ export default function PresentationView({
                 <span className="hidden sm:inline">Export Excel</span>
                 <span className="sm:hidden">Export</span>
               </button>
-              {isAdmin && (
+              <button
+                onClick={() => handleExportPdf("presentation")}
+                disabled={groups.length === 0}
+                className="btn border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 flex items-center gap-2 justify-center w-full sm:w-auto"
+              >
+                <FileText className="w-4 h-5 flex-shrink-0" />
+                <span className="hidden sm:inline">Export PDF</span>
+                <span className="sm:hidden">PDF</span>
+              </button>
+              {!isReadOnly && (
+                <button
+                  onClick={() => setShowMarksImport(true)}
+                  disabled={groups.length === 0}
+                  className="btn border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 flex items-center gap-2 justify-center w-full sm:w-auto"
+                >
+                  <Upload className="w-4 h-5 flex-shrink-0" />
+                  <span className="hidden sm:inline">Import Marks</span>
+                  <span className="sm:hidden">Import</span>
+                </button>
+              )}
+              {isExaminer && (
+                <button
+                  onClick={() => setShowExaminerSheet(true)}
+                  className="btn border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 flex items-center gap-2 justify-center w-full sm:w-auto"
+                >
+                  <ClipboardList className="w-4 h-5 flex-shrink-0" />
+                  <span className="hidden sm:inline">My Examiner Sheet</span>
+                  <span className="sm:hidden">Examiner</span>
+                </button>
+              )}
+              {can("view") && examiners.length > 0 && (
+                <button
+                  onClick={() => setShowReconciliation(true)}
+                  className="btn border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 flex items-center gap-2 justify-center w-full sm:w-auto"
+                >
+                  <Scale className="w-4 h-5 flex-shrink-0" />
+                  Reconcile
+                </button>
+              )}
+              {can("manage_groups") && getLockStatus(presentation) !== "locked" && (
+                <button
+                  onClick={() => setShowExaminers(true)}
+                  className="btn border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 flex items-center gap-2 justify-center w-full sm:w-auto"
+                >
+                  <UserCheck className="w-4 h-5 flex-shrink-0" />
+                  Examiners
+                </button>
+              )}
+              {can("manage_groups") && getLockStatus(presentation) !== "locked" && (
                 <button
                   onClick={() => setIsColumnModalOpen(true)}
                   className="btn border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 flex items-center gap-2 justify-center w-full sm:w-auto"
@@ -599,12 +995,14 @@ export default function PresentationView({
         </div>
       </header>
 
+      <OfflineSyncBar onSynced={() => loadData({ silent: true })} />
+
       {/* Main Content */}
       <main className="p-3 sm:p-6 lg:p-8">
         {/* Runtime Authorization Guard: Filter out any unauthorized groups before rendering */}
         {(() => {
           let displayGroups = groups;
-          if (isTeacher && user) {
+          if (ownGroupsOnly && user) {
             const unauthorizedInDisplay = groups.filter(
               (g) => g.guide_user_id !== user.id
             );
@@ -634,7 +1032,7 @@ export default function PresentationView({
             <p className="text-gray-600 mb-6">
               Teacher hasn't created any group
             </p>
-            {!isReadOnly && (
+            {!isReadOnly && can("manage_groups", "any") && (
               <button
                 onClick={() => setShowGroupManagement(true)}
                 className="btn btn-primary"
@@ -652,18 +1050,35 @@ export default function PresentationView({
                   <th className="w-48">Student Name</th>
                   <th className="w-48">Guide Name</th>
 
-                  {visibleBaseCols.map((col) => (
-                    <th key={col.key} className="w-32">
-                      {col.name} ({col.maxMark})
+                  {baseCriteria.map((col) => (
+                    <th
+                      key={col.key}
+                      className={`w-32 ${col.countsTowardTotal ? "" : "text-gray-400"}`}
+                      title={col.countsTowardTotal ? undefined : "Not counted toward the total"}
+                    >
+                      {formatCriterionHeader(col)}
+                      {col.weight !== 1 && ` ×${col.weight}`}
                     </th>
                   ))}
-                  {presentation.extra_columns?.map((col) => (
-                    <th key={col.id} className="w-24 bg-purple-50 text-purple-900">
-                      {col.name} ({col.maxMark})
+                  {extraCriteria.map((col) => (
+                    <th
+                      key={col.key}
+                      className={`w-24 bg-purple-50 ${col.countsTowardTotal ? "text-purple-900" : "text-purple-400"}`}
+                      title={col.countsTowardTotal ? undefined : "Not counted toward the total"}
+                    >
+                      {formatCriterionHeader(col)}
+                      {col.weight !== 1 && ` ×${col.weight}`}
                     </th>
                   ))}
-                  <th className="w-28 bg-blue-50 text-blue-900 font-bold border-l-2 border-blue-200">
-                    {isPres1 ? "Internal I" : isPres2 ? "Internal II" : isPres3 ? "Internal III" : "Internal IV"} Total ({totalMaxPossible})
+                  <th
+                    className="w-28 bg-blue-50 text-blue-900 font-bold border-l-2 border-blue-200"
+                    title={
+                      examiners.length > 0 && rubric
+                        ? `Combined with external examiners: ${COMBINE_RULE_LABELS[rubric.combineRule]}`
+                        : undefined
+                    }
+                  >
+                    {rubric?.totalLabel} Total ({rubric?.totalMax})
                   </th>
                 </tr>
               </thead>
@@ -680,23 +1095,25 @@ export default function PresentationView({
                         const evaluation =
                           student.evaluation || ({} as Partial<Evaluation>);
                         // Calculate marks for CURRENT record
-                        const calculated = calculateAllMarks(evaluation);
-                        const extraMarksSum = presentation.extra_columns?.reduce((sum, col) => {
-                          return sum + (Number(evaluation.extra_marks?.[col.id]) || 0);
-                        }, 0) || 0;
+                        const calculated = calculateAllMarks(evaluation, rubricSet);
 
                         // Match Sibling Student
                         let sStudent = null;
                         if (sGroup) {
-                          sStudent = sGroup.students.find(
-                            (s) => s.student_name === student.student_name,
-                          );
+                          sStudent =
+                            (student.student_record_id &&
+                              sGroup.students.find(
+                                (s) => s.student_record_id === student.student_record_id,
+                              )) ||
+                            sGroup.students.find(
+                              (s) => s.student_name === student.student_name,
+                            );
                           if (!sStudent && sGroup.students[studentIndex])
                             sStudent = sGroup.students[studentIndex];
                         }
                         const sEvaluation =
                           sStudent?.evaluation || ({} as Partial<Evaluation>);
-                        const sCalculated = calculateAllMarks(sEvaluation);
+                        const sCalculated = calculateAllMarks(sEvaluation, rubricSet);
 
                         const getVal = (
                           field: keyof Evaluation,
@@ -710,22 +1127,49 @@ export default function PresentationView({
                           <tr key={student.id}>
                             {studentIndex === 0 && (
                               <td
-                                rowSpan={4}
+                                rowSpan={group.students.length}
                                 className="text-center font-semibold bg-gray-50"
                               >
                                 {group.group_number}
+                                {otherEditors
+                                  .filter((e) => e.groupId === group.id)
+                                  .map((e) => (
+                                    <div
+                                      key={e.userId}
+                                      className="mt-1 text-[10px] font-medium text-emerald-700 bg-emerald-50 rounded px-1 truncate"
+                                      title={`${e.name} is editing this group`}
+                                    >
+                                      {e.name}
+                                    </div>
+                                  ))}
                               </td>
                             )}
                             <td className="font-medium">
-                              {student.student_name}
+                              <div className="flex items-center justify-between gap-2">
+                                <span>{student.student_name}</span>
+                                {can("view") && (
+                                  <button
+                                    onClick={() =>
+                                      setHistoryStudent({
+                                        id: student.id,
+                                        name: student.student_name,
+                                      })
+                                    }
+                                    className="text-gray-400 hover:text-indigo-600 transition-colors"
+                                    title="View change history"
+                                  >
+                                    <History className="w-4 h-4" />
+                                  </button>
+                                )}
+                              </div>
                             </td>
                             {studentIndex === 0 && (
-                              <td rowSpan={4} className="bg-gray-50">
+                              <td rowSpan={group.students.length} className="bg-gray-50">
                                 {group.guide_name}
                               </td>
                             )}
 
-                            {visibleBaseCols.map((col) => (
+                            {baseCriteria.map((col) => (
                               <td key={col.key}>
                                 <input
                                   type="number"
@@ -738,33 +1182,38 @@ export default function PresentationView({
                                       e.target.value,
                                     )
                                   }
+                                  onFocus={() => channelRef.current?.setEditingGroup(group.id)}
+                                  onBlur={() => channelRef.current?.setEditingGroup(null)}
                                   className="marks-input text-center"
                                 />
                               </td>
                             ))}
-                            {presentation.extra_columns?.map((col) => (
-                              <td key={col.id} className="bg-purple-50/10">
+                            {extraCriteria.map((col) => (
+                              <td key={col.key} className="bg-purple-50/10">
                                 <input
                                   type="number"
                                   disabled={isReadOnly}
-                                  value={evaluation.extra_marks?.[col.id] || 0}
+                                  value={evaluation.extra_marks?.[col.key] || 0}
                                   onChange={(e) =>
                                     handleMarkChange(
                                       student.id,
-                                      col.id as any,
+                                      col.key as any,
                                       e.target.value,
                                     )
                                   }
+                                  onFocus={() => channelRef.current?.setEditingGroup(group.id)}
+                                  onBlur={() => channelRef.current?.setEditingGroup(null)}
                                   className="marks-input border-purple-200 text-center"
                                 />
                               </td>
                             ))}
                             <td className="calculated-field font-bold bg-blue-50 text-blue-900 border-l-2 border-blue-100">
-                              {(() => {
-                                const baseSum = visibleBaseCols.reduce((sum, col) => sum + (Number((evaluation as any)[col.key]) || 0), 0);
-                                const extraSum = presentation.extra_columns?.reduce((sum, col) => sum + (Number(evaluation.extra_marks?.[col.id]) || 0), 0) || 0;
-                                return (baseSum + extraSum).toFixed(1);
-                              })()}
+                              {(rubric?.totalKey
+                                ? calculated[rubric.totalKey]
+                                : rubric
+                                  ? calculateRubricTotal(evaluation, rubric)
+                                  : 0
+                              ).toFixed(1)}
                             </td>
 
 
@@ -811,6 +1260,51 @@ export default function PresentationView({
           onSave={loadData}
         />
       )}
+
+      {/* Marks Import Modal */}
+      {showMarksImport && presentation && (
+        <MarksImportModal
+          presentation={presentation}
+          groups={groups}
+          onClose={() => setShowMarksImport(false)}
+          onApplied={loadData}
+        />
+      )}
+
+      {/* Examiner Modals */}
+      {showExaminers && (
+        <ExaminersModal
+          presentation={presentation}
+          onClose={() => setShowExaminers(false)}
+          onSaved={() => loadData()}
+        />
+      )}
+      {showExaminerSheet && (
+        <ExaminerSheetModal
+          presentation={presentation}
+          onClose={() => setShowExaminerSheet(false)}
+          onSaved={loadData}
+        />
+      )}
+      {showReconciliation && (
+        <ReconciliationModal
+          presentation={presentation}
+          examiners={examiners}
+          onClose={() => setShowReconciliation(false)}
+        />
+      )}
+
+      {/* Student History Modal (department-wide viewers only) */}
+      {historyStudent && (
+        <StudentHistoryModal
+          studentId={historyStudent.id}
+          studentName={historyStudent.name}
+          fieldLabels={Object.fromEntries(
+            (rubric?.criteria || []).map((c) => [c.key, c.name]),
+          )}
+          onClose={() => setHistoryStudent(null)}
+        />
+      )}
     </div>
   );
 }
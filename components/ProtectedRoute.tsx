@@ -1,18 +1,34 @@
 'use client';
 
 import { useAuth } from '@/providers/AuthProvider';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { useEffect } from 'react';
+import { isStudent } from '@/lib/permissions';
+
+const CHANGE_PASSWORD_PATH = '/change-password';
+const STUDENT_RESULTS_PATH = '/my-results';
 
 export default function ProtectedRoute({ children }: { children: React.ReactNode }) {
-    const { isAuthenticated, loading } = useAuth();
+    const { user, isAuthenticated, loading, mustChangePassword } = useAuth();
     const router = useRouter();
+    const pathname = usePathname();
+    // A temporary password must be replaced before anything else
+    const redirectToPasswordChange = mustChangePassword && pathname !== CHANGE_PASSWORD_PATH;
+    // Student logins only have their results page; staff have no use for it
+    const student = isStudent(user);
+    const redirectTo = student
+        ? (pathname !== STUDENT_RESULTS_PATH && pathname !== CHANGE_PASSWORD_PATH ? STUDENT_RESULTS_PATH : null)
+        : (pathname === STUDENT_RESULTS_PATH ? '/' : null);
 
     useEffect(() => {
         if (!loading && !isAuthenticated) {
             router.push('/login');
+        } else if (!loading && redirectToPasswordChange) {
+            router.replace(CHANGE_PASSWORD_PATH);
+        } else if (!loading && isAuthenticated && redirectTo) {
+            router.replace(redirectTo);
         }
-    }, [isAuthenticated, loading, router]);
+    }, [isAuthenticated, loading, redirectToPasswordChange, redirectTo, router]);
 
     if (loading) {
         return (
@@ -25,7 +41,7 @@ export default function ProtectedRoute({ children }: { children: React.ReactNode
         );
     }
 
-    if (!isAuthenticated) {
+    if (!isAuthenticated || redirectToPasswordChange || redirectTo) {
         return null;
     }
 
@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Evaluation,
+  GroupWithStudents,
+  Presentation,
+  PresentationExaminer,
+} from "@/lib/types";
+import { getPresentationGroups } from "@/lib/api";
+import { COMBINE_RULE_LABELS } from "@/lib/constants";
+import {
+  getPresentationRubric,
+  getCriterionMark,
+  getCombinedMark,
+  getExaminerMarks,
+  hasExaminerDisagreement,
+  calculateRubricTotal,
+  formatCriterionHeader,
+} from "@/lib/rubric";
+import toast from "react-hot-toast";
+import { X, AlertTriangle } from "lucide-react";
+
+interface ReconciliationModalProps {
+  presentation: Presentation;
+  examiners: PresentationExaminer[];
+  onClose: () => void;
+}
+
+/**
+ * Each examiner's marks side by side with the combined mark, flagging
+ * criteria where the examiners disagree
+ */
+export default function ReconciliationModal({
+  presentation,
+  examiners,
+  onClose,
+}: ReconciliationModalProps) {
+  const [groups, setGroups] = useState<GroupWithStudents[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [disagreementsOnly, setDisagreementsOnly] = useState(false);
+
+  const rubric = getPresentationRubric(presentation);
+
+  useEffect(() => {
+    getPresentationGroups(presentation.id)
+      .then(setGroups)
+      .catch((error) => {
+        console.error("Error loading reconciliation data:", error);
+        toast.error("Failed to load marks");
+      })
+      .finally(() => setLoading(false));
+  }, [presentation.id]);
+
+  const examinerLabel = (index: number) => `E${index + 1}`;
+
+  function isDisputed(evaluation: Partial<Evaluation>): boolean {
+    return rubric.criteria.some((c) =>
+      hasExaminerDisagreement(getExaminerMarks(evaluation, c), c),
+    );
+  }
+
+  const rows = groups.flatMap((group) =>
+    group.students.map((student) => ({
+      group,
+      student,
+      evaluation: student.evaluation || ({} as Partial<Evaluation>),
+    })),
+  );
+  const disputedCount = rows.filter((row) => isDisputed(row.evaluation)).length;
+  const visibleRows = disagreementsOnly
+    ? rows.filter((row) => isDisputed(row.evaluation))
+    : rows;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-7xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between bg-gray-50">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Mark Reconciliation</h3>
+            <p className="text-sm text-gray-500">
+              {presentation.name}: combined by {COMBINE_RULE_LABELS[rubric.combineRule].toLowerCase()}
+              {rubric.combineRule === "guide_weighted" &&
+                ` (guide ${Math.round(rubric.guideWeight * 100)}%)`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-auto">
+          <div className="flex flex-wrap items-center justify-between gap-4 text-sm">
+            <div className="flex flex-wrap gap-3 text-gray-600">
+              <span>
+                <span className="font-semibold">G</span> Guide
+              </span>
+              {examiners.map((examiner, index) => (
+                <span key={examiner.id}>
+                  <span className="font-semibold">{examinerLabel(index)}</span>{" "}
+                  {examiner.user?.full_name || examiner.user?.username || "Examiner"}
+                </span>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={disagreementsOnly}
+                onChange={(e) => setDisagreementsOnly(e.target.checked)}
+              />
+              Only students with disagreements ({disputedCount})
+            </label>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : visibleRows.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-8">
+              {disagreementsOnly ? "No disagreements between examiners." : "No students yet."}
+            </p>
+          ) : (
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-gray-600">
+                    <th className="px-3 py-2">Group</th>
+                    <th className="px-3 py-2">Student</th>
+                    {rubric.criteria.map((c) => (
+                      <th key={c.key} className="px-3 py-2 whitespace-nowrap">
+                        {formatCriterionHeader(c)}
+                      </th>
+                    ))}
+                    <th className="px-3 py-2 bg-blue-50 text-blue-900">
+                      {rubric.totalLabel} ({rubric.totalMax})
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map(({ group, student, evaluation }) => (
+                    <tr key={student.id} className="border-t border-gray-100 align-top">
+                      <td className="px-3 py-2 font-medium">{group.group_number}</td>
+                      <td className="px-3 py-2">
+                        <div>{student.student_name}</div>
+                        <div className="text-xs text-gray-500">{group.guide_name}</div>
+                      </td>
+                      {rubric.criteria.map((c) => {
+                        const disputed = hasExaminerDisagreement(
+                          getExaminerMarks(evaluation, c),
+                          c,
+                        );
+                        return (
+                          <td
+                            key={c.key}
+                            className={`px-3 py-2 ${disputed ? "bg-red-50" : ""}`}
+                          >
+                            <div className="space-y-0.5 text-xs text-gray-600">
+                              <div>
+                                <span className="font-semibold">G</span>{" "}
+                                {getCriterionMark(evaluation, c)}
+                              </div>
+                              {examiners.map((examiner, index) => {
+                                const mark = evaluation.examiner_marks?.find(
+                                  (s) => s.examiner_id === examiner.user_id,
+                                )?.marks?.[c.key];
+                                return (
+                                  <div key={examiner.id}>
+                                    <span className="font-semibold">{examinerLabel(index)}</span>{" "}
+                                    {mark ?? "—"}
+                                  </div>
+                                );
+                              })}
+                            </div>
+                            <div
+                              className={`mt-1 flex items-center gap-1 font-semibold ${
+                                disputed ? "text-red-700" : "text-gray-900"
+                              }`}
+                            >
+                              {disputed && <AlertTriangle className="w-3 h-3" />}
+                              {getCombinedMark(evaluation, c, rubric)}
+                            </div>
+                          </td>
+                        );
+                      })}
+                      <td className="px-3 py-2 font-bold bg-blue-50 text-blue-900">
+                        {calculateRubricTotal(evaluation, rubric).toFixed(1)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AuditLogEntry } from "@/lib/types";
+import { getStudentHistory, formatAuditValue } from "@/lib/audit";
+import toast from "react-hot-toast";
+import { X, History } from "lucide-react";
+
+interface StudentHistoryModalProps {
+  studentId: string;
+  studentName: string;
+  fieldLabels?: Record<string, string>;
+  onClose: () => void;
+}
+
+export default function StudentHistoryModal({
+  studentId,
+  studentName,
+  fieldLabels = {},
+  onClose,
+}: StudentHistoryModalProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function loadHistory() {
+      try {
+        setLoading(true);
+        setEntries(await getStudentHistory(studentId));
+      } catch (error) {
+        console.error("Error loading student history:", error);
+        toast.error("Failed to load history");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadHistory();
+  }, [studentId]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between bg-gray-50">
+          <div className="flex items-center gap-3">
+            <History className="w-5 h-5 text-indigo-600" />
+            <div>
+              <h3 className="text-lg font-bold text-gray-900">History</h3>
+              <p className="text-sm text-gray-500">{studentName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-8">
+              No changes recorded for this student yet.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-3">When</th>
+                  <th className="py-2 pr-3">Who</th>
+                  <th className="py-2 pr-3">Field</th>
+                  <th className="py-2 pr-3">Old</th>
+                  <th className="py-2">New</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => {
+                  const field = entry.changes?.field || "";
+                  return (
+                    <tr key={entry.id} className="border-b last:border-0">
+                      <td className="py-2 pr-3 text-gray-600 whitespace-nowrap">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </td>
+                      <td className="py-2 pr-3">
+                        {entry.user?.full_name || entry.user?.username || "—"}
+                      </td>
+                      <td className="py-2 pr-3">
+                        {entry.action === "RENAME_STUDENT"
+                          ? "Name"
+                          : entry.action === "MOVE_STUDENT"
+                            ? "Group"
+                            : fieldLabels[field] || field}
+                        {entry.action === "UPDATE_EXAMINER_MARK" && (
+                          <span className="text-xs text-gray-500"> (examiner sheet)</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 text-red-700">
+                        {formatAuditValue(entry.changes?.old_value)}
+                      </td>
+                      <td className="py-2 text-green-700">
+                        {formatAuditValue(entry.changes?.new_value)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
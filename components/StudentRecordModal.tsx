@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { StudentRecord, StudentRecordUpdate } from "@/lib/types";
+import { getStudentRecordForStudent } from "@/lib/database";
+import { updateStudentRecord } from "@/lib/api";
+import toast from "react-hot-toast";
+import { X, Save } from "lucide-react";
+
+interface StudentRecordModalProps {
+  studentId: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const FIELDS: { key: keyof StudentRecordUpdate; label: string; type?: string }[] = [
+  { key: "full_name", label: "Full Name" },
+  { key: "roll_number", label: "Roll Number" },
+  { key: "prn", label: "PRN" },
+  { key: "email", label: "Email", type: "email" },
+  { key: "division", label: "Division" },
+];
+
+export default function StudentRecordModal({
+  studentId,
+  onClose,
+  onSaved,
+}: StudentRecordModalProps) {
+  const [record, setRecord] = useState<StudentRecord | null>(null);
+  const [form, setForm] = useState<StudentRecordUpdate>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getStudentRecordForStudent(studentId)
+      .then((data) => {
+        setRecord(data);
+        if (data) {
+          setForm({
+            full_name: data.full_name,
+            roll_number: data.roll_number,
+            prn: data.prn,
+            email: data.email,
+            division: data.division,
+          });
+        }
+      })
+      .catch((error) => {
+        console.error("Error loading student record:", error);
+        toast.error("Failed to load student details");
+      })
+      .finally(() => setLoading(false));
+  }, [studentId]);
+
+  async function handleSave() {
+    if (!form.full_name?.trim()) {
+      toast.error("Student name is required");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await updateStudentRecord(studentId, form);
+      toast.success("Student details saved");
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error("Error saving student record:", error);
+      toast.error((error as any)?.message || "Failed to save student details");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between bg-gray-50">
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Student Details</h3>
+            <p className="text-sm text-gray-500">
+              Shared by this student&apos;s groups in every presentation
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : !record ? (
+            <p className="text-sm text-gray-600">
+              This student has no master record yet. Run
+              supabase-migration-student-records.sql to create one.
+            </p>
+          ) : (
+            FIELDS.map(({ key, label, type }) => (
+              <div key={key}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {label}
+                </label>
+                <input
+                  type={type || "text"}
+                  value={form[key] || ""}
+                  onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2 bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!record || saving}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Save className="w-5 h-5" />
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
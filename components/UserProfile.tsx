@@ -3,11 +3,13 @@
 import { useAuth } from "@/providers/AuthProvider";
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-import { LogOut, ChevronDown } from "lucide-react";
+import { LogOut, ChevronDown, KeyRound } from "lucide-react";
 import toast from "react-hot-toast";
+import DepartmentSwitcher from "@/components/DepartmentSwitcher";
+import { ROLE_LABELS } from "@/lib/permissions";
 
 export default function UserProfile() {
-  const { user, logout, isAdmin } = useAuth();
+  const { user, logout } = useAuth();
   const router = useRouter();
   const [showMenu, setShowMenu] = useState(false);
 
@@ -27,13 +29,15 @@ export default function UserProfile() {
 
   return (
     <div className="flex items-center gap-3">
+      <DepartmentSwitcher />
+
       {/* User Info */}
       <div className="text-right">
         <p className="text-sm font-medium text-gray-900">
           {user.full_name || user.username}
         </p>
-        <p className="text-xs text-gray-500 capitalize">
-          {isAdmin ? "Admin" : "Teacher"}
+        <p className="text-xs text-gray-500">
+          {user.is_super_admin ? "Super Admin" : ROLE_LABELS[user.role]}
         </p>
       </div>
 
@@ -55,6 +59,16 @@ export default function UserProfile() {
               </p>
               <p className="text-xs text-gray-500 mt-1">{user.email}</p>
             </div>
+            <button
+              onClick={() => {
+                setShowMenu(false);
+                router.push("/change-password");
+              }}
+              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+            >
+              <KeyRound className="w-4 h-4" />
+              Change Password
+            </button>
             <button
               onClick={() => {
                 handleLogout();
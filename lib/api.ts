@@ -0,0 +1,566 @@
+import {
+  AcademicYear,
+  Presentation,
+  Group,
+  GroupWithStudents,
+  Student,
+  Evaluation,
+  CreateAcademicYearInput,
+  CreatePresentationInput,
+  CreateGroupInput,
+  BaseColumnConfig,
+  CustomColumn,
+  GroupImportRow,
+  PresentationLockStatus,
+  ExaminerMarks,
+  UpdateExaminersInput,
+  User,
+  AnnualReportKind,
+  PresentationReportKind,
+  PdfReportScope,
+  StudentRecord,
+  StudentRecordUpdate,
+  InstitutionSettings,
+  InstitutionSettingsUpdate,
+  Department,
+  StudentResults,
+  SaveUserInput,
+} from "./types";
+
+// =====================================================
+// Client for the app/api routes
+// =====================================================
+// The UI calls these instead of the write functions in lib/database.ts so
+// every mutation is authorized on the server against the caller's session
+// (sent automatically as the httpOnly session cookie). Marks are read here
+// too: the anon key cannot read them (supabase-migration-anon-access.sql).
+
+/**
+ * Thrown for non-2xx responses; `data` is the parsed response body
+ */
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public data: any,
+  ) {
+    super(message);
+    this.name = "ApiRequestError";
+  }
+}
+
+async function request<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    credentials: "same-origin",
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiRequestError(
+      data.error || `Request failed with status ${response.status}`,
+      response.status,
+      data,
+    );
+  }
+
+  return data as T;
+}
+
+/**
+ * POST to a report route and save the workbook it streams back
+ */
+async function downloadReport(url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "same-origin",
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiRequestError(
+      data.error || `Request failed with status ${response.status}`,
+      response.status,
+      data,
+    );
+  }
+
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || "report.xlsx";
+  const href = URL.createObjectURL(await response.blob());
+
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(href);
+}
+
+// =====================================================
+// Academic Year Operations
+// =====================================================
+
+// The server files new years under the caller's department
+export async function createAcademicYear(
+  input: Omit<CreateAcademicYearInput, "department_id">,
+): Promise<AcademicYear> {
+  const { academicYear } = await request<{ academicYear: AcademicYear }>(
+    "POST",
+    "/api/academic-years",
+    input,
+  );
+  return academicYear;
+}
+
+export async function updateAcademicYear(
+  id: string,
+  input: Partial<Omit<CreateAcademicYearInput, "department_id">>,
+): Promise<AcademicYear> {
+  const { academicYear } = await request<{ academicYear: AcademicYear }>(
+    "PATCH",
+    `/api/academic-years/${id}`,
+    input,
+  );
+  return academicYear;
+}
+
+export async function deleteAcademicYear(id: string): Promise<void> {
+  await request("DELETE", `/api/academic-years/${id}`);
+}
+
+// =====================================================
+// Presentation Operations
+// =====================================================
+
+export async function createPresentation(
+  input: CreatePresentationInput,
+): Promise<Presentation> {
+  const { presentation } = await request<{ presentation: Presentation }>(
+    "POST",
+    "/api/presentations",
+    input,
+  );
+  return presentation;
+}
+
+export async function deletePresentation(id: string): Promise<void> {
+  await request("DELETE", `/api/presentations/${id}`);
+}
+
+export async function setPresentationLockStatus(
+  presentationId: string,
+  status: PresentationLockStatus,
+  reason?: string,
+): Promise<Presentation> {
+  const { presentation } = await request<{ presentation: Presentation }>(
+    "POST",
+    `/api/presentations/${presentationId}/lock`,
+    { status, reason },
+  );
+  return presentation;
+}
+
+/**
+ * Publish (or withdraw) a presentation's results to student logins
+ */
+export async function setPresentationResultsPublished(
+  presentationId: string,
+  published: boolean,
+): Promise<Presentation> {
+  const { presentation } = await request<{ presentation: Presentation }>(
+    "POST",
+    `/api/presentations/${presentationId}/publish`,
+    { published },
+  );
+  return presentation;
+}
+
+export async function updatePresentationExaminers(
+  presentationId: string,
+  input: UpdateExaminersInput,
+): Promise<Presentation> {
+  const { presentation } = await request<{ presentation: Presentation }>(
+    "PUT",
+    `/api/presentations/${presentationId}/examiners`,
+    input,
+  );
+  return presentation;
+}
+
+export async function updatePresentationColumns(
+  presentationId: string,
+  customColumns: Record<string, string | BaseColumnConfig>,
+  extraColumns?: CustomColumn[],
+): Promise<void> {
+  await request("PUT", `/api/presentations/${presentationId}/columns`, {
+    customColumns,
+    extraColumns,
+  });
+}
+
+export async function resetPresentationMarks(
+  presentationId: string,
+): Promise<void> {
+  await request("POST", `/api/presentations/${presentationId}/reset-marks`);
+}
+
+export async function applyMarkChanges(
+  presentationId: string,
+  changes: { studentId: string; field: string; value: number }[],
+): Promise<number> {
+  const { appliedCount } = await request<{ appliedCount: number }>(
+    "POST",
+    `/api/presentations/${presentationId}/marks`,
+    { changes },
+  );
+  return appliedCount;
+}
+
+export async function normalizeGroupNumbers(
+  presentationId: string,
+): Promise<void> {
+  await request("POST", `/api/presentations/${presentationId}/normalize-groups`);
+}
+
+export async function copyGroupsFromPresentation(
+  sourcePresentationId: string,
+  targetPresentationId: string,
+): Promise<number> {
+  const { copiedCount } = await request<{ copiedCount: number }>(
+    "POST",
+    `/api/presentations/${targetPresentationId}/copy-groups`,
+    { sourcePresentationId },
+  );
+  return copiedCount;
+}
+
+// =====================================================
+// Group Operations
+// =====================================================
+
+/**
+ * A presentation's groups with their students and marks. The server limits
+ * users who only view their own groups; ownGroupsOnly asks for the groups
+ * the user guides even when more are visible.
+ */
+export async function getPresentationGroups(
+  presentationId: string,
+  ownGroupsOnly = false,
+): Promise<GroupWithStudents[]> {
+  const { groups } = await request<{ groups: GroupWithStudents[] }>(
+    "GET",
+    `/api/presentations/${presentationId}/groups${ownGroupsOnly ? "?own=1" : ""}`,
+  );
+  return groups;
+}
+
+export async function createGroup(input: CreateGroupInput): Promise<Group> {
+  const { group } = await request<{ group: Group }>("POST", "/api/groups", input);
+  return group;
+}
+
+export async function deleteGroup(id: string): Promise<void> {
+  await request("DELETE", `/api/groups/${id}`);
+}
+
+export async function updateGroupGuide(
+  id: string,
+  guideName: string,
+  guideUserId?: string,
+): Promise<void> {
+  await request("PATCH", `/api/groups/${id}/guide`, { guideName, guideUserId });
+}
+
+export async function duplicateGroup(
+  sourceGroupId: string,
+  targetPresentationId: string,
+): Promise<Group> {
+  const { group } = await request<{ group: Group }>(
+    "POST",
+    `/api/groups/${sourceGroupId}/duplicate`,
+    { targetPresentationId },
+  );
+  return group;
+}
+
+export async function importGroups(
+  presentationId: string,
+  rows: GroupImportRow[],
+): Promise<number> {
+  const { importedCount } = await request<{ importedCount: number }>(
+    "POST",
+    "/api/groups/import",
+    { presentationId, rows },
+  );
+  return importedCount;
+}
+
+// =====================================================
+// Student & Evaluation Operations
+// =====================================================
+
+export async function updateStudentName(id: string, name: string): Promise<void> {
+  await request("PATCH", `/api/students/${id}`, { name });
+}
+
+export async function addStudentToGroup(groupId: string, name: string): Promise<Student> {
+  const { student } = await request<{ student: Student }>(
+    "POST",
+    `/api/groups/${groupId}/students`,
+    { name },
+  );
+  return student;
+}
+
+export async function removeStudent(id: string): Promise<void> {
+  await request("DELETE", `/api/students/${id}`);
+}
+
+/**
+ * Move a student to another group of the same presentation (admins only).
+ * The move applies to every presentation of the year, marks included.
+ */
+export async function moveStudent(id: string, targetGroupId: string): Promise<void> {
+  await request("POST", `/api/students/${id}/move`, { targetGroupId });
+}
+
+/**
+ * Update the master record of the student behind a group membership
+ */
+export async function updateStudentRecord(
+  studentId: string,
+  updates: StudentRecordUpdate,
+): Promise<StudentRecord> {
+  const { record } = await request<{ record: StudentRecord }>(
+    "PATCH",
+    `/api/students/${studentId}/record`,
+    updates,
+  );
+  return record;
+}
+
+export async function getEvaluation(studentId: string): Promise<Evaluation | null> {
+  const { evaluation } = await request<{ evaluation: Evaluation | null }>(
+    "GET",
+    `/api/evaluations/${studentId}`,
+  );
+  return evaluation;
+}
+
+/**
+ * Save one evaluation field. With expectedUpdatedAt, a row changed by someone
+ * else is rejected with a 409 ApiRequestError whose data.evaluation is current.
+ */
+export async function updateEvaluation(
+  studentId: string,
+  field: keyof Evaluation | string,
+  value: any,
+  expectedUpdatedAt?: string,
+): Promise<Evaluation> {
+  const { evaluation } = await request<{ evaluation: Evaluation }>(
+    "PATCH",
+    `/api/evaluations/${studentId}`,
+    { field, value, expectedUpdatedAt },
+  );
+  return evaluation;
+}
+
+export async function updateExaminerMark(
+  studentId: string,
+  field: string,
+  value: number,
+): Promise<ExaminerMarks> {
+  const { sheet } = await request<{ sheet: ExaminerMarks }>(
+    "PATCH",
+    `/api/examiner-marks/${studentId}`,
+    { field, value },
+  );
+  return sheet;
+}
+
+// =====================================================
+// Session Operations
+// =====================================================
+
+export async function login(username: string, password: string): Promise<User> {
+  const { user } = await request<{ user: User }>("POST", "/api/auth/login", {
+    username,
+    password,
+  });
+  return user;
+}
+
+export async function logout(): Promise<void> {
+  await request("POST", "/api/auth/logout");
+}
+
+/**
+ * Change the signed-in user's own password; returns the updated user
+ */
+export async function changePassword(currentPassword: string, newPassword: string): Promise<User> {
+  const { user } = await request<{ user: User }>("POST", "/api/auth/change-password", {
+    currentPassword,
+    newPassword,
+  });
+  return user;
+}
+
+export async function createUser(input: SaveUserInput): Promise<User> {
+  const { user } = await request<{ user: User }>("POST", "/api/users", input);
+  return user;
+}
+
+export async function updateUser(userId: string, input: SaveUserInput): Promise<User> {
+  const { user } = await request<{ user: User }>("PATCH", `/api/users/${userId}`, input);
+  return user;
+}
+
+export async function deleteUser(userId: string): Promise<void> {
+  await request("DELETE", `/api/users/${userId}`);
+}
+
+/**
+ * Issue a one-time temporary password for a user (admins only)
+ */
+export async function resetUserPassword(userId: string): Promise<string> {
+  const { temporaryPassword } = await request<{ temporaryPassword: string }>(
+    "POST",
+    `/api/users/${userId}/reset-password`,
+  );
+  return temporaryPassword;
+}
+
+/**
+ * Clear a lockout after too many failed logins (admins only)
+ */
+export async function unlockUser(userId: string): Promise<void> {
+  await request("POST", `/api/users/${userId}/unlock`);
+}
+
+/**
+ * The signed-in user, or null when there is no valid session cookie (401).
+ * Network and server failures are rethrown so callers can tell "offline" or
+ * "could not check" from "signed out".
+ */
+export async function getCurrentUser(): Promise<User | null> {
+  try {
+    const { user } = await request<{ user: User }>("GET", "/api/auth/session");
+    return user;
+  } catch (error) {
+    if (error instanceof ApiRequestError && error.status === 401) return null;
+    throw error;
+  }
+}
+
+// =====================================================
+// Department Operations
+// =====================================================
+
+/**
+ * Switch to another department (super-admins only). Returns the updated user.
+ */
+export async function switchDepartment(departmentId: string): Promise<User> {
+  const { user } = await request<{ user: User }>("PUT", "/api/auth/department", {
+    departmentId,
+  });
+  return user;
+}
+
+export async function createDepartment(name: string, code: string): Promise<Department> {
+  const { department } = await request<{ department: Department }>(
+    "POST",
+    "/api/departments",
+    { name, code },
+  );
+  return department;
+}
+
+// =====================================================
+// Settings Operations
+// =====================================================
+
+/**
+ * Save the institution names, logo, sheet titles and signatories (admins only)
+ */
+export async function updateInstitutionSettings(
+  updates: InstitutionSettingsUpdate,
+): Promise<InstitutionSettings> {
+  const { settings } = await request<{ settings: InstitutionSettings }>(
+    "PUT",
+    "/api/settings/branding",
+    updates,
+  );
+  return settings;
+}
+
+// =====================================================
+// Student Portal
+// =====================================================
+
+export async function getMyResults(): Promise<StudentResults> {
+  const { results } = await request<{ results: StudentResults }>(
+    "GET",
+    "/api/student/results",
+  );
+  return results;
+}
+
+// =====================================================
+// Report Downloads
+// =====================================================
+// Workbooks and PDFs are built on the server; teachers only get their own groups.
+
+// Official reports print the published results; otherwise the marks being
+// entered are exported and sheets that differ from the published results
+// are stamped DRAFT.
+export async function downloadAnnualReport(
+  academicYearId: string,
+  report: AnnualReportKind,
+  guideName?: string,
+  official?: boolean,
+): Promise<void> {
+  await downloadReport("/api/reports/export-annual", {
+    academicYearId,
+    report,
+    guideName,
+    official,
+  });
+}
+
+export async function downloadPresentationReport(
+  presentationId: string,
+  report: PresentationReportKind,
+  guideName?: string,
+  official?: boolean,
+): Promise<void> {
+  await downloadReport("/api/reports/export-presentation", {
+    presentationId,
+    report,
+    guideName,
+    official,
+  });
+}
+
+/**
+ * Signed-copy PDF TW sheet. Pass a presentation id for "presentation" and an
+ * academic year id for the semester and annual sheets.
+ */
+export async function downloadPdfReport(
+  scope: PdfReportScope,
+  id: string,
+  guideName?: string,
+  official?: boolean,
+): Promise<void> {
+  await downloadReport("/api/reports/export-pdf", {
+    scope,
+    ...(scope === "presentation" ? { presentationId: id } : { academicYearId: id }),
+    guideName,
+    official,
+  });
+}
@@ -0,0 +1,291 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSupabase } from "@/lib/supabaseServer";
+import { getSessionUser, getUserById, SESSION_TTL_DAYS } from "@/lib/auth";
+import { PresentationLockedError } from "@/lib/presentationLock";
+import {
+  DepartmentConflictError,
+  EvaluationConflictError,
+  ExaminerAccessError,
+  GroupOperationError,
+  StudentRecordConflictError,
+} from "@/lib/database";
+import {
+  can,
+  Permission,
+  PermissionResource,
+  permissionDeniedMessage,
+} from "@/lib/permissions";
+import { User } from "@/lib/types";
+
+// =====================================================
+// Server-side authorization for app/api route handlers
+// =====================================================
+
+/**
+ * Error carrying the HTTP status a route handler should respond with
+ */
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+export const SESSION_COOKIE = "scoreflow_session";
+
+/**
+ * Read the raw session token from the httpOnly session cookie
+ */
+export function readSessionToken(request: NextRequest): string | null {
+  return request.cookies.get(SESSION_COOKIE)?.value || null;
+}
+
+/**
+ * Attach (or refresh) the session cookie; the browser never sees the token in JS
+ */
+export function setSessionCookie(response: NextResponse, token: string): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_TTL_DAYS * 24 * 60 * 60,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: 0,
+  });
+}
+
+/**
+ * Resolve the caller from the session cookie. Users still on a temporary
+ * password are refused (403) unless the route is part of changing it.
+ */
+export async function requireSessionUser(
+  request: NextRequest,
+  options: { allowPendingPasswordChange?: boolean } = {},
+): Promise<User> {
+  const token = readSessionToken(request);
+  if (!token) {
+    throw new ApiError(401, "Not authenticated");
+  }
+
+  const user = await getSessionUser(token);
+  if (!user) {
+    throw new ApiError(401, "Session expired. Please log in again.");
+  }
+
+  if (user.must_change_password && !options.allowPendingPasswordChange) {
+    throw new ApiError(403, "Change your password to continue");
+  }
+
+  return user;
+}
+
+/**
+ * Refuse (403) unless the user's role grants the permission on the resource;
+ * without one, on the whole department (see lib/permissions.ts)
+ */
+export function requirePermission(
+  user: User,
+  permission: Permission,
+  resource?: PermissionResource,
+): void {
+  if (!can(user, permission, resource)) {
+    throw new ApiError(403, permissionDeniedMessage(user.role, permission));
+  }
+}
+
+export function requireSuperAdmin(user: User): void {
+  if (!user.is_super_admin) {
+    throw new ApiError(403, "Only super-admins can perform this action");
+  }
+}
+
+// =====================================================
+// Department scoping
+// =====================================================
+// Every row a request touches must belong to the caller's department (for
+// super-admins, the one they have switched to). Rows of other departments
+// answer 404, exactly like rows that do not exist.
+
+async function assertRowInDepartment(
+  user: User,
+  table: "academic_years" | "presentations" | "groups" | "users",
+  id: string,
+  label: string,
+): Promise<void> {
+  const { data, error } = await getServerSupabase()
+    .from(table)
+    .select("department_id")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || data.department_id !== user.department_id) {
+    throw new ApiError(404, `${label} not found`);
+  }
+}
+
+export function assertAcademicYearInDepartment(user: User, academicYearId: string): Promise<void> {
+  return assertRowInDepartment(user, "academic_years", academicYearId, "Academic year");
+}
+
+export function assertPresentationInDepartment(user: User, presentationId: string): Promise<void> {
+  return assertRowInDepartment(user, "presentations", presentationId, "Presentation");
+}
+
+/**
+ * Users managed, or assigned as guides or examiners, must be in the
+ * caller's department
+ */
+export function assertUserInDepartment(user: User, userId: string): Promise<void> {
+  return assertRowInDepartment(user, "users", userId, "User");
+}
+
+/**
+ * The account a manage_users route acts on: in the caller's department, and
+ * a super-admin only when the caller is one too
+ */
+export async function loadManagedUser(user: User, userId: string): Promise<User> {
+  requirePermission(user, "manage_users");
+  await assertUserInDepartment(user, userId);
+
+  const target = await getUserById(userId);
+  if (!target) throw new ApiError(404, "User not found");
+  if (target.is_super_admin && !user.is_super_admin) {
+    throw new ApiError(403, "Only super-admins can change a super-admin account");
+  }
+  return target;
+}
+
+/**
+ * The group must be in the user's department and their role must grant the
+ * permission on it: department-wide, or as the group's guide
+ */
+export async function assertCanModifyGroup(
+  user: User,
+  groupId: string,
+  permission: Permission = "manage_groups",
+): Promise<void> {
+  const { data: group, error } = await getServerSupabase()
+    .from("groups")
+    .select("guide_user_id, department_id")
+    .eq("id", groupId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!group || group.department_id !== user.department_id) {
+    throw new ApiError(404, "Group not found");
+  }
+
+  if (!can(user, permission, group)) {
+    throw new ApiError(
+      403,
+      can(user, permission, "any")
+        ? "Unauthorized: You can only modify your own groups"
+        : permissionDeniedMessage(user.role, permission),
+    );
+  }
+}
+
+/**
+ * Same as assertCanModifyGroup, for the student's group
+ */
+export async function assertCanModifyStudent(
+  user: User,
+  studentId: string,
+  permission: Permission = "manage_groups",
+): Promise<void> {
+  const { data: student, error } = await getServerSupabase()
+    .from("students")
+    .select("group_id")
+    .eq("id", studentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!student) throw new ApiError(404, "Student not found");
+
+  await assertCanModifyGroup(user, student.group_id, permission);
+}
+
+/**
+ * The student's group must be in the user's department and their role must
+ * let them view it: department-wide, as its guide, or as an external
+ * examiner of its presentation
+ */
+export async function assertCanViewStudent(user: User, studentId: string): Promise<void> {
+  const db = getServerSupabase();
+  const { data: student, error } = await db
+    .from("students")
+    .select("group_id")
+    .eq("id", studentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!student) throw new ApiError(404, "Student not found");
+
+  const { data: group, error: groupError } = await db
+    .from("groups")
+    .select("guide_user_id, department_id, presentation_id")
+    .eq("id", student.group_id)
+    .maybeSingle();
+
+  if (groupError) throw groupError;
+  if (!group || group.department_id !== user.department_id) {
+    throw new ApiError(404, "Student not found");
+  }
+
+  const { data: examiners, error: examinersError } = await db
+    .from("presentation_examiners")
+    .select("user_id")
+    .eq("presentation_id", group.presentation_id);
+
+  if (examinersError) throw examinersError;
+  requirePermission(user, "view", {
+    guide_user_id: group.guide_user_id,
+    examiner_ids: (examiners || []).map((e) => e.user_id),
+  });
+}
+
+/**
+ * Convert a thrown error into a JSON error response
+ */
+export function apiErrorResponse(error: unknown, context: string): NextResponse {
+  if (error instanceof ApiError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof ExaminerAccessError) {
+    return NextResponse.json({ error: error.message }, { status: 403 });
+  }
+  if (error instanceof PresentationLockedError) {
+    return NextResponse.json({ error: error.message }, { status: 423 });
+  }
+  if (
+    error instanceof GroupOperationError ||
+    error instanceof StudentRecordConflictError ||
+    error instanceof DepartmentConflictError
+  ) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  if (error instanceof EvaluationConflictError) {
+    return NextResponse.json(
+      { error: error.message, evaluation: error.current },
+      { status: 409 },
+    );
+  }
+
+  console.error(`Error in ${context}:`, error);
+  // Supabase errors are plain objects with a message, not Error instances
+  const message = (error as any)?.message || `Failed to ${context}`;
+  return NextResponse.json({ error: message }, { status: 500 });
+}
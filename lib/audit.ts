@@ -0,0 +1,90 @@
+import { supabase } from "./supabase";
+import {
+  AuditAction,
+  AuditChanges,
+  AuditEntityType,
+  AuditLogEntry,
+  AuditLogFilters,
+} from "./types";
+
+// =====================================================
+// Audit Trail
+// =====================================================
+
+interface RecordAuditInput {
+  userId?: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  changes?: AuditChanges;
+}
+
+/**
+ * Append an entry to audit_log. Failures are logged, never thrown, so an
+ * audit outage cannot block the write being audited.
+ */
+export async function recordAudit(input: RecordAuditInput): Promise<void> {
+  const { error } = await supabase.from("audit_log").insert({
+    user_id: input.userId ?? null,
+    action: input.action,
+    entity_type: input.entityType,
+    entity_id: input.entityId,
+    changes: input.changes ?? null,
+  });
+
+  if (error) {
+    console.error(`Error recording audit entry ${input.action}:`, error);
+  }
+}
+
+/**
+ * Browse the audit log, newest first
+ */
+export async function getAuditLog(
+  filters: AuditLogFilters = {},
+): Promise<AuditLogEntry[]> {
+  let query = supabase
+    .from("audit_log")
+    .select(
+      filters.departmentId
+        ? "*, user:users!inner(full_name, username, department_id)"
+        : "*, user:users(full_name, username)",
+    )
+    .order("created_at", { ascending: false })
+    .limit(filters.limit ?? 200);
+
+  if (filters.departmentId) query = query.eq("user.department_id", filters.departmentId);
+  if (filters.action) query = query.eq("action", filters.action);
+  if (filters.entityType) query = query.eq("entity_type", filters.entityType);
+  if (filters.entityId) query = query.eq("entity_id", filters.entityId);
+  if (filters.userId) query = query.eq("user_id", filters.userId);
+  if (filters.from) query = query.gte("created_at", filters.from);
+  if (filters.to) {
+    // Include the whole "to" day
+    const end = new Date(filters.to);
+    end.setDate(end.getDate() + 1);
+    query = query.lt("created_at", end.toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as AuditLogEntry[];
+}
+
+/**
+ * Mark changes and renames recorded against one student
+ */
+export async function getStudentHistory(
+  studentId: string,
+): Promise<AuditLogEntry[]> {
+  return getAuditLog({ entityType: "STUDENT", entityId: studentId });
+}
+
+/**
+ * Render an audited value for display ("—" for empty)
+ */
+export function formatAuditValue(value: any): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
@@ -2,7 +2,9 @@
 // @ts-ignore - bcryptjs doesn't have TypeScript definitions
 import bcrypt from 'bcryptjs';
 import { supabase } from './supabase';
-import { User, AuthUser, LoginInput } from './types';
+import { User, AuthUser, LoginInput, SaveUserInput, UserRole } from './types';
+import { MIN_PASSWORD_LENGTH } from './constants';
+import { ROLES } from './permissions';
 
 /**
  * Hash a password using bcrypt
@@ -20,22 +22,188 @@ export async function comparePassword(password: string, hash: string): Promise<b
 }
 
 /**
- * Generate a simple JWT-like token (you can enhance this)
+ * Sessions slide: every verified request pushes expiry this far past last_activity
+ */
+export const SESSION_TTL_DAYS = 7;
+
+/**
+ * Generate a cryptographically random session token (256 bits, hex encoded)
  */
 export function generateToken(): string {
-    return Math.random().toString(36).substring(2) + Date.now().toString(36);
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 of a session token. Only the hash is stored in user_sessions
+ */
+export async function hashToken(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function getSessionExpiry(from: Date = new Date()): Date {
+    const expiresAt = new Date(from);
+    expiresAt.setDate(expiresAt.getDate() + SESSION_TTL_DAYS);
+    return expiresAt;
 }
 
 /**
- * Login user with username and password
+ * Strip a users row down to the fields that may leave the server
  */
-export async function loginUser(credentials: LoginInput): Promise<AuthUser> {
+function toPublicUser(user: any): User {
+    return {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+        full_name: user.full_name,
+        is_active: user.is_active,
+        must_change_password: user.must_change_password ?? false,
+        department_id: user.department_id,
+        is_super_admin: user.is_super_admin ?? false,
+        student_record_id: user.student_record_id ?? null,
+        created_at: user.created_at,
+        updated_at: user.updated_at,
+    };
+}
+
+// =====================================================
+// Login throttling
+// =====================================================
+
+/**
+ * Consecutive failed logins that lock an account, and for how long
+ */
+export const LOGIN_LOCKOUT_THRESHOLD = 5;
+export const LOGIN_LOCKOUT_MINUTES = 15;
+
+// Failed attempts from one IP address (any usernames) allowed per window
+const IP_FAILURE_LIMIT = 20;
+const FAILURE_WINDOW_MINUTES = 15;
+
+// Each recent failure doubles the wait before a login is answered
+const BASE_LOGIN_DELAY_MS = 500;
+const MAX_LOGIN_DELAY_MS = 8000;
+
+/**
+ * Too many failed logins for the account or the caller's IP address
+ */
+export class LoginThrottledError extends Error {
+    constructor(message: string, public retryAfterSeconds: number) {
+        super(message);
+        this.name = 'LoginThrottledError';
+    }
+}
+
+function lockedError(until: Date): LoginThrottledError {
+    const seconds = Math.max(1, Math.ceil((until.getTime() - Date.now()) / 1000));
+    const minutes = Math.ceil(seconds / 60);
+    return new LoginThrottledError(
+        `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'} or ask an admin to unlock the account.`,
+        seconds,
+    );
+}
+
+function loginDelayMs(failures: number): number {
+    if (failures <= 0) return 0;
+    return Math.min(BASE_LOGIN_DELAY_MS * 2 ** (failures - 1), MAX_LOGIN_DELAY_MS);
+}
+
+async function countRecentFailures(
+    column: 'username' | 'ip_address',
+    value: string,
+    since: Date,
+): Promise<number> {
+    const { count } = await supabase
+        .from('login_attempts')
+        .select('id', { count: 'exact', head: true })
+        .eq(column, value)
+        .eq('succeeded', false)
+        .gte('created_at', since.toISOString());
+
+    return count || 0;
+}
+
+async function recordLoginAttempt(username: string, ipAddress: string | undefined, succeeded: boolean) {
+    await supabase.from('login_attempts').insert({
+        username,
+        ip_address: ipAddress || null,
+        succeeded,
+    });
+}
+
+/**
+ * Count a failed login against the account (locking it on every
+ * LOGIN_LOCKOUT_THRESHOLD-th consecutive failure) and audit it. The count
+ * and lock are one UPDATE in record_failed_login, so concurrent failures
+ * cannot overwrite each other's increment and skip the lockout.
+ */
+async function recordFailedLogin(user: any | undefined, username: string, ipAddress?: string) {
+    await recordLoginAttempt(username, ipAddress, false);
+
+    let lockout: { failed_login_count: number; locked: boolean; locked_until: string | null } | undefined;
+    if (user) {
+        const { data, error } = await supabase.rpc('record_failed_login', {
+            p_user_id: user.id,
+            p_threshold: LOGIN_LOCKOUT_THRESHOLD,
+            p_lockout_minutes: LOGIN_LOCKOUT_MINUTES,
+        });
+        if (error) {
+            console.error('Error recording failed login:', error);
+        }
+        lockout = data?.[0];
+    }
+
+    await supabase.from('audit_log').insert({
+        user_id: user?.id ?? null,
+        action: 'LOGIN_FAILED',
+        entity_type: 'USER',
+        entity_id: user?.id ?? null,
+        changes: { username, ip_address: ipAddress },
+    });
+
+    if (lockout?.locked) {
+        await supabase.from('audit_log').insert({
+            user_id: user.id,
+            action: 'LOCKED',
+            entity_type: 'USER',
+            entity_id: user.id,
+            changes: {
+                failed_login_count: lockout.failed_login_count,
+                locked_until: lockout.locked_until,
+                ip_address: ipAddress,
+            },
+        });
+    }
+}
+
+/**
+ * Login user with username and password. Failed attempts are throttled per
+ * username and per IP address: each answer is delayed longer, accounts lock
+ * for LOGIN_LOCKOUT_MINUTES after LOGIN_LOCKOUT_THRESHOLD failures in a row,
+ * and an IP with too many recent failures is refused outright.
+ */
+export async function loginUser(credentials: LoginInput, ipAddress?: string): Promise<AuthUser> {
     const { username, password } = credentials;
 
     if (!username || !password) {
         throw new Error('Username and password are required');
     }
 
+    const windowStart = new Date(Date.now() - FAILURE_WINDOW_MINUTES * 60 * 1000);
+    const ipFailures = ipAddress
+        ? await countRecentFailures('ip_address', ipAddress, windowStart)
+        : 0;
+
+    if (ipFailures >= IP_FAILURE_LIMIT) {
+        throw new LoginThrottledError(
+            'Too many failed sign-in attempts from this network. Try again later.',
+            FAILURE_WINDOW_MINUTES * 60,
+        );
+    }
+
     // Fetch user from database
     const { data: users, error } = await supabase
         .from('users')
@@ -44,35 +212,66 @@ export async function loginUser(credentials: LoginInput): Promise<AuthUser> {
         .eq('is_active', true)
         .limit(1);
 
-    if (error || !users || users.length === 0) {
+    if (error) {
         throw new Error('Invalid username or password');
     }
 
-    const user = users[0];
+    const user = users?.[0];
+
+    if (user?.locked_until && new Date(user.locked_until) > new Date()) {
+        await recordLoginAttempt(username, ipAddress, false);
+        throw lockedError(new Date(user.locked_until));
+    }
+
+    // Unknown usernames are throttled the same way, from the attempts table
+    const usernameFailures = user
+        ? user.failed_login_count || 0
+        : await countRecentFailures('username', username, windowStart);
+
+    if (!user && usernameFailures >= LOGIN_LOCKOUT_THRESHOLD) {
+        throw lockedError(new Date(Date.now() + LOGIN_LOCKOUT_MINUTES * 60 * 1000));
+    }
+
+    const delay = loginDelayMs(Math.max(usernameFailures, ipFailures));
+    if (delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+    }
 
     // Verify password
-    const passwordMatch = await comparePassword(password, user.password_hash);
+    const passwordMatch = user ? await comparePassword(password, user.password_hash) : false;
     if (!passwordMatch) {
+        await recordFailedLogin(user, username, ipAddress);
         throw new Error('Invalid username or password');
     }
 
+    if (user.failed_login_count || user.locked_until) {
+        await supabase
+            .from('users')
+            .update({ failed_login_count: 0, locked_until: null })
+            .eq('id', user.id);
+    }
+    await recordLoginAttempt(username, ipAddress, true);
+    await supabase
+        .from('login_attempts')
+        .delete()
+        .lt('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+
     // Generate token
     const token = generateToken();
 
-    // Store session
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days expiry
-
+    // Store session (hashed; the raw token only ever lives in the cookie)
     const { error: sessionError } = await supabase
         .from('user_sessions')
         .insert({
             user_id: user.id,
-            token: token,
-            expires_at: expiresAt.toISOString(),
+            token_hash: await hashToken(token),
+            expires_at: getSessionExpiry().toISOString(),
+            last_activity: new Date().toISOString(),
         });
 
     if (sessionError) {
         console.error('Error creating session:', sessionError);
+        throw new Error('Failed to create session');
     }
 
     // Log audit
@@ -84,14 +283,7 @@ export async function loginUser(credentials: LoginInput): Promise<AuthUser> {
     });
 
     return {
-        id: user.id,
-        email: user.email,
-        username: user.username,
-        role: user.role,
-        full_name: user.full_name,
-        is_active: user.is_active,
-        created_at: user.created_at,
-        updated_at: user.updated_at,
+        ...toPublicUser(user),
         token,
     };
 }
@@ -99,18 +291,20 @@ export async function loginUser(credentials: LoginInput): Promise<AuthUser> {
 /**
  * Logout user and invalidate session
  */
-export async function logoutUser(userId: string, token: string): Promise<void> {
-    // Invalidate session
-    const { error } = await supabase
+export async function logoutUser(token: string): Promise<void> {
+    const { data, error } = await supabase
         .from('user_sessions')
         .delete()
-        .eq('user_id', userId)
-        .eq('token', token);
+        .eq('token_hash', await hashToken(token))
+        .select('user_id');
 
     if (error) {
         console.error('Error invalidating session:', error);
     }
 
+    const userId = data?.[0]?.user_id;
+    if (!userId) return;
+
     // Log audit
     await supabase.from('audit_log').insert({
         user_id: userId,
@@ -121,32 +315,40 @@ export async function logoutUser(userId: string, token: string): Promise<void> {
 }
 
 /**
- * Verify session token
+ * Verify a session token and slide its expiry forward.
+ * Returns the session's user id, or null if the token is unknown or expired.
+ * Database errors are thrown: they say nothing about the session.
  */
-export async function verifySession(userId: string, token: string): Promise<boolean> {
+export async function verifySession(token: string): Promise<string | null> {
+    if (!token) return null;
+
     const { data, error } = await supabase
         .from('user_sessions')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('token', token)
+        .select('id, user_id')
+        .eq('token_hash', await hashToken(token))
         .gt('expires_at', new Date().toISOString())
         .limit(1);
 
-    if (error || !data || data.length === 0) {
-        return false;
+    if (error) throw error;
+    if (!data || data.length === 0) {
+        return null;
     }
 
-    // Update last activity
+    // Update last activity and extend the sliding window
+    const now = new Date();
     await supabase
         .from('user_sessions')
-        .update({ last_activity: new Date().toISOString() })
+        .update({
+            last_activity: now.toISOString(),
+            expires_at: getSessionExpiry(now).toISOString(),
+        })
         .eq('id', data[0].id);
 
-    return true;
+    return data[0].user_id;
 }
 
 /**
- * Get user by ID
+ * Get user by ID (null if there is none; database errors are thrown)
  */
 export async function getUserById(userId: string): Promise<User | null> {
     const { data, error } = await supabase
@@ -155,7 +357,8 @@ export async function getUserById(userId: string): Promise<User | null> {
         .eq('id', userId)
         .limit(1);
 
-    if (error || !data || data.length === 0) {
+    if (error) throw error;
+    if (!data || data.length === 0) {
         return null;
     }
 
@@ -163,15 +366,35 @@ export async function getUserById(userId: string): Promise<User | null> {
 }
 
 /**
- * Register a new user (Admin only)
+ * Resolve the active user behind a session, or null if the session is invalid
+ */
+export async function getSessionUser(token: string): Promise<User | null> {
+    const userId = await verifySession(token);
+    if (!userId) {
+        return null;
+    }
+
+    const user = await getUserById(userId);
+    if (!user || !user.is_active) {
+        return null;
+    }
+
+    return toPublicUser(user);
+}
+
+/**
+ * Register a new user (Admin only). Student logins pass the student record
+ * they belong to.
  */
 export async function registerUser(
     email: string,
     username: string,
     password: string,
-    role: 'admin' | 'teacher',
+    role: UserRole,
     full_name: string,
-    createdByAdmin: string
+    createdByAdmin: string,
+    departmentId: string,
+    studentRecordId: string | null = null
 ): Promise<User> {
     // Check if user already exists
     const { data: existing } = await supabase
@@ -196,6 +419,8 @@ export async function registerUser(
             role,
             full_name,
             is_active: true,
+            department_id: departmentId,
+            student_record_id: studentRecordId,
         })
         .select()
         .limit(1);
@@ -213,45 +438,7 @@ export async function registerUser(
         changes: { role, full_name },
     });
 
-    return data[0];
-}
-
-/**
- * Get all teachers
- */
-export async function getAllTeachers(): Promise<User[]> {
-    const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('role', 'teacher')
-        .eq('is_active', true)
-        .order('full_name', { ascending: true });
-
-    if (error) {
-        console.error('Error fetching teachers:', error);
-        return [];
-    }
-
-    return data || [];
-}
-
-/**
- * Get all users (Admin only)
- */
-export async function getAllUsers(): Promise<User[]> {
-    const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('is_active', true)
-        .neq('username', 'STAR_ARTS') // Hide system administrator
-        .order('created_at', { ascending: false });
-
-    if (error) {
-        console.error('Error fetching users:', error);
-        return [];
-    }
-
-    return data || [];
+    return toPublicUser(data[0]);
 }
 
 /**
@@ -263,9 +450,10 @@ export async function updateUser(
         email: string;
         username: string;
         password: string;
-        role: 'admin' | 'teacher';
+        role: UserRole;
         full_name: string;
         is_active: boolean;
+        student_record_id: string | null;
     }>,
     updatedBy?: string,
 ): Promise<User> {
@@ -288,18 +476,208 @@ export async function updateUser(
         throw new Error('Failed to update user');
     }
 
-    // Log audit
+    // Log audit (never the password hash)
     if (updatedBy) {
+        const { password_hash, ...changes } = payload;
         await supabase.from('audit_log').insert({
             user_id: updatedBy,
             action: 'UPDATE_USER',
             entity_type: 'USER',
             entity_id: userId,
-            changes: payload,
+            changes: password_hash ? { ...changes, password: 'changed' } : changes,
         });
     }
 
-    return data[0];
+    return toPublicUser(data[0]);
+}
+
+/**
+ * Switch a super-admin to another department. Everything they see and
+ * change afterwards is scoped to it, in every session.
+ */
+export async function setActiveDepartment(userId: string, departmentId: string): Promise<User> {
+    const { data, error } = await supabase
+        .from('users')
+        .update({ department_id: departmentId })
+        .eq('id', userId)
+        .eq('is_super_admin', true)
+        .select()
+        .limit(1);
+
+    if (error || !data || data.length === 0) {
+        throw new Error('Failed to switch department');
+    }
+
+    return toPublicUser(data[0]);
+}
+
+/**
+ * Why a new password is not acceptable, or null if it is
+ */
+export function validateNewPassword(password: string, currentPassword?: string): string | null {
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+        return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+    if (currentPassword !== undefined && password === currentPassword) {
+        return 'The new password must be different from the current one';
+    }
+    return null;
+}
+
+/**
+ * Why an account form is not acceptable, or null if it is. A password is
+ * required when creating; when editing, a blank one keeps the current one.
+ */
+export function validateUserInput(input: Partial<SaveUserInput>, creating: boolean): string | null {
+    const fields = [input.email, input.username, input.full_name, input.password, input.student_identifier];
+    if (fields.some((value) => value !== undefined && value !== null && typeof value !== 'string')) {
+        return 'Invalid user details';
+    }
+    if (!input.email?.trim() || !input.username?.trim()) {
+        return 'Email and username are required';
+    }
+    if (!/^[^\s@,()"]+@[^\s@,()"]+$/.test(input.email.trim())) {
+        return 'Enter a valid email address';
+    }
+    if (!/^[A-Za-z0-9._-]+$/.test(input.username.trim())) {
+        return 'Usernames may only contain letters, digits, dots, dashes and underscores';
+    }
+    if (!ROLES.includes(input.role as UserRole)) {
+        return 'Invalid role';
+    }
+    if (creating || input.password) {
+        return validateNewPassword(input.password || '');
+    }
+    return null;
+}
+
+/**
+ * Check a user's current password (before letting them change it)
+ */
+export async function verifyUserPassword(userId: string, password: string): Promise<boolean> {
+    const { data: users, error } = await supabase
+        .from('users')
+        .select('password_hash')
+        .eq('id', userId)
+        .limit(1);
+
+    if (error || !users || users.length === 0) {
+        return false;
+    }
+
+    return comparePassword(password, users[0].password_hash);
+}
+
+/**
+ * Set the signed-in user's own password. Clears must_change_password and
+ * signs out their other sessions; the session making the change stays valid.
+ */
+export async function changePassword(
+    userId: string,
+    newPassword: string,
+    currentToken?: string,
+): Promise<User> {
+    const { data, error } = await supabase
+        .from('users')
+        .update({
+            password_hash: await hashPassword(newPassword),
+            must_change_password: false,
+        })
+        .eq('id', userId)
+        .select()
+        .limit(1);
+
+    if (error || !data || data.length === 0) {
+        throw new Error('Failed to change password');
+    }
+
+    let otherSessions = supabase.from('user_sessions').delete().eq('user_id', userId);
+    if (currentToken) {
+        otherSessions = otherSessions.neq('token_hash', await hashToken(currentToken));
+    }
+    await otherSessions;
+
+    await supabase.from('audit_log').insert({
+        user_id: userId,
+        action: 'CHANGE_PASSWORD',
+        entity_type: 'USER',
+        entity_id: userId,
+    });
+
+    return toPublicUser(data[0]);
+}
+
+/**
+ * Generate a one-time temporary password (no look-alike characters)
+ */
+function generateTemporaryPassword(length: number = 12): string {
+    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
+    const bytes = new Uint8Array(length);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, (b) => chars[b % chars.length]).join('');
+}
+
+/**
+ * Reset a user's password to a temporary one (Admin only). The user is
+ * signed out everywhere and must choose a new password on next login.
+ * Returns the temporary password; it is not stored anywhere in plain text.
+ */
+export async function resetUserPassword(userId: string, resetBy: string): Promise<string> {
+    const temporaryPassword = generateTemporaryPassword();
+
+    const { data, error } = await supabase
+        .from('users')
+        .update({
+            password_hash: await hashPassword(temporaryPassword),
+            must_change_password: true,
+        })
+        .eq('id', userId)
+        .select('id')
+        .limit(1);
+
+    if (error || !data || data.length === 0) {
+        throw new Error('Failed to reset password');
+    }
+
+    await supabase.from('user_sessions').delete().eq('user_id', userId);
+
+    await supabase.from('audit_log').insert({
+        user_id: resetBy,
+        action: 'RESET_PASSWORD',
+        entity_type: 'USER',
+        entity_id: userId,
+    });
+
+    return temporaryPassword;
+}
+
+/**
+ * Clear a locked-out account's failed login count and lock. Admin only
+ */
+export async function unlockUser(userId: string, unlockedBy: string): Promise<void> {
+    const { data, error } = await supabase
+        .from('users')
+        .update({ failed_login_count: 0, locked_until: null })
+        .eq('id', userId)
+        .select('id, username')
+        .limit(1);
+
+    if (error || !data || data.length === 0) {
+        throw new Error('Failed to unlock user');
+    }
+
+    await supabase
+        .from('login_attempts')
+        .delete()
+        .eq('username', data[0].username)
+        .eq('succeeded', false);
+
+    await supabase.from('audit_log').insert({
+        user_id: unlockedBy,
+        action: 'UNLOCK_USER',
+        entity_type: 'USER',
+        entity_id: userId,
+    });
 }
 
 /**
@@ -0,0 +1,73 @@
+/**
+ * Branding
+ * Institution and department names, logo, sheet titles and signatories
+ * printed on every export. Stored in institution_settings (one row per
+ * department, edited on the Branding page); DEFAULT_BRANDING is used until
+ * that row exists.
+ */
+import { AcademicYear, InstitutionSettings } from "./types";
+
+export const DEFAULT_BRANDING: InstitutionSettings = {
+  institution_name: "M.E.S. Wadia College of Engineering",
+  institution_short_name: "WCE",
+  institution_address: "Pune-01",
+  department_name: "Department of Computer Engineering",
+  logo_url: null,
+  sheet_title_template: "BE Project {sheet} TW Evaluation Sheet ({start_year}–{end_year})",
+  classification_title_template: "Student Project {start_year}-{end_year_short}",
+  coordinator_name: null,
+  hod_name: null,
+};
+
+/** Placeholders the title templates may use */
+export const TITLE_PLACEHOLDERS = ["{sheet}", "{start_year}", "{end_year}", "{end_year_short}"];
+
+/** Largest logo accepted, as a data URL (about 375 KB of image) */
+export const MAX_LOGO_LENGTH = 500_000;
+
+/**
+ * Institution line of the report header, e.g.
+ * "M.E.S. Wadia College of Engineering, Pune-01"
+ */
+export function institutionLine(branding: InstitutionSettings): string {
+  return branding.institution_address
+    ? `${branding.institution_name}, ${branding.institution_address}`
+    : branding.institution_name;
+}
+
+/**
+ * Fill a title template. Unknown placeholders are left as typed so a typo
+ * shows up on the sheet instead of disappearing.
+ */
+export function fillTitleTemplate(
+  template: string,
+  academicYear: Pick<AcademicYear, "start_year" | "end_year">,
+  sheet: string = "",
+): string {
+  const values: Record<string, string> = {
+    sheet,
+    start_year: String(academicYear.start_year),
+    end_year: String(academicYear.end_year),
+    end_year_short: String(academicYear.end_year % 100).padStart(2, "0"),
+  };
+
+  return template
+    .replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+/**
+ * Titles of the three signature blocks and the name printed under each.
+ * The guide is filled in per sheet.
+ */
+export function signatories(
+  branding: InstitutionSettings,
+  guideName?: string,
+): { label: string; name?: string }[] {
+  return [
+    { label: "Project Guide", name: guideName },
+    { label: "Project Coordinator", name: branding.coordinator_name || undefined },
+    { label: "Head of Department", name: branding.hod_name || undefined },
+  ];
+}
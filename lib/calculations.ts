@@ -1,50 +1,31 @@
-import { Evaluation, CalculatedMarks } from './types';
-
-// Presentation 1: Problem ID (10) + Literature (10) + Software Eng (10) + Req Analysis (10) + SRS (10) = 50
-export function calculateInternalPresentation1(evaluation: Partial<Evaluation>): number {
-    const sum = (
-        (evaluation.problem_identification || 0) +
-        (evaluation.literature_survey || 0) +
-        (evaluation.software_engineering || 0) +
-        (evaluation.requirement_analysis || 0) +
-        (evaluation.srs || 0)
-    );
-    return Math.min(sum, 50);
+import { Evaluation, CalculatedMarks, Rubric } from './types';
+import { DEFAULT_MARK_LIMITS } from './constants';
+import { calculateRubricTotal, findCriterion, getDefaultRubric } from './rubric';
+
+/**
+ * Rubrics to use per presentation number (1-4). Any presentation without an
+ * entry falls back to its default rubric from DEFAULT_COLUMNS.
+ */
+export type RubricSet = Partial<Record<number, Rubric>>;
+
+// Presentation 1: Problem ID (10) + Literature (10) + Software Eng (10) + Req Analysis (10) + SRS (10) = 50 by default
+export function calculateInternalPresentation1(evaluation: Partial<Evaluation>, rubric?: Rubric): number {
+    return calculateRubricTotal(evaluation, rubric || getDefaultRubric(1));
 }
 
-// Presentation 2: Modeling & Designing (10) + Planning & Prototyping (10) + Presentation & Q & A (10) + Partial Project Report (10) + Paper Presentation (10) = 50
-export function calculateInternalPresentation2(evaluation: Partial<Evaluation>): number {
-    const sum = (
-        (evaluation.individual_capacity || 0) +
-        (evaluation.team_work || 0) +
-        (evaluation.presentation_qa || 0) +
-        (evaluation.partial_project_report || 0) +
-        (evaluation.paper_presentation || 0)
-    );
-    return Math.min(sum, 50);
+// Presentation 2: Modeling & Designing (10) + Planning & Prototyping (10) + Presentation & Q & A (10) + Partial Project Report (10) + Paper Presentation (10) = 50 by default
+export function calculateInternalPresentation2(evaluation: Partial<Evaluation>, rubric?: Rubric): number {
+    return calculateRubricTotal(evaluation, rubric || getDefaultRubric(2));
 }
 
-// Presentation 3: Identification (10) + Coding (10) + Team Work (10) + Understanding (10) + Presentation (10) = 50
-export function calculateInternalPresentation3(evaluation: Partial<Evaluation>): number {
-    const sum = (
-        (evaluation.identification_module || 0) +
-        (evaluation.coding || 0) +
-        (evaluation.team_work || 0) +
-        (evaluation.understanding || 0) +
-        (evaluation.internal_presentation_iii || 0)
-    );
-    return Math.min(sum, 50);
+// Presentation 3: Identification (10) + Coding (10) + Team Work (10) + Understanding (10) + Presentation (10) = 50 by default
+export function calculateInternalPresentation3(evaluation: Partial<Evaluation>, rubric?: Rubric): number {
+    return calculateRubricTotal(evaluation, rubric || getDefaultRubric(3));
 }
 
-// Presentation 4: Testing (10) + Participation (10) + Publication (10) + Project Report (20) = 50
-export function calculateInternalPresentation4(evaluation: Partial<Evaluation>): number {
-    const sum = (
-        (evaluation.testing || 0) +
-        (evaluation.participation_conference || 0) +
-        (evaluation.publication || 0) +
-        (evaluation.project_report || 0)
-    );
-    return Math.min(sum, 50);
+// Presentation 4: Testing (10) + Participation (10) + Publication (10) + Project Report (20) = 50 by default
+export function calculateInternalPresentation4(evaluation: Partial<Evaluation>, rubric?: Rubric): number {
+    return calculateRubricTotal(evaluation, rubric || getDefaultRubric(4));
 }
 
 export function calculateTotalOut100(internal1: number, internal2: number): number {
@@ -56,13 +37,30 @@ export function getTotalOut50(total_out_of_100: number): number {
 }
 
 /**
- * Calculate all marks at once
+ * One student's evaluation row per presentation number (1-4). Each
+ * presentation keeps its own evaluations row, so marks for the same real
+ * student (one student record) are gathered from up to four rows.
+ */
+export type EvaluationSet = Partial<Record<number, Partial<Evaluation>>>;
+
+/**
+ * Calculate all marks at once.
+ * Pass the presentation rubrics so renamed/hidden/extra columns are honoured
+ * and external examiner sheets are merged with each rubric's combine rule.
+ */
+export function calculateAllMarks(evaluation: Partial<Evaluation>, rubrics: RubricSet = {}): CalculatedMarks {
+    return calculateStudentMarks({ 1: evaluation, 2: evaluation, 3: evaluation, 4: evaluation }, rubrics);
+}
+
+/**
+ * Calculate a student's marks across presentations, each internal total
+ * from that presentation's own evaluation row. Missing rows count as 0.
  */
-export function calculateAllMarks(evaluation: Partial<Evaluation>): CalculatedMarks {
-    const internal_presentation_i = calculateInternalPresentation1(evaluation);
-    const internal_presentation_ii = calculateInternalPresentation2(evaluation);
-    const internal_presentation_iii = calculateInternalPresentation3(evaluation);
-    const internal_presentation_iv = calculateInternalPresentation4(evaluation);
+export function calculateStudentMarks(evaluations: EvaluationSet, rubrics: RubricSet = {}): CalculatedMarks {
+    const internal_presentation_i = calculateInternalPresentation1(evaluations[1] || {}, rubrics[1]);
+    const internal_presentation_ii = calculateInternalPresentation2(evaluations[2] || {}, rubrics[2]);
+    const internal_presentation_iii = calculateInternalPresentation3(evaluations[3] || {}, rubrics[3]);
+    const internal_presentation_iv = calculateInternalPresentation4(evaluations[4] || {}, rubrics[4]);
 
     const total_out_of_100 = calculateTotalOut100(
         internal_presentation_i + internal_presentation_iii,
@@ -84,30 +82,9 @@ export function calculateAllMarks(evaluation: Partial<Evaluation>): CalculatedMa
 /**
  * Validate that a mark doesn't exceed its maximum
  */
-export function validateMark(field: string, value: number): boolean {
-    const maxValues: Record<string, number> = {
-        problem_identification: 10,
-        literature_survey: 10,
-        software_engineering: 10,
-        requirement_analysis: 10,
-        srs: 10,
-        individual_capacity: 10,
-        team_work: 10,
-        presentation_qa: 10,
-        paper_presentation: 10,
-        partial_project_report: 10,
-        identification_module: 10,
-        coding: 10,
-        understanding: 10,
-        internal_presentation_iii: 10,
-        testing: 10,
-        participation_conference: 10,
-        publication: 10,
-        project_report: 20,
-        internal_presentation_iv: 10,
-    };
-
-    const max = maxValues[field];
+export function validateMark(field: string, value: number, rubric?: Rubric): boolean {
+    const criterion = rubric ? findCriterion(rubric, field) : undefined;
+    const max = criterion ? criterion.maxMark : DEFAULT_MARK_LIMITS[field];
     if (max === undefined) return true;
 
     return value >= 0 && value <= max;
@@ -116,28 +93,9 @@ export function validateMark(field: string, value: number): boolean {
 /**
  * Get the maximum value for a field
  */
-export function getMaxValue(field: string): number {
-    const maxValues: Record<string, number> = {
-        problem_identification: 10,
-        literature_survey: 10,
-        software_engineering: 10,
-        requirement_analysis: 10,
-        srs: 10,
-        individual_capacity: 10,
-        team_work: 10,
-        presentation_qa: 10,
-        paper_presentation: 10,
-        partial_project_report: 10,
-        identification_module: 10,
-        coding: 10,
-        understanding: 10,
-        internal_presentation_iii: 10,
-        testing: 10,
-        participation_conference: 10,
-        publication: 10,
-        project_report: 20,
-        internal_presentation_iv: 10,
-    };
+export function getMaxValue(field: string, rubric?: Rubric): number {
+    const criterion = rubric ? findCriterion(rubric, field) : undefined;
+    if (criterion) return criterion.maxMark;
 
-    return maxValues[field] || 0;
+    return DEFAULT_MARK_LIMITS[field] || 0;
 }
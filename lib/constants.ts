@@ -1,3 +1,5 @@
+import { MarkCombineRule } from "./types";
+
 /**
  * Centralized column configuration for all presentations.
  * This ensures consistency between the display, the settings modal, and Excel exports.
@@ -73,3 +75,31 @@ export const DEFAULT_MARK_LIMITS: Record<string, number> = {
   finance_self: 10,
   finance_industry: 10,
 };
+
+/**
+ * Number of students a project group can have.
+ */
+export const MIN_GROUP_STUDENTS = 1;
+export const MAX_GROUP_STUDENTS = 6;
+
+/**
+ * Minimum length for passwords users choose themselves.
+ */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Built-in accounts that cannot be deleted
+ */
+export const PROTECTED_USERNAMES = ["meswcoe_admin", "STAR_ARTS"];
+
+/**
+ * Examiner marks for a criterion are flagged for reconciliation when the
+ * highest and lowest differ by more than this share of the criterion maximum.
+ */
+export const EXAMINER_DISAGREEMENT_RATIO = 0.2;
+
+export const COMBINE_RULE_LABELS: Record<MarkCombineRule, string> = {
+  average: "Average of all examiners",
+  max: "Highest mark",
+  guide_weighted: "Guide-weighted",
+};
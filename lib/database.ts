@@ -1,3 +1,4 @@
+import { SupabaseClient } from "@supabase/supabase-js";
 import { supabase } from "./supabase";
 import {
   AcademicYear,
@@ -11,7 +12,153 @@ import {
   GroupWithStudents,
   StudentWithEvaluation,
   PresentationWithGroups,
+  GroupImportRow,
+  PresentationLockStatus,
+  AuditAction,
+  ExaminerMarks,
+  PresentationExaminer,
+  UpdateExaminersInput,
+  StudentRecord,
+  StudentRecordUpdate,
+  InstitutionSettings,
+  InstitutionSettingsUpdate,
+  Department,
+  User,
 } from "./types";
+import { recordAudit } from "./audit";
+import { DEFAULT_BRANDING } from "./branding";
+import { permissionScope } from "./permissions";
+import { assertPresentationEditable, getLockStatus } from "./presentationLock";
+import {
+  academicYearSlug,
+  presentationSlug,
+  nextAvailableSlug,
+  isUuid,
+  isLegacySlug,
+} from "./slugs";
+
+/**
+ * A database function refused an operation (e.g. the group number is taken).
+ * The whole operation was rolled back; the message is meant for the user.
+ */
+export class GroupOperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GroupOperationError";
+  }
+}
+
+/**
+ * Turn a Supabase RPC error into something worth showing: exceptions raised
+ * by our own database functions (SQLSTATE P0001) carry a readable message.
+ */
+function rpcError(error: any, action: string): Error {
+  if (error?.code === "P0001") {
+    return new GroupOperationError(error.message);
+  }
+  return new Error(`Failed to ${action}: ${error?.message || JSON.stringify(error)}`);
+}
+
+// =====================================================
+// Slugs
+// =====================================================
+
+type SluggedTable = "academic_years" | "presentations";
+
+/** Unique index on (department_id, slug) for each slugged table */
+const SLUG_INDEXES: Record<SluggedTable, string> = {
+  academic_years: "idx_academic_years_department_slug",
+  presentations: "idx_presentations_department_slug",
+};
+
+/**
+ * Insert a row with the first slug derived from baseSlug that is free in
+ * the department. A concurrent insert taking the same slug trips the
+ * unique slug index and we pick again; any other conflict is an error.
+ * Pass insert to create the row some other way than a plain insert.
+ */
+async function insertWithUniqueSlug(
+  table: SluggedTable,
+  departmentId: string,
+  row: Record<string, any>,
+  baseSlug: string,
+  insert: (slug: string) => PromiseLike<{ data: any; error: any }> = (slug) =>
+    supabase.from(table).insert([{ ...row, slug }]).select().single(),
+): Promise<any> {
+  const MAX_ATTEMPTS = 5;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const { data: existing, error: slugError } = await supabase
+      .from(table)
+      .select("slug")
+      .eq("department_id", departmentId)
+      .like("slug", `${baseSlug}%`);
+
+    if (slugError) throw slugError;
+
+    const slug = nextAvailableSlug(
+      baseSlug,
+      (existing || []).map((r: any) => r.slug),
+    );
+
+    const { data, error } = await insert(slug);
+
+    if (!error) return data;
+    const slugTaken =
+      error.code === "23505" && String(error.message).includes(SLUG_INDEXES[table]);
+    if (!slugTaken) throw rpcError(error, "save");
+  }
+
+  throw new Error(`Could not find a free slug for ${baseSlug}`);
+}
+
+/**
+ * Look a department's row up by UUID, stored slug or (for old bookmarks)
+ * legacy code. Returns null when nothing in the department matches.
+ */
+async function findBySlugOrId<T>(
+  table: SluggedTable,
+  slugOrId: string,
+  departmentId: string,
+): Promise<T | null> {
+  if (isUuid(slugOrId)) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("*")
+      .eq("id", slugOrId)
+      .eq("department_id", departmentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  const { data, error } = await supabase
+    .from(table)
+    .select("*")
+    .eq("department_id", departmentId)
+    .eq("slug", slugOrId.toLowerCase())
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data || !isLegacySlug(slugOrId)) return data;
+
+  // Legacy codes are only 3 characters of the id, so they can collide
+  const { data: legacy, error: legacyError } = await supabase
+    .from(table)
+    .select("*")
+    .eq("department_id", departmentId)
+    .eq("legacy_slug", slugOrId.toUpperCase())
+    .limit(2);
+
+  if (legacyError) throw legacyError;
+  if (legacy && legacy.length > 1) {
+    throw new Error(
+      `The link ${slugOrId} is ambiguous. Open it again from the dashboard.`,
+    );
+  }
+  return legacy?.[0] ?? null;
+}
 
 // =====================================================
 // Academic Year Operations
@@ -20,10 +167,11 @@ import {
 export async function createAcademicYear(
   input: CreateAcademicYearInput,
 ): Promise<AcademicYear> {
-  // Check if an academic year with same start_year and end_year already exists
+  // Check if the department already has an academic year with these years
   const { data: existingYears, error: checkError } = await supabase
     .from("academic_years")
     .select("*")
+    .eq("department_id", input.department_id)
     .eq("start_year", input.start_year)
     .eq("end_year", input.end_year);
 
@@ -35,13 +183,12 @@ export async function createAcademicYear(
   // Generate name from years
   const name = `${input.start_year}-${input.end_year}`;
 
-  const { data, error } = await supabase
-    .from("academic_years")
-    .insert([{ name, ...input }])
-    .select()
-    .single();
-
-  if (error) throw error;
+  const data: AcademicYear = await insertWithUniqueSlug(
+    "academic_years",
+    input.department_id,
+    { name, ...input },
+    academicYearSlug(input.start_year, input.end_year),
+  );
 
   // Auto-create 4 presentations for this academic year
   const presentations = [
@@ -51,27 +198,34 @@ export async function createAcademicYear(
     { name: "Presentation 4", semester: "Semester 2", academic_year_id: data.id },
   ];
 
-  const { error: presError } = await supabase
-    .from("presentations")
-    .insert(presentations);
-
-  if (presError) throw presError;
+  for (const presentation of presentations) {
+    await insertWithUniqueSlug(
+      "presentations",
+      data.department_id,
+      presentation,
+      presentationSlug(data.slug!, presentation.name),
+    );
+  }
 
   return data;
 }
 
-export async function getAllAcademicYears(): Promise<AcademicYear[]> {
+export async function getAllAcademicYears(departmentId: string): Promise<AcademicYear[]> {
   const { data, error } = await supabase
     .from("academic_years")
     .select("*")
+    .eq("department_id", departmentId)
     .order("start_year", { ascending: false });
 
   if (error) throw error;
   return data || [];
 }
 
-export async function getAcademicYear(id: string): Promise<AcademicYear> {
-  const { data, error } = await supabase
+export async function getAcademicYear(
+  id: string,
+  db: SupabaseClient = supabase,
+): Promise<AcademicYear> {
+  const { data, error } = await db
     .from("academic_years")
     .select("*")
     .eq("id", id)
@@ -83,43 +237,14 @@ export async function getAcademicYear(id: string): Promise<AcademicYear> {
 
 /**
  * Get academic year by slug or ID
- * Handles both UUID and short slug identifiers
+ * Handles UUIDs, stored slugs and legacy 3-character codes
  */
 export async function getAcademicYearBySlugOrId(
   slugOrId: string,
+  departmentId: string,
 ): Promise<AcademicYear> {
-  // First try to get by ID directly (in case it's a UUID)
-  if (slugOrId.includes("-") || slugOrId.length > 3) {
-    try {
-      const { data, error } = await supabase
-        .from("academic_years")
-        .select("*")
-        .eq("id", slugOrId)
-        .single();
-
-      if (data) return data;
-    } catch {
-      // Continue to slug lookup if ID lookup fails
-    }
-  }
-
-  // If not found or slug provided, search by slug pattern
-  // The slug is generated from the first part of the UUID
-  // We need to do a broader search since we can't reverse the slug hash
-  const { data: allYears, error } = await supabase
-    .from("academic_years")
-    .select("*")
-    .order("created_at", { ascending: false });
-
-  if (error) throw error;
-
-  // Find matching year by comparing generated slug
-  const { generateSlug } = await import("./slugs");
-  const matchedYear = allYears?.find(
-    (year) => generateSlug(year.id).toUpperCase() === slugOrId.toUpperCase(),
-  );
-
-  if (matchedYear) return matchedYear;
+  const year = await findBySlugOrId<AcademicYear>("academic_years", slugOrId, departmentId);
+  if (year) return year;
 
   throw new Error(
     `Academic year not found with slug or ID: ${slugOrId}`,
@@ -128,7 +253,7 @@ export async function getAcademicYearBySlugOrId(
 
 export async function updateAcademicYear(
   id: string,
-  input: Partial<CreateAcademicYearInput>,
+  input: Partial<Omit<CreateAcademicYearInput, "department_id">>,
 ): Promise<AcademicYear> {
   const { data, error } = await supabase
     .from("academic_years")
@@ -154,83 +279,32 @@ export async function deleteAcademicYear(id: string): Promise<void> {
 export async function createPresentation(
   input: CreatePresentationInput,
 ): Promise<Presentation> {
-  const { data, error } = await supabase
-    .from("presentations")
-    .insert([input])
-    .select()
-    .single();
-
-  if (error) throw error;
-
-  // Auto-copy groups from Presentation 1 if this is P2, P3, or P4
-  const isP2P3P4 = input.name.match(/[234]$/);
-  if (isP2P3P4) {
-    try {
-      // Find Presentation 1 in the same academic year
-      const { data: p1 } = await supabase
-        .from("presentations")
-        .select("id")
-        .eq("academic_year_id", input.academic_year_id)
-        .eq("name", input.name.replace(/[234]$/, "1"))
-        .single();
-
-      if (p1) {
-        // Copy all groups from P1 to this new presentation
-        const { data: p1Groups } = await supabase
-          .from("groups")
-          .select("*")
-          .eq("presentation_id", p1.id);
-
-        if (p1Groups && p1Groups.length > 0) {
-          // Create groups with the same number and guide
-          for (const p1Group of p1Groups) {
-            // Create group in new presentation
-            const newGroup = {
-              presentation_id: data.id,
-              group_number: p1Group.group_number,
-              guide_name: p1Group.guide_name,
-              guide_user_id: p1Group.guide_user_id,
-            };
-
-            const { data: createdGroup } = await supabase
-              .from("groups")
-              .insert([newGroup])
-              .select()
-              .single();
-
-            if (createdGroup) {
-              // Copy all students from P1 group
-              const { data: p1Students } = await supabase
-                .from("students")
-                .select("*")
-                .eq("group_id", p1Group.id);
-
-              if (p1Students && p1Students.length > 0) {
-                const studentsToCopy = p1Students.map((s) => ({
-                  group_id: createdGroup.id,
-                  student_name: s.student_name,
-                  position: s.position,
-                }));
-
-                await supabase.from("students").insert(studentsToCopy);
-              }
-            }
-          }
-        }
-      }
-    } catch (err) {
-      console.error("Error auto-copying groups from P1:", err);
-      // Don't throw - presentation was created successfully, just log the error
-    }
-  }
-
-  return data;
+  const year = await getAcademicYear(input.academic_year_id);
+
+  // P2, P3 and P4 start with the groups of Presentation 1 (same transaction)
+  return insertWithUniqueSlug(
+    "presentations",
+    year.department_id,
+    input,
+    presentationSlug(
+      year.slug || academicYearSlug(year.start_year, year.end_year),
+      input.name,
+    ),
+    (slug) =>
+      supabase.rpc("create_presentation_with_groups", {
+        p_name: input.name,
+        p_semester: input.semester ?? null,
+        p_academic_year_id: input.academic_year_id,
+        p_slug: slug,
+      }),
+  );
 }
 
-export async function getAllPresentations(): Promise<Presentation[]> {
+export async function getAllPresentations(departmentId: string): Promise<Presentation[]> {
   const { data, error } = await supabase
     .from("presentations")
     .select("*")
+    .eq("department_id", departmentId)
     .order("created_at", { ascending: false });
 
   if (error) throw error;
@@ -239,8 +313,9 @@ export async function getAllPresentations(): Promise<Presentation[]> {
 
 export async function getPresentationsByAcademicYear(
   academicYearId: string,
+  db: SupabaseClient = supabase,
 ): Promise<Presentation[]> {
-  const { data, error } = await supabase
+  const { data, error } = await db
     .from("presentations")
     .select("*")
     .eq("academic_year_id", academicYearId)
@@ -250,8 +325,11 @@ export async function getPresentationsByAcademicYear(
   return data || [];
 }
 
-export async function getPresentation(id: string): Promise<Presentation> {
-  const { data, error } = await supabase
+export async function getPresentation(
+  id: string,
+  db: SupabaseClient = supabase,
+): Promise<Presentation> {
+  const { data, error } = await db
     .from("presentations")
     .select("*")
     .eq("id", id)
@@ -263,41 +341,18 @@ export async function getPresentation(id: string): Promise<Presentation> {
 
 /**
  * Get presentation by slug or ID
- * Handles both UUID and short slug identifiers
+ * Handles UUIDs, stored slugs and legacy 3-character codes
  */
 export async function getPresentationBySlugOrId(
   slugOrId: string,
+  departmentId: string,
 ): Promise<Presentation> {
-  // First try to get by ID directly (in case it's a UUID)
-  if (slugOrId.includes("-") || slugOrId.length > 3) {
-    try {
-      const { data, error } = await supabase
-        .from("presentations")
-        .select("*")
-        .eq("id", slugOrId)
-        .single();
-
-      if (data) return data;
-    } catch {
-      // Continue to slug lookup if ID lookup fails
-    }
-  }
-
-  // If not found or slug provided, search by slug pattern
-  const { data: allPresentations, error } = await supabase
-    .from("presentations")
-    .select("*")
-    .order("created_at", { ascending: false });
-
-  if (error) throw error;
-
-  // Find matching presentation by comparing generated slug
-  const { generateSlug } = await import("./slugs");
-  const matchedPresentation = allPresentations?.find(
-    (pres) => generateSlug(pres.id).toUpperCase() === slugOrId.toUpperCase(),
+  const presentation = await findBySlugOrId<Presentation>(
+    "presentations",
+    slugOrId,
+    departmentId,
   );
-
-  if (matchedPresentation) return matchedPresentation;
+  if (presentation) return presentation;
 
   throw new Error(
     `Presentation not found with slug or ID: ${slugOrId}`,
@@ -308,7 +363,11 @@ export async function updatePresentationColumns(
   presentationId: string,
   customColumns: Record<string, any>,
   extraColumns?: any[], // CustomColumn[]
+  actorId?: string,
 ): Promise<void> {
+  const before = await getPresentation(presentationId);
+  assertPresentationEditable(before, "admin");
+
   const updates: any = { custom_columns: customColumns };
   if (extraColumns !== undefined) {
     updates.extra_columns = extraColumns;
@@ -320,39 +379,172 @@ export async function updatePresentationColumns(
     .eq("id", presentationId);
 
   if (error) throw error;
+
+  await recordAudit({
+    userId: actorId,
+    action: "UPDATE_COLUMNS",
+    entityType: "PRESENTATION",
+    entityId: presentationId,
+    changes: {
+      old_value: {
+        custom_columns: before.custom_columns || {},
+        extra_columns: before.extra_columns || [],
+      },
+      new_value: {
+        custom_columns: customColumns,
+        extra_columns: extraColumns ?? before.extra_columns ?? [],
+      },
+    },
+  });
 }
 
+/**
+ * Delete a presentation. Guides who only manage their own groups delete just
+ * those groups (through deleteGroup, so the lock rules, P2–P4 copies and
+ * audit trail apply). A locked presentation is never deleted.
+ */
 export async function deletePresentation(
   id: string,
   userId?: string,
   userRole?: string,
 ): Promise<void> {
-  // If teacher is deleting, only delete their own groups
-  if (userRole === "teacher" && userId) {
-    // Get all groups in this presentation
+  const presentation = await getPresentation(id);
+  assertPresentationEditable(presentation, userRole);
+
+  if (permissionScope(userRole, "manage_groups") === "own" && userId) {
     const { data: groups, error: groupsError } = await supabase
       .from("groups")
       .select("id")
       .eq("presentation_id", id)
-      .eq("guide_user_id", userId);
+      .eq("guide_user_id", userId)
+      .order("group_number", { ascending: false }); // Highest first: fewer renumbers
 
     if (groupsError) throw groupsError;
 
-    // Delete only the groups created by this teacher
-    if (groups && groups.length > 0) {
-      const groupIds = groups.map((g) => g.id);
-      const { error: deleteGroupsError } = await supabase
-        .from("groups")
-        .delete()
-        .in("id", groupIds);
-
-      if (deleteGroupsError) throw deleteGroupsError;
+    for (const group of groups || []) {
+      await deleteGroup(group.id, userId, userRole);
     }
-  } else {
-    // Admin: delete the entire presentation (cascade will delete all groups and related data)
-    const { error } = await supabase.from("presentations").delete().eq("id", id);
-    if (error) throw error;
+    return;
+  }
+
+  // Cascade deletes the groups, students and marks
+  const { error } = await supabase.from("presentations").delete().eq("id", id);
+  if (error) throw error;
+
+  await recordAudit({
+    userId,
+    action: "DELETE_PRESENTATION",
+    entityType: "PRESENTATION",
+    entityId: id,
+    changes: { old_value: presentation, new_value: null },
+  });
+}
+
+/**
+ * Move a presentation between open / submitted / locked and audit it.
+ * Unlocking (back to open) requires a reason.
+ */
+export async function setPresentationLockStatus(
+  presentationId: string,
+  status: PresentationLockStatus,
+  actorId?: string,
+  reason?: string,
+): Promise<Presentation> {
+  const before = await getPresentation(presentationId);
+  const previousStatus = getLockStatus(before);
+
+  if (status === "open" && previousStatus !== "open" && !reason?.trim()) {
+    throw new Error("A reason is required to unlock a presentation");
   }
+
+  const { data, error } = await supabase
+    .from("presentations")
+    .update({
+      lock_status: status,
+      lock_changed_at: new Date().toISOString(),
+      lock_changed_by: actorId ?? null,
+      lock_reason: status === "open" ? reason?.trim() || null : before.lock_reason ?? null,
+    })
+    .eq("id", presentationId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const actions: Record<PresentationLockStatus, AuditAction> = {
+    open: "UNLOCK_PRESENTATION",
+    submitted: "SUBMIT_PRESENTATION",
+    locked: "LOCK_PRESENTATION",
+  };
+
+  await recordAudit({
+    userId: actorId,
+    action: actions[status],
+    entityType: "PRESENTATION",
+    entityId: presentationId,
+    changes: {
+      field: "lock_status",
+      old_value: previousStatus,
+      new_value: status,
+      reason: reason?.trim() || undefined,
+    },
+  });
+
+  return data;
+}
+
+/**
+ * Publish a presentation's results, or withdraw them, and audit it.
+ * Publishing (again) snapshots every student's evaluation and examiner
+ * sheets; students and official exports read that snapshot, so marks
+ * changed afterwards stay in draft until the results are republished.
+ */
+export async function setPresentationResultsPublished(
+  presentationId: string,
+  published: boolean,
+  actorId?: string,
+): Promise<Presentation> {
+  const before = await getPresentation(presentationId);
+
+  // Snapshot and publish state are replaced in one transaction
+  const { data, error } = await supabase.rpc("publish_presentation_results", {
+    p_presentation_id: presentationId,
+    p_published: published,
+    p_published_by: actorId ?? null,
+  });
+
+  if (error) throw rpcError(error, published ? "publish results" : "unpublish results");
+
+  await recordAudit({
+    userId: actorId,
+    action: published ? "PUBLISH_RESULTS" : "UNPUBLISH_RESULTS",
+    entityType: "PRESENTATION",
+    entityId: presentationId,
+    changes: {
+      field: "results_published_at",
+      old_value: before.results_published_at ?? null,
+      new_value: data.results_published_at ?? null,
+    },
+  });
+
+  return data;
+}
+
+/**
+ * The evaluations as last published, by student id (empty when the
+ * presentation's results are not published)
+ */
+export async function getPublishedEvaluations(
+  presentationId: string,
+  db: SupabaseClient = supabase,
+): Promise<Map<string, Evaluation>> {
+  const { data, error } = await db
+    .from("published_evaluations")
+    .select("student_id, evaluation")
+    .eq("presentation_id", presentationId);
+
+  if (error) throw error;
+  return new Map((data || []).map((row) => [row.student_id, row.evaluation as Evaluation]));
 }
 
 // =====================================================
@@ -366,154 +558,75 @@ export async function createGroup(
   forceGroupNumber?: number,
   skipPropagation: boolean = false,
 ): Promise<Group> {
-  // If group number is provided (during copy), use it; otherwise calculate next available
-  let nextGroupNumber = forceGroupNumber ?? 1;
-
-  if (!forceGroupNumber) {
-    // Compute current max group_number for the presentation
-    const { data: maxGroup } = await supabase
-      .from("groups")
-      .select("group_number")
-      .eq("presentation_id", input.presentation_id)
-      .order("group_number", { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    if (maxGroup && (maxGroup as any).group_number) {
-      nextGroupNumber = (maxGroup as any).group_number + 1;
-    }
-  }
-
-  let group = null as any;
-  let attempts = 0;
-  const MAX_ATTEMPTS = 5;
-
-  while (attempts < MAX_ATTEMPTS) {
-    const { data: createdGroup, error: groupError } = await supabase
-      .from("groups")
-      .insert([
-        {
-          presentation_id: input.presentation_id,
-          group_number: nextGroupNumber,
-          guide_name: input.guide_name,
-          created_by_user_id: userId,
-          // Use provided guide_user_id (when admin selects a teacher), otherwise if creator is a teacher set to creator's id
-          guide_user_id: input.guide_user_id ?? (userRole === "teacher" ? userId : null),
-        },
-      ])
-      .select()
-      .single();
-
-    if (!groupError) {
-      group = createdGroup;
-      break;
-    }
-
-    // If it's a unique-constraint (another concurrent insert), increment and retry
-    const errMsg = (groupError && (groupError.message || "")).toString();
-    if (
-      errMsg.includes("unique_group_per_presentation") ||
-      errMsg.includes("duplicate key") ||
-      (groupError as any).code === "23505"
-    ) {
-      attempts++;
-      nextGroupNumber++;
-      continue;
-    }
-
-    // Some other error: bubble up with context
-    throw new Error(
-      `Failed to create group: ${groupError.message || JSON.stringify(groupError)}`,
-    );
-  }
-
-  if (!group) {
-    throw new Error(
-      "Failed to create group: could not allocate a unique group number after multiple attempts.",
-    );
-  }
-
-  // Then create 4 students for this group
-  const studentsToInsert = input.students.map((name, index) => ({
-    group_id: group.id,
-    student_name: name,
-    position: index + 1,
-  }));
+  const presentation = await getPresentation(input.presentation_id);
+  assertPresentationEditable(presentation, userRole);
+
+  // Group, students, evaluations and the P2–P4 copies are created in one
+  // transaction; the next free group number is picked under a row lock
+  const { data, error } = await supabase.rpc("create_group_with_students", {
+    p_presentation_id: input.presentation_id,
+    p_guide_name: input.guide_name,
+    // Use provided guide_user_id (when a teacher is picked); otherwise a
+    // guide who only manages their own groups becomes the guide
+    p_guide_user_id:
+      input.guide_user_id ??
+      (permissionScope(userRole, "manage_groups") === "own" ? userId : null),
+    p_created_by: userId ?? null,
+    p_students: input.students,
+    p_group_number: forceGroupNumber ?? null,
+    p_propagate: !skipPropagation,
+    p_record_ids: input.student_record_ids ?? null,
+  });
 
-  const { error: studentsError } = await supabase
-    .from("students")
-    .insert(studentsToInsert);
+  if (error) throw rpcError(error, "create group");
+  return data as Group;
+}
 
-  if (studentsError) {
-    // Rollback: delete the group if student creation fails
-    await supabase.from("groups").delete().eq("id", group.id);
-    throw new Error(
-      `Failed to create students for group ${group.id}: ${studentsError.message || JSON.stringify(studentsError)}`,
-    );
-  }
+/**
+ * Sheets from the presentation's current external examiners, keyed by student id
+ */
+async function getExaminerMarksByStudent(
+  presentationId: string,
+  studentIds: string[],
+  db: SupabaseClient = supabase,
+): Promise<Map<string, ExaminerMarks[]>> {
+  const byStudent = new Map<string, ExaminerMarks[]>();
+  if (studentIds.length === 0) return byStudent;
 
-  // Create empty evaluations for each student
-  const { data: students } = await supabase
-    .from("students")
-    .select("id")
-    .eq("group_id", group.id);
+  const examiners = await getPresentationExaminers(presentationId, db);
+  if (examiners.length === 0) return byStudent;
 
-  if (students) {
-    const evaluationsToInsert = students.map((student) => ({
-      student_id: student.id,
-    }));
+  const { data, error } = await db
+    .from("examiner_marks")
+    .select("*")
+    .in("student_id", studentIds)
+    .in("examiner_id", examiners.map((e) => e.user_id));
 
-    const { error: evalsError } = await supabase
-      .from("evaluations")
-      .insert(evaluationsToInsert);
-    if (evalsError) {
-      throw new Error(
-        `Failed to create evaluations for group ${group.id}: ${evalsError.message || JSON.stringify(evalsError)}`,
-      );
-    }
-  }
+  if (error) throw error;
 
-  // Propagate to P2, P3, P4 if this is P1
-  if (!skipPropagation) {
-    const presentation = await getPresentation(input.presentation_id);
-    if (presentation.name.endsWith("1")) {
-      const allPresentations = await getPresentationsByAcademicYear(
-        presentation.academic_year_id,
-      );
-      const otherPresentations = allPresentations.filter(
-        (p) =>
-          p.id !== presentation.id &&
-          (p.name.endsWith("2") || p.name.endsWith("3") || p.name.endsWith("4")),
-      );
-
-      for (const otherPres of otherPresentations) {
-        try {
-          await createGroup(
-            {
-              ...input,
-              presentation_id: otherPres.id,
-            },
-            userId,
-            userRole,
-            group.group_number,
-            true, // skipPropagation
-          );
-        } catch (err) {
-          console.error(`Error propagating group to ${otherPres.name}:`, err);
-        }
-      }
-    }
+  for (const sheet of data || []) {
+    if (!byStudent.has(sheet.student_id)) byStudent.set(sheet.student_id, []);
+    byStudent.get(sheet.student_id)!.push(sheet);
   }
+  return byStudent;
+}
 
-  return group;
+function withExaminerMarks(
+  evaluation: Evaluation | undefined,
+  sheets: ExaminerMarks[] | undefined,
+): Evaluation | undefined {
+  if (!sheets || sheets.length === 0) return evaluation;
+  // A student marked only by externals still needs an evaluation to carry the sheets
+  return { ...(evaluation || ({} as Evaluation)), examiner_marks: sheets };
 }
 
 // For teachers - get only their groups
 export async function getGroupsByPresentationForTeacher(
   presentationId: string,
   teacherId: string,
+  db: SupabaseClient = supabase,
 ): Promise<GroupWithStudents[]> {
-  const { data: groups, error: groupsError } = await supabase
+  const { data: groups, error: groupsError } = await db
     .from("groups")
     .select("*")
     .eq("presentation_id", presentationId)
@@ -526,7 +639,7 @@ export async function getGroupsByPresentationForTeacher(
   const groupIds = groups.map(g => g.id);
   
   // Get all students for all groups at once (prevents N+1 queries)
-  const { data: allStudents, error: studentsError } = await supabase
+  const { data: allStudents, error: studentsError } = await db
     .from("students")
     .select("*")
     .in("group_id", groupIds)
@@ -537,13 +650,15 @@ export async function getGroupsByPresentationForTeacher(
   const studentIds = (allStudents || []).map(s => s.id);
   
   // Get all evaluations at once (batch query instead of per-student)
-  const { data: allEvaluations, error: evaluationsError } = await supabase
+  const { data: allEvaluations, error: evaluationsError } = await db
     .from("evaluations")
     .select("*")
     .in("student_id", studentIds.length > 0 ? studentIds : ["null"]);
 
   if (evaluationsError) throw evaluationsError;
 
+  const examinerMarksMap = await getExaminerMarksByStudent(presentationId, studentIds, db);
+
   // Build maps for O(1) lookup
   const evaluationMap = new Map((allEvaluations || []).map(e => [e.student_id, e]));
   const studentsByGroupId = new Map<string, StudentWithEvaluation[]>();
@@ -554,7 +669,10 @@ export async function getGroupsByPresentationForTeacher(
     }
     studentsByGroupId.get(student.group_id)!.push({
       ...student,
-      evaluation: evaluationMap.get(student.id) || undefined,
+      evaluation: withExaminerMarks(
+        evaluationMap.get(student.id),
+        examinerMarksMap.get(student.id),
+      ),
     });
   }
 
@@ -567,8 +685,9 @@ export async function getGroupsByPresentationForTeacher(
 
 export async function getGroupsByPresentation(
   presentationId: string,
+  db: SupabaseClient = supabase,
 ): Promise<GroupWithStudents[]> {
-  const { data: groups, error: groupsError } = await supabase
+  const { data: groups, error: groupsError } = await db
     .from("groups")
     .select("*")
     .eq("presentation_id", presentationId)
@@ -580,7 +699,7 @@ export async function getGroupsByPresentation(
   const groupIds = groups.map(g => g.id);
   
   // Get all students for all groups at once (prevents N+1 queries)
-  const { data: allStudents, error: studentsError } = await supabase
+  const { data: allStudents, error: studentsError } = await db
     .from("students")
     .select("*")
     .in("group_id", groupIds)
@@ -591,13 +710,15 @@ export async function getGroupsByPresentation(
   const studentIds = (allStudents || []).map(s => s.id);
   
   // Get all evaluations at once (batch query instead of per-student)
-  const { data: allEvaluations, error: evaluationsError } = await supabase
+  const { data: allEvaluations, error: evaluationsError } = await db
     .from("evaluations")
     .select("*")
     .in("student_id", studentIds.length > 0 ? studentIds : ["null"]);
 
   if (evaluationsError) throw evaluationsError;
 
+  const examinerMarksMap = await getExaminerMarksByStudent(presentationId, studentIds, db);
+
   // Build maps for O(1) lookup
   const evaluationMap = new Map((allEvaluations || []).map(e => [e.student_id, e]));
   const studentsByGroupId = new Map<string, StudentWithEvaluation[]>();
@@ -608,7 +729,10 @@ export async function getGroupsByPresentation(
     }
     studentsByGroupId.get(student.group_id)!.push({
       ...student,
-      evaluation: evaluationMap.get(student.id) || undefined,
+      evaluation: withExaminerMarks(
+        evaluationMap.get(student.id),
+        examinerMarksMap.get(student.id),
+      ),
     });
   }
 
@@ -619,11 +743,15 @@ export async function getGroupsByPresentation(
   }));
 }
 
-export async function deleteGroup(id: string): Promise<void> {
+export async function deleteGroup(
+  id: string,
+  actorId?: string,
+  actorRole?: string,
+): Promise<void> {
   // First, get the group details to know its presentation and group_number
   const { data: groupData, error: fetchError } = await supabase
     .from("groups")
-    .select("id, presentation_id, group_number")
+    .select("id, presentation_id, group_number, guide_name, guide_user_id")
     .eq("id", id)
     .single();
 
@@ -633,6 +761,14 @@ export async function deleteGroup(id: string): Promise<void> {
 
   // Get the presentation to know its academic year
   const presentation = await getPresentation(presentationId);
+  assertPresentationEditable(presentation, actorRole);
+
+  // Snapshot students and marks for the audit trail before they cascade away
+  const { data: deletedStudents } = await supabase
+    .from("students")
+    .select("id, student_name, position, evaluations(*)")
+    .eq("group_id", id)
+    .order("position", { ascending: true });
 
   // Delete the group
   const { error: deleteError } = await supabase
@@ -646,7 +782,7 @@ export async function deleteGroup(id: string): Promise<void> {
   // Get all presentations in this academic year
   const { data: allPresentations, error: presentationsError } = await supabase
     .from("presentations")
-    .select("id, name")
+    .select("id, name, lock_status")
     .eq("academic_year_id", presentation.academic_year_id);
 
   if (presentationsError) throw presentationsError;
@@ -655,9 +791,11 @@ export async function deleteGroup(id: string): Promise<void> {
   const isFromPresentation1 = presentation.name.endsWith("1");
 
   if (isFromPresentation1 && allPresentations) {
-    // Find presentations 2, 3, 4
-    const otherPresentations = allPresentations.filter((p) =>
-      p.name.endsWith("2") || p.name.endsWith("3") || p.name.endsWith("4")
+    // Find presentations 2, 3, 4 (locked ones keep their copy of the group)
+    const otherPresentations = allPresentations.filter(
+      (p) =>
+        (p.name.endsWith("2") || p.name.endsWith("3") || p.name.endsWith("4")) &&
+        getLockStatus(p) !== "locked",
     );
 
     // Delete groups with the same group_number from other presentations
@@ -680,17 +818,32 @@ export async function deleteGroup(id: string): Promise<void> {
 
   // Also normalize the original presentation to remove any gaps
   await normalizeGroupNumbers(presentationId);
+
+  await recordAudit({
+    userId: actorId,
+    action: "DELETE_GROUP",
+    entityType: "GROUP",
+    entityId: id,
+    changes: {
+      presentation_id: presentationId,
+      presentation_name: presentation.name,
+      cascaded: isFromPresentation1,
+      old_value: { ...groupData, students: deletedStudents || [] },
+      new_value: null,
+    },
+  });
 }
 
 export async function updateGroupGuide(
   id: string,
   guideName: string,
   guideUserId?: string,
+  actorId?: string,
 ): Promise<void> {
   // Fetch the group to see if it's from Presentation 1
   const { data: group } = await supabase
     .from("groups")
-    .select("presentation_id, group_number")
+    .select("presentation_id, group_number, guide_name, guide_user_id")
     .eq("id", id)
     .single();
 
@@ -732,34 +885,28 @@ export async function updateGroupGuide(
         .eq("group_number", group.group_number);
     }
   }
+
+  await recordAudit({
+    userId: actorId,
+    action: "UPDATE_GUIDE",
+    entityType: "GROUP",
+    entityId: id,
+    changes: {
+      field: "guide_name",
+      old_value: { guide_name: group.guide_name, guide_user_id: group.guide_user_id },
+      new_value: { guide_name: guideName, guide_user_id: guideUserId ?? null },
+    },
+  });
 }
 
 export async function normalizeGroupNumbers(
   presentationId: string,
 ): Promise<void> {
-  // Fetch groups ordered by current group_number
-  const { data: groups, error } = await supabase
-    .from('groups')
-    .select('id, group_number')
-    .eq('presentation_id', presentationId)
-    .order('group_number', { ascending: true });
-
-  if (error) throw error;
+  const { error } = await supabase.rpc("normalize_group_numbers", {
+    p_presentation_id: presentationId,
+  });
 
-  if (!groups || groups.length === 0) return;
-
-  // Update group numbers sequentially starting at 1
-  for (let i = 0; i < groups.length; i++) {
-    const desired = i + 1;
-    const g = groups[i] as any;
-    if (g.group_number !== desired) {
-      const { error: updErr } = await supabase
-        .from('groups')
-        .update({ group_number: desired })
-        .eq('id', g.id);
-      if (updErr) throw updErr;
-    }
-  }
+  if (error) throw rpcError(error, "normalize group numbers");
 }
 
 export async function copyGroupsFromPresentation(
@@ -768,135 +915,507 @@ export async function copyGroupsFromPresentation(
   userId?: string,
   userRole?: string,
 ): Promise<number> {
-  // Get all groups from source presentation
-  let sourceGroups = await getGroupsByPresentation(sourcePresentationId);
-
-  // For teachers, filter to only their groups
-  if (userRole === "teacher" && userId) {
-    sourceGroups = sourceGroups.filter(group => group.guide_user_id === userId);
-  }
+  assertPresentationEditable(await getPresentation(targetPresentationId), userRole);
+
+  // Groups the target already has (by number) are skipped; guides who only
+  // manage their own groups copy just those. All or nothing.
+  const { data, error } = await supabase.rpc("copy_groups", {
+    p_source_presentation_id: sourcePresentationId,
+    p_target_presentation_id: targetPresentationId,
+    p_guide_user_id:
+      permissionScope(userRole, "manage_groups") === "own" && userId ? userId : null,
+    p_created_by: userId ?? null,
+  });
 
-  // Get all existing groups in target presentation
-  const { data: targetGroups } = await supabase
-    .from('groups')
-    .select('group_number')
-    .eq('presentation_id', targetPresentationId);
+  if (error) throw rpcError(error, "copy groups");
+  return data as number;
+}
 
-  const existingGroupNumbers = new Set(
-    (targetGroups || []).map(g => g.group_number)
-  );
+/**
+ * Create validated import rows as groups in one batch. The whole batch runs
+ * in one transaction: if any row fails, no group is created.
+ */
+export async function importGroups(
+  presentationId: string,
+  rows: GroupImportRow[],
+  userId?: string,
+  userRole?: string,
+): Promise<number> {
+  const presentation = await getPresentation(presentationId);
+  assertPresentationEditable(presentation, userRole);
+
+  const { data, error } = await supabase.rpc("import_groups", {
+    p_presentation_id: presentationId,
+    p_groups: rows.map((row) => ({
+      group_number: row.group_number,
+      guide_name: row.guide_name || row.guide,
+      guide_user_id: row.guide_user_id ?? null,
+      students: row.students,
+      project_title: row.project_title || null,
+    })),
+    p_created_by: userId ?? null,
+    // A guide who only manages their own groups guides every imported group
+    p_default_guide_user_id:
+      permissionScope(userRole, "manage_groups") === "own" ? userId ?? null : null,
+  });
 
-  let copiedCount = 0;
+  if (error) throw rpcError(error, "import groups");
+  return data as number;
+}
 
-  // Copy only groups that don't already exist (prevent duplicates)
-  for (const sourceGroup of sourceGroups) {
-    // Skip if a group with this number already exists in target
-    if (existingGroupNumbers.has(sourceGroup.group_number)) {
-      console.log(`Skipping Group ${sourceGroup.group_number} - already exists in target presentation`);
-      continue;
-    }
+// =====================================================
+// Student Operations
+// =====================================================
 
-    const studentNames = sourceGroup.students.map((s) => s.student_name);
-
-    // Use createGroup with forceGroupNumber to preserve the source group number
-    await createGroup(
-      {
-        presentation_id: targetPresentationId,
-        group_number: sourceGroup.group_number,
-        guide_name: sourceGroup.guide_name,
-        guide_user_id: (sourceGroup as any).guide_user_id || undefined,
-        students: studentNames,
-      },
-      userId,
-      userRole,
-      sourceGroup.group_number,
-    );
-
-    copiedCount++;
-    existingGroupNumbers.add(sourceGroup.group_number);
+/**
+ * Editing a student record clashed with another record (e.g. a PRN that
+ * already belongs to someone else). Nothing was changed.
+ */
+export class StudentRecordConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StudentRecordConflictError";
   }
-
-  return copiedCount;
 }
 
-// =====================================================
-// Student Operations
-// =====================================================
-
+/**
+ * Rename a student. With a student record, the record and every group
+ * membership linked to it (P1–P4, any year) are renamed; rows from before
+ * student records existed fall back to the P1 -> P2–P4 position match.
+ */
 export async function updateStudentName(
   id: string,
   name: string,
+  actorId?: string,
+  actorRole?: string,
 ): Promise<void> {
-  // Fetch student to get group and position
   const { data: student } = await supabase
     .from("students")
-    .select("group_id, position")
+    .select("group_id, position, student_name, student_record_id")
     .eq("id", id)
     .single();
 
   if (!student) throw new Error("Student not found");
 
+  assertPresentationEditable(await getPresentationForStudent(id), actorRole);
+
+  if (student.student_record_id) {
+    const { error: recordError } = await supabase
+      .from("student_records")
+      .update({ full_name: name })
+      .eq("id", student.student_record_id);
+
+    if (recordError) throw recordError;
+
+    await renameRecordMemberships(student.student_record_id, name);
+  } else {
+    const { error } = await supabase
+      .from("students")
+      .update({ student_name: name })
+      .eq("id", id);
+
+    if (error) throw error;
+
+    await propagateNameByPosition(student.group_id, student.position, name);
+  }
+
+  await recordAudit({
+    userId: actorId,
+    action: "RENAME_STUDENT",
+    entityType: "STUDENT",
+    entityId: id,
+    changes: {
+      field: "student_name",
+      old_value: student.student_name,
+      new_value: name,
+      student_record_id: student.student_record_id || undefined,
+    },
+  });
+}
+
+/**
+ * Copy a record's name to its group memberships, except in locked
+ * presentations: they keep the names they were locked with
+ */
+async function renameRecordMemberships(recordId: string, name: string): Promise<void> {
+  const { data: memberships, error } = await supabase
+    .from("students")
+    .select("id, group:groups(presentation:presentations(lock_status))")
+    .eq("student_record_id", recordId);
+
+  if (error) throw error;
+
+  const ids = (memberships || [])
+    .filter((m: any) => getLockStatus(m.group?.presentation ?? {}) !== "locked")
+    .map((m) => m.id);
+  if (ids.length === 0) return;
+
+  const { error: renameError } = await supabase
+    .from("students")
+    .update({ student_name: name })
+    .in("id", ids);
+
+  if (renameError) throw renameError;
+}
+
+// Unlinked students: a rename in Presentation 1 is copied to the student
+// at the same group number and position in Presentations 2–4 (not locked ones)
+async function propagateNameByPosition(
+  groupId: string,
+  position: number,
+  name: string,
+): Promise<void> {
   const { data: group } = await supabase
     .from("groups")
     .select("presentation_id, group_number")
-    .eq("id", student.group_id)
+    .eq("id", groupId)
     .single();
 
   if (!group) throw new Error("Group not found");
 
   const presentation = await getPresentation(group.presentation_id);
+  if (!presentation.name.endsWith("1")) return;
 
-  const { error } = await supabase
+  const allPresentations = await getPresentationsByAcademicYear(
+    presentation.academic_year_id,
+  );
+  const otherPresIds = allPresentations
+    .filter(
+      (p) =>
+        p.id !== presentation.id &&
+        (p.name.endsWith("2") || p.name.endsWith("3") || p.name.endsWith("4")) &&
+        getLockStatus(p) !== "locked",
+    )
+    .map((p) => p.id);
+
+  if (otherPresIds.length === 0) return;
+
+  const { data: otherGroups } = await supabase
+    .from("groups")
+    .select("id")
+    .in("presentation_id", otherPresIds)
+    .eq("group_number", group.group_number);
+
+  const otherGroupIds = otherGroups?.map((og) => og.id) || [];
+
+  if (otherGroupIds.length > 0) {
+    await supabase
+      .from("students")
+      .update({ student_name: name })
+      .in("group_id", otherGroupIds)
+      .eq("position", position)
+      .is("student_record_id", null);
+  }
+}
+
+/**
+ * Add a student to an existing group (1–6 members). In Presentation 1 the
+ * student is also added to the group in Presentations 2–4, sharing one
+ * student record.
+ */
+export async function addStudentToGroup(
+  groupId: string,
+  name: string,
+  actorId?: string,
+  actorRole?: string,
+): Promise<Student> {
+  const { data: group, error: groupError } = await supabase
+    .from("groups")
+    .select("presentation_id, group_number")
+    .eq("id", groupId)
+    .single();
+
+  if (groupError || !group) throw new Error("Group not found");
+
+  const presentation = await getPresentation(group.presentation_id);
+  assertPresentationEditable(presentation, actorRole);
+
+  const { data, error } = await supabase.rpc("add_group_student", {
+    p_group_id: groupId,
+    p_student_name: name,
+  });
+
+  if (error) throw rpcError(error, "add student");
+
+  await recordAudit({
+    userId: actorId,
+    action: "ADD_STUDENT",
+    entityType: "STUDENT",
+    entityId: data.id,
+    changes: {
+      group_id: groupId,
+      group_number: group.group_number,
+      presentation_name: presentation.name,
+      old_value: null,
+      new_value: name,
+    },
+  });
+
+  return data as Student;
+}
+
+/**
+ * Remove a student and their marks from a group (which keeps at least one
+ * member). In Presentation 1 the student also leaves the group in
+ * Presentations 2–4; positions are renumbered without gaps.
+ */
+export async function removeStudentFromGroup(
+  studentId: string,
+  actorId?: string,
+  actorRole?: string,
+): Promise<void> {
+  const presentation = await getPresentationForStudent(studentId);
+  assertPresentationEditable(presentation, actorRole);
+
+  const { data: removed, error } = await supabase.rpc("remove_group_student", {
+    p_student_id: studentId,
+  });
+
+  if (error) throw rpcError(error, "remove student");
+
+  await recordAudit({
+    userId: actorId,
+    action: "REMOVE_STUDENT",
+    entityType: "STUDENT",
+    entityId: studentId,
+    changes: {
+      presentation_name: presentation.name,
+      old_value: removed,
+      new_value: null,
+    },
+  });
+}
+
+/**
+ * Move a student to another group of the same presentation (admins only).
+ * The move is made in every presentation of the year that has the student,
+ * so their evaluations in P1–P4 stay with them; positions are renumbered.
+ */
+export async function moveStudentToGroup(
+  studentId: string,
+  targetGroupId: string,
+  actorId?: string,
+): Promise<void> {
+  const { data: moves, error } = await supabase.rpc("move_group_student", {
+    p_student_id: studentId,
+    p_target_group_id: targetGroupId,
+  });
+
+  if (error) throw rpcError(error, "move student");
+
+  const first = (moves as any[])[0];
+  await recordAudit({
+    userId: actorId,
+    action: "MOVE_STUDENT",
+    entityType: "STUDENT",
+    entityId: studentId,
+    changes: {
+      field: "group_number",
+      old_value: first?.from_group_number,
+      new_value: first?.to_group_number,
+      moves,
+    },
+  });
+}
+
+// =====================================================
+// Student Records
+// =====================================================
+
+export async function getStudentRecord(
+  id: string,
+  db: SupabaseClient = supabase,
+): Promise<StudentRecord> {
+  const { data, error } = await db
+    .from("student_records")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Find a department's student record by PRN or roll number, for linking a
+ * student login to it. Records belong to a department through the groups
+ * they are in. Roll numbers can repeat across years, so an ambiguous match
+ * is refused.
+ */
+export async function findStudentRecord(
+  identifier: string,
+  departmentId: string,
+): Promise<StudentRecord | null> {
+  const value = identifier.trim().replace(/"/g, "");
+  if (!value) return null;
+
+  const { data, error } = await supabase
+    .from("student_records")
+    .select("*, students!inner(group:groups!inner(department_id))")
+    .or(`prn.eq."${value}",roll_number.eq."${value}"`)
+    .eq("students.group.department_id", departmentId);
+
+  if (error) throw error;
+
+  const records = new Map<string, StudentRecord>();
+  for (const { students, ...record } of data || []) {
+    records.set(record.id, record as StudentRecord);
+  }
+
+  if (records.size > 1) {
+    throw new StudentRecordConflictError(`More than one student matches "${value}"; use the PRN`);
+  }
+  return records.values().next().value ?? null;
+}
+
+/**
+ * The record behind a group membership, or null for rows from before
+ * student records existed
+ */
+export async function getStudentRecordForStudent(
+  studentId: string,
+  db: SupabaseClient = supabase,
+): Promise<StudentRecord | null> {
+  const { data: student, error } = await db
     .from("students")
-    .update({ student_name: name })
-    .eq("id", id);
+    .select("student_record_id")
+    .eq("id", studentId)
+    .single();
 
   if (error) throw error;
+  if (!student.student_record_id) return null;
 
-  // Propagate if it's Presentation 1
-  if (presentation.name.endsWith("1")) {
-    const allPresentations = await getPresentationsByAcademicYear(
-      presentation.academic_year_id,
-    );
-    const otherPresIds = allPresentations
-      .filter(
-        (p) =>
-          p.id !== presentation.id &&
-          (p.name.endsWith("2") || p.name.endsWith("3") || p.name.endsWith("4")),
-      )
-      .map((p) => p.id);
+  return getStudentRecord(student.student_record_id, db);
+}
 
-    if (otherPresIds.length > 0) {
-      const { data: otherGroups } = await supabase
-        .from("groups")
-        .select("id")
-        .in("presentation_id", otherPresIds)
-        .eq("group_number", group.group_number);
+/**
+ * Update a student's master record. Blank fields are stored as null; a new
+ * full name is copied to every group membership linked to the record, except
+ * in locked presentations.
+ */
+export async function updateStudentRecord(
+  id: string,
+  updates: StudentRecordUpdate,
+  actorId?: string,
+): Promise<StudentRecord> {
+  const before = await getStudentRecord(id);
+
+  const fields: StudentRecordUpdate = {};
+  for (const key of ["roll_number", "prn", "email", "division"] as const) {
+    if (key in updates) fields[key] = updates[key]?.trim() || null;
+  }
+  if (updates.full_name?.trim()) fields.full_name = updates.full_name.trim();
 
-      const otherGroupIds = otherGroups?.map((og) => og.id) || [];
+  const { data, error } = await supabase
+    .from("student_records")
+    .update(fields)
+    .eq("id", id)
+    .select()
+    .single();
 
-      if (otherGroupIds.length > 0) {
-        await supabase
-          .from("students")
-          .update({ student_name: name })
-          .in("group_id", otherGroupIds)
-          .eq("position", student.position);
-      }
-    }
+  if (error?.code === "23505") {
+    throw new StudentRecordConflictError(
+      `PRN ${fields.prn} already belongs to another student`,
+    );
+  }
+  if (error) throw error;
+
+  if (fields.full_name && fields.full_name !== before.full_name) {
+    await renameRecordMemberships(id, fields.full_name);
   }
+
+  const changed = (Object.keys(fields) as (keyof StudentRecordUpdate)[]).filter(
+    (key) => fields[key] !== before[key],
+  );
+  if (changed.length > 0) {
+    await recordAudit({
+      userId: actorId,
+      action: "UPDATE_STUDENT_RECORD",
+      entityType: "STUDENT_RECORD",
+      entityId: id,
+      changes: {
+        old_value: Object.fromEntries(changed.map((key) => [key, before[key]])),
+        new_value: Object.fromEntries(changed.map((key) => [key, fields[key]])),
+      },
+    });
+  }
+
+  return data;
+}
+
+export async function getPresentationForStudent(
+  studentId: string,
+): Promise<Presentation> {
+  const { data: student, error } = await supabase
+    .from("students")
+    .select("group_id")
+    .eq("id", studentId)
+    .single();
+
+  if (error || !student) throw new Error("Student not found");
+
+  const { data: group, error: groupError } = await supabase
+    .from("groups")
+    .select("presentation_id")
+    .eq("id", student.group_id)
+    .single();
+
+  if (groupError || !group) throw new Error("Group not found");
+
+  return getPresentation(group.presentation_id);
 }
 
 // =====================================================
 // Evaluation Operations
 // =====================================================
 
+/**
+ * Thrown when a write was based on an evaluation someone else has since
+ * changed. Carries the newer row so the caller can show it.
+ */
+export class EvaluationConflictError extends Error {
+  constructor(public current: Evaluation) {
+    super("This mark was changed by someone else. The latest value is now shown.");
+    this.name = "EvaluationConflictError";
+  }
+}
+
+function isSameTimestamp(a?: string | null, b?: string | null): boolean {
+  if (!a || !b) return a === b;
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+/**
+ * A student's evaluation (the guide's marks), or null before any is saved
+ */
+export async function getEvaluation(studentId: string): Promise<Evaluation | null> {
+  const { data, error } = await supabase
+    .from("evaluations")
+    .select("*")
+    .eq("student_id", studentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as Evaluation | null;
+}
+
+/**
+ * Save one evaluation field. Pass expectedUpdatedAt (the updated_at the
+ * caller last saw) to reject the write if the row has changed since.
+ */
 export async function updateEvaluation(
   studentId: string,
   field: keyof Evaluation,
   value: any,
   teacherId?: string,
+  actorId?: string,
+  expectedUpdatedAt?: string,
 ): Promise<Evaluation> {
   try {
+    // Refuse changes to submitted/locked presentations (teacherId marks a teacher caller)
+    const presentation = await getPresentationForStudent(studentId);
+    assertPresentationEditable(presentation, teacherId ? "teacher" : "admin");
+
     // Authorization check: if teacherId provided, verify teacher owns this group
     if (teacherId) {
       const { data: student } = await supabase
@@ -931,8 +1450,23 @@ export async function updateEvaluation(
     }
 
     const isExtraMark = (field as string).startsWith("extra_");
+    const oldValue = isExtraMark
+      ? existing?.extra_marks?.[field]
+      : existing?.[field];
+    const auditChange = () =>
+      recordAudit({
+        userId: actorId ?? teacherId,
+        action: "UPDATE_MARK",
+        entityType: "STUDENT",
+        entityId: studentId,
+        changes: { field, old_value: oldValue ?? null, new_value: value },
+      });
 
     if (existing) {
+      if (expectedUpdatedAt && !isSameTimestamp(existing.updated_at, expectedUpdatedAt)) {
+        throw new EvaluationConflictError(existing);
+      }
+
       // Update existing evaluation
       let updatePayload: any = { [field]: value };
       
@@ -944,17 +1478,28 @@ export async function updateEvaluation(
         };
       }
 
+      // Only write if nobody changed the row between our read and this update
       const { data, error } = await supabase
         .from("evaluations")
         .update(updatePayload)
         .eq("student_id", studentId)
+        .eq("updated_at", existing.updated_at)
         .select()
-        .single();
+        .maybeSingle();
 
       if (error) {
         console.error(`Database error updating ${field}:`, error);
         throw new Error(`Failed to update ${field}: ${error.message}`);
       }
+      if (!data) {
+        const { data: current } = await supabase
+          .from("evaluations")
+          .select("*")
+          .eq("student_id", studentId)
+          .single();
+        throw new EvaluationConflictError(current || existing);
+      }
+      await auditChange();
       return data;
     } else {
       // Create new evaluation
@@ -977,6 +1522,7 @@ export async function updateEvaluation(
         console.error(`Database error inserting ${field}:`, error);
         throw new Error(`Failed to insert ${field}: ${error.message}`);
       }
+      await auditChange();
       return data;
     }
   } catch (error) {
@@ -987,53 +1533,404 @@ export async function updateEvaluation(
 
 export async function resetPresentationMarks(
   presentationId: string,
+  actorId?: string,
 ): Promise<void> {
-  // Get all groups for this presentation
-  const { data: groups } = await supabase
-    .from("groups")
-    .select("id")
-    .eq("presentation_id", presentationId);
+  assertPresentationEditable(await getPresentation(presentationId), "admin");
 
-  if (!groups) return;
+  // Returns the evaluations as they were before the reset
+  const { data: previousEvaluations, error } = await supabase.rpc(
+    "reset_presentation_marks",
+    { p_presentation_id: presentationId },
+  );
 
-  // Get all students in these groups
-  const groupIds = groups.map((g) => g.id);
-  const { data: students } = await supabase
-    .from("students")
+  if (error) throw rpcError(error, "reset marks");
+
+  await recordAudit({
+    userId: actorId,
+    action: "RESET_MARKS",
+    entityType: "PRESENTATION",
+    entityId: presentationId,
+    changes: {
+      student_count: (previousEvaluations || []).length,
+      old_value: previousEvaluations || [],
+      new_value: null,
+    },
+  });
+}
+
+// =====================================================
+// Examiner Operations
+// =====================================================
+
+/**
+ * Thrown when the caller may not keep an examiner sheet for the student
+ */
+export class ExaminerAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExaminerAccessError";
+  }
+}
+
+export async function getPresentationExaminers(
+  presentationId: string,
+  db: SupabaseClient = supabase,
+): Promise<PresentationExaminer[]> {
+  const { data, error } = await db
+    .from("presentation_examiners")
+    .select("*, user:users(full_name, username)")
+    .eq("presentation_id", presentationId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as PresentationExaminer[];
+}
+
+export async function isPresentationExaminer(
+  presentationId: string,
+  userId: string,
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("presentation_examiners")
     .select("id")
-    .in("group_id", groupIds);
+    .eq("presentation_id", presentationId)
+    .eq("user_id", userId)
+    .maybeSingle();
 
-  if (!students) return;
+  if (error) throw error;
+  return !!data;
+}
 
-  // Reset all evaluations for these students
-  const studentIds = students.map((s) => s.id);
-  const { error } = await supabase
-    .from("evaluations")
+/**
+ * Replace a presentation's external examiners and set how their sheets are
+ * combined with the guide's. Sheets of removed examiners are kept but no
+ * longer loaded once their examiner row is gone.
+ */
+export async function updatePresentationExaminers(
+  presentationId: string,
+  input: UpdateExaminersInput,
+  actorId?: string,
+): Promise<Presentation> {
+  const before = await getPresentation(presentationId);
+  assertPresentationEditable(before, "admin");
+  const previousExaminers = await getPresentationExaminers(presentationId);
+
+  const { data: presentation, error } = await supabase
+    .from("presentations")
     .update({
-      problem_identification: 0,
-      literature_survey: 0,
-      software_engineering: 0,
-      requirement_analysis: 0,
-      srs: 0,
-      individual_capacity: 0,
-      team_work: 0,
-      presentation_qa: 0,
-      paper_presentation: 0,
-      internal_presentation_ii: 0,
-      identification_module: 0,
-      coding: 0,
-      understanding: 0,
-      internal_presentation_iii: 0,
-      testing: 0,
-      participation_conference: 0,
-      publication: 0,
-      project_report: 0,
-      partial_project_report: 0,
-      internal_presentation_iv: 0,
+      combine_rule: input.combineRule,
+      guide_weight: input.guideWeight ?? before.guide_weight ?? 0.5,
     })
-    .in("student_id", studentIds);
+    .eq("id", presentationId)
+    .select()
+    .single();
 
   if (error) throw error;
+
+  const previousIds = previousExaminers.map((e) => e.user_id);
+  const removedIds = previousIds.filter((id) => !input.examinerIds.includes(id));
+  const addedIds = input.examinerIds.filter((id) => !previousIds.includes(id));
+
+  if (removedIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("presentation_examiners")
+      .delete()
+      .eq("presentation_id", presentationId)
+      .in("user_id", removedIds);
+
+    if (deleteError) throw deleteError;
+  }
+
+  if (addedIds.length > 0) {
+    const { error: insertError } = await supabase
+      .from("presentation_examiners")
+      .insert(addedIds.map((userId) => ({ presentation_id: presentationId, user_id: userId })));
+
+    if (insertError) throw insertError;
+  }
+
+  await recordAudit({
+    userId: actorId,
+    action: "UPDATE_EXAMINERS",
+    entityType: "PRESENTATION",
+    entityId: presentationId,
+    changes: {
+      old_value: {
+        examiner_ids: previousIds,
+        combine_rule: before.combine_rule || "average",
+        guide_weight: before.guide_weight ?? 0.5,
+      },
+      new_value: {
+        examiner_ids: input.examinerIds,
+        combine_rule: presentation.combine_rule,
+        guide_weight: presentation.guide_weight,
+      },
+    },
+  });
+
+  return presentation;
+}
+
+/**
+ * Save one mark on an external examiner's own sheet for a student
+ */
+export async function updateExaminerMark(
+  studentId: string,
+  examinerId: string,
+  field: string,
+  value: number,
+  examinerRole?: string,
+): Promise<ExaminerMarks> {
+  const presentation = await getPresentationForStudent(studentId);
+  assertPresentationEditable(presentation, examinerRole);
+
+  if (!(await isPresentationExaminer(presentation.id, examinerId))) {
+    throw new ExaminerAccessError("You are not an examiner for this presentation");
+  }
+
+  // A guide's marks for their own groups live on the evaluations row
+  const { data: student } = await supabase
+    .from("students")
+    .select("group:groups(guide_user_id)")
+    .eq("id", studentId)
+    .single();
+
+  if ((student as any)?.group?.guide_user_id === examinerId) {
+    throw new ExaminerAccessError("Guides mark their own groups on the main marks sheet");
+  }
+
+  // Only this key is merged into the sheet, in one statement, so marks
+  // saved at the same time do not overwrite each other
+  const { data, error } = await supabase.rpc("set_examiner_mark", {
+    p_student_id: studentId,
+    p_examiner_id: examinerId,
+    p_field: field,
+    p_value: value,
+  });
+
+  if (error) throw rpcError(error, "save examiner mark");
+
+  await recordAudit({
+    userId: examinerId,
+    action: "UPDATE_EXAMINER_MARK",
+    entityType: "STUDENT",
+    entityId: studentId,
+    changes: { field, old_value: data.old_value ?? null, new_value: value },
+  });
+
+  return data.sheet as ExaminerMarks;
+}
+
+// =====================================================
+// User Operations
+// =====================================================
+// Read-only lookups for the UI; accounts are created, changed and deleted
+// through /api/users. Password hashes never leave the server.
+
+const USER_COLUMNS =
+  "id, email, username, role, full_name, is_active, must_change_password, department_id, is_super_admin, student_record_id, failed_login_count, locked_until, created_at, updated_at";
+
+/**
+ * Get all teachers of a department
+ */
+export async function getAllTeachers(departmentId: string): Promise<User[]> {
+  const { data, error } = await supabase
+    .from("users")
+    .select(USER_COLUMNS)
+    .eq("department_id", departmentId)
+    .eq("role", "teacher")
+    .eq("is_active", true)
+    .order("full_name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching teachers:", error);
+    return [];
+  }
+
+  return (data || []) as User[];
+}
+
+/**
+ * Get all users of a department
+ */
+export async function getAllUsers(departmentId: string): Promise<User[]> {
+  const { data, error } = await supabase
+    .from("users")
+    .select(USER_COLUMNS)
+    .eq("department_id", departmentId)
+    .eq("is_active", true)
+    .neq("username", "STAR_ARTS") // Hide system administrator
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching users:", error);
+    return [];
+  }
+
+  return (data || []) as User[];
+}
+
+// =====================================================
+// Department Operations
+// =====================================================
+
+/**
+ * The department name or code is already taken. Nothing was created.
+ */
+export class DepartmentConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DepartmentConflictError";
+  }
+}
+
+export async function getDepartments(
+  db: SupabaseClient = supabase,
+): Promise<Department[]> {
+  const { data, error } = await db
+    .from("departments")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getDepartment(
+  id: string,
+  db: SupabaseClient = supabase,
+): Promise<Department> {
+  const { data, error } = await db
+    .from("departments")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Create a department (super-admins only). Its branding starts from the
+ * defaults with the department's name.
+ */
+export async function createDepartment(
+  input: { name: string; code: string },
+  actorId?: string,
+): Promise<Department> {
+  const { data, error } = await supabase
+    .from("departments")
+    .insert({ name: input.name.trim(), code: input.code.trim().toUpperCase() })
+    .select()
+    .single();
+
+  if (error?.code === "23505") {
+    throw new DepartmentConflictError(
+      `A department named ${input.name.trim()} or coded ${input.code.trim().toUpperCase()} already exists`,
+    );
+  }
+  if (error) throw error;
+
+  await recordAudit({
+    userId: actorId,
+    action: "CREATE_DEPARTMENT",
+    entityType: "DEPARTMENT",
+    entityId: data.id,
+    changes: { new_value: { name: data.name, code: data.code } },
+  });
+
+  return data;
+}
+
+// =====================================================
+// Branding
+// =====================================================
+
+/**
+ * A department's institution settings, or DEFAULT_BRANDING (with the
+ * department's name) until they are first saved
+ */
+export async function getInstitutionSettings(
+  departmentId: string,
+  db: SupabaseClient = supabase,
+): Promise<InstitutionSettings> {
+  const { data, error } = await db
+    .from("institution_settings")
+    .select("*")
+    .eq("department_id", departmentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return data;
+
+  const department = await getDepartment(departmentId, db);
+  return {
+    ...DEFAULT_BRANDING,
+    department_id: departmentId,
+    department_name: `Department of ${department.name}`,
+  };
+}
+
+/**
+ * Save the institution settings (creating the row on first save). Blank
+ * optional fields are stored as null.
+ */
+export async function updateInstitutionSettings(
+  departmentId: string,
+  updates: InstitutionSettingsUpdate,
+  actorId?: string,
+): Promise<InstitutionSettings> {
+  const before = await getInstitutionSettings(departmentId);
+
+  const fields: InstitutionSettingsUpdate = {};
+  for (const key of [
+    "institution_name",
+    "institution_short_name",
+    "department_name",
+    "sheet_title_template",
+    "classification_title_template",
+  ] as const) {
+    if (updates[key]?.trim()) fields[key] = updates[key]!.trim();
+  }
+  for (const key of ["institution_address", "logo_url", "coordinator_name", "hod_name"] as const) {
+    if (key in updates) fields[key] = updates[key]?.trim() || null;
+  }
+
+  const { data, error } = before.id
+    ? await supabase
+        .from("institution_settings")
+        .update({ ...fields, updated_by_user_id: actorId ?? null })
+        .eq("id", before.id)
+        .select()
+        .single()
+    : await supabase
+        .from("institution_settings")
+        .insert({ ...before, ...fields, updated_by_user_id: actorId ?? null })
+        .select()
+        .single();
+
+  if (error) throw error;
+
+  // The logo is too large for the audit trail; record that it changed
+  const summary = (key: keyof InstitutionSettingsUpdate, value: string | null) =>
+    key === "logo_url" && value ? "(image)" : value;
+  const changed = (Object.keys(fields) as (keyof InstitutionSettingsUpdate)[]).filter(
+    (key) => fields[key] !== before[key],
+  );
+  if (changed.length > 0) {
+    await recordAudit({
+      userId: actorId,
+      action: "UPDATE_BRANDING",
+      entityType: "SETTINGS",
+      entityId: data.id,
+      changes: {
+        old_value: Object.fromEntries(changed.map((key) => [key, summary(key, before[key] ?? null)])),
+        new_value: Object.fromEntries(changed.map((key) => [key, summary(key, fields[key] ?? null)])),
+      },
+    });
+  }
+
+  return data;
 }
 
 // =====================================================
@@ -1043,6 +1940,8 @@ export async function resetPresentationMarks(
 export async function duplicateGroup(
   sourceGroupId: string,
   targetPresentationId: string,
+  userId?: string,
+  userRole?: string,
 ): Promise<Group> {
   // Get source group
   const { data: sourceGroup, error: groupError } = await supabase
@@ -1075,16 +1974,21 @@ export async function duplicateGroup(
       ? existingGroups[0].group_number + 1
       : 1;
 
-  // Create new group with students
+  // Create new group with the same students (same records)
   const studentNames = sourceStudents?.map((s) => s.student_name) || [];
 
-  return createGroup({
-    presentation_id: targetPresentationId,
-    group_number: nextGroupNumber,
-    guide_name: sourceGroup.guide_name,
-    guide_user_id: (sourceGroup as any).guide_user_id || undefined,
-    students: studentNames,
-  });
+  return createGroup(
+    {
+      presentation_id: targetPresentationId,
+      group_number: nextGroupNumber,
+      guide_name: sourceGroup.guide_name,
+      guide_user_id: (sourceGroup as any).guide_user_id || undefined,
+      students: studentNames,
+      student_record_ids: sourceStudents?.map((s) => s.student_record_id ?? null),
+    },
+    userId,
+    userRole,
+  );
 }
 
 export async function getPresentationStats(
@@ -1094,18 +1998,22 @@ export async function getPresentationStats(
 ) {
   let query = supabase
     .from("groups")
-    .select("id")
+    .select("id, students(count)")
     .eq("presentation_id", presentationId);
 
-  // Filter by teacher if not admin
-  if (userRole === "teacher" && userId) {
+  // Only their own groups for users who cannot view the whole department
+  if (permissionScope(userRole, "view") === "own" && userId) {
     query = query.eq("guide_user_id", userId);
   }
 
   const { data: groups } = await query;
 
+  // Groups have 1–6 students, so count the actual members
   const groupCount = groups?.length || 0;
-  const studentCount = groupCount * 4;
+  const studentCount = (groups || []).reduce(
+    (sum, group: any) => sum + (group.students?.[0]?.count || 0),
+    0,
+  );
 
   return {
     groupCount,
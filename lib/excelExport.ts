@@ -1,528 +1,359 @@
 import * as XLSX from "xlsx";
-import { supabase } from "./supabase";
-import { calculateAllMarks } from "./calculations";
-import { Evaluation, Presentation } from "./types";
 import {
-  getPresentationsByAcademicYear,
-  getAcademicYear,
-  getGroupsByPresentation,
-  getGroupsByPresentationForTeacher,
-} from "./database";
-import { DEFAULT_COLUMNS } from "./constants";
-
-// Helper to prepare data for Semester 1 Sheet (Merging P1 & P2)
-async function prepareSemester1Data(
-  p1: Presentation | undefined,
-  p2: Presentation | undefined,
-  userId?: string,
-  userRole?: string,
-) {
-  // Columns
-  // Group, Student, Guide
-  // P1: Problem, Lit, SoftEng, Req, SRS, Int I (Total)
-  // P2: Indiv, Team, Pres, Paper, Int II (Total)
-  // Global: Total 100, Total 50
-
-  // Load groups based on user role
-  const getGroupsFunction =
-    userRole === "teacher" && userId
-      ? (id: string) => getGroupsByPresentationForTeacher(id, userId)
-      : getGroupsByPresentation;
-
-  const p1Groups = p1 ? await getGroupsFunction(p1.id) : [];
-  const p2Groups = p2 ? await getGroupsFunction(p2.id) : [];
-
-  const baseGroups = p1Groups.length > 0 ? p1Groups : p2Groups;
-  const secondaryGroups = p1Groups.length > 0 ? p2Groups : p1Groups;
-
-  const secondaryGroupMap = new Map<number, any>();
-  secondaryGroups.forEach((g) => secondaryGroupMap.set(g.group_number, g));
-
-  const rows: any[] = [];
-  const merges: any[] = []; // { s: {r,c}, e: {r,c} }
-
-  // Header Row is handled separately, we return data rows
-  let currentRowIndex = 3; // Start data at row 3 (0-indexed -> 3 means Row 4) if headers are 2 rows
-  // Actually, let's just align with standard sheet creation.
-  // Headers will be manually added.
-
-  for (const group of baseGroups) {
-    const secondaryGroup = secondaryGroupMap.get(group.group_number);
-    const isBaseP1 = p1Groups.length > 0;
-
-    const g1 = isBaseP1 ? group : secondaryGroup;
-    const g2 = isBaseP1 ? secondaryGroup : group;
-
-    const studentCount = group.students.length;
-    const startRow = rows.length;
-
-    const ROWS_PER_GROUP = 4;
-    for (let i = 0; i < ROWS_PER_GROUP; i++) {
-      if (i < studentCount) {
-        const sBase = group.students[i];
-        const s1 = isBaseP1
-          ? sBase
-          : g1?.students.find(
-              (s: any) => s.student_name === sBase.student_name,
-            );
-        const s2 = !isBaseP1
-          ? sBase
-          : g2?.students.find(
-              (s: any) => s.student_name === sBase.student_name,
-            );
-
-        const s1Final = s1 || g1?.students[i];
-        const s2Final = s2 || g2?.students[i];
-
-        const eval1 = s1Final?.evaluation || {};
-        const eval2 = s2Final?.evaluation || {};
-
-        const calc1 = calculateAllMarks(eval1);
-        const calc2 = calculateAllMarks(eval2);
-
-        const internal1 = calc1.internal_presentation_i;
-        const internal2 = calc2.internal_presentation_ii;
-        const total100 = internal1 + internal2;
-        const total50 = Math.ceil(total100 / 2);
-
-        rows.push([
-          group.group_number, // A
-          sBase.student_name, // B
-          group.guide_name, // C
-          // P1
-          eval1.problem_identification || 0,
-          eval1.literature_survey || 0,
-          eval1.software_engineering || 0,
-          eval1.requirement_analysis || 0,
-          eval1.srs || 0,
-          internal1,
-          // P2
-          eval2.individual_capacity || 0,
-          eval2.team_work || 0,
-          eval2.presentation_qa || 0,
-          eval2.partial_project_report || 0,
-          eval2.paper_presentation || 0,
-          internal2,
-          // Global
-          total100,
-          total50,
-        ]);
-      } else {
-        rows.push([]);
-      }
-    }
-
-    if (studentCount > 0) {
-      merges.push({ col: 0, start: startRow, count: ROWS_PER_GROUP });
-      merges.push({ col: 2, start: startRow, count: ROWS_PER_GROUP });
+  ReportModel,
+  getReportPresentation,
+  getReportSemester,
+  presentationColumns,
+  presentationRow,
+  classificationHeaderLines,
+  reportHeaderLines,
+  semesterColumns,
+  semesterOf,
+  semesterRow,
+  SEMESTER_PRESENTATIONS,
+} from "./reportModel";
+import { DRAFT_WATERMARK, draftFileName } from "./resultsPublishing";
+
+// Excel renderers over the report model (lib/reportModel.ts). The routes in
+// app/api/reports build the model on the server and stream the workbook.
+
+/**
+ * A built workbook and the file name it downloads as
+ */
+export interface ReportFile {
+  workbook: XLSX.WorkBook;
+  fileName: string;
+}
 
-      // Add an empty separator row after each group and merge it across all columns
-      const TOTAL_COLS = 16; // Matches the headers length used by semester 1
-      const separatorRow = rows.length;
-      rows.push([""]); // ensure at least one cell exists
-      merges.push({ row: separatorRow, startCol: 0, endCol: TOTAL_COLS - 1 });
-    }
-  }
+type Cell = string | number;
 
-  return { rows, merges };
+// One group in a sheet: Group No and Guide Name are merged over its rows
+interface SheetBlock {
+  groupNumber: number;
+  guideName: string;
+  rows: Cell[][]; // [student name, ...values] per student
 }
 
-async function prepareSemester2Data(
-  p3: Presentation | undefined,
-  p4: Presentation | undefined,
-  userId?: string,
-  userRole?: string,
+/**
+ * Apply professional formatting to a worksheet:
+ * - Black borders on cells with content
+ * - Center alignment (horizontal and vertical)
+ * - Text wrapping enabled
+ * - Proper formatting for merged header cells
+ */
+function applyProfessionalFormattingToWorksheet(
+  ws: XLSX.WorkSheet,
+  startDataRow: number = 4,
 ) {
-  // Load groups based on user role
-  const getGroupsFunction =
-    userRole === "teacher" && userId
-      ? (id: string) => getGroupsByPresentationForTeacher(id, userId)
-      : getGroupsByPresentation;
-
-  const p3Groups = p3 ? await getGroupsFunction(p3.id) : [];
-  const p4Groups = p4 ? await getGroupsFunction(p4.id) : [];
-
-  const baseGroups = p3Groups.length > 0 ? p3Groups : p4Groups;
-  const secondaryGroups = p3Groups.length > 0 ? p4Groups : p3Groups;
-
-  const secondaryGroupMap = new Map<number, any>();
-  secondaryGroups.forEach((g) => secondaryGroupMap.set(g.group_number, g));
-
-  const rows: any[] = [];
-  const merges: any[] = [];
-
-  for (const group of baseGroups) {
-    const secondaryGroup = secondaryGroupMap.get(group.group_number);
-    const isBaseP3 = p3Groups.length > 0;
-
-    const g3 = isBaseP3 ? group : secondaryGroup;
-    const g4 = isBaseP3 ? secondaryGroup : group;
-
-    const studentCount = group.students.length;
-    const startRow = rows.length;
-
-    const ROWS_PER_GROUP = 4;
-    for (let i = 0; i < ROWS_PER_GROUP; i++) {
-      if (i < studentCount) {
-        const sBase = group.students[i];
-        const s3 = isBaseP3
-          ? sBase
-          : g3?.students.find(
-              (s: any) => s.student_name === sBase.student_name,
-            );
-        const s4 = !isBaseP3
-          ? sBase
-          : g4?.students.find(
-              (s: any) => s.student_name === sBase.student_name,
-            );
-
-        const s3Final = s3 || g3?.students[i];
-        const s4Final = s4 || g4?.students[i];
-
-        const eval3 = s3Final?.evaluation || {};
-        const eval4 = s4Final?.evaluation || {};
-
-        const calc3 = calculateAllMarks(eval3);
-        const calc4 = calculateAllMarks(eval4);
-
-        const internal3 = calc3.internal_presentation_iii;
-        const internal4 = calc4.internal_presentation_iv;
-        const total100 = internal3 + internal4;
-        const total50 = Math.ceil(total100 / 2);
-
-        rows.push([
-          group.group_number,
-          sBase.student_name,
-          group.guide_name,
-          // P3
-          eval3.identification_module || 0,
-          eval3.coding || 0,
-          eval3.team_work || 0,
-          eval3.understanding || 0,
-          eval3.internal_presentation_iii || 0,
-          internal3,
-          // P4
-          eval4.testing || 0,
-          eval4.participation_conference || 0,
-          eval4.publication || 0,
-          eval4.project_report || 0,
-          internal4,
-          // Global
-          total100,
-          total50,
-        ]);
-      } else {
-        rows.push([]);
+  const range = XLSX.utils.decode_range(ws["!ref"] || "A1");
+
+  for (let row = range.s.r; row <= range.e.r; row++) {
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
+      const cell = ws[cellAddress];
+
+      // Below the header rows, only cells with content get borders
+      if ((!cell || cell.v === "") && row >= startDataRow) {
+        continue;
       }
-    }
 
-    if (studentCount > 0) {
-      merges.push({ col: 0, start: startRow, count: ROWS_PER_GROUP });
-      merges.push({ col: 2, start: startRow, count: ROWS_PER_GROUP });
+      if (!cell) {
+        ws[cellAddress] = { t: "s", v: "" };
+      }
 
-      // Add an empty separator row after each group and merge it across all columns
-      const TOTAL_COLS = 16; // Matches the headers length used by semester 2
-      const separatorRow = rows.length;
-      rows.push([""]); // ensure at least one cell exists
-      merges.push({ row: separatorRow, startCol: 0, endCol: TOTAL_COLS - 1 });
+      ws[cellAddress].s = {
+        border: {
+          top: { style: "thin", color: { rgb: "000000" } },
+          bottom: { style: "thin", color: { rgb: "000000" } },
+          left: { style: "thin", color: { rgb: "000000" } },
+          right: { style: "thin", color: { rgb: "000000" } },
+        },
+        alignment: {
+          horizontal: "center",
+          vertical: "center",
+          wrapText: true,
+        },
+        font: {
+          bold: row < startDataRow, // Header rows and column headers
+        },
+      };
     }
   }
+}
 
-  return { rows, merges };
+/**
+ * Header lines of a sheet, led by the DRAFT watermark when its marks are
+ * not the published results
+ */
+function sheetHeaderLines(headerLines: string[], draft: boolean): string[] {
+  return draft ? [DRAFT_WATERMARK, ...headerLines] : headerLines;
 }
 
-export async function exportPresentationToExcel(
-  presentationId: string,
-  presentationName: string,
-  userId?: string,
-  userRole?: string,
-): Promise<void> {
-  // Single export fallback
-  const workbook = XLSX.utils.book_new();
-  const presentation = {
-    id: presentationId,
-    name: presentationName,
-  } as Presentation;
-
-  // We reuse the prepare functions but with one arg undefined
-  let data;
-  let headers;
-
-  if (presentationName.includes("1") || presentationName.includes("2")) {
-    const isP1 = presentationName.includes("1");
-    data = await prepareSemester1Data(
-      isP1 ? presentation : undefined,
-      !isP1 ? presentation : undefined,
-      userId,
-      userRole,
-    );
-    const headers1 = DEFAULT_COLUMNS[1];
-    const headers2 = DEFAULT_COLUMNS[2];
-    headers = [
-      "Group No",
-      "Student Name",
-      "Guide Name",
-      ...Object.values(headers1).map(h => `${h.name} (${h.maxMark})`),
-      "Internal I (50)",
-      ...Object.values(headers2).map(h => `${h.name} (${h.maxMark})`),
-      "Internal II (50)",
-      "Total (100)",
-      "Total (50)",
-    ];
-  } else {
-    const isP3 = presentationName.includes("3");
-    data = await prepareSemester2Data(
-      isP3 ? presentation : undefined,
-      !isP3 ? presentation : undefined,
-      userId,
-      userRole,
-    );
-    const headers3 = DEFAULT_COLUMNS[3];
-    const headers4 = DEFAULT_COLUMNS[4];
-    headers = [
-      "Group No",
-      "Student Name",
-      "Guide Name",
-      ...Object.values(headers3).map(h => `${h.name} (${h.maxMark})`),
-      "Internal III (50)",
-      ...Object.values(headers4).map(h => `${h.name} (${h.maxMark})`),
-      "Internal IV (50)",
-      "Total (100)",
-      "Total (50)",
-    ];
-  }
+/**
+ * Print the watermark line (row 1) large and red
+ */
+function styleDraftWatermark(ws: XLSX.WorkSheet) {
+  const cell = ws["A1"];
+  if (!cell || cell.v !== DRAFT_WATERMARK) return;
+  cell.s = {
+    ...cell.s,
+    font: { bold: true, sz: 16, color: { rgb: "C00000" } },
+  };
+}
 
-  if (data) {
-    const academicYearId = (await (await import("./database")).getPresentation(presentationId)).academic_year_id;
-    const academicYear = await (await import("./database")).getAcademicYear(academicYearId);
-    
-    const mergedHeaders = [
-      ["M.E.S. Wadia College of Engineering, Pune-01"],
-      ["Department of Computer Engineering"],
-      [
-        `BE Project ${presentationName} TW Evaluation Sheet (${academicYear.start_year}–${academicYear.end_year})`,
-      ],
-    ];
-
-    const ws = XLSX.utils.aoa_to_sheet([...mergedHeaders, headers, ...data.rows]);
-
-    // Merge header rows
-    if (!ws["!merges"]) ws["!merges"] = [];
-    for (let r = 0; r < mergedHeaders.length; r++) {
-      ws["!merges"].push({ s: { r, c: 0 }, e: { r, c: headers.length - 1 } });
+/**
+ * Lay out one sheet: header lines merged across the table, the column
+ * header row, then each group's student rows followed by a merged spacer row
+ */
+function tableSheet(
+  headerLines: string[],
+  columns: string[],
+  blocks: SheetBlock[],
+): XLSX.WorkSheet {
+  const colCount = columns.length;
+  const rows: Cell[][] = [...headerLines.map((line) => [line]), columns];
+  const merges: XLSX.Range[] = headerLines.map((_, r) => ({
+    s: { r, c: 0 },
+    e: { r, c: colCount - 1 },
+  }));
+
+  for (const block of blocks) {
+    const start = rows.length;
+    const studentRows = block.rows.length > 0 ? block.rows : [[""]];
+
+    for (const [studentName, ...values] of studentRows) {
+      rows.push([block.groupNumber, studentName, block.guideName, ...values]);
     }
 
-    // Style header rows
-    const headerCellStyle = { alignment: { horizontal: "center", vertical: "center", wrapText: true }, font: { bold: true } };
-    for (let r = 0; r < mergedHeaders.length; r++) {
-      const addr = XLSX.utils.encode_cell({ r, c: 0 });
-      if (!ws[addr]) ws[addr] = { t: "s", v: mergedHeaders[r][0] };
-      ws[addr].s = headerCellStyle;
+    const end = rows.length - 1;
+    if (end > start) {
+      merges.push({ s: { r: start, c: 0 }, e: { r: end, c: 0 } });
+      merges.push({ s: { r: start, c: 2 }, e: { r: end, c: 2 } });
     }
 
-    // Scale merges
-    if (!ws["!merges"]) ws["!merges"] = [];
-    data.merges.forEach((m: any) => {
-      if (m.col !== undefined && m.start !== undefined && m.count !== undefined) {
-        ws["!merges"]!.push({
-          s: { r: m.start + 1, c: m.col },
-          e: { r: m.start + m.count, c: m.col },
-        }); // +1 for header
-      } else if (m.row !== undefined && m.startCol !== undefined && m.endCol !== undefined) {
-        ws["!merges"]!.push({
-          s: { r: m.row + 1, c: m.startCol },
-          e: { r: m.row + 1, c: m.endCol },
-        });
-      }
-    });
+    merges.push({ s: { r: rows.length, c: 0 }, e: { r: rows.length, c: colCount - 1 } });
+    rows.push([""]);
+  }
 
-    // Set cols width
-    ws["!cols"] = headers.map((h) => ({ wch: 15 }));
+  const ws = XLSX.utils.aoa_to_sheet(rows);
+  ws["!merges"] = merges;
+  ws["!cols"] = [
+    { wch: 10 }, // Group No
+    { wch: 25 }, // Student Name
+    { wch: 25 }, // Guide Name
+    ...columns.slice(3).map(() => ({ wch: 15 })),
+  ];
+  ws["!rows"] = headerLines.map(() => ({ hpx: 30 }));
+
+  applyProfessionalFormattingToWorksheet(ws, headerLines.length + 1);
+  styleDraftWatermark(ws);
+  return ws;
+}
 
-    XLSX.utils.book_append_sheet(workbook, ws, "Evaluation");
-    const fileName = `${presentationName.replace(/\s+/g, "_")}_Report.xlsx`;
-    XLSX.writeFile(workbook, fileName);
-  }
+function yearSuffix(model: ReportModel): string {
+  return `${model.academicYear.start_year}-${model.academicYear.end_year}`;
 }
 
-export async function exportAnnualReport(
-  academicYearId: string,
-  userId?: string,
-  userRole?: string,
-): Promise<void> {
-  const presentations = await getPresentationsByAcademicYear(academicYearId);
-  presentations.sort((a, b) => a.name.localeCompare(b.name));
+function presentationSheet(model: ReportModel, number: number): XLSX.WorkSheet {
+  const { rubric, groups, draft } = getReportPresentation(model, number);
+
+  return tableSheet(
+    sheetHeaderLines(reportHeaderLines(model, `SEM${semesterOf(number)}`), draft),
+    presentationColumns(rubric),
+    groups.map((group) => ({
+      groupNumber: group.groupNumber,
+      guideName: group.guideName,
+      rows: group.students.map((s) => [s.name, ...presentationRow(s)]),
+    })),
+  );
+}
 
-  const workbook = XLSX.utils.book_new();
+function semesterSheet(model: ReportModel, semester: 1 | 2): XLSX.WorkSheet {
+  const view = getReportSemester(model, semester);
+
+  return tableSheet(
+    sheetHeaderLines(reportHeaderLines(model, `SEM${semester}`), view.draft),
+    semesterColumns(view),
+    view.groups.map((group) => ({
+      groupNumber: group.groupNumber,
+      guideName: group.guideName,
+      rows: group.students.map((s) => [s.name, ...semesterRow(view, s)]),
+    })),
+  );
+}
 
-  const p1 = presentations.find((p) => p.name.endsWith("1"));
-  const p2 = presentations.find((p) => p.name.endsWith("2"));
-  const p3 = presentations.find((p) => p.name.endsWith("3"));
-  const p4 = presentations.find((p) => p.name.endsWith("4"));
-  const academicYear = await getAcademicYear(academicYearId);
-
-  // Sem 1 Sheet
-  if (p1 || p2) {
-    const { rows, merges } = await prepareSemester1Data(
-      p1,
-      p2,
-      userId,
-      userRole,
-    );
-    const headers1 = DEFAULT_COLUMNS[1];
-    const headers2 = DEFAULT_COLUMNS[2];
-    const headers = [
-      "Group No",
-      "Student Name",
-      "Guide Name",
-      ...Object.values(headers1).map(h => `${h.name} (${h.maxMark})`),
-      "Internal I (50)",
-      ...Object.values(headers2).map(h => `${h.name} (${h.maxMark})`),
-      "Internal II (50)",
-      "Total (100)",
-      "Total (50)",
-    ];
-
-    // Three-line header (College Name + Department + Sheet title)
-    const mergedHeaders = [
-      ["M.E.S. Wadia College of Engineering, Pune-01"],
-      ["Department of Computer Engineering"],
-      [
-        `BE Project TW Evaluation Sheet (SEM1) (${academicYear.start_year}–${academicYear.end_year})`,
-      ],
-    ];
-
-    const ws = XLSX.utils.aoa_to_sheet([...mergedHeaders, headers, ...rows]);
-    if (!ws["!merges"]) ws["!merges"] = [];
-
-    // Merge header rows across all columns
-    for (let row = 0; row < mergedHeaders.length; row++) {
-      ws["!merges"]!.push({ s: { r: row, c: 0 }, e: { r: row, c: headers.length - 1 } });
-    }
+// =====================================================
+// Renderers
+// =====================================================
 
-    // Center header rows across merged area
-    const headerCellStyle = { alignment: { horizontal: "center", vertical: "center", wrapText: true }, font: { bold: true } };
-    for (let i = 0; i < mergedHeaders.length; i++) {
-      const addr = XLSX.utils.encode_cell({ r: i, c: 0 });
-      if (!ws[addr]) ws[addr] = { t: "s", v: mergedHeaders[i][0] };
-      ws[addr].s = headerCellStyle;
-    }
+/**
+ * One presentation: identity columns, rubric criteria and its internal total
+ */
+export function renderPresentationWorkbook(model: ReportModel, number: number): ReportFile {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, presentationSheet(model, number), `Presentation ${number}`);
+  return {
+    workbook,
+    fileName: draftFileName(
+      `Presentation_${number}_Marks_${yearSuffix(model)}.xlsx`,
+      getReportPresentation(model, number).draft,
+    ),
+  };
+}
 
-    // Ensure column header row (below merged headers) is center aligned
-    const colHeaderRow = mergedHeaders.length;
-    for (let c = 0; c < headers.length; c++) {
-      const addr = XLSX.utils.encode_cell({ r: colHeaderRow, c });
-      if (ws[addr]) {
-        ws[addr].s = { ...(ws[addr].s || {}), alignment: { horizontal: "center", vertical: "center" }, font: { bold: true } };
-      }
-    }
+/**
+ * Every presentation of the year, one sheet each
+ */
+export function renderAllPresentationsWorkbook(model: ReportModel): ReportFile {
+  if (model.presentations.length === 0) {
+    throw new Error("No presentations found for this academic year");
+  }
 
-    merges.forEach((m: any) => {
-      if (m.col !== undefined && m.start !== undefined && m.count !== undefined) {
-        ws["!merges"]!.push({
-          s: { r: m.start + mergedHeaders.length + 1, c: m.col },
-          e: { r: m.start + m.count + mergedHeaders.length, c: m.col },
-        });
-      } else if (m.row !== undefined && m.startCol !== undefined && m.endCol !== undefined) {
-        ws["!merges"]!.push({
-          s: { r: m.row + mergedHeaders.length + 1, c: m.startCol },
-          e: { r: m.row + mergedHeaders.length + 1, c: m.endCol },
-        });
-      }
-    });
+  const workbook = XLSX.utils.book_new();
+  for (const { number } of model.presentations) {
+    XLSX.utils.book_append_sheet(workbook, presentationSheet(model, number), `Presentation ${number}`);
+  }
+  return {
+    workbook,
+    fileName: draftFileName(
+      `All_Presentations_${yearSuffix(model)}.xlsx`,
+      model.presentations.some((p) => p.draft),
+    ),
+  };
+}
 
-    // Minimal Styling (Widths)
-    ws["!cols"] = headers.map(() => ({ wch: 15 }));
-    ws["!cols"][0] = { wch: 10 }; // Group
-    ws["!cols"][1] = { wch: 25 }; // Name
-    ws["!cols"][2] = { wch: 25 }; // Guide
+/**
+ * One semester: both presentations side by side with the combined totals
+ */
+export function renderSemesterWorkbook(model: ReportModel, semester: 1 | 2): ReportFile {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, semesterSheet(model, semester), `Semester ${semester}`);
+  return {
+    workbook,
+    fileName: draftFileName(
+      `Semester_${semester}_Report_${yearSuffix(model)}.xlsx`,
+      getReportSemester(model, semester).draft,
+    ),
+  };
+}
 
-    // Row heights for header rows
-    ws["!rows"] = [{ hpx: 30 }, { hpx: 30 }, { hpx: 30 }];
+/**
+ * Annual report organised by semester
+ * Sheet 1: Semester 1 (P1 + P2), Sheet 2: Semester 2 (P3 + P4)
+ */
+export function renderAnnualBySemesterWorkbook(model: ReportModel): ReportFile {
+  const workbook = XLSX.utils.book_new();
+  for (const semester of [1, 2] as const) {
+    const numbers = SEMESTER_PRESENTATIONS[semester];
+    if (model.presentations.some((p) => numbers.includes(p.number))) {
+      XLSX.utils.book_append_sheet(workbook, semesterSheet(model, semester), `Semester ${semester}`);
+    }
+  }
 
-    XLSX.utils.book_append_sheet(workbook, ws, "Semester 1");
+  if (workbook.SheetNames.length === 0) {
+    throw new Error("No presentations found for this academic year");
   }
+  return {
+    workbook,
+    fileName: draftFileName(
+      `Annual_Report_By_Semester_${yearSuffix(model)}.xlsx`,
+      model.presentations.some((p) => p.draft),
+    ),
+  };
+}
 
-  // Sem 2 Sheet
-  if (p3 || p4) {
-    const { rows, merges } = await prepareSemester2Data(
-      p3,
-      p4,
-      userId,
-      userRole,
-    );
-    const headers3 = DEFAULT_COLUMNS[3];
-    const headers4 = DEFAULT_COLUMNS[4];
-    const headers = [
-      "Group No",
-      "Student Name",
-      "Guide Name",
-      ...Object.values(headers3).map(h => `${h.name} (${h.maxMark})`),
-      "Internal III (50)",
-      ...Object.values(headers4).map(h => `${h.name} (${h.maxMark})`),
-      "Internal IV (50)",
-      "Total (100)",
-      "Total (50)",
-    ];
-
-    // Three-line header
-    const mergedHeaders = [
-      ["M.E.S. Wadia College of Engineering, Pune-01"],
-      ["Department of Computer Engineering"],
-      [
-        `BE Project TW Evaluation Sheet (SEM2) (${academicYear.start_year}–${academicYear.end_year})`,
-      ],
-    ];
-
-    const ws = XLSX.utils.aoa_to_sheet([...mergedHeaders, headers, ...rows]);
-    if (!ws["!merges"]) ws["!merges"] = [];
-
-    // Merge header rows across all columns
-    for (let row = 0; row < mergedHeaders.length; row++) {
-      ws["!merges"]!.push({ s: { r: row, c: 0 }, e: { r: row, c: headers.length - 1 } });
-    }
+/**
+ * Project classification (from Presentation 1): title, in-house/sponsored,
+ * classification and scope of finance, one tick per selected option
+ */
+export function renderClassificationWorkbook(model: ReportModel): ReportFile {
+  const { groups, draft } = getReportPresentation(model, 1);
+  const TOTAL_COLS = 12;
+  const tick = "√";
+
+  const headerRows: Cell[][] = sheetHeaderLines(classificationHeaderLines(model), draft).map(
+    (line) => [line],
+  );
+  const categoryRow: Cell[] = Array(TOTAL_COLS).fill("");
+  categoryRow[0] = "Group ID";
+  categoryRow[1] = "Name of Student";
+  categoryRow[2] = "Guide Name";
+  categoryRow[3] = "Final Project title";
+  categoryRow[4] = "In-Home/ Sponsored";
+  categoryRow[5] = "Classification of project";
+  categoryRow[9] = "Scope of Finance";
+  const subHeaderRow: Cell[] = [
+    "", "", "", "", "",
+    "Product", "Research", "Application", "Design",
+    "Insti", "Self", "Industry",
+  ];
+
+  const rows: Cell[][] = [...headerRows, categoryRow, subHeaderRow];
+  const catRowIdx = headerRows.length;
+  const dataStartIdx = catRowIdx + 2;
+  const merges: XLSX.Range[] = headerRows.map((_, r) => ({
+    s: { r, c: 0 },
+    e: { r, c: TOTAL_COLS - 1 },
+  }));
+  merges.push({ s: { r: catRowIdx, c: 5 }, e: { r: catRowIdx, c: 8 } });
+  merges.push({ s: { r: catRowIdx, c: 9 }, e: { r: catRowIdx, c: 11 } });
+  for (let c = 0; c <= 4; c++) {
+    merges.push({ s: { r: catRowIdx, c }, e: { r: catRowIdx + 1, c } });
+  }
 
-    // Center header rows across merged area
-    const headerCellStyle2 = { alignment: { horizontal: "center", vertical: "center", wrapText: true }, font: { bold: true } };
-    for (let i = 0; i < mergedHeaders.length; i++) {
-      const addr = XLSX.utils.encode_cell({ r: i, c: 0 });
-      if (!ws[addr]) ws[addr] = { t: "s", v: mergedHeaders[i][0] };
-      ws[addr].s = headerCellStyle2;
-    }
+  for (const group of groups) {
+    const start = rows.length;
+    const students = group.students.length > 0 ? group.students : [undefined];
 
-    // Ensure column header row (below merged headers) is center aligned
-    const colHeaderRow2 = mergedHeaders.length;
-    for (let c = 0; c < headers.length; c++) {
-      const addr = XLSX.utils.encode_cell({ r: colHeaderRow2, c });
-      if (ws[addr]) {
-        ws[addr].s = { ...(ws[addr].s || {}), alignment: { horizontal: "center", vertical: "center" }, font: { bold: true } };
-      }
-    }
+    for (const student of students) {
+      const evaluation = student?.evaluation || {};
+      const industryDisplay = (evaluation.finance_industry || 0) > 0
+        ? `${tick}${evaluation.industry_name ? ` - ${evaluation.industry_name}` : ""}`
+        : "";
 
-    merges.forEach((m: any) => {
-      if (m.col !== undefined && m.start !== undefined && m.count !== undefined) {
-        ws["!merges"]!.push({
-          s: { r: m.start + mergedHeaders.length + 1, c: m.col },
-          e: { r: m.start + m.count + mergedHeaders.length, c: m.col },
-        });
-      } else if (m.row !== undefined && m.startCol !== undefined && m.endCol !== undefined) {
-        ws["!merges"]!.push({
-          s: { r: m.row + mergedHeaders.length + 1, c: m.startCol },
-          e: { r: m.row + mergedHeaders.length + 1, c: m.endCol },
-        });
+      let projectTypeDisplay = evaluation.project_type_in_house_sponsored || "";
+      if (evaluation.project_type_in_house_sponsored === "Sponsored" && evaluation.industry_name) {
+        projectTypeDisplay = `${projectTypeDisplay}\n(${evaluation.industry_name})`;
       }
-    });
 
-    ws["!cols"] = headers.map(() => ({ wch: 15 }));
-    ws["!cols"][0] = { wch: 10 };
-    ws["!cols"][1] = { wch: 25 };
-    ws["!cols"][2] = { wch: 25 };
-
-    // Row heights for header rows
-    ws["!rows"] = [{ hpx: 30 }, { hpx: 30 }, { hpx: 30 }];
+      rows.push([
+        group.groupNumber, student?.name || "", group.guideName,
+        evaluation.project_title || "", projectTypeDisplay,
+        (evaluation.classification_product || 0) > 0 ? tick : "",
+        (evaluation.classification_research || 0) > 0 ? tick : "",
+        (evaluation.classification_application || 0) > 0 ? tick : "",
+        (evaluation.classification_design || 0) > 0 ? tick : "",
+        (evaluation.finance_institute || 0) > 0 ? tick : "",
+        (evaluation.finance_self || 0) > 0 ? tick : "",
+        industryDisplay,
+      ]);
+    }
 
-    XLSX.utils.book_append_sheet(workbook, ws, "Semester 2");
+    // Everything but the student name is per project, so merge it over the group
+    const end = rows.length - 1;
+    if (end > start) {
+      for (let c = 0; c < TOTAL_COLS; c++) {
+        if (c !== 1) merges.push({ s: { r: start, c }, e: { r: end, c } });
+      }
+    }
+    merges.push({ s: { r: rows.length, c: 0 }, e: { r: rows.length, c: TOTAL_COLS - 1 } });
+    rows.push([""]);
   }
 
-  XLSX.writeFile(workbook, "Annual_Report.xlsx");
+  const ws = XLSX.utils.aoa_to_sheet(rows);
+  ws["!merges"] = merges;
+  applyProfessionalFormattingToWorksheet(ws, dataStartIdx);
+  styleDraftWatermark(ws);
+  ws["!cols"] = [
+    { wch: 10 }, { wch: 30 }, { wch: 25 }, { wch: 45 }, { wch: 20 },
+    { wch: 10 }, { wch: 10 }, { wch: 10 }, { wch: 10 },
+    { wch: 10 }, { wch: 10 }, { wch: 10 },
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, ws, "Project Classification");
+  return {
+    workbook,
+    fileName: draftFileName(`Project_Classification_${yearSuffix(model)}.xlsx`, draft),
+  };
 }
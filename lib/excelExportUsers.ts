@@ -1,5 +1,6 @@
 import * as XLSX from "xlsx";
 import { User } from "./types";
+import { ROLE_LABELS } from "./permissions";
 
 /**
  * Export all users to an Excel file
@@ -26,7 +27,7 @@ export async function exportUsersToExcel(users: User[]): Promise<void> {
         user.full_name || "N/A",
         user.username,
         user.email || "N/A",
-        user.role,
+        ROLE_LABELS[user.role] || user.role,
         user.is_active ? "Active" : "Inactive",
         new Date(user.created_at).toLocaleDateString(),
       ]);
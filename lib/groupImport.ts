@@ -0,0 +1,186 @@
+import * as XLSX from "xlsx";
+import { MAX_GROUP_STUDENTS, MIN_GROUP_STUDENTS } from "./constants";
+import { GroupImportRow, User } from "./types";
+
+// =====================================================
+// Bulk Group Import (xlsx / csv)
+// =====================================================
+// Expected columns (header names are matched loosely, in any order):
+//   Group No | Guide | Student 1 .. Student 6 | Project Title
+
+const GROUP_HEADERS = ["groupno", "groupnumber", "group", "grpno"];
+const GUIDE_HEADERS = ["guide", "guideusername", "guidename", "username"];
+const PROJECT_HEADERS = ["projecttitle", "project", "title"];
+
+function normalizeHeader(value: unknown): string {
+  return String(value ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function cellText(value: unknown): string {
+  return String(value ?? "").trim();
+}
+
+/**
+ * Map column index -> role for a header row, or null if it isn't one
+ */
+function readHeaderRow(row: unknown[]) {
+  let groupCol = -1;
+  let guideCol = -1;
+  let projectCol = -1;
+  const studentCols: { index: number; position: number }[] = [];
+
+  row.forEach((cell, index) => {
+    const header = normalizeHeader(cell);
+    if (!header) return;
+
+    const studentMatch = header.match(/^(?:student|studentname|name)(\d)$/);
+    if (studentMatch) {
+      studentCols.push({ index, position: parseInt(studentMatch[1]) });
+    } else if (groupCol < 0 && GROUP_HEADERS.includes(header)) {
+      groupCol = index;
+    } else if (guideCol < 0 && GUIDE_HEADERS.includes(header)) {
+      guideCol = index;
+    } else if (projectCol < 0 && PROJECT_HEADERS.includes(header)) {
+      projectCol = index;
+    }
+  });
+
+  if (groupCol < 0 || studentCols.length === 0) return null;
+
+  studentCols.sort((a, b) => a.position - b.position);
+  return { groupCol, guideCol, projectCol, studentCols };
+}
+
+/**
+ * Turn a sheet (array of rows) into import rows. The first row that has a
+ * group column and at least one student column is used as the header.
+ */
+export function parseGroupImportTable(table: unknown[][]): GroupImportRow[] {
+  const headerIndex = table.findIndex((row) => readHeaderRow(row) !== null);
+  if (headerIndex < 0) {
+    throw new Error(
+      "Could not find a header row with 'Group No' and 'Student 1' columns",
+    );
+  }
+
+  const columns = readHeaderRow(table[headerIndex])!;
+  const rows: GroupImportRow[] = [];
+
+  for (let i = headerIndex + 1; i < table.length; i++) {
+    const row = table[i] || [];
+    if (row.every((cell) => !cellText(cell))) continue; // Skip blank lines
+
+    const rawGroup = cellText(row[columns.groupCol]);
+    const groupNumber = Number(rawGroup);
+
+    rows.push({
+      rowNumber: i + 1,
+      group_number: rawGroup && Number.isInteger(groupNumber) ? groupNumber : null,
+      guide: columns.guideCol >= 0 ? cellText(row[columns.guideCol]) : "",
+      students: columns.studentCols
+        .map((col) => cellText(row[col.index]))
+        .filter(Boolean),
+      project_title:
+        columns.projectCol >= 0 ? cellText(row[columns.projectCol]) : "",
+      errors: [],
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Read an uploaded .xlsx / .xls / .csv file (first sheet) into import rows
+ */
+export async function parseGroupImportFile(file: File): Promise<GroupImportRow[]> {
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(buffer, { type: "array" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error("The file does not contain any sheets");
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    defval: "",
+    blankrows: false,
+  });
+  return parseGroupImportTable(table);
+}
+
+/**
+ * Validate rows against the guides that exist and the groups already in the
+ * target presentation. Returns copies with `errors` filled in and the guide
+ * resolved to a teacher account.
+ */
+export function validateGroupImportRows(
+  rows: GroupImportRow[],
+  teachers: User[],
+  existingGroupNumbers: number[],
+): GroupImportRow[] {
+  const existing = new Set(existingGroupNumbers);
+  const seen = new Map<number, number>();
+  for (const row of rows) {
+    if (row.group_number !== null) {
+      seen.set(row.group_number, (seen.get(row.group_number) || 0) + 1);
+    }
+  }
+
+  return rows.map((row) => {
+    const errors: string[] = [];
+
+    if (row.group_number === null || row.group_number < 1) {
+      errors.push("Group number must be a positive whole number");
+    } else {
+      if ((seen.get(row.group_number) || 0) > 1) {
+        errors.push(`Group ${row.group_number} appears more than once in the file`);
+      }
+      if (existing.has(row.group_number)) {
+        errors.push(`Group ${row.group_number} already exists in this presentation`);
+      }
+    }
+
+    const guideKey = row.guide.trim().toLowerCase();
+    const teacher = guideKey
+      ? teachers.find((t) => t.username.toLowerCase() === guideKey) ||
+        teachers.find((t) => (t.full_name || "").toLowerCase() === guideKey)
+      : undefined;
+
+    if (!guideKey) {
+      errors.push("Guide is required");
+    } else if (!teacher) {
+      errors.push(`Unknown guide "${row.guide}"`);
+    }
+
+    if (row.students.length < MIN_GROUP_STUDENTS) {
+      errors.push("At least one student name is required");
+    } else if (row.students.length > MAX_GROUP_STUDENTS) {
+      errors.push(`A group can have at most ${MAX_GROUP_STUDENTS} students`);
+    }
+
+    return {
+      ...row,
+      guide_user_id: teacher?.id,
+      guide_name: teacher ? teacher.full_name || teacher.username : undefined,
+      errors,
+    };
+  });
+}
+
+/**
+ * Download an empty import template with the expected headers
+ */
+export function downloadGroupImportTemplate(): void {
+  const headers = [
+    "Group No",
+    "Guide",
+    ...Array.from({ length: MAX_GROUP_STUDENTS }, (_, i) => `Student ${i + 1}`),
+    "Project Title",
+  ];
+  const ws = XLSX.utils.aoa_to_sheet([headers]);
+  ws["!cols"] = headers.map(() => ({ wch: 22 }));
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, "Groups");
+  XLSX.writeFile(wb, "group_import_template.xlsx");
+}
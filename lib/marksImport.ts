@@ -0,0 +1,188 @@
+import * as XLSX from "xlsx";
+import { DEFAULT_COLUMNS } from "./constants";
+import { validateMark, getMaxValue } from "./calculations";
+import { findCriterion, getCriterionMark } from "./rubric";
+import {
+  Evaluation,
+  GroupWithStudents,
+  MarksImportChange,
+  MarksImportDiff,
+  Rubric,
+  RubricCriterion,
+} from "./types";
+
+// =====================================================
+// Marks Import (from exportPresentationNReport sheets)
+// =====================================================
+// Those sheets have a few title rows, then a header row
+//   Group No | Student Name | Guide Name | <criterion> (max) ... | <total>
+// followed by one row per student. Group No is merged per group, so it is
+// only present on the first row of each block once Excel re-saves the file.
+
+interface ParsedMarksRow {
+  rowNumber: number;
+  groupNumber: number | null;
+  studentName: string;
+  cells: Record<string, unknown>; // criterion key -> raw cell value
+}
+
+function normalizeLabel(value: unknown): string {
+  return String(value ?? "")
+    .toLowerCase()
+    .replace(/×\s*[\d.]+/g, "") // weight suffix shown in the grid
+    .replace(/\([^)]*\)/g, "") // "(10)" max-mark suffix
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function normalizeName(value: unknown): string {
+  return String(value ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Match a column header to a rubric criterion by its current name or by the
+ * default name (for sheets exported before the column was renamed)
+ */
+function matchCriterion(header: unknown, rubric: Rubric): RubricCriterion | undefined {
+  const label = normalizeLabel(header);
+  if (!label) return undefined;
+
+  const defaults = DEFAULT_COLUMNS[rubric.presentationNumber] || {};
+  return rubric.criteria.find(
+    (c) =>
+      normalizeLabel(c.name) === label ||
+      normalizeLabel(defaults[c.key]?.name) === label,
+  );
+}
+
+/**
+ * Parse the rows of an exported presentation sheet
+ */
+export function parseMarksTable(
+  table: unknown[][],
+  rubric: Rubric,
+): { rows: ParsedMarksRow[]; unmatchedHeaders: string[] } {
+  const headerIndex = table.findIndex(
+    (row) =>
+      normalizeLabel(row?.[0]) === "groupno" &&
+      normalizeLabel(row?.[1]) === "studentname",
+  );
+  if (headerIndex < 0) {
+    throw new Error(
+      "Could not find the 'Group No | Student Name' header row. Upload a sheet exported from this system.",
+    );
+  }
+
+  const header = table[headerIndex];
+  const columnKeys: Record<number, string> = {};
+  const unmatchedHeaders: string[] = [];
+  const totalLabel = normalizeLabel(rubric.totalLabel);
+
+  for (let c = 3; c < header.length; c++) {
+    const text = String(header[c] ?? "").trim();
+    if (!text) continue;
+
+    const criterion = matchCriterion(text, rubric);
+    if (criterion) {
+      columnKeys[c] = criterion.key;
+    } else if (!normalizeLabel(text).startsWith(totalLabel)) {
+      unmatchedHeaders.push(text);
+    }
+  }
+
+  const rows: ParsedMarksRow[] = [];
+  let currentGroup: number | null = null;
+
+  for (let r = headerIndex + 1; r < table.length; r++) {
+    const row = table[r] || [];
+    const rawGroup = String(row[0] ?? "").trim();
+    if (rawGroup) {
+      const parsed = Number(rawGroup);
+      currentGroup = Number.isInteger(parsed) ? parsed : null;
+    }
+
+    const studentName = String(row[1] ?? "").trim();
+    if (!studentName) continue; // Spacer row or empty student slot
+
+    const cells: Record<string, unknown> = {};
+    for (const [col, key] of Object.entries(columnKeys)) {
+      cells[key] = row[Number(col)];
+    }
+
+    rows.push({ rowNumber: r + 1, groupNumber: currentGroup, studentName, cells });
+  }
+
+  return { rows, unmatchedHeaders };
+}
+
+/**
+ * Compare parsed sheet rows with the stored evaluations. Only cells whose
+ * value differs are returned; blank cells are treated as "no change".
+ */
+export function diffMarks(
+  table: unknown[][],
+  groups: GroupWithStudents[],
+  rubric: Rubric,
+): MarksImportDiff {
+  const { rows, unmatchedHeaders } = parseMarksTable(table, rubric);
+  const changes: MarksImportChange[] = [];
+  const unmatchedRows: MarksImportDiff["unmatchedRows"] = [];
+
+  for (const row of rows) {
+    const group = groups.find((g) => g.group_number === row.groupNumber);
+    const student = group?.students.find(
+      (s) => normalizeName(s.student_name) === normalizeName(row.studentName),
+    );
+
+    if (!group || !student) {
+      unmatchedRows.push({
+        rowNumber: row.rowNumber,
+        groupNumber: row.groupNumber,
+        studentName: row.studentName,
+      });
+      continue;
+    }
+
+    const evaluation = (student.evaluation || {}) as Partial<Evaluation>;
+
+    for (const [key, raw] of Object.entries(row.cells)) {
+      if (raw === "" || raw === null || raw === undefined) continue;
+
+      const criterion = findCriterion(rubric, key)!;
+      const oldValue = getCriterionMark(evaluation, criterion);
+      const newValue = Number(raw);
+      if (newValue === oldValue) continue;
+
+      let error: string | undefined;
+      if (Number.isNaN(newValue)) {
+        error = `"${raw}" is not a number`;
+      } else if (!validateMark(key, newValue, rubric)) {
+        error = `Must be between 0 and ${getMaxValue(key, rubric)}`;
+      }
+
+      changes.push({
+        studentId: student.id,
+        studentName: student.student_name,
+        groupNumber: group.group_number,
+        field: key,
+        fieldLabel: criterion.name,
+        oldValue,
+        newValue,
+        error,
+      });
+    }
+  }
+
+  return { changes, unmatchedRows, unmatchedHeaders };
+}
+
+/**
+ * Read the first sheet of an uploaded workbook as an array of rows
+ */
+export async function readMarksFile(file: File): Promise<unknown[][]> {
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(buffer, { type: "array" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error("The file does not contain any sheets");
+
+  return XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "" });
+}
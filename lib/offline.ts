@@ -0,0 +1,313 @@
+/**
+ * Offline Marks Entry
+ * Keeps the last loaded copy of each presentation grid (and the signed-in
+ * user) in localStorage so marks entry keeps working without a connection,
+ * and queues mark edits made offline until they can be replayed.
+ */
+import { updateEvaluation, ApiRequestError } from "./api";
+import {
+  AcademicYear,
+  Evaluation,
+  GroupWithStudents,
+  Presentation,
+  PresentationExaminer,
+  User,
+} from "./types";
+
+const USER_KEY = "__scoreflow_offline_user";
+const GRID_PREFIX = "__scoreflow_offline_grid:";
+const DASHBOARD_PREFIX = "__scoreflow_offline_dashboard:";
+const QUEUE_PREFIX = "__scoreflow_pending_marks:";
+
+/**
+ * Dispatched on window whenever the pending queue changes
+ */
+export const PENDING_MARKS_EVENT = "scoreflow:pending-marks";
+
+export interface CachedGrid {
+  presentation: Presentation;
+  groups: GroupWithStudents[];
+  siblingPresentation: Presentation | null;
+  siblingGroups: GroupWithStudents[];
+  examiners: PresentationExaminer[];
+  cachedAt: string;
+}
+
+export interface CachedDashboard {
+  academicYear: AcademicYear;
+  presentations: Presentation[];
+  stats: Record<string, { groupCount: number; studentCount: number }>;
+  cachedAt: string;
+}
+
+export interface PendingMarkEdit {
+  studentId: string;
+  presentationId: string;
+  field: string;
+  value: number;
+  expectedUpdatedAt?: string; // Version the edit was made against
+  // For reporting conflicts after replay
+  studentName: string;
+  groupNumber: number;
+  fieldLabel: string;
+  queuedAt: string;
+}
+
+export interface ReplayResult {
+  applied: number;
+  conflicts: { edit: PendingMarkEdit; current: Evaluation }[];
+  failed: { edit: PendingMarkEdit; error: string }[];
+  remaining: number; // Still queued because the connection dropped again or the session ended
+  signedOut: boolean; // Stopped because the session ended; replayed after signing back in
+}
+
+function readJson<T>(key: string): T | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    // Quota exceeded or storage disabled: offline support degrades, nothing else
+    console.error(`Error writing ${key} to localStorage:`, error);
+  }
+}
+
+/**
+ * Whether an error means the server could not be reached (as opposed to
+ * the server rejecting the request)
+ */
+export function isOfflineError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  if (error instanceof ApiRequestError) return false;
+  if (error instanceof TypeError) return true; // fetch() network failure
+  return /failed to fetch|network ?error|load failed/i.test((error as any)?.message || "");
+}
+
+// =====================================================
+// Signed-in user
+// =====================================================
+
+export function cacheUser(user: User | null): void {
+  if (typeof window === "undefined") return;
+  if (user) writeJson(USER_KEY, user);
+  else localStorage.removeItem(USER_KEY);
+}
+
+export function getCachedUser(): User | null {
+  return readJson<User>(USER_KEY);
+}
+
+// =====================================================
+// Presentation grids
+// =====================================================
+
+export function cacheGrid(userId: string, grid: Omit<CachedGrid, "cachedAt">): void {
+  writeJson(`${GRID_PREFIX}${userId}:${grid.presentation.id}`, {
+    ...grid,
+    cachedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Cached grid for a presentation id or slug, as last loaded by this user
+ */
+export function getCachedGrid(userId: string, slugOrId: string): CachedGrid | null {
+  if (typeof window === "undefined") return null;
+
+  const prefix = `${GRID_PREFIX}${userId}:`;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(prefix)) continue;
+
+    const grid = readJson<CachedGrid>(key);
+    const presentation = grid?.presentation;
+    if (
+      presentation &&
+      (presentation.id === slugOrId ||
+        presentation.slug === slugOrId.toLowerCase() ||
+        presentation.legacy_slug === slugOrId.toUpperCase())
+    ) {
+      return grid;
+    }
+  }
+  return null;
+}
+
+/**
+ * Show queued (not yet synced) edits on top of loaded or cached groups
+ */
+export function applyPendingEdits(
+  groups: GroupWithStudents[],
+  edits: PendingMarkEdit[],
+): GroupWithStudents[] {
+  if (edits.length === 0) return groups;
+
+  return groups.map((group) => ({
+    ...group,
+    students: group.students.map((student) => {
+      const studentEdits = edits.filter((e) => e.studentId === student.id);
+      if (studentEdits.length === 0) return student;
+
+      const evaluation: any = {
+        ...(student.evaluation || {}),
+        extra_marks: { ...(student.evaluation?.extra_marks || {}) },
+      };
+      for (const edit of studentEdits) {
+        if (edit.field.startsWith("extra_")) evaluation.extra_marks[edit.field] = edit.value;
+        else evaluation[edit.field] = edit.value;
+      }
+      return { ...student, evaluation };
+    }),
+  }));
+}
+
+export function cacheDashboard(
+  userId: string,
+  academicYearId: string,
+  dashboard: Omit<CachedDashboard, "cachedAt">,
+): void {
+  writeJson(`${DASHBOARD_PREFIX}${userId}:${academicYearId}`, {
+    ...dashboard,
+    cachedAt: new Date().toISOString(),
+  });
+}
+
+export function getCachedDashboard(
+  userId: string,
+  academicYearId: string,
+): CachedDashboard | null {
+  return readJson<CachedDashboard>(`${DASHBOARD_PREFIX}${userId}:${academicYearId}`);
+}
+
+/**
+ * Drop every cached grid, dashboard and the cached user (on logout). Pending edits are
+ * kept so they can still be synced after signing back in.
+ */
+export function clearOfflineCache(): void {
+  if (typeof window === "undefined") return;
+
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(GRID_PREFIX) || key?.startsWith(DASHBOARD_PREFIX)) keys.push(key);
+  }
+  keys.forEach((key) => localStorage.removeItem(key));
+  localStorage.removeItem(USER_KEY);
+}
+
+// =====================================================
+// Pending edit queue
+// =====================================================
+
+export function getPendingEdits(userId: string): PendingMarkEdit[] {
+  return readJson<PendingMarkEdit[]>(`${QUEUE_PREFIX}${userId}`) || [];
+}
+
+function savePendingEdits(userId: string, edits: PendingMarkEdit[]): void {
+  if (edits.length > 0) writeJson(`${QUEUE_PREFIX}${userId}`, edits);
+  else if (typeof window !== "undefined") localStorage.removeItem(`${QUEUE_PREFIX}${userId}`);
+  window.dispatchEvent(new Event(PENDING_MARKS_EVENT));
+}
+
+/**
+ * Queue an edit for later. A newer edit to the same cell replaces the older
+ * one but keeps the version the first edit was made against.
+ */
+export function queueMarkEdit(
+  userId: string,
+  edit: Omit<PendingMarkEdit, "queuedAt">,
+): void {
+  const edits = getPendingEdits(userId);
+  const existing = edits.find(
+    (e) => e.studentId === edit.studentId && e.field === edit.field,
+  );
+
+  if (existing) {
+    existing.value = edit.value;
+    existing.queuedAt = new Date().toISOString();
+  } else {
+    edits.push({ ...edit, queuedAt: new Date().toISOString() });
+  }
+
+  savePendingEdits(userId, edits);
+}
+
+let activeReplay: Promise<ReplayResult> | null = null;
+
+/**
+ * Send queued edits in the order they were made. Edits rejected because the
+ * mark changed on the server in the meantime are reported as conflicts and
+ * dropped; if the connection drops again, or the session has expired (401 or
+ * 403), the rest stay queued for the next replay.
+ */
+export function replayPendingEdits(userId: string): Promise<ReplayResult> {
+  if (!activeReplay) {
+    activeReplay = replay(userId).finally(() => {
+      activeReplay = null;
+    });
+  }
+  return activeReplay;
+}
+
+async function replay(userId: string): Promise<ReplayResult> {
+  const edits = getPendingEdits(userId);
+  const result: ReplayResult = {
+    applied: 0,
+    conflicts: [],
+    failed: [],
+    remaining: 0,
+    signedOut: false,
+  };
+  // Our own replayed saves bump updated_at; later edits made against the
+  // same original version follow the bump instead of conflicting with it
+  const rebased: Record<string, { from?: string; to: string }> = {};
+
+  let index = 0;
+  for (; index < edits.length; index++) {
+    const edit = edits[index];
+    const own = rebased[edit.studentId];
+    const expected =
+      own && own.from === edit.expectedUpdatedAt ? own.to : edit.expectedUpdatedAt;
+
+    try {
+      const saved = await updateEvaluation(edit.studentId, edit.field, edit.value, expected);
+      rebased[edit.studentId] = { from: edit.expectedUpdatedAt, to: saved.updated_at };
+      result.applied++;
+    } catch (error) {
+      if (isOfflineError(error)) break;
+      if (error instanceof ApiRequestError && (error.status === 401 || error.status === 403)) {
+        result.signedOut = true;
+        break;
+      }
+
+      if (error instanceof ApiRequestError && error.status === 409 && error.data?.evaluation) {
+        result.conflicts.push({ edit, current: error.data.evaluation });
+      } else {
+        result.failed.push({ edit, error: (error as any)?.message || "Failed to save" });
+      }
+    }
+  }
+
+  // Keep anything queued (or re-edited) while the replay was running
+  const sameCell = (a: PendingMarkEdit, b: PendingMarkEdit) =>
+    a.studentId === b.studentId && a.field === b.field;
+  const queuedMeanwhile = getPendingEdits(userId).filter(
+    (e) => !edits.some((sent) => sameCell(sent, e) && sent.queuedAt === e.queuedAt),
+  );
+  const remaining = edits
+    .slice(index)
+    .filter((e) => !queuedMeanwhile.some((newer) => sameCell(newer, e)));
+
+  savePendingEdits(userId, [...remaining, ...queuedMeanwhile]);
+  result.remaining = remaining.length + queuedMeanwhile.length;
+  return result;
+}
@@ -0,0 +1,547 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  StandardFonts,
+  degrees,
+  rgb,
+} from "pdf-lib";
+import {
+  ReportModel,
+  ReportStudent,
+  getReportPresentation,
+  getReportSemester,
+  presentationColumns,
+  presentationRow,
+  reportHeaderLines,
+  semesterColumns,
+  semesterOf,
+  semesterRow,
+  SEMESTER_PRESENTATIONS,
+} from "./reportModel";
+import { signatories } from "./branding";
+import { DRAFT_WATERMARK, draftFileName } from "./resultsPublishing";
+import { InstitutionSettings } from "./types";
+
+/**
+ * PDF TW Sheets
+ * Renders the report model (lib/reportModel.ts) as printable sheets with the
+ * same college header, table and totals as the Excel exports, plus the
+ * institution logo, pasted images and signature blocks for the guide,
+ * project coordinator and HOD.
+ */
+
+export interface PdfReportFile {
+  bytes: Uint8Array;
+  fileName: string;
+}
+
+type Cell = string | number;
+
+interface PdfGroupBlock {
+  groupNumber: number;
+  guideName: string;
+  rows: Cell[][]; // One per student, excluding the Group No / Guide Name columns
+}
+
+interface PdfImage {
+  caption: string;
+  source: string; // Data URL or raw base64, as stored on the evaluation
+}
+
+interface PdfSection {
+  headerLines: string[];
+  columns: string[];
+  groups: PdfGroupBlock[];
+  images: PdfImage[];
+  draft: boolean; // Marks are not the published results: stamp every page
+}
+
+// =====================================================
+// Sections
+// =====================================================
+
+/** Field holding the pasted image for each presentation number */
+const IMAGE_FIELDS: Partial<Record<number, "pasted_image_1" | "pasted_image_2">> = {
+  2: "pasted_image_1",
+  4: "pasted_image_2",
+};
+
+function studentImage(
+  student: ReportStudent | undefined,
+  presentationNumber: number,
+  groupNumber: number,
+): PdfImage[] {
+  const field = IMAGE_FIELDS[presentationNumber];
+  const source = field && student?.evaluation[field];
+  return source
+    ? [{ caption: `Group ${groupNumber} - ${student.name}`, source }]
+    : [];
+}
+
+function presentationSection(model: ReportModel, number: number): PdfSection {
+  const { presentation, rubric, groups, draft } = getReportPresentation(model, number);
+
+  return {
+    headerLines: [
+      ...reportHeaderLines(model, `SEM${semesterOf(number)}`),
+      presentation.name,
+    ],
+    columns: presentationColumns(rubric),
+    groups: groups.map((group) => ({
+      groupNumber: group.groupNumber,
+      guideName: group.guideName,
+      rows: group.students.map((s) => [s.name, ...presentationRow(s)]),
+    })),
+    images: groups.flatMap((group) =>
+      group.students.flatMap((s) => studentImage(s, number, group.groupNumber)),
+    ),
+    draft,
+  };
+}
+
+function semesterSection(model: ReportModel, semester: 1 | 2): PdfSection {
+  const view = getReportSemester(model, semester);
+  const [a, b] = SEMESTER_PRESENTATIONS[semester];
+
+  return {
+    headerLines: reportHeaderLines(model, `SEM${semester}`),
+    columns: semesterColumns(view),
+    groups: view.groups.map((group) => ({
+      groupNumber: group.groupNumber,
+      guideName: group.guideName,
+      rows: group.students.map((s) => [s.name, ...semesterRow(view, s)]),
+    })),
+    images: view.groups.flatMap((group) =>
+      group.students.flatMap((s) => [
+        ...studentImage(s.first, a, group.groupNumber),
+        ...studentImage(s.second, b, group.groupNumber),
+      ]),
+    ),
+    draft: view.draft,
+  };
+}
+
+// =====================================================
+// Rendering
+// =====================================================
+
+const PAGE_WIDTH = 841.89; // A4 landscape
+const PAGE_HEIGHT = 595.28;
+const MARGIN = 28;
+const CELL_PADDING = 3;
+const BODY_SIZE = 8;
+const COLUMN_HEADER_SIZE = 6.5;
+const ROW_HEIGHT = 14;
+const SIGNATURE_HEIGHT = 70;
+const IMAGE_BOX = { width: 240, height: 150, captionHeight: 14 };
+const LOGO_SIZE = 44;
+const BORDER = rgb(0.35, 0.35, 0.35);
+const HEADER_FILL = rgb(0.87, 0.91, 0.96);
+const WATERMARK_SIZE = 44;
+const WATERMARK_COLOR = rgb(0.75, 0, 0);
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  charset: Set<number>;
+}
+
+/**
+ * Drop characters the standard PDF fonts cannot encode (e.g. Devanagari)
+ * rather than failing the whole document
+ */
+function encodable(text: string, fonts: Fonts): string {
+  return Array.from(text)
+    .map((ch) => (fonts.charset.has(ch.codePointAt(0)!) ? ch : "?"))
+    .join("");
+}
+
+function fitText(text: string, font: PDFFont, size: number, width: number): string {
+  if (font.widthOfTextAtSize(text, size) <= width) return text;
+  let cut = text;
+  while (cut.length > 1 && font.widthOfTextAtSize(`${cut}...`, size) > width) {
+    cut = cut.slice(0, -1);
+  }
+  return `${cut}...`;
+}
+
+function wrapText(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (!line || font.widthOfTextAtSize(candidate, size) <= width) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.map((l) => fitText(l, font, size, width));
+}
+
+function formatCell(value: Cell): string {
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  }
+  return value;
+}
+
+/**
+ * Column widths in points: fixed identity columns, the rest shared equally
+ */
+function columnWidths(count: number): number[] {
+  const identity = [40, 120, 95];
+  const rest = (PAGE_WIDTH - 2 * MARGIN - identity.reduce((a, b) => a + b, 0)) / (count - 3);
+  return [...identity, ...Array(count - 3).fill(rest)];
+}
+
+/**
+ * Embed an inline (data URL or base64) image. Remote URLs are never fetched:
+ * the server would request whatever address a stored value names.
+ */
+async function embedImage(doc: PDFDocument, source: string): Promise<PDFImage | null> {
+  try {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(source) && !/^data:/i.test(source)) {
+      throw new Error("Only inline images can be embedded");
+    }
+    const bytes = new Uint8Array(Buffer.from(source.replace(/^data:[^,]*,/, ""), "base64"));
+
+    // PNG files start with 0x89 "PNG"; everything else is tried as JPEG
+    return bytes[0] === 0x89 && bytes[1] === 0x50
+      ? await doc.embedPng(bytes)
+      : await doc.embedJpg(bytes);
+  } catch (error) {
+    console.warn("Skipping image that could not be embedded in PDF:", error);
+    return null;
+  }
+}
+
+class SheetWriter {
+  private page!: PDFPage;
+  private y = 0;
+  /** Pages of draft sections, stamped once their content is drawn */
+  readonly draftPages: PDFPage[] = [];
+
+  constructor(
+    private doc: PDFDocument,
+    private fonts: Fonts,
+    private branding: InstitutionSettings,
+    private logo: PDFImage | null,
+  ) {}
+
+  text(value: string, x: number, y: number, size: number, bold = false) {
+    this.page.drawText(encodable(value, this.fonts), {
+      x,
+      y,
+      size,
+      font: bold ? this.fonts.bold : this.fonts.regular,
+      color: rgb(0, 0, 0),
+    });
+  }
+
+  centeredText(value: string, y: number, size: number, bold = false) {
+    const font = bold ? this.fonts.bold : this.fonts.regular;
+    const safe = encodable(value, this.fonts);
+    const width = font.widthOfTextAtSize(safe, size);
+    this.text(safe, (PAGE_WIDTH - width) / 2, y, size, bold);
+  }
+
+  cell(x: number, top: number, width: number, height: number, fill?: boolean) {
+    this.page.drawRectangle({
+      x,
+      y: top - height,
+      width,
+      height,
+      borderColor: BORDER,
+      borderWidth: 0.5,
+      color: fill ? HEADER_FILL : undefined,
+    });
+  }
+
+  remaining(): number {
+    return this.y - MARGIN - 12; // Keep room for the page footer
+  }
+
+  /** Start a page with the college header and, for tables, the column headers */
+  newPage(section: PdfSection, widths?: number[]) {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+    if (section.draft) this.draftPages.push(this.page);
+
+    if (this.logo) {
+      const scale = Math.min(LOGO_SIZE / this.logo.width, LOGO_SIZE / this.logo.height);
+      this.page.drawImage(this.logo, {
+        x: MARGIN,
+        y: this.y - this.logo.height * scale,
+        width: this.logo.width * scale,
+        height: this.logo.height * scale,
+      });
+    }
+
+    section.headerLines.forEach((line, i) => {
+      const size = i === 0 ? 13 : 10;
+      this.y -= size + 3;
+      this.centeredText(line, this.y, size, true);
+    });
+    this.y -= 10;
+
+    if (widths) this.columnHeaders(section.columns, widths);
+  }
+
+  private columnHeaders(columns: string[], widths: number[]) {
+    const lines = columns.map((c, i) =>
+      wrapText(encodable(c, this.fonts), this.fonts.bold, COLUMN_HEADER_SIZE, widths[i] - 2 * CELL_PADDING),
+    );
+    const height = Math.max(...lines.map((l) => l.length)) * (COLUMN_HEADER_SIZE + 1.5) + 2 * CELL_PADDING;
+
+    let x = MARGIN;
+    lines.forEach((cellLines, i) => {
+      this.cell(x, this.y, widths[i], height, true);
+      cellLines.forEach((line, l) => {
+        this.text(
+          line,
+          x + CELL_PADDING,
+          this.y - CELL_PADDING - (l + 1) * (COLUMN_HEADER_SIZE + 1.5) + 1.5,
+          COLUMN_HEADER_SIZE,
+          true,
+        );
+      });
+      x += widths[i];
+    });
+    this.y -= height;
+  }
+
+  /** One group: Group No and Guide Name span the group's student rows */
+  groupBlock(section: PdfSection, group: PdfGroupBlock, widths: number[]) {
+    const rowCount = Math.max(group.rows.length, 1);
+    const height = rowCount * ROW_HEIGHT;
+    if (height > this.remaining()) this.newPage(section, widths);
+
+    const top = this.y;
+    const spanned = (col: number, value: string) => {
+      const x = MARGIN + widths.slice(0, col).reduce((a, b) => a + b, 0);
+      this.cell(x, top, widths[col], height);
+      const safe = fitText(encodable(value, this.fonts), this.fonts.regular, BODY_SIZE, widths[col] - 2 * CELL_PADDING);
+      this.text(safe, x + CELL_PADDING, top - height / 2 - BODY_SIZE / 3, BODY_SIZE);
+    };
+    spanned(0, String(group.groupNumber));
+    spanned(2, group.guideName);
+
+    for (let r = 0; r < rowCount; r++) {
+      const [studentName = "", ...marks] = group.rows[r] || [];
+      const rowTop = top - r * ROW_HEIGHT;
+      const values: Array<[number, Cell]> = [
+        [1, studentName],
+        ...marks.map((m, i): [number, Cell] => [i + 3, m]),
+      ];
+
+      for (const [col, value] of values) {
+        const x = MARGIN + widths.slice(0, col).reduce((a, b) => a + b, 0);
+        this.cell(x, rowTop, widths[col], ROW_HEIGHT);
+        const safe = fitText(
+          encodable(formatCell(value), this.fonts),
+          this.fonts.regular,
+          BODY_SIZE,
+          widths[col] - 2 * CELL_PADDING,
+        );
+        const textX = col === 1
+          ? x + CELL_PADDING
+          : x + (widths[col] - this.fonts.regular.widthOfTextAtSize(safe, BODY_SIZE)) / 2;
+        this.text(safe, textX, rowTop - ROW_HEIGHT + 4, BODY_SIZE);
+      }
+    }
+    this.y -= height;
+  }
+
+  signatures(section: PdfSection, guideName?: string) {
+    if (SIGNATURE_HEIGHT > this.remaining()) this.newPage(section);
+
+    const blocks = signatories(this.branding, guideName);
+    const slot = (PAGE_WIDTH - 2 * MARGIN) / blocks.length;
+    const lineY = this.y - SIGNATURE_HEIGHT + 28;
+
+    blocks.forEach(({ label, name }, i) => {
+      const x = MARGIN + i * slot + 20;
+      const width = slot - 40;
+      this.page.drawLine({
+        start: { x, y: lineY },
+        end: { x: x + width, y: lineY },
+        thickness: 0.7,
+        color: BORDER,
+      });
+      this.text(label, x, lineY - 11, 9, true);
+      if (name) this.text(name, x, lineY - 22, 8);
+    });
+    this.text("Date:", MARGIN + 20, lineY + 36, 8);
+    this.y -= SIGNATURE_HEIGHT;
+  }
+
+  async images(section: PdfSection) {
+    if (section.images.length === 0) return;
+
+    const perRow = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (IMAGE_BOX.width + 12));
+    const blockHeight = IMAGE_BOX.height + IMAGE_BOX.captionHeight + 10;
+    this.newPage(section);
+    this.text("Attachments", MARGIN, this.y - 10, 10, true);
+    this.y -= 20;
+
+    let column = 0;
+    for (const attachment of section.images) {
+      const image = await embedImage(this.doc, attachment.source);
+      if (!image) continue;
+
+      if (column === 0 && blockHeight > this.remaining()) {
+        this.newPage(section);
+      }
+
+      const x = MARGIN + column * (IMAGE_BOX.width + 12);
+      const scale = Math.min(IMAGE_BOX.width / image.width, IMAGE_BOX.height / image.height, 1);
+      this.page.drawImage(image, {
+        x,
+        y: this.y - IMAGE_BOX.height + (IMAGE_BOX.height - image.height * scale),
+        width: image.width * scale,
+        height: image.height * scale,
+      });
+      this.text(
+        fitText(encodable(attachment.caption, this.fonts), this.fonts.regular, 8, IMAGE_BOX.width),
+        x,
+        this.y - IMAGE_BOX.height - 10,
+        8,
+      );
+
+      column = (column + 1) % perRow;
+      if (column === 0) this.y -= blockHeight;
+    }
+  }
+
+  async section(section: PdfSection, guideName?: string) {
+    const widths = columnWidths(section.columns.length);
+    this.newPage(section, widths);
+
+    if (section.groups.length === 0) {
+      this.text("No groups to report.", MARGIN, this.y - 14, BODY_SIZE);
+      this.y -= 20;
+    }
+    for (const group of section.groups) {
+      this.groupBlock(section, group, widths);
+    }
+
+    this.y -= 8;
+    this.signatures(section, guideName);
+    await this.images(section);
+  }
+}
+
+/**
+ * Draw the DRAFT watermark diagonally across the page, over the table so
+ * the header fill cannot hide it
+ */
+function stampDraft(page: PDFPage, font: PDFFont) {
+  const width = font.widthOfTextAtSize(DRAFT_WATERMARK, WATERMARK_SIZE);
+  const angle = Math.atan2(PAGE_HEIGHT, PAGE_WIDTH);
+  page.drawText(DRAFT_WATERMARK, {
+    x: PAGE_WIDTH / 2 - (width / 2) * Math.cos(angle) + (WATERMARK_SIZE / 3) * Math.sin(angle),
+    y: PAGE_HEIGHT / 2 - (width / 2) * Math.sin(angle) - (WATERMARK_SIZE / 3) * Math.cos(angle),
+    size: WATERMARK_SIZE,
+    font,
+    color: WATERMARK_COLOR,
+    opacity: 0.25,
+    rotate: degrees((angle * 180) / Math.PI),
+  });
+}
+
+async function renderPdf(
+  branding: InstitutionSettings,
+  sections: PdfSection[],
+  guideName?: string,
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const fonts: Fonts = { regular, bold, charset: new Set(regular.getCharacterSet()) };
+  const logo = branding.logo_url ? await embedImage(doc, branding.logo_url) : null;
+
+  const writer = new SheetWriter(doc, fonts, branding, logo);
+  for (const section of sections) {
+    await writer.section(section, guideName);
+  }
+  writer.draftPages.forEach((page) => stampDraft(page, bold));
+
+  const pages = doc.getPages();
+  pages.forEach((page, i) => {
+    const label = `Page ${i + 1} of ${pages.length}`;
+    page.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(label, 7),
+      y: MARGIN / 2,
+      size: 7,
+      font: regular,
+      color: BORDER,
+    });
+  });
+
+  return doc.save();
+}
+
+/**
+ * The guide to print under the guide signature: the filtered guide, or the
+ * only guide on the sheet when every group shares one
+ */
+function signingGuide(model: ReportModel, sections: PdfSection[]): string | undefined {
+  if (model.guideFilter) return model.guideFilter;
+  const guides = new Set(sections.flatMap((s) => s.groups.map((g) => g.guideName)));
+  return guides.size === 1 ? Array.from(guides)[0] : undefined;
+}
+
+async function renderFile(
+  model: ReportModel,
+  sections: PdfSection[],
+  name: string,
+): Promise<PdfReportFile> {
+  const { start_year, end_year } = model.academicYear;
+  return {
+    bytes: await renderPdf(model.branding, sections, signingGuide(model, sections)),
+    fileName: draftFileName(
+      `${name}_${start_year}-${end_year}.pdf`,
+      sections.some((s) => s.draft),
+    ),
+  };
+}
+
+// =====================================================
+// Renderers
+// =====================================================
+
+/**
+ * TW sheet for a single presentation
+ */
+export async function renderPresentationPdf(
+  model: ReportModel,
+  number: number,
+): Promise<PdfReportFile> {
+  return renderFile(model, [presentationSection(model, number)], `Presentation_${number}_TW_Sheet`);
+}
+
+/**
+ * Semester TW sheet (Semester 1: P1 + P2, Semester 2: P3 + P4)
+ */
+export async function renderSemesterPdf(
+  model: ReportModel,
+  semester: 1 | 2,
+): Promise<PdfReportFile> {
+  return renderFile(model, [semesterSection(model, semester)], `Semester_${semester}_TW_Sheet`);
+}
+
+/**
+ * Annual TW sheets: both semester sheets in one document
+ */
+export async function renderAnnualPdf(model: ReportModel): Promise<PdfReportFile> {
+  return renderFile(
+    model,
+    [semesterSection(model, 1), semesterSection(model, 2)],
+    "Annual_TW_Sheets",
+  );
+}
@@ -0,0 +1,163 @@
+import { User, UserRole } from "./types";
+
+// =====================================================
+// Roles & Permissions
+// =====================================================
+
+export type Permission =
+  | "view"
+  | "enter_marks"
+  | "manage_groups"
+  | "lock"
+  | "export"
+  | "manage_users";
+
+/**
+ * How far a permission reaches within the department:
+ * - all: every academic year, presentation and group
+ * - own: only groups the user guides and presentations they examine
+ * - none: not at all
+ */
+export type PermissionScope = "all" | "own" | "none";
+
+/**
+ * What each role may do. Every server check and every button goes through
+ * this table, so a role's reach is changed here and nowhere else.
+ * manage_users also covers department settings such as branding and the
+ * audit log; lock "own" lets a guide submit a presentation, "all" also
+ * lock and unlock it.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Record<Permission, PermissionScope>> = {
+  admin: {
+    view: "all",
+    enter_marks: "all",
+    manage_groups: "all",
+    lock: "all",
+    export: "all",
+    manage_users: "all",
+  },
+  coordinator: {
+    view: "all",
+    enter_marks: "all",
+    manage_groups: "all",
+    lock: "all",
+    export: "all",
+    manage_users: "none",
+  },
+  hod: {
+    view: "all",
+    enter_marks: "none",
+    manage_groups: "none",
+    lock: "all",
+    export: "all",
+    manage_users: "none",
+  },
+  teacher: {
+    view: "own",
+    enter_marks: "own",
+    manage_groups: "own",
+    lock: "own",
+    export: "own",
+    manage_users: "none",
+  },
+  external_examiner: {
+    view: "own",
+    enter_marks: "own",
+    manage_groups: "none",
+    lock: "none",
+    export: "none",
+    manage_users: "none",
+  },
+  observer: {
+    view: "all",
+    enter_marks: "none",
+    manage_groups: "none",
+    lock: "none",
+    export: "all",
+    manage_users: "none",
+  },
+  // Students only see their own published results (see isStudent)
+  student: {
+    view: "none",
+    enter_marks: "none",
+    manage_groups: "none",
+    lock: "none",
+    export: "none",
+    manage_users: "none",
+  },
+};
+
+export const ROLES = Object.keys(ROLE_PERMISSIONS) as UserRole[];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Admin",
+  coordinator: "Project Coordinator",
+  hod: "Head of Department",
+  teacher: "Teacher",
+  external_examiner: "External Examiner",
+  observer: "Observer",
+  student: "Student",
+};
+
+// Completes "Observer accounts cannot ..."
+const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  view: "view this",
+  enter_marks: "enter marks here",
+  manage_groups: "manage groups here",
+  lock: "lock or unlock this presentation",
+  export: "export this report",
+  manage_users: "manage users or department settings",
+};
+
+/**
+ * What a permission is asked about. Omitted, the question is whether the
+ * user may act on the whole department; "any" asks whether they may act on
+ * anything at all (e.g. whether to show a menu entry).
+ */
+export type PermissionResource =
+  | {
+      guide_user_id?: string | null; // The group's guide
+      examiner_ids?: string[]; // The presentation's external examiners
+    }
+  | "any";
+
+export function permissionScope(
+  role: string | undefined,
+  permission: Permission,
+): PermissionScope {
+  return ROLE_PERMISSIONS[role as UserRole]?.[permission] ?? "none";
+}
+
+export function can(
+  user: Pick<User, "id" | "role"> | null | undefined,
+  permission: Permission,
+  resource?: PermissionResource,
+): boolean {
+  if (!user) return false;
+
+  const scope = permissionScope(user.role, permission);
+  if (scope === "all") return true;
+  if (scope === "none" || !resource) return false;
+  if (resource === "any") return true;
+
+  return (
+    resource.guide_user_id === user.id ||
+    !!resource.examiner_ids?.includes(user.id)
+  );
+}
+
+/**
+ * Student logins belong to a student record and only ever see that
+ * student's published results on /my-results
+ */
+export function isStudent(user: Pick<User, "role"> | null | undefined): boolean {
+  return user?.role === "student";
+}
+
+export function permissionDeniedMessage(
+  role: string | undefined,
+  permission: Permission,
+): string {
+  const label = ROLE_LABELS[role as UserRole] || "Your";
+  return `${label} accounts cannot ${PERMISSION_DESCRIPTIONS[permission]}`;
+}
@@ -0,0 +1,55 @@
+import { permissionScope } from "./permissions";
+import { Presentation, PresentationLockStatus } from "./types";
+
+// =====================================================
+// Presentation Locking
+// =====================================================
+
+/**
+ * Thrown by write operations on a submitted or locked presentation
+ */
+export class PresentationLockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PresentationLockedError";
+  }
+}
+
+export const LOCK_STATUS_LABELS: Record<PresentationLockStatus, string> = {
+  open: "Open",
+  submitted: "Submitted",
+  locked: "Locked",
+};
+
+export function getLockStatus(
+  presentation: Pick<Presentation, "lock_status">,
+): PresentationLockStatus {
+  return presentation.lock_status || "open";
+}
+
+/**
+ * Whether a user with this role may still change marks, groups or columns.
+ * A submitted presentation stays editable for roles that may lock it.
+ */
+export function canEditPresentation(
+  presentation: Pick<Presentation, "lock_status">,
+  role?: string,
+): boolean {
+  const status = getLockStatus(presentation);
+  if (status === "locked") return false;
+  if (status === "submitted") return permissionScope(role, "lock") === "all";
+  return true;
+}
+
+export function assertPresentationEditable(
+  presentation: Pick<Presentation, "name" | "lock_status">,
+  role?: string,
+): void {
+  if (canEditPresentation(presentation, role)) return;
+
+  throw new PresentationLockedError(
+    getLockStatus(presentation) === "locked"
+      ? `${presentation.name} is locked. It must be unlocked before making changes.`
+      : `${presentation.name} has been submitted. Only those who can lock presentations may make further changes.`,
+  );
+}
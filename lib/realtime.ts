@@ -0,0 +1,99 @@
+import { supabase } from "./supabase";
+import { Evaluation, Student } from "./types";
+
+// =====================================================
+// Realtime: live grid updates and presence
+// =====================================================
+// One channel per presentation carries its changes to evaluations and
+// students (broadcast to the presentation's topic by database triggers),
+// changes to its groups, and presence (who has the grid open, and which
+// group they are editing). See supabase-migration-realtime.sql; evaluation
+// broadcasts carry no marks (supabase-migration-anon-access.sql), so the
+// grid fetches the changed row through the API.
+
+export interface PresenceEditor {
+  userId: string;
+  name: string;
+  groupId: string | null; // Group whose marks they are editing, if any
+}
+
+/** Which evaluation changed, without its marks */
+export type EvaluationChange = Pick<Evaluation, "id" | "student_id" | "updated_at">;
+
+export interface PresentationChannelHandlers {
+  onEvaluationChange: (change: EvaluationChange) => void;
+  onStudentChange: (student: Partial<Student>) => void;
+  onGroupChange: () => void;
+  onPresenceChange: (editors: PresenceEditor[]) => void;
+}
+
+/** Message sent by the broadcast_grid_change trigger */
+interface GridChange<T> {
+  eventType: "INSERT" | "UPDATE" | "DELETE";
+  record: T;
+}
+
+export interface PresentationChannel {
+  setEditingGroup: (groupId: string | null) => void;
+  leave: () => void;
+}
+
+export function joinPresentationChannel(
+  presentationId: string,
+  user: { id: string; name: string },
+  handlers: PresentationChannelHandlers,
+): PresentationChannel {
+  const me: PresenceEditor = { userId: user.id, name: user.name, groupId: null };
+  let subscribed = false;
+
+  const channel = supabase.channel(`presentation:${presentationId}`, {
+    config: { presence: { key: user.id } },
+  });
+
+  channel
+    .on("broadcast", { event: "evaluations" }, ({ payload }) => {
+      const change = payload as GridChange<EvaluationChange>;
+      if (change.eventType !== "DELETE") {
+        handlers.onEvaluationChange(change.record);
+      }
+    })
+    .on("broadcast", { event: "students" }, ({ payload }) => {
+      handlers.onStudentChange((payload as GridChange<Partial<Student>>).record);
+    })
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "groups",
+        filter: `presentation_id=eq.${presentationId}`,
+      },
+      () => handlers.onGroupChange(),
+    )
+    .on("presence", { event: "sync" }, () => {
+      const state = channel.presenceState<PresenceEditor>();
+      // A user with several tabs open appears once, with their latest state
+      const editors = Object.values(state)
+        .map((entries) => entries[entries.length - 1])
+        .filter(Boolean)
+        .map(({ userId, name, groupId }) => ({ userId, name, groupId }));
+      handlers.onPresenceChange(editors);
+    })
+    .subscribe((status) => {
+      if (status === "SUBSCRIBED") {
+        subscribed = true;
+        channel.track(me);
+      }
+    });
+
+  return {
+    setEditingGroup(groupId) {
+      if (me.groupId === groupId) return;
+      me.groupId = groupId;
+      if (subscribed) channel.track(me);
+    },
+    leave() {
+      supabase.removeChannel(channel);
+    },
+  };
+}
@@ -1,133 +1,106 @@
-import { supabase } from "@/lib/supabase";
-import { verifySession } from "@/lib/auth";
-
-interface AuthorizedRequest {
-  userId: string;
-  token: string;
-  presentationId: string;
-}
+import { SupabaseClient } from "@supabase/supabase-js";
+import { ApiError } from "@/lib/apiAuth";
+import { can } from "@/lib/permissions";
+import { User } from "@/lib/types";
 
 /**
- * Verify that a user is authorized to access a presentation's reports
- * - Admins can access any presentation
- * - Teachers can only access presentations where they have assigned groups
+ * Reports never cross departments: a presentation or academic year of
+ * another department is reported as missing, whatever the caller's role
  */
-export async function verifyPresentationAccess(
-  request: AuthorizedRequest
-): Promise<boolean> {
-  const { userId, token, presentationId } = request;
-
-  try {
-    // Verify session validity
-    const isSessionValid = await verifySession(userId, token);
-    if (!isSessionValid) {
-      return false;
-    }
-
-    // Get user role
-    const { data: user, error: userError } = await supabase
-      .from("users")
-      .select("role")
-      .eq("id", userId)
-      .single();
-
-    if (userError || !user) {
-      return false;
-    }
-
-    // Admins always have access
-    if (user.role === "admin") {
-      return true;
-    }
-
-    // Teachers can only access if they have groups in this presentation
-    if (user.role === "teacher") {
-      const { data: groups, error: groupsError } = await supabase
-        .from("groups")
-        .select("id")
-        .eq("presentation_id", presentationId)
-        .eq("guide_user_id", userId)
-        .limit(1);
-
-      if (groupsError || !groups || groups.length === 0) {
-        return false;
-      }
-
-      return true;
-    }
-
-    return false;
-  } catch (error) {
-    console.error("Authorization verification error:", error);
-    return false;
+async function assertReportInDepartment(
+  db: SupabaseClient,
+  user: User,
+  table: "presentations" | "academic_years",
+  id: string
+): Promise<void> {
+  const { data, error } = await db
+    .from(table)
+    .select("department_id")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || data.department_id !== user.department_id) {
+    console.warn(`Cross-department export attempt by ${user.id} for ${table} ${id}`);
+    throw new ApiError(
+      404,
+      table === "presentations" ? "Presentation not found" : "Academic year not found"
+    );
   }
 }
 
 /**
- * Verify that a user is authorized to access an academic year
- * - Admins can access any academic year
- * - Teachers can access an academic year if they have groups in any presentation within that year
+ * Verify that the session user may export a presentation's reports
+ * - Only presentations of the user's own department
+ * - With department-wide export, any presentation of their department
+ * - With export on their own groups, only presentations where they guide a group
  */
-export async function verifyAcademicYearAccess(
-  request: Omit<AuthorizedRequest, "presentationId"> & {
-    academicYearId: string;
+export async function assertPresentationReportAccess(
+  db: SupabaseClient,
+  user: User,
+  presentationId: string
+): Promise<void> {
+  await assertReportInDepartment(db, user, "presentations", presentationId);
+
+  if (can(user, "export")) return;
+
+  if (can(user, "export", "any")) {
+    const { data: groups, error } = await db
+      .from("groups")
+      .select("id")
+      .eq("presentation_id", presentationId)
+      .eq("guide_user_id", user.id)
+      .limit(1);
+
+    if (error) throw error;
+    if (groups && groups.length > 0) return;
   }
-): Promise<boolean> {
-  const { userId, token, academicYearId } = request;
 
-  try {
-    // Verify session validity
-    const isSessionValid = await verifySession(userId, token);
-    if (!isSessionValid) {
-      return false;
-    }
-
-    // Get user role
-    const { data: user, error: userError } = await supabase
-      .from("users")
-      .select("role")
-      .eq("id", userId)
-      .single();
-
-    if (userError || !user) {
-      return false;
-    }
+  console.warn(
+    `Unauthorized export attempt by ${user.id} for presentation ${presentationId}`
+  );
+  throw new ApiError(403, "Unauthorized: You do not have access to this presentation");
+}
 
-    // Admins always have access
-    if (user.role === "admin") {
-      return true;
+/**
+ * Verify that the session user may export an academic year's reports
+ * - Only academic years of the user's own department
+ * - With department-wide export, any academic year of their department
+ * - With export on their own groups, only years where they guide a group in any presentation
+ */
+export async function assertAcademicYearReportAccess(
+  db: SupabaseClient,
+  user: User,
+  academicYearId: string
+): Promise<void> {
+  await assertReportInDepartment(db, user, "academic_years", academicYearId);
+
+  if (can(user, "export")) return;
+
+  if (can(user, "export", "any")) {
+    const { data: presentations, error: presentationsError } = await db
+      .from("presentations")
+      .select("id")
+      .eq("academic_year_id", academicYearId);
+
+    if (presentationsError) throw presentationsError;
+    if (!presentations || presentations.length === 0) {
+      throw new ApiError(404, "No presentations found for this academic year");
     }
 
-    // Teachers can only access if they have groups in any presentation within this academic year
-    if (user.role === "teacher") {
-      const { data: presentations, error: presentationsError } = await supabase
-        .from("presentations")
-        .select("id")
-        .eq("academic_year_id", academicYearId);
+    const { data: groups, error: groupsError } = await db
+      .from("groups")
+      .select("id")
+      .in("presentation_id", presentations.map((p) => p.id))
+      .eq("guide_user_id", user.id)
+      .limit(1);
 
-      if (presentationsError || !presentations || presentations.length === 0) {
-        return false;
-      }
-
-      const presentationIds = presentations.map((p) => p.id);
-
-      const { data: groups, error: groupsError } = await supabase
-        .from("groups")
-        .select("id")
-        .in("presentation_id", presentationIds)
-        .eq("guide_user_id", userId)
-        .limit(1);
-
-      if (groupsError || !groups || groups.length === 0) {
-        return false;
-      }
-
-      return true;
-    }
-
-    return false;
-  } catch (error) {
-    console.error("Authorization verification error:", error);
-    return false;
+    if (groupsError) throw groupsError;
+    if (groups && groups.length > 0) return;
   }
+
+  console.warn(
+    `Unauthorized annual report export attempt by ${user.id} for academic year ${academicYearId}`
+  );
+  throw new ApiError(403, "Unauthorized: You have no groups in this academic year");
 }
@@ -0,0 +1,365 @@
+/**
+ * Report Model
+ * Every export (Excel sheets, PDF TW sheets) is rendered from one model of
+ * an academic year: presentations -> groups -> students -> criterion marks
+ * and totals. It is loaded once from lib/database.ts and the marks are
+ * computed here with the rubric engine and calculateAllMarks, so every
+ * renderer prints the same columns and the same numbers. The header and
+ * signatories come from the institution settings (lib/branding.ts).
+ * Official reports read the published results (lib/resultsPublishing.ts)
+ * instead of the marks being entered.
+ */
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  AcademicYear,
+  Evaluation,
+  GroupWithStudents,
+  InstitutionSettings,
+  Presentation,
+  Rubric,
+} from "./types";
+import {
+  getAcademicYear,
+  getGroupsByPresentation,
+  getGroupsByPresentationForTeacher,
+  getInstitutionSettings,
+  getPresentationsByAcademicYear,
+  getPublishedEvaluations,
+} from "./database";
+import { calculateAllMarks, calculateStudentMarks } from "./calculations";
+import { permissionScope } from "./permissions";
+import { getResultsStatus, withPublishedRubric } from "./resultsPublishing";
+import {
+  formatCriterionHeader,
+  formatTotalHeader,
+  getCombinedMark,
+  getDefaultRubric,
+  getPresentationNumber,
+  getPresentationRubric,
+  getSemesterHeaders,
+} from "./rubric";
+import { fillTitleTemplate, institutionLine } from "./branding";
+
+export interface ReportStudent {
+  recordId: string | null; // Student record; null on rows from before records existed
+  name: string;
+  position: number;
+  evaluation: Partial<Evaluation>;
+  marks: number[]; // Combined mark per rubric criterion, in rubric order
+  total: number; // Internal total for the presentation
+}
+
+export interface ReportGroup {
+  groupNumber: number;
+  guideName: string;
+  students: ReportStudent[];
+}
+
+export interface ReportPresentation {
+  presentation: Presentation;
+  number: number; // 1-4
+  rubric: Rubric;
+  groups: ReportGroup[];
+  draft: boolean; // Marks are not (or no longer) the published results
+}
+
+export interface ReportModel {
+  academicYear: AcademicYear;
+  branding: InstitutionSettings;
+  presentations: ReportPresentation[]; // Ordered by presentation number
+  guideFilter?: string;
+  generatedAt: string;
+}
+
+export interface ReportOptions {
+  userId?: string;
+  userRole?: string;
+  guideFilter?: string; // Guide name; "all" or missing = every guide
+  presentationNumbers?: number[]; // Only load these presentations
+  official?: boolean; // Published results where there are any, not the draft marks
+}
+
+// Semester view: two presentations (P1 + P2 or P3 + P4) side by side
+export interface SemesterStudent {
+  name: string;
+  first?: ReportStudent;
+  second?: ReportStudent;
+  total: number; // Out of the two rubric maxima combined (100 by default)
+  totalOutOf50: number;
+}
+
+export interface SemesterGroup {
+  groupNumber: number;
+  guideName: string;
+  students: SemesterStudent[];
+}
+
+export interface ReportSemester {
+  semester: 1 | 2;
+  first?: ReportPresentation;
+  second?: ReportPresentation;
+  rubrics: [Rubric, Rubric];
+  groups: SemesterGroup[];
+  draft: boolean; // Either presentation is a draft
+}
+
+/** Presentation numbers making up each semester */
+export const SEMESTER_PRESENTATIONS: Record<1 | 2, [number, number]> = {
+  1: [1, 2],
+  2: [3, 4],
+};
+
+// =====================================================
+// Loading
+// =====================================================
+
+function reportStudent(
+  student: GroupWithStudents["students"][number],
+  rubric: Rubric,
+): ReportStudent {
+  const evaluation = student.evaluation || {};
+  const calculated = calculateAllMarks(evaluation, {
+    [rubric.presentationNumber]: rubric,
+  });
+
+  return {
+    recordId: student.student_record_id ?? null,
+    name: student.student_name,
+    position: student.position,
+    evaluation,
+    marks: rubric.criteria.map((c) => getCombinedMark(evaluation, c, rubric)),
+    total: rubric.totalKey ? calculated[rubric.totalKey] : 0,
+  };
+}
+
+async function loadPresentation(
+  db: SupabaseClient,
+  presentation: Presentation,
+  number: number,
+  options: ReportOptions,
+): Promise<ReportPresentation> {
+  let groups =
+    permissionScope(options.userRole, "export") !== "all" && options.userId
+      ? await getGroupsByPresentationForTeacher(presentation.id, options.userId, db)
+      : await getGroupsByPresentation(presentation.id, db);
+
+  if (options.guideFilter && options.guideFilter !== "all") {
+    groups = groups.filter((g) => g.guide_name === options.guideFilter);
+  }
+
+  // Official reports show exactly what was published: the snapshot, marked
+  // with the rubric it was published with, and only the students it has
+  if (options.official && presentation.results_published_at) {
+    const published = await getPublishedEvaluations(presentation.id, db);
+    const publishedPresentation = withPublishedRubric(presentation);
+    const publishedRubric = getPresentationRubric(publishedPresentation);
+
+    return {
+      presentation: publishedPresentation,
+      number,
+      rubric: publishedRubric,
+      groups: groups
+        .map((group) => ({
+          groupNumber: group.group_number,
+          guideName: group.guide_name,
+          students: group.students
+            .filter((s) => published.has(s.id))
+            .map((s) =>
+              reportStudent({ ...s, evaluation: published.get(s.id) }, publishedRubric),
+            ),
+        }))
+        .filter((group) => group.students.length > 0),
+      draft: false,
+    };
+  }
+
+  const rubric = getPresentationRubric(presentation);
+  const status = getResultsStatus(
+    presentation,
+    groups.flatMap((g) => g.students.map((s) => s.evaluation)),
+  );
+
+  return {
+    presentation,
+    number,
+    rubric,
+    groups: groups.map((group) => ({
+      groupNumber: group.group_number,
+      guideName: group.guide_name,
+      students: group.students.map((s) => reportStudent(s, rubric)),
+    })),
+    draft: status !== "published",
+  };
+}
+
+/**
+ * Load the report model for an academic year. Users who only export their
+ * own groups get just those; the guide filter narrows that further.
+ */
+export async function buildReportModel(
+  db: SupabaseClient,
+  academicYearId: string,
+  options: ReportOptions = {},
+): Promise<ReportModel> {
+  const academicYear = await getAcademicYear(academicYearId, db);
+  const branding = await getInstitutionSettings(academicYear.department_id, db);
+  const presentations = await getPresentationsByAcademicYear(academicYearId, db);
+
+  // Presentations are identified by the number in their name
+  const numbered = presentations
+    .map((p) => ({ presentation: p, number: getPresentationNumber(p.name) }))
+    .filter(({ number }) => number >= 1 && number <= 4)
+    .filter(({ number }) => !options.presentationNumbers || options.presentationNumbers.includes(number))
+    .sort((a, b) => a.number - b.number);
+
+  const loaded: ReportPresentation[] = [];
+  for (const { presentation, number } of numbered) {
+    if (loaded.some((p) => p.number === number)) continue;
+    loaded.push(await loadPresentation(db, presentation, number, options));
+  }
+
+  return {
+    academicYear,
+    branding,
+    presentations: loaded,
+    guideFilter:
+      options.guideFilter && options.guideFilter !== "all" ? options.guideFilter : undefined,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+// =====================================================
+// Views
+// =====================================================
+
+export function getReportPresentation(
+  model: ReportModel,
+  number: number,
+): ReportPresentation {
+  const found = model.presentations.find((p) => p.number === number);
+  if (!found) throw new Error(`Presentation ${number} not found`);
+  return found;
+}
+
+/**
+ * Semester of a presentation number: P1/P2 -> 1, P3/P4 -> 2
+ */
+export function semesterOf(presentationNumber: number): 1 | 2 {
+  return presentationNumber <= 2 ? 1 : 2;
+}
+
+/**
+ * Pair the two presentations of a semester. Groups are matched by group
+ * number and students by their student record, falling back to name and
+ * then to their position in the group for rows without a record.
+ */
+export function getReportSemester(model: ReportModel, semester: 1 | 2): ReportSemester {
+  const [a, b] = SEMESTER_PRESENTATIONS[semester];
+  const first = model.presentations.find((p) => p.number === a);
+  const second = model.presentations.find((p) => p.number === b);
+  const rubrics: [Rubric, Rubric] = [
+    first?.rubric || getDefaultRubric(a),
+    second?.rubric || getDefaultRubric(b),
+  ];
+
+  const baseGroups = first?.groups.length ? first.groups : second?.groups || [];
+  const groups = baseGroups.map((group): SemesterGroup => {
+    const groupA = first?.groups.find((g) => g.groupNumber === group.groupNumber);
+    const groupB = second?.groups.find((g) => g.groupNumber === group.groupNumber);
+
+    return {
+      groupNumber: group.groupNumber,
+      guideName: group.guideName,
+      students: group.students.map((student, i) => {
+        const pick = (g?: ReportGroup) =>
+          (student.recordId && g?.students.find((s) => s.recordId === student.recordId)) ||
+          g?.students.find((s) => s.name === student.name) ||
+          g?.students[i];
+        const studentA = pick(groupA);
+        const studentB = pick(groupB);
+        const marks = calculateStudentMarks(
+          { [a]: studentA?.evaluation, [b]: studentB?.evaluation },
+          { [a]: rubrics[0], [b]: rubrics[1] },
+        );
+
+        return {
+          name: student.name,
+          first: studentA,
+          second: studentB,
+          total: marks.total_out_of_100,
+          totalOutOf50: marks.total_out_of_50,
+        };
+      }),
+    };
+  });
+
+  return {
+    semester,
+    first,
+    second,
+    rubrics,
+    groups,
+    draft: !!first?.draft || !!second?.draft,
+  };
+}
+
+/**
+ * College header lines printed above every sheet
+ */
+export function reportHeaderLines(model: ReportModel, sheetLabel: string): string[] {
+  const { branding, academicYear } = model;
+  return [
+    institutionLine(branding),
+    branding.department_name,
+    fillTitleTemplate(branding.sheet_title_template, academicYear, sheetLabel),
+  ];
+}
+
+/**
+ * Header lines of the project classification sheet
+ */
+export function classificationHeaderLines(model: ReportModel): string[] {
+  const { branding, academicYear } = model;
+  return [
+    institutionLine(branding),
+    branding.department_name,
+    fillTitleTemplate(branding.classification_title_template, academicYear),
+  ];
+}
+
+/**
+ * Table columns for one presentation: identity columns, criteria, total
+ */
+export function presentationColumns(rubric: Rubric): string[] {
+  return [
+    "Group No",
+    "Student Name",
+    "Guide Name",
+    ...rubric.criteria.map(formatCriterionHeader),
+    formatTotalHeader(rubric),
+  ];
+}
+
+export function presentationRow(student: ReportStudent): number[] {
+  return [...student.marks, student.total];
+}
+
+/**
+ * Table columns for a semester: both presentations and the combined totals
+ */
+export function semesterColumns(semester: ReportSemester): string[] {
+  return getSemesterHeaders(...semester.rubrics);
+}
+
+export function semesterRow(semester: ReportSemester, student: SemesterStudent): number[] {
+  const [rubricA, rubricB] = semester.rubrics;
+  const side = (s: ReportStudent | undefined, rubric: Rubric) =>
+    s ? presentationRow(s) : Array(rubric.criteria.length + 1).fill(0);
+
+  return [
+    ...side(student.first, rubricA),
+    ...side(student.second, rubricB),
+    student.total,
+    student.totalOutOf50,
+  ];
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import * as XLSX from "xlsx";
+import { ReportFile } from "@/lib/excelExport";
+import { PdfReportFile } from "@/lib/pdfExport";
+
+const XLSX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+function fileResponse(bytes: Uint8Array, fileName: string, contentType: string): NextResponse {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    },
+  });
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${fileName.replace(/"/g, "")}"`,
+      "Content-Length": String(bytes.length),
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+/**
+ * Stream a built workbook back as a file download
+ */
+export function workbookResponse({ workbook, fileName }: ReportFile): NextResponse {
+  const buffer: Buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+  return fileResponse(new Uint8Array(buffer), fileName, XLSX_CONTENT_TYPE);
+}
+
+/**
+ * Stream a rendered PDF back as a file download
+ */
+export function pdfResponse({ bytes, fileName }: PdfReportFile): NextResponse {
+  return fileResponse(bytes, fileName, "application/pdf");
+}
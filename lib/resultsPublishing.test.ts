@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getResultsStatus, withPublishedRubric } from "./resultsPublishing";
+import { Presentation } from "./types";
+
+const PUBLISHED_AT = "2026-03-01T10:00:00+00:00";
+
+/**
+ * Presentation 2 published with a renamed SRS column, as
+ * publish_presentation_results stores it
+ */
+function publishedPresentation(overrides: Partial<Presentation> = {}): Presentation {
+  const rubric = {
+    custom_columns: { srs: "Requirements" },
+    extra_columns: [],
+    combine_rule: "average" as const,
+    guide_weight: 0.5,
+  };
+  return {
+    id: "p2",
+    name: "Presentation 2",
+    semester: null,
+    academic_year_id: "year",
+    ...rubric,
+    results_published_at: PUBLISHED_AT,
+    published_rubric: rubric,
+    created_at: PUBLISHED_AT,
+    updated_at: PUBLISHED_AT,
+    ...overrides,
+  };
+}
+
+test("results stay published while the rubric is unchanged", () => {
+  assert.equal(getResultsStatus(publishedPresentation(), []), "published");
+});
+
+test("a column changed after publishing makes the results a draft", () => {
+  const presentation = publishedPresentation({ custom_columns: { srs: "SRS" } });
+
+  assert.equal(getResultsStatus(presentation, []), "draft");
+  assert.deepEqual(withPublishedRubric(presentation).custom_columns, { srs: "Requirements" });
+});
+
+test("a changed combine rule makes the results a draft", () => {
+  const presentation = publishedPresentation({ combine_rule: "max" });
+
+  assert.equal(getResultsStatus(presentation, []), "draft");
+  assert.equal(withPublishedRubric(presentation).combine_rule, "average");
+});
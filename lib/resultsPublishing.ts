@@ -0,0 +1,102 @@
+import { Evaluation, Presentation, PublishedRubric } from "./types";
+
+// =====================================================
+// Results Publishing
+// =====================================================
+// Publishing a presentation snapshots every student's evaluation into
+// published_evaluations, and its rubric into published_rubric. Students and
+// official exports read the snapshot; marks or columns changed afterwards
+// are a draft until the results are republished.
+
+// Stamped on every TW sheet (Excel or PDF) whose marks are not the
+// published results
+export const DRAFT_WATERMARK = "DRAFT - results not yet published";
+
+export type ResultsStatus = "unpublished" | "published" | "draft";
+
+export const RESULTS_STATUS_LABELS: Record<ResultsStatus, string> = {
+  unpublished: "Not published",
+  published: "Published",
+  draft: "Unpublished changes",
+};
+
+type PublishedPresentation = PublishedRubric &
+  Pick<Presentation, "results_published_at" | "published_rubric">;
+
+// JSON with object keys sorted, so that key order is not a change
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+// Missing settings compare equal to their defaults
+function rubricKey(rubric: PublishedRubric): string {
+  return stableStringify([
+    rubric.custom_columns ?? {},
+    rubric.extra_columns ?? [],
+    rubric.combine_rule ?? "average",
+    Number(rubric.guide_weight ?? 0.5),
+  ]);
+}
+
+/**
+ * The presentation with the rubric its results were published with, for
+ * reading the snapshot (unchanged when no rubric was stored)
+ */
+export function withPublishedRubric<T extends Presentation>(presentation: T): T {
+  return presentation.published_rubric
+    ? { ...presentation, ...presentation.published_rubric }
+    : presentation;
+}
+
+/**
+ * Whether the columns or combine rule changed after the results were last
+ * published
+ */
+export function hasRubricChanged(presentation: PublishedPresentation): boolean {
+  if (!presentation.results_published_at || !presentation.published_rubric) return false;
+  return rubricKey(presentation.published_rubric) !== rubricKey(presentation);
+}
+
+/**
+ * Whether the rubric, or a guide or examiner sheet, changed after the
+ * results were last published (new students count too: their evaluation
+ * is newer)
+ */
+export function hasUnpublishedChanges(
+  presentation: PublishedPresentation,
+  evaluations: (Partial<Evaluation> | undefined)[],
+): boolean {
+  if (!presentation.results_published_at) return false;
+  if (hasRubricChanged(presentation)) return true;
+
+  const publishedAt = new Date(presentation.results_published_at).getTime();
+  const changed = (timestamp?: string) =>
+    !!timestamp && new Date(timestamp).getTime() > publishedAt;
+
+  return evaluations.some(
+    (e) => !!e && (changed(e.updated_at) || !!e.examiner_marks?.some((s) => changed(s.updated_at))),
+  );
+}
+
+export function getResultsStatus(
+  presentation: PublishedPresentation,
+  evaluations: (Partial<Evaluation> | undefined)[],
+): ResultsStatus {
+  if (!presentation.results_published_at) return "unpublished";
+  return hasUnpublishedChanges(presentation, evaluations) ? "draft" : "published";
+}
+
+/**
+ * Draft exports download as DRAFT_<name> so they are not mistaken for the
+ * official sheets
+ */
+export function draftFileName(fileName: string, draft: boolean): string {
+  return draft ? `DRAFT_${fileName}` : fileName;
+}
@@ -0,0 +1,90 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildRubric, findCriterion, getCombinedMark, getExaminerMarks } from "./rubric";
+import { Evaluation, ExaminerMarks } from "./types";
+
+/**
+ * An evaluation row as `INSERT INTO evaluations (student_id)` creates it
+ * (insert_group_with_students, add_group_student) once
+ * supabase-migration-guide-marks.sql has run: marks NULL, ticks 0
+ */
+function newEvaluationRow(studentId: string): Evaluation {
+  return {
+    id: `eval-${studentId}`,
+    student_id: studentId,
+    problem_identification: null,
+    literature_survey: null,
+    software_engineering: null,
+    requirement_analysis: null,
+    srs: null,
+    individual_capacity: null,
+    team_work: null,
+    presentation_qa: null,
+    paper_presentation: null,
+    identification_module: null,
+    coding: null,
+    understanding: null,
+    internal_presentation_iii: null,
+    testing: null,
+    participation_conference: null,
+    publication: null,
+    project_report: null,
+    partial_project_report: null,
+    internal_presentation_iv: null,
+    classification_product: 0,
+    classification_research: 0,
+    classification_application: 0,
+    classification_design: 0,
+    classification_multiple: null,
+    finance_institute: 0,
+    finance_self: 0,
+    finance_industry: 0,
+    project_type_in_house_sponsored: null,
+    project_title: null,
+    industry_name: null,
+    pasted_image_1: null,
+    pasted_image_2: null,
+    extra_marks: {},
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+  };
+}
+
+function examinerSheet(studentId: string, marks: Record<string, number>): ExaminerMarks {
+  return {
+    id: `sheet-${studentId}`,
+    student_id: studentId,
+    examiner_id: "examiner-1",
+    marks,
+    created_at: "2025-01-02T00:00:00Z",
+    updated_at: "2025-01-02T00:00:00Z",
+  };
+}
+
+const rubric = buildRubric(1, undefined, undefined, { rule: "average" });
+const criterion = findCriterion(rubric, "problem_identification")!;
+
+test("a new evaluation row leaves the guide out of the combined mark", () => {
+  const evaluation: Evaluation = {
+    ...newEvaluationRow("s1"),
+    examiner_marks: [examinerSheet("s1", { problem_identification: 8 })],
+  };
+
+  assert.deepEqual(getExaminerMarks(evaluation, criterion), [8]);
+  assert.equal(getCombinedMark(evaluation, criterion, rubric), 8);
+});
+
+test("a guide mark of 0 that was entered is combined", () => {
+  const evaluation: Evaluation = {
+    ...newEvaluationRow("s2"),
+    problem_identification: 0,
+    examiner_marks: [examinerSheet("s2", { problem_identification: 8 })],
+  };
+
+  assert.deepEqual(getExaminerMarks(evaluation, criterion), [0, 8]);
+  assert.equal(getCombinedMark(evaluation, criterion, rubric), 4);
+});
+
+test("an unmarked criterion with no sheets counts as 0", () => {
+  assert.equal(getCombinedMark(newEvaluationRow("s3"), criterion, rubric), 0);
+});
@@ -0,0 +1,313 @@
+/**
+ * Rubric Engine
+ * Builds the marking scheme for a presentation from DEFAULT_COLUMNS plus the
+ * presentation's custom_columns (rename / resize / hide / weight) and
+ * extra_columns (additional criteria). Totals, validation, the marks grid and
+ * every exporter read from the rubric so they always agree.
+ */
+import { DEFAULT_COLUMNS, EXAMINER_DISAGREEMENT_RATIO } from "./constants";
+import {
+  BaseColumnConfig,
+  CalculatedMarks,
+  CustomColumn,
+  Evaluation,
+  MarkCombineRule,
+  Presentation,
+  Rubric,
+  RubricCriterion,
+} from "./types";
+
+type RubricSource = Pick<
+  Presentation,
+  "name" | "custom_columns" | "extra_columns" | "combine_rule" | "guide_weight"
+>;
+
+const TOTAL_KEYS: Record<number, keyof CalculatedMarks> = {
+  1: "internal_presentation_i",
+  2: "internal_presentation_ii",
+  3: "internal_presentation_iii",
+  4: "internal_presentation_iv",
+};
+
+const TOTAL_LABELS: Record<number, string> = {
+  1: "Internal I",
+  2: "Internal II",
+  3: "Internal III",
+  4: "Internal IV",
+};
+
+/**
+ * Extract the presentation number (1-4) from its name, e.g. "Presentation 3" -> 3
+ */
+export function getPresentationNumber(name: string): number {
+  return parseInt(name.match(/\d+/)?.[0] || "0");
+}
+
+function normalizeWeight(weight?: number): number {
+  return typeof weight === "number" && weight >= 0 ? weight : 1;
+}
+
+function normalizeGuideWeight(weight?: number | null): number {
+  const value = Number(weight);
+  return weight != null && value >= 0 && value <= 1 ? value : 0.5;
+}
+
+/**
+ * Build a rubric from a presentation number and its saved column settings
+ */
+export function buildRubric(
+  presentationNumber: number,
+  customColumns?: Record<string, string | BaseColumnConfig>,
+  extraColumns?: CustomColumn[],
+  combine?: { rule?: MarkCombineRule; guideWeight?: number | null },
+): Rubric {
+  const defaults = DEFAULT_COLUMNS[presentationNumber] || {};
+  const criteria: RubricCriterion[] = [];
+
+  for (const [key, defaultCol] of Object.entries(defaults)) {
+    const saved = customColumns?.[key];
+
+    if (typeof saved === "string") {
+      criteria.push({
+        key,
+        name: saved,
+        maxMark: defaultCol.maxMark,
+        weight: 1,
+        isExtra: false,
+        countsTowardTotal: true,
+      });
+      continue;
+    }
+
+    if (saved && typeof saved === "object" && saved.isHidden) {
+      // Hidden columns are not shown and never count
+      continue;
+    }
+
+    criteria.push({
+      key,
+      name: saved?.name || defaultCol.name,
+      maxMark: saved?.maxMark || defaultCol.maxMark,
+      weight: normalizeWeight(saved?.weight),
+      isExtra: false,
+      countsTowardTotal: saved?.countsTowardTotal ?? true,
+    });
+  }
+
+  for (const col of extraColumns || []) {
+    criteria.push({
+      key: col.id,
+      name: col.name,
+      maxMark: col.maxMark,
+      weight: normalizeWeight(col.weight),
+      isExtra: true,
+      countsTowardTotal: col.countsTowardTotal ?? true,
+    });
+  }
+
+  const totalMax = criteria
+    .filter((c) => c.countsTowardTotal)
+    .reduce((sum, c) => sum + c.maxMark * c.weight, 0);
+
+  return {
+    presentationNumber,
+    totalKey: TOTAL_KEYS[presentationNumber] ?? null,
+    totalLabel: TOTAL_LABELS[presentationNumber] ?? "Total",
+    criteria,
+    totalMax: Math.round(totalMax * 100) / 100,
+    combineRule: combine?.rule || "average",
+    guideWeight: normalizeGuideWeight(combine?.guideWeight),
+  };
+}
+
+/**
+ * Build the rubric for a presentation record
+ */
+export function getPresentationRubric(presentation: RubricSource): Rubric {
+  return buildRubric(
+    getPresentationNumber(presentation.name),
+    presentation.custom_columns,
+    presentation.extra_columns,
+    { rule: presentation.combine_rule, guideWeight: presentation.guide_weight },
+  );
+}
+
+/**
+ * Rubrics keyed by presentation number, as consumed by calculateAllMarks
+ */
+export function getRubricSet(
+  presentations: RubricSource[],
+): Partial<Record<number, Rubric>> {
+  const set: Partial<Record<number, Rubric>> = {};
+  for (const presentation of presentations) {
+    const rubric = getPresentationRubric(presentation);
+    if (rubric.presentationNumber) set[rubric.presentationNumber] = rubric;
+  }
+  return set;
+}
+
+/**
+ * Rubric with no customisation applied (the original marking scheme)
+ */
+export function getDefaultRubric(presentationNumber: number): Rubric {
+  return buildRubric(presentationNumber);
+}
+
+export function findCriterion(
+  rubric: Rubric,
+  key: string,
+): RubricCriterion | undefined {
+  return rubric.criteria.find((c) => c.key === key);
+}
+
+/**
+ * Read the raw mark for a criterion from an evaluation
+ */
+export function getCriterionMark(
+  evaluation: Partial<Evaluation>,
+  criterion: Pick<RubricCriterion, "key" | "isExtra">,
+): number {
+  return getGuideMark(evaluation, criterion) ?? 0;
+}
+
+/**
+ * The guide's mark for a criterion, or undefined when the guide has not
+ * entered one (no evaluation row, or no value for an extra column)
+ */
+export function getGuideMark(
+  evaluation: Partial<Evaluation>,
+  criterion: Pick<RubricCriterion, "key" | "isExtra">,
+): number | undefined {
+  const value = criterion.isExtra
+    ? evaluation.extra_marks?.[criterion.key]
+    : (evaluation as any)[criterion.key];
+  return value === undefined || value === null ? undefined : Number(value) || 0;
+}
+
+/**
+ * Each external examiner's mark for a criterion, for those who entered it
+ */
+export function getExternalMarks(
+  evaluation: Partial<Evaluation>,
+  criterion: Pick<RubricCriterion, "key">,
+): number[] {
+  return (evaluation.examiner_marks || [])
+    .map((sheet) => sheet.marks?.[criterion.key])
+    .filter((mark) => mark !== undefined && mark !== null)
+    .map((mark) => Number(mark) || 0);
+}
+
+/**
+ * Every sheet's mark for a criterion: the guide's (the evaluation row) first
+ * when entered, then each external examiner who has entered it
+ */
+export function getExaminerMarks(
+  evaluation: Partial<Evaluation>,
+  criterion: Pick<RubricCriterion, "key" | "isExtra">,
+): number[] {
+  const guide = getGuideMark(evaluation, criterion);
+  const externals = getExternalMarks(evaluation, criterion);
+  return guide === undefined ? externals : [guide, ...externals];
+}
+
+/**
+ * Merge one criterion's marks using the rubric's combine rule. A missing
+ * guide mark is left out rather than counted as 0.
+ */
+export function combineMarks(
+  guide: number | undefined,
+  externals: number[],
+  rule: MarkCombineRule,
+  guideWeight: number,
+): number {
+  const marks = guide === undefined ? externals : [guide, ...externals];
+  if (marks.length === 0) return 0;
+
+  const mean = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  let combined: number;
+  if (rule === "max") {
+    combined = Math.max(...marks);
+  } else if (rule === "guide_weighted" && guide !== undefined && externals.length > 0) {
+    combined = guide * guideWeight + mean(externals) * (1 - guideWeight);
+  } else {
+    combined = mean(marks);
+  }
+
+  return Math.round(combined * 100) / 100;
+}
+
+/**
+ * The mark that counts for a criterion once every examiner's sheet is combined.
+ * Equal to the guide's mark when no external examiner has marked the student.
+ */
+export function getCombinedMark(
+  evaluation: Partial<Evaluation>,
+  criterion: RubricCriterion,
+  rubric: Rubric,
+): number {
+  return combineMarks(
+    getGuideMark(evaluation, criterion),
+    getExternalMarks(evaluation, criterion),
+    rubric.combineRule,
+    rubric.guideWeight,
+  );
+}
+
+/**
+ * Whether examiners disagree on a criterion by more than
+ * EXAMINER_DISAGREEMENT_RATIO of its maximum mark
+ */
+export function hasExaminerDisagreement(
+  marks: number[],
+  criterion: Pick<RubricCriterion, "maxMark">,
+): boolean {
+  if (marks.length < 2) return false;
+  return (
+    Math.max(...marks) - Math.min(...marks) >
+    criterion.maxMark * EXAMINER_DISAGREEMENT_RATIO
+  );
+}
+
+/**
+ * Weighted total of every criterion that counts toward the rubric total,
+ * using the combined examiner mark for each criterion
+ */
+export function calculateRubricTotal(
+  evaluation: Partial<Evaluation>,
+  rubric: Rubric,
+): number {
+  const sum = rubric.criteria
+    .filter((c) => c.countsTowardTotal)
+    .reduce((acc, c) => acc + getCombinedMark(evaluation, c, rubric) * c.weight, 0);
+
+  return Math.min(Math.round(sum * 100) / 100, rubric.totalMax);
+}
+
+export function formatCriterionHeader(criterion: RubricCriterion): string {
+  return `${criterion.name} (${criterion.maxMark})`;
+}
+
+export function formatTotalHeader(rubric: Rubric): string {
+  return `${rubric.totalLabel} (${rubric.totalMax})`;
+}
+
+/**
+ * Column headers for a semester sheet combining two presentations
+ * (e.g. P1 + P2): identity columns, each rubric with its total, then the
+ * combined totals.
+ */
+export function getSemesterHeaders(rubricA: Rubric, rubricB: Rubric): string[] {
+  return [
+    "Group No",
+    "Student Name",
+    "Guide Name",
+    ...rubricA.criteria.map(formatCriterionHeader),
+    formatTotalHeader(rubricA),
+    ...rubricB.criteria.map(formatCriterionHeader),
+    formatTotalHeader(rubricB),
+    `Total (${rubricA.totalMax + rubricB.totalMax})`,
+    "Total (50)",
+  ];
+}
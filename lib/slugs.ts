@@ -1,11 +1,66 @@
 /**
  * URL Slug Generation and Decoding
- * Converts long UUIDs to short URL-friendly codes (2-3 characters)
- * This is for security/privacy and improved UX
+ * Academic years and presentations store a readable slug ("2025-26",
+ * "2025-26-p3") that is unique and indexed. The older 2-3 character codes
+ * derived from the UUID are still recognised so bookmarks keep working.
  */
 
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const LEGACY_SLUG_PATTERN = /^[0-9a-z]{2,3}$/i;
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * Whether a URL segment looks like an old UUID-derived code ("K3F")
+ */
+export function isLegacySlug(value: string): boolean {
+  return LEGACY_SLUG_PATTERN.test(value);
+}
+
+/**
+ * Lower-case, hyphen-separated form of arbitrary text
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Slug for an academic year, e.g. 2025, 2026 -> "2025-26"
+ */
+export function academicYearSlug(startYear: number, endYear: number): string {
+  return `${startYear}-${String(endYear % 100).padStart(2, "0")}`;
+}
+
+/**
+ * Slug for a presentation within its year, e.g. "2025-26-p3" for
+ * "Presentation 3"; names without a trailing number are slugified
+ */
+export function presentationSlug(yearSlug: string, name: string): string {
+  const number = name.match(/(\d+)\s*$/)?.[1];
+  const suffix = number ? `p${number}` : slugify(name) || "presentation";
+  return `${yearSlug}-${suffix}`;
+}
+
+/**
+ * First of base, base-2, base-3, ... that is not already taken
+ */
+export function nextAvailableSlug(base: string, taken: string[]): string {
+  const used = new Set(taken);
+  if (!used.has(base)) return base;
+
+  let n = 2;
+  while (used.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+}
+
 /**
- * Generate a short, unique slug from a UUID
+ * Generate the legacy short code from a UUID (stored as legacy_slug)
  * Takes the first few characters of the UUID and creates a base32-like short code
  * @param uuid - The UUID to convert
  * @returns A short slug (2-3 characters)
@@ -0,0 +1,136 @@
+/**
+ * Student Portal
+ * A student login sees one student record's results: group, project title,
+ * guide, per-criterion marks and totals for each presentation of every year
+ * the student is in. Marks come from the same report model as the official
+ * exports (calculateAllMarks via lib/reportModel.ts): only the published
+ * results, never marks still in draft.
+ */
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  StudentPresentationResult,
+  StudentResults,
+  StudentSemesterResult,
+  StudentYearResults,
+} from "./types";
+import { getStudentRecord } from "./database";
+import {
+  ReportPresentation,
+  SEMESTER_PRESENTATIONS,
+  buildReportModel,
+  getReportSemester,
+} from "./reportModel";
+
+function presentationResult(
+  reportPresentation: ReportPresentation,
+  studentRecordId: string,
+): StudentPresentationResult | null {
+  const { presentation, number, rubric, groups } = reportPresentation;
+
+  for (const group of groups) {
+    const student = group.students.find((s) => s.recordId === studentRecordId);
+    if (!student) continue;
+
+    const result: StudentPresentationResult = {
+      presentationName: presentation.name,
+      presentationNumber: number,
+      groupNumber: group.groupNumber,
+      guideName: group.guideName,
+      projectTitle: student.evaluation.project_title || null,
+      published: !!presentation.results_published_at,
+    };
+    if (!result.published) return result;
+
+    return {
+      ...result,
+      criteria: rubric.criteria.map((criterion, i) => ({
+        name: criterion.name,
+        maxMark: criterion.maxMark,
+        mark: student.marks[i],
+      })),
+      total: student.total,
+      totalMax: rubric.totalMax,
+      totalLabel: rubric.totalLabel,
+    };
+  }
+
+  return null;
+}
+
+async function yearResults(
+  db: SupabaseClient,
+  academicYearId: string,
+  studentRecordId: string,
+): Promise<StudentYearResults> {
+  const model = await buildReportModel(db, academicYearId, { official: true });
+
+  const presentations = model.presentations
+    .map((p) => presentationResult(p, studentRecordId))
+    .filter((p): p is StudentPresentationResult => !!p);
+
+  // A semester total needs both of its presentations published
+  const semesters: StudentSemesterResult[] = [];
+  for (const semester of [1, 2] as const) {
+    const published = SEMESTER_PRESENTATIONS[semester].every((n) =>
+      presentations.some((p) => p.presentationNumber === n && p.published),
+    );
+    if (!published) continue;
+
+    const student = getReportSemester(model, semester)
+      .groups.flatMap((g) => g.students)
+      .find(
+        (s) =>
+          s.first?.recordId === studentRecordId || s.second?.recordId === studentRecordId,
+      );
+    if (student) {
+      semesters.push({
+        semester,
+        totalOutOf100: student.total,
+        totalOutOf50: student.totalOutOf50,
+      });
+    }
+  }
+
+  return {
+    academicYearName: model.academicYear.name,
+    presentations,
+    semesters,
+  };
+}
+
+/**
+ * Load everything a student login may see about its student record
+ */
+export async function buildStudentResults(
+  db: SupabaseClient,
+  studentRecordId: string,
+): Promise<StudentResults> {
+  const record = await getStudentRecord(studentRecordId, db);
+
+  const { data: memberships, error } = await db
+    .from("students")
+    .select("group:groups(presentation:presentations(academic_year_id))")
+    .eq("student_record_id", studentRecordId);
+
+  if (error) throw error;
+
+  const academicYearIds = Array.from(
+    new Set(
+      (memberships || [])
+        .map((m: any) => m.group?.presentation?.academic_year_id as string | undefined)
+        .filter((id): id is string => !!id),
+    ),
+  );
+
+  const years: StudentYearResults[] = [];
+  for (const academicYearId of academicYearIds) {
+    years.push(await yearResults(db, academicYearId, studentRecordId));
+  }
+
+  return {
+    studentName: record.full_name,
+    rollNumber: record.roll_number,
+    prn: record.prn,
+    years,
+  };
+}
@@ -1,4 +1,5 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getServerSupabase } from './supabaseServer';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -9,4 +10,13 @@ if (!supabaseUrl || !supabaseAnonKey) {
     );
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+/**
+ * In the browser, the anon client: it may only read what
+ * supabase-migration-anon-access.sql leaves granted to anon. On the server
+ * (route handlers and the lib code they call) the service role client, so
+ * writes keep working with anon write access revoked.
+ */
+export const supabase: SupabaseClient =
+    typeof window === 'undefined' && process.env.SUPABASE_SERVICE_ROLE_KEY
+        ? getServerSupabase()
+        : createClient(supabaseUrl, supabaseAnonKey);
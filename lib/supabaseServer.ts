@@ -0,0 +1,30 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Privileged Supabase client for route handlers (service role key).
+ * Only import this from app/api code: the key must never reach the browser.
+ */
+let serverClient: SupabaseClient | null = null;
+
+export function getServerSupabase(): SupabaseClient {
+    if (typeof window !== 'undefined') {
+        throw new Error('getServerSupabase() must only be called on the server');
+    }
+
+    if (!serverClient) {
+        const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+        const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+        if (!supabaseUrl || !serviceRoleKey) {
+            throw new Error(
+                'Missing SUPABASE_SERVICE_ROLE_KEY. Please check your .env.local file.'
+            );
+        }
+
+        serverClient = createClient(supabaseUrl, serviceRoleKey, {
+            auth: { persistSession: false, autoRefreshToken: false },
+        });
+    }
+
+    return serverClient;
+}
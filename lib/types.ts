@@ -1,9 +1,18 @@
 // Type definitions for the evaluation system
+import type { Permission, PermissionResource } from "./permissions";
 
 // =====================================================
 // User & Authentication Types
 // =====================================================
-export type UserRole = "admin" | "teacher";
+// What each role may do is decided in lib/permissions.ts
+export type UserRole =
+  | "admin"
+  | "coordinator"
+  | "hod"
+  | "teacher"
+  | "external_examiner"
+  | "observer"
+  | "student";
 
 export interface User {
   id: string;
@@ -12,6 +21,12 @@ export interface User {
   role: UserRole;
   full_name: string | null;
   is_active: boolean;
+  must_change_password?: boolean; // Temporary password: send the user to /change-password
+  department_id: string; // For super-admins: the department they have switched to
+  is_super_admin?: boolean; // May create departments and switch between them
+  student_record_id?: string | null; // Student logins: the record whose results they see
+  failed_login_count?: number;
+  locked_until?: string | null; // Set after too many failed logins
   created_at: string;
   updated_at: string;
 }
@@ -20,19 +35,41 @@ export interface AuthUser extends User {
   token?: string;
 }
 
+// Academic years, presentations, groups and users all belong to one
+// department; nobody but a super-admin ever sees another department's data
+export interface Department {
+  id: string;
+  name: string;
+  code: string; // Short label, e.g. "COMP"
+  created_at: string;
+  updated_at: string;
+}
+
 export interface LoginInput {
   username: string;
   password: string;
 }
 
+// Body of POST /api/users and PATCH /api/users/:id
+export interface SaveUserInput {
+  email: string;
+  username: string;
+  full_name: string;
+  role: UserRole;
+  password?: string; // Required when creating; blank keeps the current one
+  student_identifier?: string; // PRN or roll number of a student login's record
+}
+
 export interface AuthContextType {
   user: AuthUser | null;
   loading: boolean;
   login: (username: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
+  refreshUser: () => Promise<void>;
   isAuthenticated: boolean;
-  isAdmin: boolean;
-  isTeacher: boolean;
+  // See lib/permissions.ts; bound to the signed-in user
+  can: (permission: Permission, resource?: PermissionResource) => boolean;
+  mustChangePassword: boolean;
 }
 
 // =====================================================
@@ -42,11 +79,15 @@ export interface CustomColumn {
   id: string;
   name: string;
   maxMark: number;
+  weight?: number; // Multiplier applied to the mark when totalling (default 1)
+  countsTowardTotal?: boolean; // Whether this column feeds the presentation total (default true)
 }
 
 export interface AcademicYear {
   id: string;
-  slug?: string; // Short URL-friendly identifier
+  slug?: string | null; // Stored URL identifier; missing on rows not yet migrated
+  legacy_slug?: string | null; // Old 3-character code, only used to redirect bookmarks
+  department_id: string;
   name: string;
   start_year: number;
   end_year: number;
@@ -58,23 +99,76 @@ export interface BaseColumnConfig {
   name: string;
   maxMark: number;
   isHidden?: boolean;
+  weight?: number; // Multiplier applied to the mark when totalling (default 1)
+  countsTowardTotal?: boolean; // Whether this column feeds the presentation total (default true)
 }
 
+// =====================================================
+// Rubric Types
+// =====================================================
+export interface RubricCriterion {
+  key: string; // Evaluation field name, or extra column id for custom columns
+  name: string;
+  maxMark: number;
+  weight: number;
+  isExtra: boolean;
+  countsTowardTotal: boolean;
+}
+
+export interface Rubric {
+  presentationNumber: number;
+  totalKey: keyof CalculatedMarks | null; // Internal total this rubric feeds
+  totalLabel: string; // e.g. "Internal I"
+  criteria: RubricCriterion[]; // Visible criteria in display order
+  totalMax: number; // Weighted maximum of the criteria that count toward the total
+  combineRule: MarkCombineRule; // How examiner sheets merge into one mark per criterion
+  guideWeight: number; // Share of the guide's mark under "guide_weighted" (0-1)
+}
+
+// How the guide's marks and the external examiners' marks are merged:
+// average: mean of every sheet; max: highest mark on any sheet;
+// guide_weighted: guide_weight × guide + (1 - guide_weight) × mean of externals
+export type MarkCombineRule = "average" | "max" | "guide_weighted";
+
+// open: editable; submitted: guides are done, only admins may edit;
+// locked: frozen for everyone until an admin unlocks it
+export type PresentationLockStatus = "open" | "submitted" | "locked";
+
 export interface Presentation {
   id: string;
-  slug?: string; // Short URL-friendly identifier
+  slug?: string | null; // Stored URL identifier; missing on rows not yet migrated
+  legacy_slug?: string | null; // Old 3-character code, only used to redirect bookmarks
   name: string;
   semester: string | null;
   academic_year_id: string;
+  department_id?: string; // Always the academic year's (set by the database)
   custom_columns?: Record<string, string | BaseColumnConfig>; // User-defined column headers or full config
   extra_columns?: CustomColumn[]; // Dynamic additional columns
+  lock_status?: PresentationLockStatus; // Missing on rows created before locking existed = "open"
+  lock_changed_at?: string | null;
+  lock_changed_by?: string | null;
+  lock_reason?: string | null; // Reason given for the last unlock
+  results_published_at?: string | null; // Set = students can see their marks
+  results_published_by?: string | null;
+  published_rubric?: PublishedRubric | null; // Rubric the published results were marked with
+  combine_rule?: MarkCombineRule; // Missing = "average"
+  guide_weight?: number; // Used by "guide_weighted"; missing = 0.5
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * A presentation's columns and combine rule, as stored with its published results
+ */
+export type PublishedRubric = Pick<
+  Presentation,
+  "custom_columns" | "extra_columns" | "combine_rule" | "guide_weight"
+>;
+
 export interface Group {
   id: string;
   presentation_id: string;
+  department_id?: string; // Always the presentation's (set by the database)
   group_number: number;
   guide_name: string;
   created_by_user_id?: string | null;
@@ -88,32 +182,50 @@ export interface Student {
   group_id: string;
   student_name: string;
   position: number;
+  student_record_id?: string | null; // Missing on rows not yet migrated
   created_at: string;
 }
 
+// The real student behind every group membership (P1–P4, any year)
+export interface StudentRecord {
+  id: string;
+  full_name: string;
+  roll_number: string | null;
+  prn: string | null;
+  email: string | null;
+  division: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type StudentRecordUpdate = Partial<
+  Pick<StudentRecord, "full_name" | "roll_number" | "prn" | "email" | "division">
+>;
+
 export interface Evaluation {
   id: string;
   student_id: string;
-  problem_identification: number;
-  literature_survey: number;
-  software_engineering: number;
-  requirement_analysis: number;
-  srs: number;
-  individual_capacity: number;
-  team_work: number;
-  presentation_qa: number;
-  paper_presentation: number;
+  // Guide's marks: null until the guide enters one (no default in the database)
+  problem_identification: number | null;
+  literature_survey: number | null;
+  software_engineering: number | null;
+  requirement_analysis: number | null;
+  srs: number | null;
+  individual_capacity: number | null;
+  team_work: number | null;
+  presentation_qa: number | null;
+  paper_presentation: number | null;
   // Semester 2 Fields (Presentation 3 & 4)
-  identification_module: number;
-  coding: number;
-  understanding: number;
-  internal_presentation_iii: number;
-  testing: number;
-  participation_conference: number;
-  publication: number;
-  project_report: number;
-  partial_project_report: number;
-  internal_presentation_iv: number;
+  identification_module: number | null;
+  coding: number | null;
+  understanding: number | null;
+  internal_presentation_iii: number | null;
+  testing: number | null;
+  participation_conference: number | null;
+  publication: number | null;
+  project_report: number | null;
+  partial_project_report: number | null;
+  internal_presentation_iv: number | null;
   // Presentation 1 Additional Fields - Classification of Project (Reddish columns)
   classification_product: number;
   classification_research: number;
@@ -132,10 +244,39 @@ export interface Evaluation {
   pasted_image_1: string | null; // Presentation 2 image (base64 or URL)
   pasted_image_2: string | null; // Presentation 4 image (base64 or URL)
   extra_marks?: Record<string, number>; // Marks for dynamically added extra columns
+  examiner_marks?: ExaminerMarks[]; // External examiners' sheets, attached on load (not a column)
+  created_at: string;
+  updated_at: string;
+}
+
+// =====================================================
+// Examiner Types
+// =====================================================
+// The evaluations row is the guide's sheet; every external examiner
+// assigned to the presentation keeps their own sheet for the same criteria.
+export interface PresentationExaminer {
+  id: string;
+  presentation_id: string;
+  user_id: string;
+  created_at: string;
+  user?: Pick<User, "full_name" | "username"> | null;
+}
+
+export interface ExaminerMarks {
+  id: string;
+  student_id: string;
+  examiner_id: string;
+  marks: Record<string, number>; // Criterion key (field or extra column id) -> mark
   created_at: string;
   updated_at: string;
 }
 
+export interface UpdateExaminersInput {
+  examinerIds: string[];
+  combineRule: MarkCombineRule;
+  guideWeight?: number;
+}
+
 // Combined types for display
 export interface StudentWithEvaluation extends Student {
   evaluation?: Evaluation;
@@ -167,6 +308,7 @@ export interface CalculatedMarks {
 export interface CreateAcademicYearInput {
   start_year: number;
   end_year: number;
+  department_id: string;
 }
 
 export interface CreatePresentationInput {
@@ -180,7 +322,38 @@ export interface CreateGroupInput {
   group_number: number;
   guide_name: string;
   guide_user_id?: string;
-  students: string[]; // Array of 4 student names
+  students: string[]; // 1–6 student names (MIN/MAX_GROUP_STUDENTS)
+  student_record_ids?: (string | null)[]; // Existing records per student; null = new record
+}
+
+// One row of a bulk group import (xlsx/csv), after parsing and validation
+export interface GroupImportRow {
+  rowNumber: number; // Row number in the source sheet, for error messages
+  group_number: number | null;
+  guide: string; // Guide username (or full name) as written in the file
+  students: string[];
+  project_title: string;
+  guide_user_id?: string; // Resolved from `guide` during validation
+  guide_name?: string;
+  errors: string[];
+}
+
+// One cell of an uploaded marks sheet that differs from the stored mark
+export interface MarksImportChange {
+  studentId: string;
+  studentName: string;
+  groupNumber: number;
+  field: string; // Rubric criterion key
+  fieldLabel: string;
+  oldValue: number;
+  newValue: number;
+  error?: string; // Set when the new value is not a valid mark
+}
+
+export interface MarksImportDiff {
+  changes: MarksImportChange[];
+  unmatchedRows: { rowNumber: number; groupNumber: number | null; studentName: string }[];
+  unmatchedHeaders: string[];
 }
 
 export interface UpdateEvaluationInput {
@@ -188,3 +361,155 @@ export interface UpdateEvaluationInput {
   field: keyof Evaluation;
   value: number;
 }
+
+// Reports built by POST /api/reports/export-annual (one academic year)
+export type AnnualReportKind =
+  | "annual_by_semester" // Semester 1 and Semester 2 sheets
+  | "all_presentations" // One sheet per presentation
+  | "semester1"
+  | "semester2"
+  | "classification";
+
+// Reports built by POST /api/reports/export-presentation
+export type PresentationReportKind = "marks";
+
+// PDF TW sheets built by POST /api/reports/export-pdf
+// "presentation" takes a presentationId; the others an academicYearId
+export type PdfReportScope = "presentation" | "semester1" | "semester2" | "annual";
+
+// =====================================================
+// Student Portal Types
+// =====================================================
+// Built by GET /api/student/results (lib/studentPortal.ts). Marks are only
+// filled in for presentations whose results have been published.
+
+export interface StudentCriterionResult {
+  name: string;
+  maxMark: number;
+  mark: number;
+}
+
+export interface StudentPresentationResult {
+  presentationName: string;
+  presentationNumber: number; // 1-4
+  groupNumber: number;
+  guideName: string;
+  projectTitle: string | null;
+  published: boolean;
+  criteria?: StudentCriterionResult[];
+  total?: number;
+  totalMax?: number;
+  totalLabel?: string; // e.g. "Internal I"
+}
+
+export interface StudentSemesterResult {
+  semester: 1 | 2;
+  totalOutOf100: number;
+  totalOutOf50: number;
+}
+
+export interface StudentYearResults {
+  academicYearName: string;
+  presentations: StudentPresentationResult[]; // Ordered by presentation number
+  semesters: StudentSemesterResult[]; // Only semesters with both presentations published
+}
+
+export interface StudentResults {
+  studentName: string;
+  rollNumber: string | null;
+  prn: string | null;
+  years: StudentYearResults[];
+}
+
+// =====================================================
+// Branding Types
+// =====================================================
+// Printed on every export; templates take {sheet}, {start_year},
+// {end_year} and {end_year_short} (see lib/branding.ts)
+export interface InstitutionSettings {
+  id?: string;
+  department_id?: string;
+  institution_name: string;
+  institution_short_name: string; // Shown when the logo image is missing
+  institution_address: string | null;
+  department_name: string;
+  logo_url: string | null; // PNG/JPEG data URL; null = /logo.png
+  sheet_title_template: string;
+  classification_title_template: string;
+  coordinator_name: string | null;
+  hod_name: string | null;
+  updated_at?: string;
+}
+
+export type InstitutionSettingsUpdate = Partial<Omit<InstitutionSettings, "id" | "updated_at">>;
+
+export interface BrandingContextType {
+  branding: InstitutionSettings;
+  refreshBranding: () => Promise<void>;
+}
+
+// =====================================================
+// Audit Types
+// =====================================================
+export type AuditAction =
+  | "LOGIN"
+  | "LOGOUT"
+  | "LOGIN_FAILED"
+  | "LOCKED"
+  | "UNLOCK_USER"
+  | "CREATE_USER"
+  | "UPDATE_USER"
+  | "CHANGE_PASSWORD"
+  | "RESET_PASSWORD"
+  | "DELETE_USER"
+  | "UPDATE_BRANDING"
+  | "CREATE_DEPARTMENT"
+  | "UPDATE_MARK"
+  | "RENAME_STUDENT"
+  | "ADD_STUDENT"
+  | "REMOVE_STUDENT"
+  | "MOVE_STUDENT"
+  | "UPDATE_STUDENT_RECORD"
+  | "UPDATE_GUIDE"
+  | "DELETE_GROUP"
+  | "DELETE_PRESENTATION"
+  | "UPDATE_COLUMNS"
+  | "RESET_MARKS"
+  | "SUBMIT_PRESENTATION"
+  | "LOCK_PRESENTATION"
+  | "UNLOCK_PRESENTATION"
+  | "PUBLISH_RESULTS"
+  | "UNPUBLISH_RESULTS"
+  | "UPDATE_EXAMINERS"
+  | "UPDATE_EXAMINER_MARK";
+
+export type AuditEntityType = "USER" | "STUDENT" | "STUDENT_RECORD" | "GROUP" | "PRESENTATION" | "SETTINGS" | "DEPARTMENT";
+
+export interface AuditChanges {
+  field?: string;
+  old_value?: any;
+  new_value?: any;
+  [key: string]: any;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  user_id: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  changes: AuditChanges | null;
+  created_at: string;
+  user?: Pick<User, "full_name" | "username"> | null;
+}
+
+export interface AuditLogFilters {
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  userId?: string;
+  departmentId?: string; // Only entries by this department's users
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, inclusive
+  limit?: number;
+}
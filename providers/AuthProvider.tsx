@@ -1,8 +1,15 @@
 'use client';
 
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { AuthUser, AuthContextType, UserRole } from '@/lib/types';
-import { loginUser, logoutUser, verifySession, getUserById } from '@/lib/auth';
+import { AuthUser, AuthContextType } from '@/lib/types';
+import { can } from '@/lib/permissions';
+import {
+    login as loginRequest,
+    logout as logoutRequest,
+    getCurrentUser,
+    ApiRequestError,
+} from '@/lib/api';
+import { cacheUser, clearOfflineCache, getCachedUser, isOfflineError } from '@/lib/offline';
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -10,36 +17,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     const [user, setUser] = useState<AuthUser | null>(null);
     const [loading, setLoading] = useState(true);
 
-    // Initialize auth from localStorage and verify session
+    // Initialize auth from the httpOnly session cookie
     useEffect(() => {
         const initializeAuth = async () => {
             try {
-                const storedAuth = localStorage.getItem('auth');
-                if (storedAuth) {
-                    const { userId, token } = JSON.parse(storedAuth);
-                    
-                    // Verify session is still valid
-                    const isValid = await verifySession(userId, token);
-                    
-                    if (isValid) {
-                        const userData = await getUserById(userId);
-                        if (userData) {
-                            setUser({
-                                ...userData,
-                                token,
-                            });
-                        } else {
-                            // User not found or disabled
-                            localStorage.removeItem('auth');
-                        }
-                    } else {
-                        // Session expired
-                        localStorage.removeItem('auth');
-                    }
-                }
+                const currentUser = await getCurrentUser();
+                cacheUser(currentUser);
+                setUser(currentUser);
             } catch (error) {
-                console.error('Error initializing auth:', error);
-                localStorage.removeItem('auth');
+                // Offline, or the session could not be checked: keep working
+                // as the last signed-in user so queued marks entry is
+                // possible; the server re-checks on sync
+                if (
+                    isOfflineError(error) ||
+                    (error instanceof ApiRequestError && error.status >= 500)
+                ) {
+                    setUser(getCachedUser());
+                } else {
+                    console.error('Error initializing auth:', error);
+                    setUser(null);
+                }
             } finally {
                 setLoading(false);
             }
@@ -51,14 +48,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     const login = async (username: string, password: string) => {
         try {
             setLoading(true);
-            const authUser = await loginUser({ username, password });
-            
-            // Store auth in localStorage
-            localStorage.setItem('auth', JSON.stringify({
-                userId: authUser.id,
-                token: authUser.token,
-            }));
-            
+            // The server sets the session cookie; the token never reaches JS
+            const authUser = await loginRequest(username, password);
+            cacheUser(authUser);
             setUser(authUser);
         } catch (error) {
             console.error('Login error:', error);
@@ -68,13 +60,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
     };
 
+    // Reload the user from the session (e.g. after a password change)
+    const refreshUser = async () => {
+        const currentUser = await getCurrentUser();
+        cacheUser(currentUser);
+        setUser(currentUser);
+    };
+
     const logout = async () => {
         try {
             setLoading(true);
-            if (user && user.token) {
-                await logoutUser(user.id, user.token);
-            }
-            localStorage.removeItem('auth');
+            await logoutRequest();
+            clearOfflineCache();
             setUser(null);
         } catch (error) {
             console.error('Logout error:', error);
@@ -88,9 +85,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         loading,
         login,
         logout,
+        refreshUser,
         isAuthenticated: !!user,
-        isAdmin: user?.role === 'admin',
-        isTeacher: user?.role === 'teacher',
+        can: (permission, resource) => can(user, permission, resource),
+        mustChangePassword: !!user?.must_change_password,
     };
 
     return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,47 @@
+'use client';
+
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { BrandingContextType, InstitutionSettings } from '@/lib/types';
+import { getInstitutionSettings } from '@/lib/database';
+import { DEFAULT_BRANDING } from '@/lib/branding';
+import { useAuth } from '@/providers/AuthProvider';
+
+const BrandingContext = createContext<BrandingContextType | undefined>(undefined);
+
+// The signed-in user's department branding; the defaults before sign-in
+export function BrandingProvider({ children }: { children: React.ReactNode }) {
+    const { user } = useAuth();
+    const departmentId = user?.department_id;
+    const [branding, setBranding] = useState<InstitutionSettings>(DEFAULT_BRANDING);
+
+    const refreshBranding = async () => {
+        if (!departmentId) {
+            setBranding(DEFAULT_BRANDING);
+            return;
+        }
+        try {
+            setBranding(await getInstitutionSettings(departmentId));
+        } catch (error) {
+            // Not migrated yet or offline: keep showing the defaults
+            console.error('Error loading branding:', error);
+        }
+    };
+
+    useEffect(() => {
+        refreshBranding();
+    }, [departmentId]);
+
+    return (
+        <BrandingContext.Provider value={{ branding, refreshBranding }}>
+            {children}
+        </BrandingContext.Provider>
+    );
+}
+
+export function useBranding() {
+    const context = useContext(BrandingContext);
+    if (context === undefined) {
+        throw new Error('useBranding must be used within a BrandingProvider');
+    }
+    return context;
+}
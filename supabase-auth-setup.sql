@@ -25,6 +25,7 @@ CREATE TABLE IF NOT EXISTS users (
   role VARCHAR(20) NOT NULL DEFAULT 'teacher' CHECK (role IN ('admin', 'teacher')),
   full_name VARCHAR(200),
   is_active BOOLEAN DEFAULT TRUE,
+  must_change_password BOOLEAN NOT NULL DEFAULT FALSE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -55,7 +56,7 @@ CREATE INDEX IF NOT EXISTS idx_groups_guide_user ON groups(guide_user_id);
 CREATE TABLE IF NOT EXISTS user_sessions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-  token VARCHAR(500) NOT NULL,
+  token_hash VARCHAR(64) NOT NULL, -- SHA-256 of the session cookie token
   ip_address VARCHAR(45),
   user_agent TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -65,7 +66,7 @@ CREATE TABLE IF NOT EXISTS user_sessions (
 
 -- Create indexes for faster lookups
 CREATE INDEX IF NOT EXISTS idx_sessions_user ON user_sessions(user_id);
-CREATE INDEX IF NOT EXISTS idx_sessions_token ON user_sessions(token);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sessions_token_hash ON user_sessions(token_hash);
 CREATE INDEX IF NOT EXISTS idx_sessions_expires ON user_sessions(expires_at);
 
 -- =====================================================
@@ -91,16 +92,17 @@ CREATE INDEX IF NOT EXISTS idx_audit_action ON audit_log(action);
 -- Insert Default Admin User (Update credentials after first login)
 -- =====================================================
 -- Username: admin
--- Password: admin@123 (hashed: $2a$10$Z5YnAz.T2X7kLwZ.5q8R.eQ5q8R.eQ5q8R.eQ5q8R - for reference only)
--- IMPORTANT: Change this password immediately after first login!
+-- Password: admin@123
+-- The app asks for a new password on first login (must_change_password)
 -- =====================================================
-INSERT INTO users (email, username, password_hash, role, full_name, is_active)
+INSERT INTO users (email, username, password_hash, role, full_name, is_active, must_change_password)
 VALUES (
   'admin@presentation.local',
   'admin',
-  '$2a$10$W9jZlzJzZlzJzZlzJzZlzZlzJzZlzJzZlzJzZlzJzZlzJzZlzJzZl', -- bcrypt hash for 'admin@123'
+  '$2a$10$8V4k5MbWgd1qlJZXgC.Hm.PjLYJar9VNjdt70DWQ.2L9LZ7t4zBxy', -- bcrypt hash for 'admin@123'
   'admin',
   'System Administrator',
+  TRUE,
   TRUE
 )
 ON CONFLICT (username) DO NOTHING;
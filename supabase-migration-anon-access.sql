@@ -0,0 +1,92 @@
+-- =====================================================
+-- Migration: Anon Access Lockdown
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will take away what the public anon key could reach
+-- directly, bypassing the API routes and their permission checks:
+-- - users: readable only without password_hash, never writable
+-- - user_sessions, login_attempts: no access at all (anyone could
+--   otherwise clear the attempts that throttle sign-ins)
+-- - evaluations, examiner_marks, published_evaluations: no access at all;
+--   marks are read and changed only through /api/*, which also keeps
+--   unpublished results from students
+-- - broadcast_grid_change: evaluation broadcasts (which anyone with the
+--   anon key can subscribe to) name the changed row but carry no marks;
+--   open grids fetch it from /api/evaluations/:studentId
+-- The API routes use the service role key (SUPABASE_SERVICE_ROLE_KEY),
+-- which these grants do not affect, so set it before running this.
+-- Requires supabase-migration-examiners.sql,
+-- supabase-migration-login-throttling.sql,
+-- supabase-migration-realtime.sql and
+-- supabase-migration-results-publishing.sql.
+-- =====================================================
+
+-- Accounts: the UI lists users (lib/database.ts USER_COLUMNS) but never
+-- needs the hash; accounts change only through /api/users
+REVOKE ALL ON users FROM anon, authenticated;
+GRANT SELECT (
+  id, email, username, role, full_name, is_active, must_change_password,
+  department_id, is_super_admin, student_record_id, failed_login_count,
+  locked_until, created_at, updated_at
+) ON users TO anon, authenticated;
+
+-- Sessions and sign-in attempts are only ever used by the server
+REVOKE ALL ON user_sessions FROM anon, authenticated;
+REVOKE ALL ON login_attempts FROM anon, authenticated;
+
+-- Marks, draft and published
+REVOKE ALL ON evaluations FROM anon, authenticated;
+REVOKE ALL ON examiner_marks FROM anon, authenticated;
+REVOKE ALL ON published_evaluations FROM anon, authenticated;
+
+-- Same as supabase-migration-realtime.sql, except that an evaluation is
+-- sent as {id, student_id, updated_at} only
+CREATE OR REPLACE FUNCTION broadcast_grid_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_row RECORD;
+  v_record JSONB;
+  v_presentation_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'students' THEN
+    v_record := to_jsonb(v_row);
+    SELECT presentation_id INTO v_presentation_id
+    FROM groups WHERE id = v_row.group_id;
+  ELSE
+    v_record := jsonb_build_object(
+      'id', v_row.id,
+      'student_id', v_row.student_id,
+      'updated_at', v_row.updated_at
+    );
+    SELECT g.presentation_id INTO v_presentation_id
+    FROM students s
+    JOIN groups g ON g.id = s.group_id
+    WHERE s.id = v_row.student_id;
+  END IF;
+
+  -- Rows removed along with their group are covered by the group change
+  IF v_presentation_id IS NOT NULL THEN
+    PERFORM realtime.send(
+      jsonb_build_object('eventType', TG_OP, 'record', v_record),
+      TG_TABLE_NAME,
+      'presentation:' || v_presentation_id,
+      FALSE
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
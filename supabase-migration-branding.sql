@@ -0,0 +1,59 @@
+-- =====================================================
+-- Migration: Institution & Department Branding
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add institution_settings: the single row of names,
+-- address, logo, sheet title templates and signatory names printed on
+-- every Excel/PDF export and shown by the app's logo. Admins edit it on
+-- the Branding page. It is seeded with the values that used to be
+-- hardcoded, so exports look the same until it is changed.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS institution_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  institution_name VARCHAR(255) NOT NULL,
+  institution_short_name VARCHAR(20) NOT NULL,
+  institution_address VARCHAR(255),
+  department_name VARCHAR(255) NOT NULL,
+  logo_url TEXT, -- Data URL or http(s) URL; NULL = /logo.png
+  sheet_title_template TEXT NOT NULL,
+  classification_title_template TEXT NOT NULL,
+  coordinator_name VARCHAR(255),
+  hod_name VARCHAR(255),
+  updated_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- At most one row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_institution_settings_single
+  ON institution_settings((TRUE));
+
+CREATE TRIGGER update_institution_settings_updated_at
+  BEFORE UPDATE ON institution_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO institution_settings (
+  institution_name,
+  institution_short_name,
+  institution_address,
+  department_name,
+  sheet_title_template,
+  classification_title_template
+)
+SELECT
+  'M.E.S. Wadia College of Engineering',
+  'WCE',
+  'Pune-01',
+  'Department of Computer Engineering',
+  'BE Project {sheet} TW Evaluation Sheet ({start_year}–{end_year})',
+  'Student Project {start_year}-{end_year_short}'
+WHERE NOT EXISTS (SELECT 1 FROM institution_settings);
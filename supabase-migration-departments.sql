@@ -0,0 +1,141 @@
+-- =====================================================
+-- Migration: Departments (Multi-Department Tenancy)
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add:
+-- - departments: one row per department sharing the deployment
+-- - department_id on users, academic_years, presentations and groups.
+--   Presentations and groups copy theirs from the academic year on insert.
+-- - is_super_admin on users: super-admins create departments and switch
+--   between them; everyone else only ever sees their own department
+-- - department_id on institution_settings: each department has its own
+--   branding (names, logo, titles, signatories)
+-- - slugs unique per department instead of overall, so every department
+--   can have its own "2025-26" and "2025-26-p1"
+-- Everything that exists today is moved into a "Computer Engineering"
+-- department; the seeded admin (and STAR_ARTS) become super-admins.
+-- Requires supabase-migration-branding.sql and supabase-migration-slugs.sql.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS departments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL UNIQUE,
+  code VARCHAR(20) NOT NULL UNIQUE, -- Short label for the switcher, e.g. "COMP"
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_departments_updated_at
+  BEFORE UPDATE ON departments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO departments (name, code)
+VALUES ('Computer Engineering', 'COMP')
+ON CONFLICT (name) DO NOTHING;
+
+-- =====================================================
+-- Scoped tables
+-- =====================================================
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS department_id UUID REFERENCES departments(id) ON DELETE RESTRICT,
+ADD COLUMN IF NOT EXISTS is_super_admin BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE academic_years
+ADD COLUMN IF NOT EXISTS department_id UUID REFERENCES departments(id) ON DELETE RESTRICT;
+
+ALTER TABLE presentations
+ADD COLUMN IF NOT EXISTS department_id UUID REFERENCES departments(id) ON DELETE RESTRICT;
+
+ALTER TABLE groups
+ADD COLUMN IF NOT EXISTS department_id UUID REFERENCES departments(id) ON DELETE RESTRICT;
+
+ALTER TABLE institution_settings
+ADD COLUMN IF NOT EXISTS department_id UUID REFERENCES departments(id) ON DELETE CASCADE;
+
+UPDATE users SET department_id = (SELECT id FROM departments WHERE code = 'COMP')
+WHERE department_id IS NULL;
+UPDATE academic_years SET department_id = (SELECT id FROM departments WHERE code = 'COMP')
+WHERE department_id IS NULL;
+UPDATE presentations p SET department_id = y.department_id
+FROM academic_years y WHERE y.id = p.academic_year_id AND p.department_id IS NULL;
+UPDATE groups g SET department_id = p.department_id
+FROM presentations p WHERE p.id = g.presentation_id AND g.department_id IS NULL;
+UPDATE institution_settings SET department_id = (SELECT id FROM departments WHERE code = 'COMP')
+WHERE department_id IS NULL;
+
+UPDATE users SET is_super_admin = TRUE WHERE username IN ('admin', 'STAR_ARTS');
+
+ALTER TABLE users ALTER COLUMN department_id SET NOT NULL;
+ALTER TABLE academic_years ALTER COLUMN department_id SET NOT NULL;
+ALTER TABLE presentations ALTER COLUMN department_id SET NOT NULL;
+ALTER TABLE groups ALTER COLUMN department_id SET NOT NULL;
+ALTER TABLE institution_settings ALTER COLUMN department_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_department ON users(department_id);
+CREATE INDEX IF NOT EXISTS idx_academic_years_department ON academic_years(department_id);
+CREATE INDEX IF NOT EXISTS idx_presentations_department ON presentations(department_id);
+CREATE INDEX IF NOT EXISTS idx_groups_department ON groups(department_id);
+
+-- Year names repeat across departments
+ALTER TABLE academic_years DROP CONSTRAINT IF EXISTS unique_academic_year_name;
+ALTER TABLE academic_years
+ADD CONSTRAINT unique_academic_year_name UNIQUE (department_id, name);
+
+-- Slugs (and slug lookups) are per department
+DROP INDEX IF EXISTS idx_academic_years_slug;
+DROP INDEX IF EXISTS idx_presentations_slug;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_academic_years_department_slug
+  ON academic_years(department_id, slug);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_presentations_department_slug
+  ON presentations(department_id, slug);
+
+-- One branding row per department instead of one overall
+DROP INDEX IF EXISTS idx_institution_settings_single;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_institution_settings_department
+  ON institution_settings(department_id);
+
+-- =====================================================
+-- Inherited department
+-- =====================================================
+
+-- Presentations and groups always belong to their academic year's
+-- department, whichever code path inserts them (including the group
+-- functions called with supabase.rpc)
+CREATE OR REPLACE FUNCTION set_presentation_department()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT department_id INTO NEW.department_id
+  FROM academic_years WHERE id = NEW.academic_year_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_presentations_department ON presentations;
+CREATE TRIGGER set_presentations_department
+  BEFORE INSERT OR UPDATE OF academic_year_id ON presentations
+  FOR EACH ROW
+  EXECUTE FUNCTION set_presentation_department();
+
+CREATE OR REPLACE FUNCTION set_group_department()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT department_id INTO NEW.department_id
+  FROM presentations WHERE id = NEW.presentation_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_groups_department ON groups;
+CREATE TRIGGER set_groups_department
+  BEFORE INSERT OR UPDATE OF presentation_id ON groups
+  FOR EACH ROW
+  EXECUTE FUNCTION set_group_department();
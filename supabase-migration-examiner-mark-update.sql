@@ -0,0 +1,46 @@
+-- =====================================================
+-- Migration: Single-Mark Examiner Sheet Updates
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add set_examiner_mark (called with supabase.rpc):
+-- saves one mark on an external examiner's sheet by merging just that key
+-- into marks in a single statement, so two marks saved at the same time
+-- (e.g. from two tabs) never overwrite each other.
+-- Requires supabase-migration-examiners.sql.
+-- =====================================================
+
+-- Returns {sheet, old_value}: the saved sheet, and the mark it replaced
+-- (null if there was none) for the audit trail
+CREATE OR REPLACE FUNCTION set_examiner_mark(
+  p_student_id UUID,
+  p_examiner_id UUID,
+  p_field TEXT,
+  p_value NUMERIC
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_old_value JSONB;
+  v_sheet examiner_marks;
+BEGIN
+  -- Locks an existing sheet, so the old value is the one this update replaces
+  SELECT marks -> p_field INTO v_old_value
+  FROM examiner_marks
+  WHERE student_id = p_student_id AND examiner_id = p_examiner_id
+  FOR UPDATE;
+
+  INSERT INTO examiner_marks (student_id, examiner_id, marks)
+  VALUES (p_student_id, p_examiner_id, jsonb_build_object(p_field, p_value))
+  ON CONFLICT (student_id, examiner_id)
+  DO UPDATE SET marks = examiner_marks.marks || jsonb_build_object(p_field, p_value)
+  RETURNING * INTO v_sheet;
+
+  RETURN jsonb_build_object('sheet', to_jsonb(v_sheet), 'old_value', v_old_value);
+END;
+$$ LANGUAGE plpgsql;
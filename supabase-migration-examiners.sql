@@ -0,0 +1,51 @@
+-- =====================================================
+-- Migration: Multiple Examiners per Presentation
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add:
+-- - presentation_examiners: external examiners assigned to a presentation
+-- - examiner_marks: one mark sheet per examiner per student (the existing
+--   evaluations row remains the guide's sheet)
+-- - combine_rule / guide_weight on presentations: how the sheets are merged
+-- =====================================================
+
+ALTER TABLE presentations
+ADD COLUMN IF NOT EXISTS combine_rule VARCHAR(20) NOT NULL DEFAULT 'average'
+  CHECK (combine_rule IN ('average', 'max', 'guide_weighted')),
+ADD COLUMN IF NOT EXISTS guide_weight NUMERIC(3, 2) NOT NULL DEFAULT 0.5
+  CHECK (guide_weight >= 0 AND guide_weight <= 1);
+
+CREATE TABLE IF NOT EXISTS presentation_examiners (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  presentation_id UUID NOT NULL REFERENCES presentations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (presentation_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS examiner_marks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  examiner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  marks JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (student_id, examiner_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_presentation_examiners_presentation
+  ON presentation_examiners(presentation_id);
+CREATE INDEX IF NOT EXISTS idx_examiner_marks_student
+  ON examiner_marks(student_id);
+
+CREATE TRIGGER update_examiner_marks_updated_at
+  BEFORE UPDATE ON examiner_marks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,276 @@
+-- =====================================================
+-- Migration: Transactional Group Operations
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add database functions (called with supabase.rpc)
+-- for the multi-step group operations. Each call runs in one transaction,
+-- so a failure part way through leaves nothing behind:
+-- - create_group_with_students: group, students and empty evaluations,
+--   copied to Presentations 2-4 when created in Presentation 1
+-- - copy_groups: copy missing groups (with students) between presentations
+-- - create_presentation_with_groups: new presentation; P2-P4 start with
+--   the groups of Presentation 1
+-- - normalize_group_numbers: renumber groups 1..n without gaps
+-- - reset_presentation_marks: zero every mark, returning the old rows
+--
+-- Errors the user can act on are raised as plain exceptions (SQLSTATE
+-- P0001) with a readable message; the app shows that message as-is.
+-- Requires supabase-migration-presentation-lock.sql (lock_status).
+-- =====================================================
+
+-- Insert one group with its students and an empty evaluation per student
+CREATE OR REPLACE FUNCTION insert_group_with_students(
+  p_presentation_id UUID,
+  p_group_number INTEGER,
+  p_guide_name TEXT,
+  p_guide_user_id UUID,
+  p_created_by UUID,
+  p_students TEXT[]
+)
+RETURNS groups AS $$
+DECLARE
+  v_group groups;
+BEGIN
+  INSERT INTO groups (presentation_id, group_number, guide_name, guide_user_id, created_by_user_id)
+  VALUES (p_presentation_id, p_group_number, p_guide_name, p_guide_user_id, p_created_by)
+  RETURNING * INTO v_group;
+
+  INSERT INTO students (group_id, student_name, position)
+  SELECT v_group.id, s.name, s.ord
+  FROM unnest(p_students) WITH ORDINALITY AS s(name, ord);
+
+  INSERT INTO evaluations (student_id)
+  SELECT id FROM students WHERE group_id = v_group.id;
+
+  RETURN v_group;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a group in a presentation. In Presentation 1 the same group is
+-- created in the year's Presentations 2-4 (locked ones, and ones that
+-- already have that group number, are left alone). Without p_group_number
+-- the next number free in all of them is used.
+CREATE OR REPLACE FUNCTION create_group_with_students(
+  p_presentation_id UUID,
+  p_guide_name TEXT,
+  p_guide_user_id UUID,
+  p_created_by UUID,
+  p_students TEXT[],
+  p_group_number INTEGER DEFAULT NULL,
+  p_propagate BOOLEAN DEFAULT TRUE
+)
+RETURNS groups AS $$
+DECLARE
+  v_presentation presentations;
+  v_sibling_ids UUID[] := '{}';
+  v_sibling_id UUID;
+  v_number INTEGER;
+  v_group groups;
+BEGIN
+  -- Serialises group creation per presentation so numbers cannot race
+  SELECT * INTO v_presentation FROM presentations WHERE id = p_presentation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Presentation not found';
+  END IF;
+
+  IF p_propagate AND v_presentation.name LIKE '%1' THEN
+    SELECT COALESCE(array_agg(id ORDER BY name), '{}') INTO v_sibling_ids
+    FROM presentations
+    WHERE academic_year_id = v_presentation.academic_year_id
+      AND id <> v_presentation.id
+      AND right(name, 1) IN ('2', '3', '4')
+      AND COALESCE(lock_status, 'open') <> 'locked';
+
+    PERFORM 1 FROM presentations WHERE id = ANY(v_sibling_ids) FOR UPDATE;
+  END IF;
+
+  v_number := COALESCE(
+    p_group_number,
+    (SELECT COALESCE(MAX(group_number), 0) + 1
+     FROM groups
+     WHERE presentation_id = p_presentation_id OR presentation_id = ANY(v_sibling_ids))
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM groups
+    WHERE presentation_id = p_presentation_id AND group_number = v_number
+  ) THEN
+    RAISE EXCEPTION 'Group % already exists in %', v_number, v_presentation.name;
+  END IF;
+
+  v_group := insert_group_with_students(
+    p_presentation_id, v_number, p_guide_name, p_guide_user_id, p_created_by, p_students
+  );
+
+  FOREACH v_sibling_id IN ARRAY v_sibling_ids LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM groups
+      WHERE presentation_id = v_sibling_id AND group_number = v_number
+    ) THEN
+      PERFORM insert_group_with_students(
+        v_sibling_id, v_number, p_guide_name, p_guide_user_id, p_created_by, p_students
+      );
+    END IF;
+  END LOOP;
+
+  RETURN v_group;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Copy the source's groups that the target does not have yet (same group
+-- number, guide and students; marks start empty). p_guide_user_id limits
+-- the copy to one guide's groups. Returns the number of groups copied.
+CREATE OR REPLACE FUNCTION copy_groups(
+  p_source_presentation_id UUID,
+  p_target_presentation_id UUID,
+  p_guide_user_id UUID DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_group groups;
+  v_students TEXT[];
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_group IN
+    SELECT * FROM groups g
+    WHERE g.presentation_id = p_source_presentation_id
+      AND (p_guide_user_id IS NULL OR g.guide_user_id = p_guide_user_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM groups t
+        WHERE t.presentation_id = p_target_presentation_id
+          AND t.group_number = g.group_number
+      )
+    ORDER BY g.group_number
+  LOOP
+    SELECT COALESCE(array_agg(student_name ORDER BY position), '{}') INTO v_students
+    FROM students WHERE group_id = v_group.id;
+
+    PERFORM create_group_with_students(
+      p_target_presentation_id,
+      v_group.guide_name,
+      v_group.guide_user_id,
+      p_created_by,
+      v_students,
+      v_group.group_number
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a presentation; "Presentation 2/3/4" start with the groups of
+-- "Presentation 1" from the same academic year
+CREATE OR REPLACE FUNCTION create_presentation_with_groups(
+  p_name TEXT,
+  p_semester TEXT,
+  p_academic_year_id UUID,
+  p_slug TEXT
+)
+RETURNS presentations AS $$
+DECLARE
+  v_presentation presentations;
+  v_source_id UUID;
+BEGIN
+  INSERT INTO presentations (name, semester, academic_year_id, slug)
+  VALUES (p_name, p_semester, p_academic_year_id, p_slug)
+  RETURNING * INTO v_presentation;
+
+  IF p_name ~ '[234]$' THEN
+    SELECT id INTO v_source_id
+    FROM presentations
+    WHERE academic_year_id = p_academic_year_id
+      AND name = regexp_replace(p_name, '[234]$', '1')
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_source_id IS NOT NULL THEN
+      PERFORM copy_groups(v_source_id, v_presentation.id);
+    END IF;
+  END IF;
+
+  RETURN v_presentation;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Renumber a presentation's groups 1..n keeping their order
+CREATE OR REPLACE FUNCTION normalize_group_numbers(p_presentation_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM 1 FROM presentations WHERE id = p_presentation_id FOR UPDATE;
+
+  -- Negate first so unique_group_per_presentation never sees two groups
+  -- with the same number part way through the renumbering
+  UPDATE groups SET group_number = -group_number
+  WHERE presentation_id = p_presentation_id;
+
+  UPDATE groups g
+  SET group_number = r.n
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY group_number DESC) AS n
+    FROM groups
+    WHERE presentation_id = p_presentation_id
+  ) r
+  WHERE g.id = r.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Zero every mark in a presentation. Returns the evaluations as they were
+-- (for the audit trail).
+CREATE OR REPLACE FUNCTION reset_presentation_marks(p_presentation_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_previous JSONB;
+BEGIN
+  PERFORM 1 FROM evaluations e
+  JOIN students s ON s.id = e.student_id
+  JOIN groups g ON g.id = s.group_id
+  WHERE g.presentation_id = p_presentation_id
+  FOR UPDATE OF e;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(e)), '[]'::jsonb) INTO v_previous
+  FROM evaluations e
+  JOIN students s ON s.id = e.student_id
+  JOIN groups g ON g.id = s.group_id
+  WHERE g.presentation_id = p_presentation_id;
+
+  UPDATE evaluations
+  SET
+    problem_identification = 0,
+    literature_survey = 0,
+    software_engineering = 0,
+    requirement_analysis = 0,
+    srs = 0,
+    individual_capacity = 0,
+    team_work = 0,
+    presentation_qa = 0,
+    paper_presentation = 0,
+    internal_presentation_ii = 0,
+    identification_module = 0,
+    coding = 0,
+    understanding = 0,
+    internal_presentation_iii = 0,
+    testing = 0,
+    participation_conference = 0,
+    publication = 0,
+    project_report = 0,
+    partial_project_report = 0,
+    internal_presentation_iv = 0
+  WHERE student_id IN (
+    SELECT s.id FROM students s
+    JOIN groups g ON g.id = s.group_id
+    WHERE g.presentation_id = p_presentation_id
+  );
+
+  RETURN v_previous;
+END;
+$$ LANGUAGE plpgsql;
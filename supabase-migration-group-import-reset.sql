@@ -0,0 +1,135 @@
+-- =====================================================
+-- Migration: Group Import & Marks Reset
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add:
+-- - import_groups: create a batch of imported groups, all or none
+-- - a new reset_presentation_marks that clears the guide's marks to NULL
+--   (not entered; see supabase-migration-guide-marks.sql), also clears
+--   extra column marks and deletes the external examiners' sheets
+-- Run it after supabase-migration-student-records.sql (import_groups calls
+-- its create_group_with_students), supabase-migration-extra-columns.sql
+-- and supabase-migration-examiners.sql.
+-- =====================================================
+
+-- Create every group of an import batch (a JSON array of
+-- {group_number, guide_name, guide_user_id, students, project_title}).
+-- Rows without a guide_user_id get p_default_guide_user_id. A failing row
+-- rolls back the whole batch. Returns the number of groups created.
+CREATE OR REPLACE FUNCTION import_groups(
+  p_presentation_id UUID,
+  p_groups JSONB,
+  p_created_by UUID DEFAULT NULL,
+  p_default_guide_user_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_row JSONB;
+  v_students TEXT[];
+  v_group groups;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_row IN SELECT value FROM jsonb_array_elements(p_groups) LOOP
+    SELECT COALESCE(array_agg(t.name ORDER BY t.ord), '{}') INTO v_students
+    FROM jsonb_array_elements_text(COALESCE(v_row->'students', '[]'::jsonb))
+      WITH ORDINALITY AS t(name, ord);
+
+    -- New students get new student records (p_record_ids NULL)
+    v_group := create_group_with_students(
+      p_presentation_id,
+      v_row->>'guide_name',
+      COALESCE((v_row->>'guide_user_id')::UUID, p_default_guide_user_id),
+      p_created_by,
+      v_students,
+      (v_row->>'group_number')::INTEGER,
+      TRUE,
+      NULL::UUID[]
+    );
+
+    IF COALESCE(v_row->>'project_title', '') <> '' THEN
+      UPDATE evaluations
+      SET project_title = v_row->>'project_title'
+      WHERE student_id IN (SELECT id FROM students WHERE group_id = v_group.id);
+    END IF;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Clear every mark in a presentation back to "not entered" (NULL),
+-- including extra columns, and delete the external examiners' sheets. Returns the evaluations as they were,
+-- each with its examiner_marks (for the audit trail).
+CREATE OR REPLACE FUNCTION reset_presentation_marks(p_presentation_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_previous JSONB;
+BEGIN
+  PERFORM 1 FROM evaluations e
+  JOIN students s ON s.id = e.student_id
+  JOIN groups g ON g.id = s.group_id
+  WHERE g.presentation_id = p_presentation_id
+  FOR UPDATE OF e;
+
+  SELECT COALESCE(jsonb_agg(
+    to_jsonb(e) || jsonb_build_object(
+      'examiner_marks',
+      COALESCE(
+        (SELECT jsonb_agg(to_jsonb(m)) FROM examiner_marks m WHERE m.student_id = e.student_id),
+        '[]'::jsonb
+      )
+    )
+  ), '[]'::jsonb) INTO v_previous
+  FROM evaluations e
+  JOIN students s ON s.id = e.student_id
+  JOIN groups g ON g.id = s.group_id
+  WHERE g.presentation_id = p_presentation_id;
+
+  UPDATE evaluations
+  SET
+    problem_identification = NULL,
+    literature_survey = NULL,
+    software_engineering = NULL,
+    requirement_analysis = NULL,
+    srs = NULL,
+    individual_capacity = NULL,
+    team_work = NULL,
+    presentation_qa = NULL,
+    paper_presentation = NULL,
+    internal_presentation_ii = NULL,
+    identification_module = NULL,
+    coding = NULL,
+    understanding = NULL,
+    internal_presentation_iii = NULL,
+    testing = NULL,
+    participation_conference = NULL,
+    publication = NULL,
+    project_report = NULL,
+    partial_project_report = NULL,
+    internal_presentation_iv = NULL,
+    extra_marks = '{}'::jsonb
+  WHERE student_id IN (
+    SELECT s.id FROM students s
+    JOIN groups g ON g.id = s.group_id
+    WHERE g.presentation_id = p_presentation_id
+  );
+
+  DELETE FROM examiner_marks
+  WHERE student_id IN (
+    SELECT s.id FROM students s
+    JOIN groups g ON g.id = s.group_id
+    WHERE g.presentation_id = p_presentation_id
+  );
+
+  RETURN v_previous;
+END;
+$$ LANGUAGE plpgsql;
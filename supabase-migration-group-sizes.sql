@@ -0,0 +1,150 @@
+-- =====================================================
+-- Migration: Variable Group Sizes
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- Groups have 1-6 students (MIN/MAX_GROUP_STUDENTS in lib/constants.ts).
+-- This migration will add database functions (called with supabase.rpc)
+-- to change the members of an existing group in one transaction:
+-- - add_group_student: new student (and student record) at the end of the
+--   group; in Presentation 1 also added to the group in Presentations 2-4
+-- - remove_group_student: remove a student and their marks; in
+--   Presentation 1 also removed from Presentations 2-4
+-- Locked presentations are left alone, as with group creation. Positions
+-- are renumbered 1..n after a removal.
+-- Requires supabase-migration-student-records.sql.
+-- =====================================================
+
+-- Positions went up to 4
+ALTER TABLE students DROP CONSTRAINT IF EXISTS students_position_check;
+ALTER TABLE students
+ADD CONSTRAINT students_position_check CHECK (position BETWEEN 1 AND 6);
+
+-- Groups of the same number in the year's other presentations, when the
+-- group belongs to Presentation 1 (locked presentations excluded)
+CREATE OR REPLACE FUNCTION sibling_group_ids(p_group_id UUID)
+RETURNS UUID[] AS $$
+  SELECT COALESCE(array_agg(other.id), '{}')
+  FROM groups g
+  JOIN presentations p ON p.id = g.presentation_id
+  JOIN presentations op
+    ON op.academic_year_id = p.academic_year_id
+   AND op.id <> p.id
+   AND right(op.name, 1) IN ('2', '3', '4')
+   AND COALESCE(op.lock_status, 'open') <> 'locked'
+  JOIN groups other
+    ON other.presentation_id = op.id
+   AND other.group_number = g.group_number
+  WHERE g.id = p_group_id
+    AND p.name LIKE '%1';
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION add_group_student(
+  p_group_id UUID,
+  p_student_name TEXT
+)
+RETURNS students AS $$
+DECLARE
+  v_max CONSTANT INTEGER := 6;
+  v_group groups;
+  v_target_id UUID;
+  v_record_id UUID;
+  v_student students;
+  v_added students;
+BEGIN
+  SELECT * INTO v_group FROM groups WHERE id = p_group_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Group not found';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM students WHERE group_id = p_group_id) >= v_max THEN
+    RAISE EXCEPTION 'Group % already has % students', v_group.group_number, v_max;
+  END IF;
+
+  INSERT INTO student_records (full_name)
+  VALUES (p_student_name)
+  RETURNING id INTO v_record_id;
+
+  FOREACH v_target_id IN ARRAY (ARRAY[p_group_id] || sibling_group_ids(p_group_id)) LOOP
+    PERFORM 1 FROM groups WHERE id = v_target_id FOR UPDATE;
+
+    -- A full copy in P2-P4 keeps its members
+    CONTINUE WHEN (SELECT COUNT(*) FROM students WHERE group_id = v_target_id) >= v_max;
+
+    INSERT INTO students (group_id, student_name, position, student_record_id)
+    SELECT v_target_id, p_student_name, COALESCE(MAX(position), 0) + 1, v_record_id
+    FROM students WHERE group_id = v_target_id
+    RETURNING * INTO v_student;
+
+    INSERT INTO evaluations (student_id) VALUES (v_student.id);
+
+    IF v_target_id = p_group_id THEN
+      v_added := v_student;
+    END IF;
+  END LOOP;
+
+  RETURN v_added;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Returns the removed students (with their evaluations) for the audit trail
+CREATE OR REPLACE FUNCTION remove_group_student(p_student_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_student students;
+  v_group_ids UUID[];
+  v_removed JSONB;
+  v_row RECORD;
+BEGIN
+  SELECT * INTO v_student FROM students WHERE id = p_student_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  PERFORM 1 FROM groups WHERE id = v_student.group_id FOR UPDATE;
+
+  IF (SELECT COUNT(*) FROM students WHERE group_id = v_student.group_id) <= 1 THEN
+    RAISE EXCEPTION 'A group needs at least one student; delete the group instead';
+  END IF;
+
+  v_group_ids := ARRAY[v_student.group_id] || sibling_group_ids(v_student.group_id);
+
+  -- The same student in the P2-P4 copies: by record, or by position for
+  -- rows from before student records existed
+  SELECT COALESCE(jsonb_agg(to_jsonb(s) || jsonb_build_object('evaluation', to_jsonb(e))), '[]'::jsonb)
+  INTO v_removed
+  FROM students s
+  LEFT JOIN evaluations e ON e.student_id = s.id
+  WHERE s.group_id = ANY(v_group_ids)
+    AND (
+      s.id = p_student_id
+      OR (v_student.student_record_id IS NOT NULL AND s.student_record_id = v_student.student_record_id)
+      OR (v_student.student_record_id IS NULL AND s.student_record_id IS NULL AND s.position = v_student.position)
+    )
+    AND (SELECT COUNT(*) FROM students o WHERE o.group_id = s.group_id) > 1;
+
+  DELETE FROM students
+  WHERE id IN (SELECT (r->>'id')::UUID FROM jsonb_array_elements(v_removed) r);
+
+  -- Close the gaps lowest first: each student moves down into a place
+  -- already vacated, so unique_position_per_group always holds
+  FOR v_row IN
+    SELECT id, position, ROW_NUMBER() OVER (PARTITION BY group_id ORDER BY position) AS n
+    FROM students
+    WHERE group_id = ANY(v_group_ids)
+    ORDER BY group_id, position
+  LOOP
+    IF v_row.position <> v_row.n THEN
+      UPDATE students SET position = v_row.n WHERE id = v_row.id;
+    END IF;
+  END LOOP;
+
+  RETURN v_removed;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,62 @@
+-- =====================================================
+-- Migration: Guide Marks Not Entered (NULL)
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will:
+-- - drop the DEFAULT 0 from the guide's mark columns on evaluations, so a
+--   new evaluation row reads as "not entered" (NULL) rather than 0 and is
+--   left out when the guide's and external examiners' marks are combined
+-- - clear evaluation rows that were never marked (every mark 0, no extra
+--   marks) to NULL
+-- Run supabase-migration-group-import-reset.sql as well: its
+-- reset_presentation_marks clears marks to NULL.
+-- =====================================================
+
+DO $$
+DECLARE
+  v_column TEXT;
+  v_columns TEXT[] := ARRAY[
+    'problem_identification', 'literature_survey', 'software_engineering',
+    'requirement_analysis', 'srs', 'individual_capacity', 'team_work',
+    'presentation_qa', 'paper_presentation', 'internal_presentation_ii',
+    'identification_module', 'coding', 'understanding',
+    'internal_presentation_iii', 'testing', 'participation_conference',
+    'publication', 'project_report', 'partial_project_report',
+    'internal_presentation_iv'
+  ];
+  v_existing TEXT[];
+  v_untouched TEXT;
+  v_cleared TEXT;
+BEGIN
+  -- Older databases may lack some of the columns
+  SELECT array_agg(column_name::TEXT) INTO v_existing
+  FROM information_schema.columns
+  WHERE table_schema = 'public'
+    AND table_name = 'evaluations'
+    AND column_name = ANY(v_columns);
+
+  FOREACH v_column IN ARRAY v_existing LOOP
+    EXECUTE format('ALTER TABLE evaluations ALTER COLUMN %I DROP DEFAULT', v_column);
+    EXECUTE format('ALTER TABLE evaluations ALTER COLUMN %I DROP NOT NULL', v_column);
+  END LOOP;
+
+  SELECT
+    string_agg(format('COALESCE(%I, 0) = 0', c), ' AND '),
+    string_agg(format('%I = NULL', c), ', ')
+  INTO v_untouched, v_cleared
+  FROM unnest(v_existing) AS c;
+
+  EXECUTE format(
+    'UPDATE evaluations SET %s WHERE %s AND COALESCE(extra_marks, ''{}''::jsonb) = ''{}''::jsonb',
+    v_cleared,
+    v_untouched
+  );
+END;
+$$;
@@ -0,0 +1,59 @@
+-- =====================================================
+-- Migration: Login Throttling & Account Lockout
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add:
+-- - login_attempts: every sign-in attempt with the username tried and the
+--   client IP, used to throttle by username and by IP
+-- - failed_login_count / locked_until on users: consecutive failures and
+--   the end of a temporary lockout (cleared on success or by an admin)
+-- - record_failed_login: counts a failure and applies the lockout in one
+--   UPDATE, so concurrent failed logins cannot lose an increment
+-- The limits live in lib/auth.ts; attempts older than a day are pruned
+-- on each successful login.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS login_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  username VARCHAR(255) NOT NULL,
+  ip_address VARCHAR(64),
+  succeeded BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_username
+  ON login_attempts(username, created_at);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_ip
+  ON login_attempts(ip_address, created_at);
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS failed_login_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Count a failed login, locking the account for p_lockout_minutes on every
+-- p_threshold-th consecutive failure. Returns the new count and whether this
+-- failure locked the account.
+CREATE OR REPLACE FUNCTION record_failed_login(
+  p_user_id UUID,
+  p_threshold INTEGER,
+  p_lockout_minutes INTEGER
+)
+RETURNS TABLE (failed_login_count INTEGER, locked BOOLEAN, locked_until TIMESTAMP WITH TIME ZONE) AS $$
+  UPDATE users u
+  SET
+    failed_login_count = u.failed_login_count + 1,
+    locked_until = CASE
+      WHEN (u.failed_login_count + 1) % p_threshold = 0
+        THEN NOW() + make_interval(mins => p_lockout_minutes)
+      ELSE u.locked_until
+    END
+  WHERE u.id = p_user_id
+  RETURNING u.failed_login_count, u.failed_login_count % p_threshold = 0, u.locked_until;
+$$ LANGUAGE sql;
@@ -0,0 +1,137 @@
+-- =====================================================
+-- Migration: Move a Student Between Groups
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add move_group_student (called with supabase.rpc):
+-- moves a student from one group to another in every presentation of the
+-- academic year that has them, in one transaction. The students rows keep
+-- their ids, so their evaluations and examiner marks move with them. The
+-- student goes to the end of the target group and both groups' positions
+-- are renumbered 1..n.
+-- Requires supabase-migration-group-sizes.sql.
+-- =====================================================
+
+-- Returns one entry per presentation the student was moved in (for the
+-- audit trail)
+CREATE OR REPLACE FUNCTION move_group_student(
+  p_student_id UUID,
+  p_target_group_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_max CONSTANT INTEGER := 6;
+  v_student students;
+  v_source groups;
+  v_target groups;
+  v_year_id UUID;
+  v_member RECORD;
+  v_to_group groups;
+  v_to_position INTEGER;
+  v_count INTEGER;
+  v_row RECORD;
+  v_moves JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_student FROM students WHERE id = p_student_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  SELECT * INTO v_source FROM groups WHERE id = v_student.group_id;
+  SELECT * INTO v_target FROM groups WHERE id = p_target_group_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Target group not found';
+  END IF;
+
+  IF v_target.presentation_id <> v_source.presentation_id THEN
+    RAISE EXCEPTION 'The target group must be in the same presentation';
+  END IF;
+  IF v_target.id = v_source.id THEN
+    RAISE EXCEPTION 'The student is already in Group %', v_target.group_number;
+  END IF;
+
+  SELECT academic_year_id INTO v_year_id
+  FROM presentations WHERE id = v_source.presentation_id;
+
+  -- The same student in each presentation of the year: by student record,
+  -- or by group number and position for rows from before records existed
+  FOR v_member IN
+    SELECT s.id, s.group_id, s.position, p.id AS presentation_id, p.name AS presentation_name,
+           COALESCE(p.lock_status, 'open') AS lock_status
+    FROM students s
+    JOIN groups g ON g.id = s.group_id
+    JOIN presentations p ON p.id = g.presentation_id
+    WHERE p.academic_year_id = v_year_id
+      AND g.group_number = v_source.group_number
+      AND (
+        s.id = p_student_id
+        OR (v_student.student_record_id IS NOT NULL AND s.student_record_id = v_student.student_record_id)
+        OR (v_student.student_record_id IS NULL AND s.student_record_id IS NULL AND s.position = v_student.position)
+      )
+    ORDER BY p.name
+  LOOP
+    IF v_member.lock_status = 'locked' THEN
+      RAISE EXCEPTION '% is locked. Unlock it before moving students', v_member.presentation_name;
+    END IF;
+
+    SELECT * INTO v_to_group FROM groups
+    WHERE presentation_id = v_member.presentation_id
+      AND group_number = v_target.group_number
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Group % does not exist in %', v_target.group_number, v_member.presentation_name;
+    END IF;
+
+    PERFORM 1 FROM groups WHERE id = v_member.group_id FOR UPDATE;
+
+    IF (SELECT COUNT(*) FROM students WHERE group_id = v_member.group_id) <= 1 THEN
+      RAISE EXCEPTION 'Group % in % would have no students left; delete the group instead',
+        v_source.group_number, v_member.presentation_name;
+    END IF;
+
+    SELECT COUNT(*), COALESCE(MAX(position), 0) + 1
+    INTO v_count, v_to_position
+    FROM students WHERE group_id = v_to_group.id;
+    IF v_count >= v_max THEN
+      RAISE EXCEPTION 'Group % in % already has % students',
+        v_target.group_number, v_member.presentation_name, v_max;
+    END IF;
+
+    UPDATE students
+    SET group_id = v_to_group.id, position = v_to_position
+    WHERE id = v_member.id;
+
+    -- Close the gap in the source group lowest first, so
+    -- unique_position_per_group always holds
+    FOR v_row IN
+      SELECT id, position, ROW_NUMBER() OVER (ORDER BY position) AS n
+      FROM students
+      WHERE group_id = v_member.group_id
+      ORDER BY position
+    LOOP
+      IF v_row.position <> v_row.n THEN
+        UPDATE students SET position = v_row.n WHERE id = v_row.id;
+      END IF;
+    END LOOP;
+
+    v_moves := v_moves || jsonb_build_object(
+      'presentation_name', v_member.presentation_name,
+      'student_id', v_member.id,
+      'from_group_id', v_member.group_id,
+      'from_group_number', v_source.group_number,
+      'from_position', v_member.position,
+      'to_group_id', v_to_group.id,
+      'to_group_number', v_target.group_number,
+      'to_position', v_to_position
+    );
+  END LOOP;
+
+  RETURN v_moves;
+END;
+$$ LANGUAGE plpgsql;
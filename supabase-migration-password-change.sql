@@ -0,0 +1,43 @@
+-- =====================================================
+-- Migration: Password Change & Reset
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add:
+-- - must_change_password on users: set when an admin issues a temporary
+--   password (and for the seeded accounts); the app sends the user to the
+--   change-password screen until they pick their own
+-- - a working hash for the seeded admin: the hash shipped in
+--   supabase-auth-setup.sql was a placeholder nobody could log in with.
+--   Log in as admin / admin@123 and choose a new password.
+-- =====================================================
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS must_change_password BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Seeded admin still on the placeholder hash
+UPDATE users
+SET
+  password_hash = '$2a$10$8V4k5MbWgd1qlJZXgC.Hm.PjLYJar9VNjdt70DWQ.2L9LZ7t4zBxy', -- admin@123
+  must_change_password = TRUE
+WHERE username = 'admin'
+  AND password_hash = '$2a$10$W9jZlzJzZlzJzZlzJzZlzZlzJzZlzJzZlzJzZlzJzZlzJzZlzJzZl';
+
+-- Example teachers from SQL_USER_EXAMPLES.sql still on their placeholder hashes
+UPDATE users
+SET
+  password_hash = '$2a$10$YWAHBH81i2mjCfEuHE9GTuFnh9F9syM3bCQ.QWayifL2KaFHB3Pfi', -- pass@123
+  must_change_password = TRUE
+WHERE password_hash = '$2a$10$Y9Z1X8C2B3A4D5E6F7G8H9J0K1L2M3N4O5P6Q7R8S9T0U1V2W3';
+
+UPDATE users
+SET
+  password_hash = '$2a$10$pGbv40SDIvrZdMGLQHRwrOEHDzTrxfspdUiYvMzsouH29hHku.mIa', -- teacher@123
+  must_change_password = TRUE
+WHERE password_hash = '$2a$10$A1B2C3D4E5F6G7H8I9J0K1L2M3N4O5P6Q7R8S9T0U1V2W3X4';
@@ -0,0 +1,23 @@
+-- =====================================================
+-- Migration: Presentation Lock Status
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add:
+-- - lock_status: open (editable), submitted (guides done, admin-only edits),
+--   locked (frozen until an admin unlocks it)
+-- - who changed the status, when, and the reason given for the last unlock
+-- =====================================================
+
+ALTER TABLE presentations
+ADD COLUMN IF NOT EXISTS lock_status VARCHAR(20) NOT NULL DEFAULT 'open'
+  CHECK (lock_status IN ('open', 'submitted', 'locked')),
+ADD COLUMN IF NOT EXISTS lock_changed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS lock_changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS lock_reason TEXT;
@@ -0,0 +1,93 @@
+-- =====================================================
+-- Migration: Published Rubric
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add:
+-- - published_rubric on presentations: the columns and combine rule
+--   (custom_columns, extra_columns, combine_rule, guide_weight) as they were
+--   when the results were published. Official exports and students read the
+--   snapshot with this rubric, and a presentation whose rubric has changed
+--   since shows unpublished changes until it is republished.
+-- - publish_presentation_results: as in
+--   supabase-migration-results-publishing.sql, also storing (or clearing)
+--   published_rubric in the same transaction
+-- Presentations already published take their current rubric.
+-- Requires supabase-migration-results-publishing.sql.
+-- =====================================================
+
+ALTER TABLE presentations
+ADD COLUMN IF NOT EXISTS published_rubric JSONB;
+
+UPDATE presentations
+SET published_rubric = jsonb_build_object(
+  'custom_columns', custom_columns,
+  'extra_columns', extra_columns,
+  'combine_rule', combine_rule,
+  'guide_weight', guide_weight
+)
+WHERE results_published_at IS NOT NULL AND published_rubric IS NULL;
+
+CREATE OR REPLACE FUNCTION publish_presentation_results(
+  p_presentation_id UUID,
+  p_published BOOLEAN,
+  p_published_by UUID
+)
+RETURNS presentations AS $$
+DECLARE
+  v_presentation presentations;
+  v_published_at TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  -- Serialises publishing per presentation
+  SELECT * INTO v_presentation FROM presentations WHERE id = p_presentation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Presentation not found';
+  END IF;
+
+  DELETE FROM published_evaluations WHERE presentation_id = p_presentation_id;
+
+  IF p_published THEN
+    INSERT INTO published_evaluations (presentation_id, student_id, evaluation, published_at)
+    SELECT
+      p_presentation_id,
+      s.id,
+      COALESCE(to_jsonb(e), '{}'::jsonb) || COALESCE(
+        (
+          SELECT jsonb_build_object('examiner_marks', jsonb_agg(to_jsonb(m)))
+          FROM examiner_marks m
+          JOIN presentation_examiners pe
+            ON pe.user_id = m.examiner_id AND pe.presentation_id = p_presentation_id
+          WHERE m.student_id = s.id
+          HAVING COUNT(*) > 0
+        ),
+        '{}'::jsonb
+      ),
+      v_published_at
+    FROM students s
+    JOIN groups g ON g.id = s.group_id
+    LEFT JOIN evaluations e ON e.student_id = s.id
+    WHERE g.presentation_id = p_presentation_id;
+  END IF;
+
+  UPDATE presentations
+  SET
+    results_published_at = CASE WHEN p_published THEN v_published_at END,
+    results_published_by = CASE WHEN p_published THEN p_published_by END,
+    published_rubric = CASE WHEN p_published THEN jsonb_build_object(
+      'custom_columns', custom_columns,
+      'extra_columns', extra_columns,
+      'combine_rule', combine_rule,
+      'guide_weight', guide_weight
+    ) END
+  WHERE id = p_presentation_id
+  RETURNING * INTO v_presentation;
+
+  RETURN v_presentation;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,95 @@
+-- =====================================================
+-- Migration: Realtime Grid Updates
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will:
+-- - publish changes to groups over Supabase Realtime (clients filter them
+--   by presentation_id)
+-- - broadcast changes to evaluations and students from triggers, only on
+--   the topic of the presentation they belong to ("presentation:<id>"), so
+--   an open grid never receives other presentations' rows
+-- =====================================================
+
+-- Evaluations and students are not published table-wide (a database that
+-- ran an earlier version of this file has them published)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'groups'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE groups;
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'evaluations'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE evaluations;
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'students'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE students;
+  END IF;
+END;
+$$;
+
+-- Send a changed evaluation or student row to its presentation's topic as
+-- {eventType, record}; the event is the table name. Pasted images are left
+-- out of evaluations to keep messages small.
+CREATE OR REPLACE FUNCTION broadcast_grid_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_row RECORD;
+  v_record JSONB;
+  v_presentation_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'students' THEN
+    v_record := to_jsonb(v_row);
+    SELECT presentation_id INTO v_presentation_id
+    FROM groups WHERE id = v_row.group_id;
+  ELSE
+    v_record := to_jsonb(v_row) - 'pasted_image_1' - 'pasted_image_2';
+    SELECT g.presentation_id INTO v_presentation_id
+    FROM students s
+    JOIN groups g ON g.id = s.group_id
+    WHERE s.id = v_row.student_id;
+  END IF;
+
+  -- Rows removed along with their group are covered by the group change
+  IF v_presentation_id IS NOT NULL THEN
+    PERFORM realtime.send(
+      jsonb_build_object('eventType', TG_OP, 'record', v_record),
+      TG_TABLE_NAME,
+      'presentation:' || v_presentation_id,
+      FALSE
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS broadcast_evaluation_change ON evaluations;
+CREATE TRIGGER broadcast_evaluation_change
+  AFTER INSERT OR UPDATE OR DELETE ON evaluations
+  FOR EACH ROW EXECUTE FUNCTION broadcast_grid_change();
+
+DROP TRIGGER IF EXISTS broadcast_student_change ON students;
+CREATE TRIGGER broadcast_student_change
+  AFTER INSERT OR UPDATE OR DELETE ON students
+  FOR EACH ROW EXECUTE FUNCTION broadcast_grid_change();
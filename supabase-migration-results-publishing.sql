@@ -0,0 +1,89 @@
+-- =====================================================
+-- Migration: Results Publishing (Draft / Published)
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add:
+-- - published_evaluations: the snapshot of every student's evaluation
+--   (with the examiners' sheets) taken when a presentation's results are
+--   published. Students and official exports read the snapshot; marks
+--   changed afterwards stay in draft until the results are republished.
+-- - publish_presentation_results: replaces the snapshot and sets (or
+--   clears) results_published_at in one transaction, so a failure never
+--   leaves a presentation with a missing or half-written snapshot
+-- Requires supabase-migration-student-portal.sql and
+-- supabase-migration-examiners.sql.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS published_evaluations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  presentation_id UUID NOT NULL REFERENCES presentations(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  evaluation JSONB NOT NULL DEFAULT '{}'::jsonb,
+  published_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (presentation_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_published_evaluations_presentation
+  ON published_evaluations(presentation_id);
+
+-- Publish (p_published) or withdraw a presentation's results. Publishing
+-- snapshots each student's evaluation with the sheets of the presentation's
+-- examiners attached as examiner_marks, as the app loads them.
+CREATE OR REPLACE FUNCTION publish_presentation_results(
+  p_presentation_id UUID,
+  p_published BOOLEAN,
+  p_published_by UUID
+)
+RETURNS presentations AS $$
+DECLARE
+  v_presentation presentations;
+  v_published_at TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  -- Serialises publishing per presentation
+  SELECT * INTO v_presentation FROM presentations WHERE id = p_presentation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Presentation not found';
+  END IF;
+
+  DELETE FROM published_evaluations WHERE presentation_id = p_presentation_id;
+
+  IF p_published THEN
+    INSERT INTO published_evaluations (presentation_id, student_id, evaluation, published_at)
+    SELECT
+      p_presentation_id,
+      s.id,
+      COALESCE(to_jsonb(e), '{}'::jsonb) || COALESCE(
+        (
+          SELECT jsonb_build_object('examiner_marks', jsonb_agg(to_jsonb(m)))
+          FROM examiner_marks m
+          JOIN presentation_examiners pe
+            ON pe.user_id = m.examiner_id AND pe.presentation_id = p_presentation_id
+          WHERE m.student_id = s.id
+          HAVING COUNT(*) > 0
+        ),
+        '{}'::jsonb
+      ),
+      v_published_at
+    FROM students s
+    JOIN groups g ON g.id = s.group_id
+    LEFT JOIN evaluations e ON e.student_id = s.id
+    WHERE g.presentation_id = p_presentation_id;
+  END IF;
+
+  UPDATE presentations
+  SET
+    results_published_at = CASE WHEN p_published THEN v_published_at END,
+    results_published_by = CASE WHEN p_published THEN p_published_by END
+  WHERE id = p_presentation_id
+  RETURNING * INTO v_presentation;
+
+  RETURN v_presentation;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,24 @@
+-- =====================================================
+-- Migration: Coordinator, HOD, External Examiner & Observer Roles
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will allow four more values in users.role:
+-- - coordinator: project coordinator; runs groups, marks and locking for the
+--   whole department but does not manage users
+-- - hod: head of department; views, locks and exports everything
+-- - external_examiner: marks only presentations they are assigned to
+-- - observer: read-only access to every presentation and report
+-- What each role may do is decided in lib/permissions.ts.
+-- =====================================================
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users
+ADD CONSTRAINT users_role_check
+CHECK (role IN ('admin', 'coordinator', 'hod', 'teacher', 'external_examiner', 'observer'));
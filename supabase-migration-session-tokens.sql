@@ -0,0 +1,8 @@
+-- Store session tokens hashed (SHA-256 hex) instead of raw.
+-- Existing raw-token sessions cannot be converted, so everyone signs in again.
+DELETE FROM user_sessions;
+
+DROP INDEX IF EXISTS idx_sessions_token;
+ALTER TABLE user_sessions RENAME COLUMN token TO token_hash;
+ALTER TABLE user_sessions ALTER COLUMN token_hash TYPE VARCHAR(64);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sessions_token_hash ON user_sessions(token_hash);
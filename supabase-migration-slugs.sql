@@ -0,0 +1,103 @@
+-- =====================================================
+-- Migration: Stored URL Slugs
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add:
+-- - slug on academic_years ("2025-26") and presentations ("2025-26-p3"),
+--   unique and indexed; a "-2", "-3", ... suffix is added on collision
+-- - legacy_slug on both tables: the old 3-character code derived from the
+--   id, kept so existing bookmarks can be looked up and redirected
+-- =====================================================
+
+ALTER TABLE academic_years
+ADD COLUMN IF NOT EXISTS slug VARCHAR(80),
+ADD COLUMN IF NOT EXISTS legacy_slug VARCHAR(3);
+
+ALTER TABLE presentations
+ADD COLUMN IF NOT EXISTS slug VARCHAR(80),
+ADD COLUMN IF NOT EXISTS legacy_slug VARCHAR(3);
+
+-- Same result as generateSlug() in lib/slugs.ts: the first 8 hex digits of
+-- the id in upper-case base36, padded to 2 and truncated to 3 characters
+CREATE OR REPLACE FUNCTION legacy_short_slug(p_id UUID)
+RETURNS VARCHAR AS $$
+DECLARE
+  digits CONSTANT TEXT := '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+  n BIGINT := ('x' || substr(replace(p_id::text, '-', ''), 1, 8))::bit(32)::bigint;
+  result TEXT := '';
+BEGIN
+  LOOP
+    result := substr(digits, (n % 36)::int + 1, 1) || result;
+    n := n / 36;
+    EXIT WHEN n = 0;
+  END LOOP;
+  RETURN substr(lpad(result, 2, '0'), 1, 3);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+UPDATE academic_years SET legacy_slug = legacy_short_slug(id) WHERE legacy_slug IS NULL;
+UPDATE presentations SET legacy_slug = legacy_short_slug(id) WHERE legacy_slug IS NULL;
+
+-- Academic years: "<start>-<yy of end>", oldest row keeps the plain slug
+WITH ranked AS (
+  SELECT
+    id,
+    start_year || '-' || lpad((end_year % 100)::text, 2, '0') AS base,
+    ROW_NUMBER() OVER (
+      PARTITION BY start_year, end_year
+      ORDER BY created_at, id
+    ) AS n
+  FROM academic_years
+  WHERE slug IS NULL
+)
+UPDATE academic_years a
+SET slug = CASE WHEN r.n = 1 THEN r.base ELSE r.base || '-' || r.n END
+FROM ranked r
+WHERE a.id = r.id;
+
+-- Presentations: "<year slug>-p<number>", or the name slugified when it
+-- does not end in a number
+WITH bases AS (
+  SELECT
+    p.id,
+    p.created_at,
+    COALESCE(y.slug, 'presentation') || '-' || COALESCE(
+      'p' || substring(p.name FROM '(\d+)\s*$'),
+      NULLIF(trim(BOTH '-' FROM lower(regexp_replace(p.name, '[^a-zA-Z0-9]+', '-', 'g'))), ''),
+      'presentation'
+    ) AS base
+  FROM presentations p
+  LEFT JOIN academic_years y ON y.id = p.academic_year_id
+  WHERE p.slug IS NULL
+),
+ranked AS (
+  SELECT
+    id,
+    base,
+    ROW_NUMBER() OVER (PARTITION BY base ORDER BY created_at, id) AS n
+  FROM bases
+)
+UPDATE presentations p
+SET slug = CASE WHEN r.n = 1 THEN r.base ELSE r.base || '-' || r.n END
+FROM ranked r
+WHERE p.id = r.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_academic_years_slug ON academic_years(slug);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_presentations_slug ON presentations(slug);
+CREATE INDEX IF NOT EXISTS idx_academic_years_legacy_slug ON academic_years(legacy_slug);
+CREATE INDEX IF NOT EXISTS idx_presentations_legacy_slug ON presentations(legacy_slug);
+
+-- =====================================================
+-- Verification Queries (Optional - run these to verify)
+-- =====================================================
+
+-- Check the generated slugs:
+-- SELECT name, slug, legacy_slug FROM academic_years ORDER BY start_year;
+-- SELECT p.name, p.slug, p.legacy_slug FROM presentations p ORDER BY p.slug;
@@ -0,0 +1,36 @@
+-- =====================================================
+-- Migration: Student Results Portal
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add:
+-- - a student role: a login tied to one student master record, which only
+--   sees that student's own results
+-- - student_record_id on users: the record a student login belongs to
+--   (one login per record)
+-- - results_published_at / results_published_by on presentations: marks
+--   stay hidden from students until the presentation's results are published
+-- Requires supabase-migration-student-records.sql and
+-- supabase-migration-roles.sql.
+-- =====================================================
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users
+ADD CONSTRAINT users_role_check
+CHECK (role IN ('admin', 'coordinator', 'hod', 'teacher', 'external_examiner', 'observer', 'student'));
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS student_record_id UUID REFERENCES student_records(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_student_record
+  ON users(student_record_id) WHERE student_record_id IS NOT NULL;
+
+ALTER TABLE presentations
+ADD COLUMN IF NOT EXISTS results_published_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS results_published_by UUID REFERENCES users(id) ON DELETE SET NULL;
@@ -0,0 +1,268 @@
+-- =====================================================
+-- Migration: Student Master Records
+-- =====================================================
+--
+-- Instructions:
+-- 1. Go to your Supabase project dashboard
+-- 2. Click on "SQL Editor" in the left sidebar
+-- 3. Click "New Query"
+-- 4. Copy and paste this entire file
+-- 5. Click "Run" to execute
+--
+-- This migration will add:
+-- - student_records: one row per real student (roll number, PRN, name,
+--   email, division), independent of groups and presentations
+-- - student_record_id on students: every group membership in P1-P4 (and in
+--   later years) points at the student's record
+-- - a backfill linking existing students: the students at the same group
+--   number and position in a year's presentations share one record, named
+--   after the Presentation 1 entry
+-- - new versions of the group functions that create a record per new
+--   student and hand the same records to the P2-P4 copies
+-- Requires supabase-migration-group-functions.sql.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS student_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  full_name VARCHAR(255) NOT NULL,
+  roll_number VARCHAR(50),
+  prn VARCHAR(50),
+  email VARCHAR(255),
+  division VARCHAR(20),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_student_records_prn
+  ON student_records(prn) WHERE prn IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_student_records_roll_number
+  ON student_records(roll_number);
+
+CREATE TRIGGER update_student_records_updated_at
+  BEFORE UPDATE ON student_records
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE students
+ADD COLUMN IF NOT EXISTS student_record_id UUID REFERENCES student_records(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_students_student_record
+  ON students(student_record_id);
+
+-- =====================================================
+-- Backfill
+-- =====================================================
+
+-- One record per (academic year, group number, position), numbered in
+-- presentation order so the Presentation 1 name wins
+DO $$
+DECLARE
+  v_slot RECORD;
+  v_record_id UUID;
+BEGIN
+  FOR v_slot IN
+    SELECT DISTINCT ON (p.academic_year_id, g.group_number, s.position)
+      p.academic_year_id, g.group_number, s.position, s.student_name
+    FROM students s
+    JOIN groups g ON g.id = s.group_id
+    JOIN presentations p ON p.id = g.presentation_id
+    WHERE s.student_record_id IS NULL
+    ORDER BY p.academic_year_id, g.group_number, s.position, p.name, s.created_at
+  LOOP
+    INSERT INTO student_records (full_name)
+    VALUES (v_slot.student_name)
+    RETURNING id INTO v_record_id;
+
+    UPDATE students s
+    SET student_record_id = v_record_id
+    FROM groups g, presentations p
+    WHERE g.id = s.group_id
+      AND p.id = g.presentation_id
+      AND p.academic_year_id = v_slot.academic_year_id
+      AND g.group_number = v_slot.group_number
+      AND s.position = v_slot.position
+      AND s.student_record_id IS NULL;
+  END LOOP;
+END;
+$$;
+
+-- =====================================================
+-- Group functions
+-- =====================================================
+
+-- The signatures change (record ids are passed along), so drop the old ones
+DROP FUNCTION IF EXISTS insert_group_with_students(UUID, INTEGER, TEXT, UUID, UUID, TEXT[]);
+DROP FUNCTION IF EXISTS create_group_with_students(UUID, TEXT, UUID, UUID, TEXT[], INTEGER, BOOLEAN);
+
+-- Insert one group with its students and an empty evaluation per student.
+-- p_record_ids[i] links student i to an existing record; a NULL (or a
+-- missing entry) creates a new record from the name.
+CREATE OR REPLACE FUNCTION insert_group_with_students(
+  p_presentation_id UUID,
+  p_group_number INTEGER,
+  p_guide_name TEXT,
+  p_guide_user_id UUID,
+  p_created_by UUID,
+  p_students TEXT[],
+  p_record_ids UUID[] DEFAULT NULL
+)
+RETURNS groups AS $$
+DECLARE
+  v_group groups;
+  v_name TEXT;
+  v_position INTEGER;
+  v_record_id UUID;
+BEGIN
+  INSERT INTO groups (presentation_id, group_number, guide_name, guide_user_id, created_by_user_id)
+  VALUES (p_presentation_id, p_group_number, p_guide_name, p_guide_user_id, p_created_by)
+  RETURNING * INTO v_group;
+
+  FOR v_name, v_position IN
+    SELECT s.name, s.ord FROM unnest(p_students) WITH ORDINALITY AS s(name, ord)
+  LOOP
+    v_record_id := p_record_ids[v_position];
+
+    IF v_record_id IS NULL THEN
+      INSERT INTO student_records (full_name)
+      VALUES (v_name)
+      RETURNING id INTO v_record_id;
+    END IF;
+
+    INSERT INTO students (group_id, student_name, position, student_record_id)
+    VALUES (v_group.id, v_name, v_position, v_record_id);
+  END LOOP;
+
+  INSERT INTO evaluations (student_id)
+  SELECT id FROM students WHERE group_id = v_group.id;
+
+  RETURN v_group;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a group in a presentation. In Presentation 1 the same group is
+-- created in the year's Presentations 2-4 (locked ones, and ones that
+-- already have that group number, are left alone), linked to the same
+-- student records. Without p_group_number the next number free in all of
+-- them is used.
+CREATE OR REPLACE FUNCTION create_group_with_students(
+  p_presentation_id UUID,
+  p_guide_name TEXT,
+  p_guide_user_id UUID,
+  p_created_by UUID,
+  p_students TEXT[],
+  p_group_number INTEGER DEFAULT NULL,
+  p_propagate BOOLEAN DEFAULT TRUE,
+  p_record_ids UUID[] DEFAULT NULL
+)
+RETURNS groups AS $$
+DECLARE
+  v_presentation presentations;
+  v_sibling_ids UUID[] := '{}';
+  v_sibling_id UUID;
+  v_number INTEGER;
+  v_group groups;
+  v_record_ids UUID[];
+BEGIN
+  -- Serialises group creation per presentation so numbers cannot race
+  SELECT * INTO v_presentation FROM presentations WHERE id = p_presentation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Presentation not found';
+  END IF;
+
+  IF p_propagate AND v_presentation.name LIKE '%1' THEN
+    SELECT COALESCE(array_agg(id ORDER BY name), '{}') INTO v_sibling_ids
+    FROM presentations
+    WHERE academic_year_id = v_presentation.academic_year_id
+      AND id <> v_presentation.id
+      AND right(name, 1) IN ('2', '3', '4')
+      AND COALESCE(lock_status, 'open') <> 'locked';
+
+    PERFORM 1 FROM presentations WHERE id = ANY(v_sibling_ids) FOR UPDATE;
+  END IF;
+
+  v_number := COALESCE(
+    p_group_number,
+    (SELECT COALESCE(MAX(group_number), 0) + 1
+     FROM groups
+     WHERE presentation_id = p_presentation_id OR presentation_id = ANY(v_sibling_ids))
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM groups
+    WHERE presentation_id = p_presentation_id AND group_number = v_number
+  ) THEN
+    RAISE EXCEPTION 'Group % already exists in %', v_number, v_presentation.name;
+  END IF;
+
+  v_group := insert_group_with_students(
+    p_presentation_id, v_number, p_guide_name, p_guide_user_id, p_created_by, p_students, p_record_ids
+  );
+
+  -- The copies share the records just created (or passed in)
+  SELECT COALESCE(array_agg(student_record_id ORDER BY position), '{}') INTO v_record_ids
+  FROM students WHERE group_id = v_group.id;
+
+  FOREACH v_sibling_id IN ARRAY v_sibling_ids LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM groups
+      WHERE presentation_id = v_sibling_id AND group_number = v_number
+    ) THEN
+      PERFORM insert_group_with_students(
+        v_sibling_id, v_number, p_guide_name, p_guide_user_id, p_created_by, p_students, v_record_ids
+      );
+    END IF;
+  END LOOP;
+
+  RETURN v_group;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Copy the source's groups that the target does not have yet (same group
+-- number, guide and student records; marks start empty). p_guide_user_id
+-- limits the copy to one guide's groups. Returns the number of groups copied.
+CREATE OR REPLACE FUNCTION copy_groups(
+  p_source_presentation_id UUID,
+  p_target_presentation_id UUID,
+  p_guide_user_id UUID DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_group groups;
+  v_students TEXT[];
+  v_record_ids UUID[];
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_group IN
+    SELECT * FROM groups g
+    WHERE g.presentation_id = p_source_presentation_id
+      AND (p_guide_user_id IS NULL OR g.guide_user_id = p_guide_user_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM groups t
+        WHERE t.presentation_id = p_target_presentation_id
+          AND t.group_number = g.group_number
+      )
+    ORDER BY g.group_number
+  LOOP
+    SELECT
+      COALESCE(array_agg(student_name ORDER BY position), '{}'),
+      COALESCE(array_agg(student_record_id ORDER BY position), '{}')
+    INTO v_students, v_record_ids
+    FROM students WHERE group_id = v_group.id;
+
+    PERFORM create_group_with_students(
+      p_target_presentation_id,
+      v_group.guide_name,
+      v_group.guide_user_id,
+      p_created_by,
+      v_students,
+      v_group.group_number,
+      TRUE,
+      v_record_ids
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;